@@ -13,6 +13,7 @@ import { Slider } from '@/ui/Slider';
 
 const MODES: DatasetMode[] = [
   'planar-straight',
+  'planar-grid',
   'orthogonal',
   'planarization-straight',
   'planarization-orthogonal',
@@ -5,8 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
-import { presets } from '@/components/demo/graph-model';
-import type { GraphState } from '@/components/demo/graph-model';
+import { generateGraphState, generatorFamilies, presets } from '@/components/demo/graph-model';
+import type { GeneratorFamily, GraphState } from '@/components/demo/graph-model';
 import { Trash2 } from 'lucide-react';
 
 export type GraphEditorProps = {
@@ -33,6 +33,9 @@ export function GraphEditor({
   const [compact, setCompact] = useState(false);
   const [pendingNodeId, setPendingNodeId] = useState<number | null>(null);
   const [pendingEdgeId, setPendingEdgeId] = useState<number | null>(null);
+  const [family, setFamily] = useState<GeneratorFamily>('triangulation');
+  const [generateSize, setGenerateSize] = useState(12);
+  const [generateSeed, setGenerateSeed] = useState(1);
 
   const normalizeSelection = (
     nodes: Array<{ id: number }>,
@@ -150,11 +153,22 @@ export function GraphEditor({
   };
 
   const applyPreset = (key: keyof typeof presets) => {
+    loadPreset(presets[key]);
+  };
+
+  const generate = () => {
+    try {
+      loadPreset(generateGraphState(family, generateSize, generateSeed));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unable to generate graph');
+    }
+  };
+
+  const loadPreset = (preset: GraphState) => {
     if (dirty) {
       const ok = window.confirm('Switching presets will discard your current edits. Continue?');
       if (!ok) return;
     }
-    const preset = presets[key];
     const directed = state.directed;
     const selection = normalizeSelection(preset.nodes, source, target);
     setDirty(false);
@@ -238,6 +252,50 @@ export function GraphEditor({
           </select>
         </div>
 
+        <div>
+          <div className="text-[11px] uppercase text-muted-foreground">Generate</div>
+          <div className="mt-1 grid gap-2 md:grid-cols-[2fr_1fr_1fr_auto]">
+            <select
+              className="w-full rounded-md border bg-background px-2 py-1"
+              id="generate-family"
+              name="generateFamily"
+              value={family}
+              onChange={(event) => setFamily(event.target.value as GeneratorFamily)}
+            >
+              {(Object.keys(generatorFamilies) as GeneratorFamily[]).map((key) => (
+                <option key={key} value={key}>{generatorFamilies[key]}</option>
+              ))}
+            </select>
+            <label className="grid gap-1">
+              <span className="text-[10px] uppercase text-muted-foreground">Nodes</span>
+              <input
+                className="w-full rounded-md border bg-background px-2 py-1"
+                id="generate-size"
+                name="generateSize"
+                type="number"
+                min={3}
+                max={200}
+                value={generateSize}
+                onChange={(event) => setGenerateSize(Math.min(200, Math.max(3, Number(event.target.value) || 3)))}
+              />
+            </label>
+            <label className="grid gap-1">
+              <span className="text-[10px] uppercase text-muted-foreground">Seed</span>
+              <input
+                className="w-full rounded-md border bg-background px-2 py-1"
+                id="generate-seed"
+                name="generateSeed"
+                type="number"
+                value={generateSeed}
+                onChange={(event) => setGenerateSeed(Math.trunc(Number(event.target.value) || 0))}
+              />
+            </label>
+            <Button size="sm" variant="outline" className="self-end" onClick={generate}>
+              Generate
+            </Button>
+          </div>
+        </div>
+
         <div>
           <div className="text-[11px] uppercase text-muted-foreground">Add edge</div>
           <div className="mt-1 grid gap-2 md:grid-cols-2">
@@ -1,4 +1,15 @@
 import { GraphBuilder } from '@khalidsaidi/topoloom/graph';
+import type { Graph } from '@khalidsaidi/topoloom/graph';
+import {
+  grid,
+  kuratowskiSubdivision,
+  nearPlanar,
+  randomKTree,
+  randomPlanar,
+  randomTriangulation,
+  seriesParallel,
+  torus,
+} from '@khalidsaidi/topoloom/generators';
 
 export type GraphNode = {
   id: number;
@@ -213,6 +224,72 @@ export const presets = {
   ),
 } as const;
 
+export const generatorFamilies = {
+  grid: 'Grid',
+  torus: 'Torus',
+  triangulation: 'Random triangulation',
+  delaunay: 'Random planar (Delaunay)',
+  seriesParallel: 'Series-parallel',
+  k5: 'K5 subdivision',
+  k33: 'K3,3 subdivision',
+  kTree: 'Random 2-tree',
+  nearPlanar: 'Near-planar (+2 edges)',
+} as const;
+
+export type GeneratorFamily = keyof typeof generatorFamilies;
+
+// Generated graphs keep their x/y attributes when they have them and go on a circle otherwise.
+export function fromTopoGraph(graph: Graph): GraphState {
+  const n = graph.vertexCount();
+  const coords = graph.vertices().map((v) => {
+    const { x, y } = graph.vertexAttributes(v);
+    if (typeof x === 'number' && typeof y === 'number') return { x, y };
+    const angle = (2 * Math.PI * v) / Math.max(1, n);
+    return { x: Math.cos(angle), y: Math.sin(angle) };
+  });
+  const xs = coords.map((point) => point.x);
+  const ys = coords.map((point) => point.y);
+  const span = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys), 1e-9);
+  const cx = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const cy = (Math.max(...ys) + Math.min(...ys)) / 2;
+  return createGraphState(
+    coords.map((point, id) => ({
+      id,
+      x: ((point.x - cx) / span) * 160,
+      y: ((point.y - cy) / span) * 160,
+    })),
+    graph.edges().map((edge) => ({ source: edge.u, target: edge.v })),
+  );
+}
+
+export function generateGraphState(family: GeneratorFamily, size: number, seed: number): GraphState {
+  const n = Math.max(3, Math.floor(size));
+  const side = Math.max(3, Math.round(Math.sqrt(n)));
+  const graph = (() => {
+    switch (family) {
+      case 'grid':
+        return grid(side, Math.ceil(n / side));
+      case 'torus':
+        return torus(side, Math.max(3, Math.ceil(n / side)));
+      case 'triangulation':
+        return randomTriangulation(n, { seed });
+      case 'delaunay':
+        return randomPlanar(n, { seed, method: 'delaunay' });
+      case 'seriesParallel':
+        return seriesParallel(n, { seed });
+      case 'k5':
+        return kuratowskiSubdivision('K5', Math.max(0, n - 5), { seed });
+      case 'k33':
+        return kuratowskiSubdivision('K33', Math.max(0, n - 6), { seed });
+      case 'kTree':
+        return randomKTree(n, 2, { seed });
+      case 'nearPlanar':
+        return nearPlanar(Math.max(6, n), 2, { seed });
+    }
+  })();
+  return fromTopoGraph(graph);
+}
+
 export function toTopoGraph(state: GraphState, options?: GraphBuildOptions) {
   const builder = new GraphBuilder();
   const idMap = new Map<number, number>();
@@ -34,6 +34,7 @@ export type ControlsPanelProps = {
 
 const MODES: DatasetMode[] = [
   'planar-straight',
+  'planar-grid',
   'orthogonal',
   'planarization-straight',
   'planarization-orthogonal',
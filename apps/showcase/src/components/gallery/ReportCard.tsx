@@ -45,6 +45,9 @@ export function ReportCard({ result }: ReportCardProps) {
             {result.planarity.witness
               ? ` • witness: ${result.planarity.witness.kind} (${result.planarity.witness.edgePairs.length} edges)`
               : ''}
+            {result.report.skewnessLowerBound !== undefined
+              ? ` • skewness ≥ ${result.report.skewnessLowerBound}`
+              : ''}
           </div>
         </section>
 
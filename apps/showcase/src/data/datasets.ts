@@ -1,5 +1,6 @@
 export type DatasetMode =
   | 'planar-straight'
+  | 'planar-grid'
   | 'orthogonal'
   | 'planarization-straight'
   | 'planarization-orthogonal';
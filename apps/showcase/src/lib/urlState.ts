@@ -3,6 +3,7 @@ import type { BoundarySelection } from '@/lib/workerClient';
 
 const MODES: DatasetMode[] = [
   'planar-straight',
+  'planar-grid',
   'orthogonal',
   'planarization-straight',
   'planarization-orthogonal',
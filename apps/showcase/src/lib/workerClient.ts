@@ -1,3 +1,5 @@
+import { CsrGraph, type CsrGraphData } from '@khalidsaidi/topoloom/graph';
+
 import type { DatasetMode } from '@/data/datasets';
 
 export type BoundarySelection = 'auto' | 'largest' | 'medium' | 'small' | 'geo-shaped';
@@ -21,6 +23,8 @@ export type WorkerPartial =
       kind: 'witness';
       witnessKind: 'K5' | 'K33' | 'unknown';
       edges: [number, number][];
+      branchVertices?: number[];
+      paths?: [number, number][][];
     }
   | {
       kind: 'faces';
@@ -42,6 +46,8 @@ export type WorkerComputePayload = {
   sampleId: string;
   nodes: string[];
   edges: [number, number][];
+  // The full graph as CSR arrays; compute() fills it in and transfers the buffers to the worker.
+  graph?: CsrGraphData;
   geographic?: {
     x: number[];
     y: number[];
@@ -67,13 +73,21 @@ export type WorkerResult = {
   sampledStats: { nodes: number; edges: number; components: number; maxDegree: number };
   planarity: {
     isPlanar: boolean;
-    witness?: { kind: 'K5' | 'K33' | 'unknown'; edgePairs: [number, number][]; edgeIds?: number[] };
+    witness?: {
+      kind: 'K5' | 'K33' | 'unknown';
+      edgePairs: [number, number][];
+      edgeIds?: number[];
+      // K5: pairs of branchVertices in order; K3,3: first three to last three, row by row.
+      branchVertices?: number[];
+      paths?: [number, number][][];
+    };
     embeddingAvailable: boolean;
   };
   report: {
     faces?: { count: number; sizes: number[] };
     biconnected: { blocks: number; articulationPoints: number; bridges: number };
     spqr?: { nodes: number; counts: { S: number; P: number; R: number; Q: number } };
+    skewnessLowerBound?: number;
   };
   layout: {
     mode: string;
@@ -132,6 +146,16 @@ type PendingRequest = {
   cleanupAbort?: () => void;
 };
 
+// Out-of-range endpoints and self-loops play no part in sampling.
+export function toCsrGraph(nodeCount: number, edges: [number, number][]) {
+  const valid = edges.filter(([u, v]) => u >= 0 && v >= 0 && u < nodeCount && v < nodeCount && u !== v);
+  return CsrGraph.fromEdges(
+    nodeCount,
+    valid.map(([u]) => u),
+    valid.map(([, v]) => v),
+  );
+}
+
 let requestCounter = 0;
 
 function makeRequestId() {
@@ -228,12 +252,14 @@ export class TopoloomWorkerClient {
         }
       }
 
+      // Large datasets would be slow to clone as edge tuples, so the edges travel as CSR buffers.
+      const graph = toCsrGraph(payload.nodes.length, payload.edges).toData();
       const message: WorkerRequestMessage = {
         type: 'compute',
         requestId,
-        payload,
+        payload: { ...payload, edges: [], graph },
       };
-      this.worker.postMessage(message);
+      this.worker.postMessage(message, CsrGraph.transferList(graph));
     });
   }
 
@@ -45,6 +45,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/ui/Tabs';
 
 const MODE_ORDER: DatasetMode[] = [
   'planar-straight',
+  'planar-grid',
   'orthogonal',
   'planarization-straight',
   'planarization-orthogonal',
@@ -349,7 +350,7 @@ function layoutModeForDisplay(mode: DatasetMode, planar: boolean) {
     if (mode === 'planarization-orthogonal') return 'orthogonal';
     return mode;
   }
-  if (mode === 'planar-straight') return 'planarization-straight';
+  if (mode === 'planar-straight' || mode === 'planar-grid') return 'planarization-straight';
   if (mode === 'orthogonal') return 'planarization-orthogonal';
   return mode;
 }
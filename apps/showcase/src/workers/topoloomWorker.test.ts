@@ -3,6 +3,23 @@ import { describe, expect, it, vi } from 'vitest';
 vi.mock(
   '@khalidsaidi/topoloom/graph',
   () => ({
+    CsrGraph: class {
+      private lists: number[][] = [];
+
+      static fromEdges(nodeCount: number, edgeU: number[], edgeV: number[]) {
+        const graph = new this();
+        graph.lists = Array.from({ length: nodeCount }, () => []);
+        edgeU.forEach((u, e) => {
+          graph.lists[u]?.push(edgeV[e] ?? u);
+          graph.lists[edgeV[e] ?? u]?.push(u);
+        });
+        return graph;
+      }
+
+      neighbors(v: number) {
+        return this.lists[v] ?? [];
+      }
+    },
     GraphBuilder: class {
       private labels: string[] = [];
 
@@ -33,11 +50,14 @@ vi.mock(
 vi.mock(
   '@khalidsaidi/topoloom/planarity',
   () => ({
+    skewnessLowerBound: () => 1,
     testPlanarity: () => ({
       planar: false,
       witness: {
         type: 'K5',
         edges: [0],
+        branchVertices: [0, 1],
+        paths: [{ ends: [0, 1], vertices: [0, 1], edges: [0] }],
       },
     }),
   }),
@@ -71,6 +91,14 @@ vi.mock(
       edges: [{ edge: 0, points: [{ x: 0, y: 0 }, { x: 10, y: 0 }] }],
       stats: { bends: 1, crossings: 0 },
     }),
+    planarGridDrawing: () => ({
+      positions: new Map<number, { x: number; y: number }>([
+        [0, { x: 0, y: 0 }],
+        [1, { x: 1, y: 0 }],
+      ]),
+      edges: [{ edge: 0, points: [{ x: 0, y: 0 }, { x: 1, y: 0 }] }],
+      stats: { bends: 0, crossings: 0 },
+    }),
     planarizationLayout: () => ({
       layout: {
         positions: new Map<number, { x: number; y: number }>([
@@ -136,6 +164,8 @@ describe('topoloomWorker computeWorkerResult', () => {
     expect(result.layout.positions.length).toBeGreaterThan(0);
     expect(result.planarity.embeddingAvailable).toBe(false);
     expect(result.planarity.witness?.kind).toBe('K5');
+    expect(result.planarity.witness?.paths).toEqual([[[0, 1]]]);
+    expect(result.report.skewnessLowerBound).toBe(1);
     expect(() => structuredClone(result)).not.toThrow();
   });
 });
@@ -1,7 +1,16 @@
-import { GraphBuilder } from '@khalidsaidi/topoloom/graph';
-import { testPlanarity } from '@khalidsaidi/topoloom/planarity';
-import { buildHalfEdgeMesh, type RotationSystem } from '@khalidsaidi/topoloom/embedding';
-import { orthogonalLayout, planarStraightLine, planarizationLayout } from '@khalidsaidi/topoloom/layout';
+import { CsrGraph, GraphBuilder } from '@khalidsaidi/topoloom/graph';
+import {
+  skewnessLowerBound,
+  testPlanarity,
+  type PlanarityWitness,
+} from '@khalidsaidi/topoloom/planarity';
+import {
+  buildHalfEdgeMesh,
+  selectOuterFace,
+  type OuterFaceStrategy,
+  type RotationSystem,
+} from '@khalidsaidi/topoloom/embedding';
+import { orthogonalLayout, planarGridDrawing, planarStraightLine, planarizationLayout } from '@khalidsaidi/topoloom/layout';
 import { biconnectedComponents } from '@khalidsaidi/topoloom/dfs';
 import { spqrDecomposeSafe } from '@khalidsaidi/topoloom/decomp';
 
@@ -13,6 +22,7 @@ import type {
   WorkerResult,
   WorkerStage,
 } from '@/lib/workerClient';
+import { toCsrGraph } from '@/lib/workerClient';
 
 const HARD_NODE_CAP = 350;
 const HARD_EDGE_CAP = 1200;
@@ -122,7 +132,7 @@ function computeComponentAndDegreeStats(adjacency: number[][]) {
 
 function deterministicSample(
   nodes: string[],
-  edges: Array<[number, number]>,
+  graph: CsrGraph,
   seed: number,
   maxNodes: number,
   maxEdges: number,
@@ -140,7 +150,6 @@ function deterministicSample(
 
   const nodeCap = Math.max(1, Math.min(HARD_NODE_CAP, Math.floor(maxNodes), nodes.length));
   const edgeCap = Math.max(1, Math.min(HARD_EDGE_CAP, Math.floor(maxEdges)));
-  const adjacency = buildAdjacency(nodes.length, edges);
   const start = ((Math.trunc(seed) % nodes.length) + nodes.length) % nodes.length;
 
   const visited = new Set<number>([start]);
@@ -153,7 +162,7 @@ function deterministicSample(
   while (queue.length > 0 && visited.size < nodeCap) {
     const current = queue.shift();
     if (current === undefined) break;
-    for (const next of adjacency[current] ?? []) {
+    for (const next of [...graph.neighbors(current)].sort((a, b) => a - b)) {
       if (visited.size >= nodeCap) break;
       if (visited.has(next)) continue;
       visited.add(next);
@@ -181,16 +190,18 @@ function deterministicSample(
   const dedupe = new Set<string>();
   let sampledEdges: Array<[number, number]> = [];
 
-  for (const [u, v] of edges) {
-    if (!selectedSet.has(u) || !selectedSet.has(v)) continue;
-    const su = remap.get(u);
-    const sv = remap.get(v);
-    if (su === undefined || sv === undefined || su === sv) continue;
-    const [a, b] = normalizeEdge(su, sv);
-    const key = `${a},${b}`;
-    if (dedupe.has(key)) continue;
-    dedupe.add(key);
-    sampledEdges.push([a, b]);
+  for (const u of selectedOriginalNodeIndices) {
+    for (const v of graph.neighbors(u)) {
+      if (!selectedSet.has(v)) continue;
+      const su = remap.get(u);
+      const sv = remap.get(v);
+      if (su === undefined || sv === undefined || su === sv) continue;
+      const [a, b] = normalizeEdge(su, sv);
+      const key = `${a},${b}`;
+      if (dedupe.has(key)) continue;
+      dedupe.add(key);
+      sampledEdges.push([a, b]);
+    }
   }
 
   sampledEdges.sort(sortEdgeLex);
@@ -267,57 +278,13 @@ function getFaceBoundary(mesh: ReturnType<typeof buildHalfEdgeMesh>, faceId: num
   return uniqueCycle(cycle.map((halfEdge) => mesh.origin[halfEdge] ?? 0));
 }
 
-function chooseBoundaryFace(
-  mesh: ReturnType<typeof buildHalfEdgeMesh>,
-  strategy: BoundarySelection,
-): number {
-  if (mesh.faces.length === 0) return 0;
-
-  const vertexCount = Math.max(0, ...mesh.origin) + 1;
-  const target = Math.max(3, Math.min(90, Math.max(18, Math.round(4 * Math.sqrt(Math.max(1, vertexCount))))));
-  const low = Math.max(3, Math.floor(Math.min(20, vertexCount / 6)));
-  const high = Math.max(low, Math.floor(Math.min(80, vertexCount / 2)));
-
-  const candidates = mesh.faces
-    .map((_, faceId) => ({
-      faceId,
-      len: getFaceBoundary(mesh, faceId).length,
-    }))
-    .filter((candidate) => candidate.len >= 3);
-
-  if (candidates.length === 0) return 0;
-
-  if (strategy === 'largest') {
-    return candidates.reduce((best, next) => (next.len > best.len ? next : best)).faceId;
-  }
-
-  if (strategy === 'small') {
-    return candidates.reduce((best, next) => (next.len < best.len ? next : best)).faceId;
-  }
-
-  const closestToTarget = (items: typeof candidates, applyHugePenalty: boolean) => {
-    return items
-      .slice()
-      .sort((a, b) => {
-        const hugeA = applyHugePenalty && a.len > high ? (a.len - high) * 2.4 : 0;
-        const hugeB = applyHugePenalty && b.len > high ? (b.len - high) * 2.4 : 0;
-        const da = Math.abs(a.len - target) + hugeA;
-        const db = Math.abs(b.len - target) + hugeB;
-        if (da !== db) return da - db;
-        if (a.len !== b.len) return a.len - b.len;
-        return a.faceId - b.faceId;
-      })[0]!.faceId;
-  };
-
-  if (strategy === 'medium') {
-    return closestToTarget(candidates, false);
-  }
-
-  const preferred = candidates.filter((candidate) => candidate.len >= low && candidate.len <= high);
-  if (preferred.length > 0) return closestToTarget(preferred, true);
-  const antiRing = candidates.filter((candidate) => candidate.len <= Math.max(high, Math.round(target * 1.35)));
-  return closestToTarget(antiRing.length > 0 ? antiRing : candidates, true);
-}
+// The showcase's boundary choices mapped onto the core outer-face strategies.
+const OUTER_FACE_STRATEGY: Record<Exclude<BoundarySelection, 'geo-shaped'>, OuterFaceStrategy> = {
+  auto: 'auto',
+  largest: 'largest',
+  medium: 'medium',
+  small: 'smallest',
+};
 
 type GeographicCoords = {
   x: number[];
@@ -760,6 +727,16 @@ function mapWitnessKind(kind: string | undefined): 'K5' | 'K33' | 'unknown' {
   return 'unknown';
 }
 
+// Branch vertices plus each subdivided path as consecutive vertex pairs, in witness order.
+function serializeWitnessPaths(witness: PlanarityWitness) {
+  return {
+    branchVertices: [...witness.branchVertices],
+    paths: witness.paths.map((path) =>
+      path.vertices.slice(1).map((v, idx) => [path.vertices[idx] ?? v, v] as [number, number]),
+    ),
+  };
+}
+
 function serializeLayout(
   layoutResult: {
     positions: Map<number, { x: number; y: number }>;
@@ -847,6 +824,7 @@ function computeSpqrSummary(sampledGraph: ReturnType<GraphBuilder['build']>) {
 
 function resolveMode(mode: DatasetMode, isPlanar: boolean): DatasetMode {
   if (mode === 'planar-straight' && !isPlanar) return 'planarization-straight';
+  if (mode === 'planar-grid' && !isPlanar) return 'planarization-straight';
   if (mode === 'orthogonal' && !isPlanar) return 'planarization-orthogonal';
   if (mode === 'planarization-straight' && isPlanar) return 'planar-straight';
   if (mode === 'planarization-orthogonal' && isPlanar) return 'orthogonal';
@@ -875,9 +853,10 @@ export async function computeWorkerResult(
   };
 
   const sampled = await trackStage('sample', 'deterministic BFS sampling', () => {
+    const graph = payload.graph ? new CsrGraph(payload.graph) : toCsrGraph(payload.nodes.length, payload.edges);
     return deterministicSample(
       payload.nodes,
-      payload.edges,
+      graph,
       payload.settings.seed,
       payload.settings.maxNodes,
       payload.settings.maxEdges,
@@ -924,6 +903,7 @@ export async function computeWorkerResult(
       kind: 'witness',
       witnessKind: mapWitnessKind(planarityResult.witness.type),
       edges: witnessEdges,
+      ...serializeWitnessPaths(planarityResult.witness),
     });
   }
 
@@ -974,7 +954,7 @@ export async function computeWorkerResult(
         throw new Error('Planar straight-line layout requires planar embedding.');
       }
       const faceStrategy = boundaryStrategy === 'geo-shaped' ? 'auto' : boundaryStrategy;
-      const faceId = chooseBoundaryFace(meshBundle.mesh, faceStrategy);
+      const faceId = selectOuterFace(meshBundle.mesh, { strategy: OUTER_FACE_STRATEGY[faceStrategy] });
       const boundary = getFaceBoundary(meshBundle.mesh, faceId);
       const useGeoBoundary = boundaryStrategy === 'geo-shaped' || (boundaryStrategy === 'auto' && sampledGeographic);
       const geoBoundaryPlacement = useGeoBoundary && sampledGeographic
@@ -1023,6 +1003,16 @@ export async function computeWorkerResult(
       };
     }
 
+    if (resolvedMode === 'planar-grid') {
+      if (!meshBundle.mesh) {
+        throw new Error('Planar grid drawing requires planar embedding.');
+      }
+      return {
+        mode: resolvedMode,
+        layout: planarGridDrawing(meshBundle.mesh),
+      };
+    }
+
     if (resolvedMode === 'orthogonal') {
       if (!meshBundle.mesh) {
         throw new Error('Orthogonal layout requires planar embedding.');
@@ -1100,6 +1090,8 @@ export async function computeWorkerResult(
           layout: buildStraightLayoutFromSample(sampled.edges, fallback),
         } as const;
       };
+      // Shuffled restarts usually drop fewer edges than the input order, so fewer crossings.
+      const planarSubgraph = { strategy: 'random', seed: payload.settings.seed } as const;
       const orthogonalRisky = sampled.nodes.length > 220 || sampled.edges.length > 620;
       const planarizationTooHeavy = sampled.nodes.length > 170 || sampled.edges.length > 520;
       if (planarizationTooHeavy) {
@@ -1111,7 +1103,7 @@ export async function computeWorkerResult(
 
       if (mode === 'planarization-orthogonal') {
         try {
-          planarized = planarizationLayout(graphBundle.graph, { mode: 'orthogonal' });
+          planarized = planarizationLayout(graphBundle.graph, { mode: 'orthogonal', planarSubgraph });
         } catch {
           mode = 'planarization-straight';
         }
@@ -1119,7 +1111,7 @@ export async function computeWorkerResult(
 
       if (mode === 'planarization-straight' && !planarized) {
         try {
-          planarized = planarizationLayout(graphBundle.graph, { mode: 'straight' });
+          planarized = planarizationLayout(graphBundle.graph, { mode: 'straight', planarSubgraph });
         } catch {
           return buildRelaxedFallback();
         }
@@ -1200,6 +1192,10 @@ export async function computeWorkerResult(
       : undefined;
 
     const spqr = computeSpqrSummary(graphBundle.graph);
+    // A few disjoint witnesses are enough for the report; each one costs a full reduction.
+    const skewness = !planarityResult.planar
+      ? skewnessLowerBound(graphBundle.graph, { limit: 4 })
+      : undefined;
 
     return {
       biconnected: {
@@ -1211,6 +1207,7 @@ export async function computeWorkerResult(
       bridges,
       witnessEdges,
       spqr,
+      skewness,
     };
   });
 
@@ -1224,6 +1221,7 @@ export async function computeWorkerResult(
             (edge) => [edge[0], edge[1]] as [number, number],
           ),
           edgeIds: [...planarityResult.witness.edges].sort((a, b) => a - b),
+          ...serializeWitnessPaths(planarityResult.witness),
         }
       : undefined;
 
@@ -1249,6 +1247,9 @@ export async function computeWorkerResult(
         ...(meshBundle.faces ? { faces: meshBundle.faces } : {}),
         biconnected: reportBundle.biconnected,
         ...(reportBundle.spqr ? { spqr: reportBundle.spqr } : {}),
+        ...(reportBundle.skewness !== undefined
+          ? { skewnessLowerBound: reportBundle.skewness }
+          : {}),
       },
       layout,
       highlights: {
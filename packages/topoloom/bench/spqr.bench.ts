@@ -0,0 +1,46 @@
+import { bench, describe } from 'vitest';
+
+import { GraphBuilder } from '../src/graph';
+import { spqrDecompose } from '../src/decomp';
+
+const triangulatedGrid = (side: number) => {
+  const builder = new GraphBuilder();
+  for (let i = 0; i < side * side; i += 1) builder.addVertex(i);
+  for (let y = 0; y < side; y += 1) {
+    for (let x = 0; x < side; x += 1) {
+      const v = y * side + x;
+      if (x + 1 < side) builder.addEdge(v, v + 1, false);
+      if (y + 1 < side) builder.addEdge(v, v + side, false);
+      if (x + 1 < side && y + 1 < side) builder.addEdge(v, v + side + 1, false);
+    }
+  }
+  return builder.build();
+};
+
+const chordedCycle = (n: number) => {
+  const builder = new GraphBuilder();
+  for (let i = 0; i < n; i += 1) builder.addVertex(i);
+  for (let i = 0; i < n; i += 1) builder.addEdge(i, (i + 1) % n, false);
+  for (let i = 0; i + 2 < n; i += 4) builder.addEdge(i, i + 2, false);
+  return builder.build();
+};
+
+const sizes = [25_000, 50_000, 100_000];
+
+describe('spqrDecompose (rigid blocks)', () => {
+  for (const edges of sizes) {
+    const g = triangulatedGrid(Math.round(Math.sqrt(edges / 3)));
+    bench(`triangulated grid, ${g.edgeCount()} edges`, () => {
+      spqrDecompose(g);
+    }, { iterations: 3, time: 0 });
+  }
+});
+
+describe('spqrDecompose (series-parallel blocks)', () => {
+  for (const edges of sizes) {
+    const g = chordedCycle(Math.round(edges / 1.25));
+    bench(`chorded cycle, ${g.edgeCount()} edges`, () => {
+      spqrDecompose(g);
+    }, { iterations: 3, time: 0 });
+  }
+});
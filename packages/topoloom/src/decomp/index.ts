@@ -1,8 +1,9 @@
-import { GraphBuilder } from '../graph';
+import { GraphBuilder, MutableGraph } from '../graph';
 import type { Graph, EdgeId, VertexId } from '../graph';
 import { rotationFromAdjacency } from '../embedding';
 import type { RotationSystem } from '../embedding';
 import { biconnectedComponents } from '../dfs';
+import { triconnectedComponents } from './triconnectivity';
 
 export type SPQRNodeType = 'S' | 'P' | 'R' | 'Q';
 
@@ -64,147 +65,13 @@ type ComponentEdge = {
 
 type Component = {
   id: number;
+  type: SPQRNodeType;
   vertices: VertexId[];
   edges: ComponentEdge[];
 };
 
 const pairKey = (u: VertexId, v: VertexId) => (u < v ? `${u}:${v}` : `${v}:${u}`);
 
-const buildAdjacency = (component: Component) => {
-  const adj = new Map<VertexId, Array<{ to: VertexId; edge: ComponentEdge }>>();
-  for (const v of component.vertices) adj.set(v, []);
-  for (const edge of component.edges) {
-    adj.get(edge.u)?.push({ to: edge.v, edge });
-    adj.get(edge.v)?.push({ to: edge.u, edge });
-  }
-  return adj;
-};
-
-const componentDegrees = (component: Component) => {
-  const deg = new Map<VertexId, number>();
-  for (const v of component.vertices) deg.set(v, 0);
-  for (const edge of component.edges) {
-    deg.set(edge.u, (deg.get(edge.u) ?? 0) + 1);
-    deg.set(edge.v, (deg.get(edge.v) ?? 0) + 1);
-  }
-  return deg;
-};
-
-const isParallel = (component: Component) => {
-  return component.vertices.length === 2 && component.edges.length >= 2;
-};
-
-const isCycle = (component: Component) => {
-  if (component.vertices.length < 3) return false;
-  if (component.edges.length !== component.vertices.length) return false;
-  const deg = componentDegrees(component);
-  for (const v of component.vertices) {
-    if ((deg.get(v) ?? 0) !== 2) return false;
-  }
-  return true;
-};
-
-const hasSeparationPair = (component: Component) => {
-  const vertices = component.vertices;
-  if (vertices.length <= 3) return null;
-  const adj = buildAdjacency(component);
-  const virtualPairs = new Set<string>();
-  const realMultiplicity = new Map<string, number>();
-  for (const edge of component.edges) {
-    if (edge.kind === 'virtual') {
-      virtualPairs.add(pairKey(edge.u, edge.v));
-    } else {
-      const key = pairKey(edge.u, edge.v);
-      realMultiplicity.set(key, (realMultiplicity.get(key) ?? 0) + 1);
-    }
-  }
-
-  const remainingBase = vertices.length;
-  for (let i = 0; i < remainingBase; i += 1) {
-    const u = vertices[i]!;
-    for (let j = i + 1; j < remainingBase; j += 1) {
-      const v = vertices[j]!;
-      if (virtualPairs.has(pairKey(u, v))) continue;
-      if ((realMultiplicity.get(pairKey(u, v)) ?? 0) >= 2) {
-        return { u, v };
-      }
-      const remaining = vertices.filter((x) => x !== u && x !== v);
-      if (remaining.length <= 1) continue;
-      const visited = new Set<VertexId>();
-      const stack: VertexId[] = [remaining[0]!];
-      visited.add(remaining[0]!);
-      while (stack.length > 0) {
-        const cur = stack.pop();
-        if (cur === undefined) continue;
-        const edges = adj.get(cur) ?? [];
-        for (const { to } of edges) {
-          if (to === u || to === v) continue;
-          if (!visited.has(to)) {
-            visited.add(to);
-            stack.push(to);
-          }
-        }
-      }
-      if (visited.size !== remaining.length) {
-        return { u, v };
-      }
-    }
-  }
-  return null;
-};
-
-const splitComponent = (component: Component, u: VertexId, v: VertexId) => {
-  const adj = buildAdjacency(component);
-  const remaining = component.vertices.filter((x) => x !== u && x !== v);
-  const visited = new Set<VertexId>();
-  const components: Component[] = [];
-
-  const uvEdges = component.edges.filter(
-    (edge) => (edge.u === u && edge.v === v) || (edge.u === v && edge.v === u),
-  );
-
-  for (const start of remaining) {
-    if (visited.has(start)) continue;
-    const stack = [start];
-    const block = new Set<VertexId>();
-    visited.add(start);
-    block.add(start);
-    while (stack.length > 0) {
-      const cur = stack.pop();
-      if (cur === undefined) continue;
-      const edges = adj.get(cur) ?? [];
-      for (const { to } of edges) {
-        if (to === u || to === v) continue;
-        if (!visited.has(to)) {
-          visited.add(to);
-          block.add(to);
-          stack.push(to);
-        }
-      }
-    }
-
-    const vertices = [u, v, ...block.values()].sort((a, b) => a - b);
-    const vertexSet = new Set(vertices);
-    const edges = component.edges.filter((edge) => {
-      if ((edge.u === u && edge.v === v) || (edge.u === v && edge.v === u)) return false;
-      return vertexSet.has(edge.u) && vertexSet.has(edge.v);
-    });
-    if (edges.length > 0) {
-      components.push({ id: -1, vertices, edges });
-    }
-  }
-
-  for (const edge of uvEdges) {
-    components.push({
-      id: -1,
-      vertices: [u, v].sort((a, b) => a - b),
-      edges: [edge],
-    });
-  }
-
-  return components;
-};
-
 const assignComponentIds = (components: Component[]) => {
   components.forEach((component, idx) => {
     component.id = idx;
@@ -230,13 +97,12 @@ const sanitizeForSpqr = (graph: Graph, options: SPQRSafeOptions = {}) => {
     };
   }
 
-  const builder = new GraphBuilder();
-  for (const v of graph.vertices()) builder.addVertex(graph.label(v));
-  const edgeMap: EdgeId[] = [];
+  const sanitized = MutableGraph.from(graph);
   for (const edge of graph.edges()) {
     if (edge.u === edge.v) {
       if (allowSelfLoops === 'ignore') {
         ignoredSelfLoops.push(edge.id);
+        sanitized.removeEdge(edge.id);
         continue;
       }
       throw new Error('SPQR decomposition does not support self-loops.');
@@ -244,42 +110,32 @@ const sanitizeForSpqr = (graph: Graph, options: SPQRSafeOptions = {}) => {
     if (edge.directed && !treatDirected) {
       throw new Error('SPQR decomposition requires an undirected graph.');
     }
-    const newId = builder.addEdge(edge.u, edge.v, false);
-    edgeMap[newId] = edge.id;
+    if (edge.directed) sanitized.setEdgeDirected(edge.id, false);
   }
+  const frozen = sanitized.freeze();
   return {
-    graph: builder.build(),
-    edgeMap,
+    graph: frozen.graph,
+    edgeMap: frozen.edgeOrigin,
     ignoredSelfLoops,
     treatedDirectedAsUndirected: treatDirected,
   };
 };
 
+// The block on its own, built from its edges alone so that splitting a graph into blocks stays
+// linear. Vertices and edges keep the order of their ids in graph.
 const buildSubgraphFromEdges = (graph: Graph, edges: EdgeId[]) => {
-  const vertices = new Set<VertexId>();
-  for (const edgeId of edges) {
-    const edge = graph.edge(edgeId);
-    vertices.add(edge.u);
-    vertices.add(edge.v);
-  }
-  const vertexMap = Array.from(vertices.values()).sort((a, b) => a - b);
-  const index = new Map<VertexId, VertexId>();
-  const builder = new GraphBuilder();
-  vertexMap.forEach((v, idx) => {
-    index.set(v, idx as VertexId);
-    builder.addVertex(graph.label(v));
-  });
-  const edgeMap: EdgeId[] = [];
-  const sortedEdges = edges.slice().sort((a, b) => a - b);
-  for (const edgeId of sortedEdges) {
-    const edge = graph.edge(edgeId);
-    const u = index.get(edge.u);
-    const v = index.get(edge.v);
-    if (u === undefined || v === undefined) continue;
-    const newId = builder.addEdge(u, v, false);
-    edgeMap[newId] = edgeId;
+  const edgeMap = edges.slice().sort((a, b) => a - b);
+  const vertexMap = [...new Set(edgeMap.flatMap((e) => [graph.edge(e).u, graph.edge(e).v]))].sort(
+    (a, b) => a - b,
+  );
+  const local = new Map(vertexMap.map((v, i) => [v, i]));
+  const sub = new MutableGraph();
+  for (const v of vertexMap) sub.addVertex(graph.label(v), graph.vertexAttributes(v));
+  for (const e of edgeMap) {
+    const { u, v, directed } = graph.edge(e);
+    sub.addEdge(local.get(u)!, local.get(v)!, directed, graph.edgeAttributes(e));
   }
-  return { graph: builder.build(), vertexMap, edgeMap };
+  return { graph: sub.freeze().graph, vertexMap, edgeMap };
 };
 
 const mapSpqrTree = (
@@ -326,76 +182,49 @@ export function spqrDecompose(graph: Graph): SPQRTree {
     throw new Error('SPQR decomposition requires a biconnected graph.');
   }
 
-  const initial: Component = {
-    id: 0,
-    vertices: graph.vertices().slice().sort((a, b) => a - b),
-    edges: graph.edges().map((edge) => ({
-      u: edge.u,
-      v: edge.v,
-      kind: 'real',
-      original: edge.id,
-    })),
-  };
+  const realEdges = graph.edges();
+  const result = triconnectedComponents(
+    graph.vertexCount(),
+    realEdges.map((edge) => ({ u: edge.u, v: edge.v })),
+  );
 
-  const worklist: Component[] = [initial];
-  const finalComponents: Component[] = [];
+  const usedVirtual = new Set<number>();
+  for (const comp of result.components) {
+    for (const e of comp.edges) if (e >= result.realEdgeCount) usedVirtual.add(e);
+  }
+  const virtualIds = new Map<number, number>();
   let virtualId = 0;
-
-  while (worklist.length > 0) {
-    const component = worklist.shift();
-    if (!component) continue;
-
-    if (component.edges.length === 1 && component.edges[0]?.kind === 'real') {
-      finalComponents.push(component);
-      continue;
-    }
-    if (isParallel(component) || isCycle(component)) {
-      finalComponents.push(component);
-      continue;
-    }
-
-    const sep = hasSeparationPair(component);
-    if (!sep) {
-      finalComponents.push(component);
-      continue;
-    }
-
-    const subcomponents = splitComponent(component, sep.u, sep.v);
-    if (subcomponents.length >= 3) {
-      const pComponent: Component = {
-        id: -1,
-        vertices: [sep.u, sep.v].sort((a, b) => a - b),
-        edges: [],
-      };
-      for (const sub of subcomponents) {
-        const vId = virtualId++;
-        pComponent.edges.push({ u: sep.u, v: sep.v, kind: 'virtual', virtualId: vId });
-        sub.edges.push({ u: sep.u, v: sep.v, kind: 'virtual', virtualId: vId });
-      }
-      finalComponents.push(pComponent);
-      worklist.push(...subcomponents);
-    } else if (subcomponents.length === 2) {
-      const vId = virtualId++;
-      subcomponents[0]?.edges.push({ u: sep.u, v: sep.v, kind: 'virtual', virtualId: vId });
-      subcomponents[1]?.edges.push({ u: sep.u, v: sep.v, kind: 'virtual', virtualId: vId });
-      worklist.push(...subcomponents);
-    } else {
-      finalComponents.push(component);
-    }
+  for (const e of Array.from(usedVirtual.values()).sort((a, b) => a - b)) {
+    virtualIds.set(e, virtualId++);
   }
 
-  assignComponentIds(finalComponents);
-
-  const nodes: SPQRNode[] = [];
-  for (const component of finalComponents) {
+  const finalComponents: Component[] = result.components.map((comp) => {
+    const vertices = new Set<VertexId>();
+    const edges: ComponentEdge[] = comp.edges.map((e) => {
+      const [u, v] = result.endpoints[e]!;
+      vertices.add(u);
+      vertices.add(v);
+      if (e < result.realEdgeCount) {
+        return { u, v, kind: 'real', original: realEdges[e]!.id };
+      }
+      return { u, v, kind: 'virtual', virtualId: virtualIds.get(e) ?? -1 };
+    });
     const type: SPQRNodeType =
-      component.edges.length === 1 && component.edges[0]?.kind === 'real'
+      edges.length === 1 && edges[0]?.kind === 'real'
         ? 'Q'
-        : isParallel(component)
+        : comp.type === 'bond'
           ? 'P'
-          : isCycle(component)
+          : comp.type === 'polygon'
             ? 'S'
             : 'R';
+    return { id: -1, type, vertices: Array.from(vertices.values()), edges };
+  });
+
+  assignComponentIds(finalComponents);
+
+  const nodes: SPQRNode[] = [];
+  for (const component of finalComponents) {
+    const type = component.type;
 
     const vertexMap = component.vertices.slice().sort((a, b) => a - b);
     const vertexIndex = new Map<VertexId, VertexId>();
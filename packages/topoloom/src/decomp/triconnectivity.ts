@@ -0,0 +1,719 @@
+import type { VertexId } from '../graph';
+
+export type TriconnectivityEdgeSpec = { u: VertexId; v: VertexId };
+
+export type TriconnectedComponentType = 'bond' | 'polygon' | 'triconnected';
+
+export type TriconnectedComponent = {
+  type: TriconnectedComponentType;
+  edges: number[];
+};
+
+export type TriconnectivityResult = {
+  components: TriconnectedComponent[];
+  // Endpoints for every edge id; ids >= realEdgeCount are virtual edges.
+  endpoints: Array<[VertexId, VertexId]>;
+  realEdgeCount: number;
+};
+
+const UNSEEN = 0;
+const TREE = 1;
+const FROND = 2;
+const REMOVED = 3;
+const EOS = -1;
+
+type SearchFrame = {
+  v: number;
+  vnum: number;
+  outv: number;
+  it: number;
+  itNext: number;
+  e: number;
+  w: number;
+  wnum: number;
+  pending: boolean;
+};
+
+// Hopcroft–Tarjan triconnectivity with the Gutwenger–Mutzel corrections.
+// All DFS passes are iterative so deep palm trees do not exhaust the call stack.
+class TriconnectivitySolver {
+  private readonly n: number;
+  private readonly realEdgeCount: number;
+
+  private readonly src: number[] = [];
+  private readonly tgt: number[] = [];
+  private readonly type: number[] = [];
+  private readonly start: boolean[] = [];
+  private readonly inAdj: number[] = [];
+  private readonly inHigh: number[] = [];
+
+  private readonly number: number[];
+  private readonly newnum: number[];
+  private readonly lowpt1: number[];
+  private readonly lowpt2: number[];
+  private readonly nd: number[];
+  private readonly father: number[];
+  private readonly degree: number[];
+  private readonly treeArc: number[];
+  private readonly nodeAt: number[];
+
+  private readonly adjHead: number[];
+  private readonly adjTail: number[];
+  private readonly adjSize: number[];
+  private readonly slotEdge: number[] = [];
+  private readonly slotNext: number[] = [];
+  private readonly slotPrev: number[] = [];
+
+  private readonly highHead: number[];
+  private readonly highTail: number[];
+  private readonly highVal: number[] = [];
+  private readonly highNext: number[] = [];
+  private readonly highPrev: number[] = [];
+
+  private readonly estack: number[] = [];
+  private readonly tsH: number[] = [];
+  private readonly tsA: number[] = [];
+  private readonly tsB: number[] = [];
+  private top = 0;
+
+  private root = -1;
+  private readonly components: Array<{ type: TriconnectedComponentType | null; edges: number[] }> = [];
+
+  constructor(n: number, edges: TriconnectivityEdgeSpec[]) {
+    this.n = n;
+    this.realEdgeCount = edges.length;
+    for (const edge of edges) this.newEdge(edge.u, edge.v);
+
+    this.number = Array(n).fill(0);
+    this.newnum = Array(n).fill(0);
+    this.lowpt1 = Array(n).fill(0);
+    this.lowpt2 = Array(n).fill(0);
+    this.nd = Array(n).fill(0);
+    this.father = Array(n).fill(-1);
+    this.degree = Array(n).fill(0);
+    this.treeArc = Array(n).fill(-1);
+    this.nodeAt = Array(n + 1).fill(-1);
+    this.adjHead = Array(n).fill(-1);
+    this.adjTail = Array(n).fill(-1);
+    this.adjSize = Array(n).fill(0);
+    this.highHead = Array(n).fill(-1);
+    this.highTail = Array(n).fill(-1);
+  }
+
+  private newEdge(u: number, v: number): number {
+    const id = this.src.length;
+    this.src.push(u);
+    this.tgt.push(v);
+    this.type.push(UNSEEN);
+    this.start.push(false);
+    this.inAdj.push(-1);
+    this.inHigh.push(-1);
+    return id;
+  }
+
+  private newComp(type: TriconnectedComponentType | null = null) {
+    const comp = { type, edges: [] as number[] };
+    this.components.push(comp);
+    return comp;
+  }
+
+  private finishTricOrPoly(comp: { type: TriconnectedComponentType | null; edges: number[] }, e: number) {
+    comp.edges.push(e);
+    comp.type = comp.edges.length >= 4 ? 'triconnected' : 'polygon';
+  }
+
+  private adjAppend(v: number, e: number) {
+    const slot = this.slotEdge.length;
+    this.slotEdge.push(e);
+    this.slotNext.push(-1);
+    this.slotPrev.push(this.adjTail[v]!);
+    if (this.adjTail[v] !== -1) this.slotNext[this.adjTail[v]!] = slot;
+    else this.adjHead[v] = slot;
+    this.adjTail[v] = slot;
+    this.adjSize[v]! += 1;
+    this.inAdj[e] = slot;
+  }
+
+  private adjDelete(v: number, slot: number) {
+    const prev = this.slotPrev[slot]!;
+    const next = this.slotNext[slot]!;
+    if (prev !== -1) this.slotNext[prev] = next;
+    else this.adjHead[v] = next;
+    if (next !== -1) this.slotPrev[next] = prev;
+    else this.adjTail[v] = prev;
+    this.adjSize[v]! -= 1;
+  }
+
+  private highPush(v: number, value: number, front: boolean): number {
+    const slot = this.highVal.length;
+    this.highVal.push(value);
+    if (front) {
+      this.highPrev.push(-1);
+      this.highNext.push(this.highHead[v]!);
+      if (this.highHead[v] !== -1) this.highPrev[this.highHead[v]!] = slot;
+      else this.highTail[v] = slot;
+      this.highHead[v] = slot;
+    } else {
+      this.highNext.push(-1);
+      this.highPrev.push(this.highTail[v]!);
+      if (this.highTail[v] !== -1) this.highNext[this.highTail[v]!] = slot;
+      else this.highHead[v] = slot;
+      this.highTail[v] = slot;
+    }
+    return slot;
+  }
+
+  private delHigh(e: number) {
+    const slot = this.inHigh[e]!;
+    if (slot === -1) return;
+    const v = this.tgt[e]!;
+    const prev = this.highPrev[slot]!;
+    const next = this.highNext[slot]!;
+    if (prev !== -1) this.highNext[prev] = next;
+    else this.highHead[v] = next;
+    if (next !== -1) this.highPrev[next] = prev;
+    else this.highTail[v] = prev;
+    this.inHigh[e] = -1;
+  }
+
+  private high(v: number): number {
+    const head = this.highHead[v]!;
+    return head === -1 ? 0 : this.highVal[head]!;
+  }
+
+  private firstChildNum(v: number): number {
+    const head = this.adjHead[v]!;
+    if (head === -1) return -1;
+    return this.newnum[this.tgt[this.slotEdge[head]!]!]!;
+  }
+
+  private tstackPush(h: number, a: number, b: number) {
+    this.top += 1;
+    this.tsH[this.top] = h;
+    this.tsA[this.top] = a;
+    this.tsB[this.top] = b;
+  }
+
+  private tstackPushEOS() {
+    this.top += 1;
+    this.tsA[this.top] = EOS;
+  }
+
+  private splitMultiEdges() {
+    const m = this.src.length;
+    const minOf = (e: number) => Math.min(this.src[e]!, this.tgt[e]!);
+    const maxOf = (e: number) => Math.max(this.src[e]!, this.tgt[e]!);
+    const bucketSort = (items: number[], key: (e: number) => number) => {
+      const counts = Array(this.n + 1).fill(0);
+      for (const e of items) counts[key(e) + 1] += 1;
+      for (let i = 1; i <= this.n; i += 1) counts[i] += counts[i - 1];
+      const out = Array(items.length);
+      for (const e of items) {
+        const k = key(e);
+        out[counts[k]] = e;
+        counts[k] += 1;
+      }
+      return out as number[];
+    };
+    const all = Array.from({ length: m }, (_, e) => e);
+    const sorted = bucketSort(bucketSort(all, maxOf), minOf);
+
+    let i = 0;
+    while (i < sorted.length) {
+      const e = sorted[i]!;
+      let j = i + 1;
+      while (j < sorted.length && minOf(sorted[j]!) === minOf(e) && maxOf(sorted[j]!) === maxOf(e)) j += 1;
+      if (j - i >= 2) {
+        const comp = this.newComp('bond');
+        comp.edges.push(this.newEdge(this.src[e]!, this.tgt[e]!));
+        for (let k = i; k < j; k += 1) {
+          const parallel = sorted[k]!;
+          comp.edges.push(parallel);
+          this.type[parallel] = REMOVED;
+        }
+      }
+      i = j;
+    }
+  }
+
+  private dfs1() {
+    const incident: number[][] = Array.from({ length: this.n }, () => []);
+    for (let e = 0; e < this.src.length; e += 1) {
+      if (this.type[e] === REMOVED) continue;
+      incident[this.src[e]!]!.push(e);
+      incident[this.tgt[e]!]!.push(e);
+    }
+    for (let v = 0; v < this.n; v += 1) this.degree[v] = incident[v]!.length;
+
+    let count = 0;
+    const enter = (v: number, parent: number) => {
+      count += 1;
+      this.number[v] = count;
+      this.father[v] = parent;
+      this.lowpt1[v] = count;
+      this.lowpt2[v] = count;
+      this.nd[v] = 1;
+    };
+
+    const stack = [this.root];
+    const cursor = [0];
+    enter(this.root, -1);
+    while (stack.length > 0) {
+      const top = stack.length - 1;
+      const v = stack[top]!;
+      const list = incident[v]!;
+      const idx = cursor[top]!;
+      if (idx < list.length) {
+        cursor[top] = idx + 1;
+        const e = list[idx]!;
+        if (this.type[e] !== UNSEEN) continue;
+        const w = this.src[e] === v ? this.tgt[e]! : this.src[e]!;
+        if (this.number[w] === 0) {
+          this.type[e] = TREE;
+          this.treeArc[w] = e;
+          enter(w, v);
+          stack.push(w);
+          cursor.push(0);
+        } else {
+          this.type[e] = FROND;
+          const num = this.number[w]!;
+          if (num < this.lowpt1[v]!) {
+            this.lowpt2[v] = this.lowpt1[v]!;
+            this.lowpt1[v] = num;
+          } else if (num > this.lowpt1[v]!) {
+            this.lowpt2[v] = Math.min(this.lowpt2[v]!, num);
+          }
+        }
+        continue;
+      }
+      stack.pop();
+      cursor.pop();
+      const u = this.father[v]!;
+      if (u === -1) continue;
+      if (this.lowpt1[v]! < this.lowpt1[u]!) {
+        this.lowpt2[u] = Math.min(this.lowpt1[u]!, this.lowpt2[v]!);
+        this.lowpt1[u] = this.lowpt1[v]!;
+      } else if (this.lowpt1[v] === this.lowpt1[u]) {
+        this.lowpt2[u] = Math.min(this.lowpt2[u]!, this.lowpt2[v]!);
+      } else {
+        this.lowpt2[u] = Math.min(this.lowpt2[u]!, this.lowpt1[v]!);
+      }
+      this.nd[u]! += this.nd[v]!;
+    }
+  }
+
+  private buildAcceptableAdjStruct() {
+    const max = 3 * this.n + 2;
+    const counts = Array(max + 2).fill(0);
+    const phi = Array(this.src.length).fill(-1);
+    for (let e = 0; e < this.src.length; e += 1) {
+      const t = this.type[e];
+      if (t === REMOVED || t === UNSEEN) continue;
+      const up = this.number[this.tgt[e]!]! - this.number[this.src[e]!]! > 0;
+      if ((up && t === FROND) || (!up && t === TREE)) {
+        const tmp = this.src[e]!;
+        this.src[e] = this.tgt[e]!;
+        this.tgt[e] = tmp;
+      }
+      const w = this.tgt[e]!;
+      phi[e] =
+        t === FROND
+          ? 3 * this.number[w]! + 1
+          : this.lowpt2[w]! < this.number[this.src[e]!]!
+            ? 3 * this.lowpt1[w]!
+            : 3 * this.lowpt1[w]! + 2;
+      counts[phi[e] + 1] += 1;
+    }
+    for (let i = 1; i < counts.length; i += 1) counts[i] += counts[i - 1];
+    const ordered: number[] = Array(counts[counts.length - 1]);
+    for (let e = 0; e < this.src.length; e += 1) {
+      if (phi[e] < 0) continue;
+      ordered[counts[phi[e]]] = e;
+      counts[phi[e]] += 1;
+    }
+    for (const e of ordered) this.adjAppend(this.src[e]!, e);
+  }
+
+  private dfs2() {
+    let numCount = this.n;
+    let newPath = true;
+    this.newnum[this.root] = numCount - this.nd[this.root]! + 1;
+    const stack = [this.root];
+    const cursor = [this.adjHead[this.root]!];
+    while (stack.length > 0) {
+      const top = stack.length - 1;
+      const v = stack[top]!;
+      const slot = cursor[top]!;
+      if (slot === -1) {
+        stack.pop();
+        cursor.pop();
+        if (stack.length > 0) numCount -= 1;
+        continue;
+      }
+      cursor[top] = this.slotNext[slot]!;
+      const e = this.slotEdge[slot]!;
+      const w = this.tgt[e]!;
+      if (newPath) {
+        newPath = false;
+        this.start[e] = true;
+      }
+      if (this.type[e] === TREE) {
+        this.newnum[w] = numCount - this.nd[w]! + 1;
+        stack.push(w);
+        cursor.push(this.adjHead[w]!);
+      } else {
+        this.inHigh[e] = this.highPush(w, this.newnum[v]!, false);
+        newPath = true;
+      }
+    }
+
+    const old2new = Array(this.n + 1).fill(0);
+    for (let v = 0; v < this.n; v += 1) {
+      if (this.number[v] === 0) continue;
+      old2new[this.number[v]!] = this.newnum[v]!;
+    }
+    for (let v = 0; v < this.n; v += 1) {
+      if (this.number[v] === 0) continue;
+      this.nodeAt[this.newnum[v]!] = v;
+      this.lowpt1[v] = old2new[this.lowpt1[v]!];
+      this.lowpt2[v] = old2new[this.lowpt2[v]!];
+    }
+  }
+
+  private openFrame(v: number): SearchFrame {
+    return {
+      v,
+      vnum: this.newnum[v]!,
+      outv: this.adjSize[v]!,
+      it: this.adjHead[v]!,
+      itNext: -1,
+      e: -1,
+      w: -1,
+      wnum: 0,
+      pending: false,
+    };
+  }
+
+  private pathSearch() {
+    const frames: SearchFrame[] = [this.openFrame(this.root)];
+    while (frames.length > 0) {
+      const f = frames[frames.length - 1]!;
+      if (f.pending) {
+        f.pending = false;
+        this.afterTreeArc(f);
+        f.it = f.itNext;
+        continue;
+      }
+      if (f.it === -1) {
+        frames.pop();
+        continue;
+      }
+      f.itNext = this.slotNext[f.it]!;
+      const e = this.slotEdge[f.it]!;
+      const w = this.tgt[e]!;
+      const wnum = this.newnum[w]!;
+      f.e = e;
+      f.w = w;
+      f.wnum = wnum;
+
+      if (this.type[e] === TREE) {
+        if (this.start[e]) {
+          let y = 0;
+          const low = this.lowpt1[w]!;
+          if (this.tsA[this.top]! > low) {
+            let b = 0;
+            do {
+              y = Math.max(y, this.tsH[this.top]!);
+              b = this.tsB[this.top]!;
+              this.top -= 1;
+            } while (this.tsA[this.top]! > low);
+            this.tstackPush(Math.max(y, wnum + this.nd[w]! - 1), low, b);
+          } else {
+            this.tstackPush(wnum + this.nd[w]! - 1, low, f.vnum);
+          }
+          this.tstackPushEOS();
+        }
+        f.pending = true;
+        frames.push(this.openFrame(w));
+        continue;
+      }
+
+      if (this.start[e]) {
+        let y = 0;
+        if (this.tsA[this.top]! > wnum) {
+          let b = 0;
+          do {
+            y = Math.max(y, this.tsH[this.top]!);
+            b = this.tsB[this.top]!;
+            this.top -= 1;
+          } while (this.tsA[this.top]! > wnum);
+          this.tstackPush(y, wnum, b);
+        } else {
+          this.tstackPush(f.vnum, wnum, f.vnum);
+        }
+      }
+      this.estack.push(e);
+      f.it = f.itNext;
+    }
+  }
+
+  private afterTreeArc(f: SearchFrame) {
+    const v = f.v;
+    const vnum = f.vnum;
+    let w = f.w;
+    let wnum = f.wnum;
+
+    this.estack.push(this.treeArc[w]!);
+
+    // Type-2 separation pairs.
+    while (
+      vnum !== 1 &&
+      (this.tsA[this.top] === vnum || (this.degree[w] === 2 && this.firstChildNum(w) > wnum))
+    ) {
+      const a = this.tsA[this.top]!;
+      const b = this.tsB[this.top]!;
+
+      if (a === vnum && this.father[this.nodeAt[b]!] === this.nodeAt[a]) {
+        this.top -= 1;
+        continue;
+      }
+
+      let eAB = -1;
+      let eVirt: number;
+      let x: number;
+      if (this.degree[w] === 2 && this.firstChildNum(w) > wnum) {
+        const comp = this.newComp('polygon');
+        const e1 = this.estack.pop()!;
+        const e2 = this.estack.pop()!;
+        this.adjDelete(w, this.inAdj[e2]!);
+        x = this.tgt[e2]!;
+        eVirt = this.newEdge(v, x);
+        this.degree[x]! -= 1;
+        this.degree[v]! -= 1;
+        comp.edges.push(e1, e2, eVirt);
+        if (this.estack.length > 0) {
+          const topEdge = this.estack[this.estack.length - 1]!;
+          if (this.src[topEdge] === x && this.tgt[topEdge] === v) {
+            eAB = this.estack.pop()!;
+            this.adjDelete(x, this.inAdj[eAB]!);
+            this.delHigh(eAB);
+          }
+        }
+      } else {
+        const h = this.tsH[this.top]!;
+        this.top -= 1;
+        const comp = this.newComp();
+        while (this.estack.length > 0) {
+          const xy = this.estack[this.estack.length - 1]!;
+          const xs = this.newnum[this.src[xy]!]!;
+          const xt = this.newnum[this.tgt[xy]!]!;
+          if (!(a <= xs && xs <= h && a <= xt && xt <= h)) break;
+          if ((xs === a && xt === b) || (xt === a && xs === b)) {
+            eAB = this.estack.pop()!;
+            this.adjDelete(this.src[eAB]!, this.inAdj[eAB]!);
+            this.delHigh(eAB);
+          } else {
+            const eh = this.estack.pop()!;
+            if (f.it !== this.inAdj[eh]) {
+              this.adjDelete(this.src[eh]!, this.inAdj[eh]!);
+              this.delHigh(eh);
+            }
+            comp.edges.push(eh);
+            this.degree[this.src[eh]!]! -= 1;
+            this.degree[this.tgt[eh]!]! -= 1;
+          }
+        }
+        eVirt = this.newEdge(this.nodeAt[a]!, this.nodeAt[b]!);
+        this.finishTricOrPoly(comp, eVirt);
+        x = this.nodeAt[b]!;
+      }
+
+      if (eAB !== -1) {
+        const bond = this.newComp('bond');
+        bond.edges.push(eAB, eVirt);
+        eVirt = this.newEdge(v, x);
+        bond.edges.push(eVirt);
+        this.degree[x]! -= 1;
+        this.degree[v]! -= 1;
+      }
+
+      this.estack.push(eVirt);
+      this.slotEdge[f.it] = eVirt;
+      this.inAdj[eVirt] = f.it;
+      this.degree[x]! += 1;
+      this.degree[v]! += 1;
+      this.father[x] = v;
+      this.treeArc[x] = eVirt;
+      this.type[eVirt] = TREE;
+      w = x;
+      wnum = this.newnum[w]!;
+    }
+
+    // Type-1 separation pair {lowpt1(w), v}.
+    const low = this.lowpt1[w]!;
+    if (
+      this.lowpt2[w]! >= vnum &&
+      low < vnum &&
+      (this.father[v] !== this.root || f.outv >= 2)
+    ) {
+      const comp = this.newComp();
+      let xx = 0;
+      let yy = 0;
+      const ndw = this.nd[w]!;
+      while (this.estack.length > 0) {
+        const xy = this.estack[this.estack.length - 1]!;
+        xx = this.newnum[this.src[xy]!]!;
+        yy = this.newnum[this.tgt[xy]!]!;
+        if (!((wnum <= xx && xx < wnum + ndw) || (wnum <= yy && yy < wnum + ndw))) break;
+        comp.edges.push(this.estack.pop()!);
+        this.delHigh(xy);
+        this.degree[this.src[xy]!]! -= 1;
+        this.degree[this.tgt[xy]!]! -= 1;
+      }
+
+      const lowVertex = this.nodeAt[low]!;
+      let eVirt = this.newEdge(v, lowVertex);
+      this.finishTricOrPoly(comp, eVirt);
+
+      if ((xx === vnum && yy === low) || (yy === vnum && xx === low)) {
+        const bond = this.newComp('bond');
+        const eh = this.estack.pop()!;
+        if (f.it !== this.inAdj[eh]) this.adjDelete(this.src[eh]!, this.inAdj[eh]!);
+        bond.edges.push(eh, eVirt);
+        eVirt = this.newEdge(v, lowVertex);
+        bond.edges.push(eVirt);
+        this.inHigh[eVirt] = this.inHigh[eh]!;
+        this.degree[v]! -= 1;
+        this.degree[lowVertex]! -= 1;
+      }
+
+      if (lowVertex !== this.father[v]) {
+        this.type[eVirt] = FROND;
+        this.estack.push(eVirt);
+        this.slotEdge[f.it] = eVirt;
+        this.inAdj[eVirt] = f.it;
+        if (this.inHigh[eVirt] === -1 && this.high(lowVertex) < vnum) {
+          this.inHigh[eVirt] = this.highPush(lowVertex, vnum, true);
+        }
+        this.degree[v]! += 1;
+        this.degree[lowVertex]! += 1;
+      } else {
+        this.adjDelete(v, f.it);
+        const bond = this.newComp('bond');
+        bond.edges.push(eVirt);
+        eVirt = this.newEdge(lowVertex, v);
+        bond.edges.push(eVirt);
+        const eh = this.treeArc[v]!;
+        bond.edges.push(eh);
+        this.treeArc[v] = eVirt;
+        this.type[eVirt] = TREE;
+        this.inAdj[eVirt] = this.inAdj[eh]!;
+        this.slotEdge[this.inAdj[eh]!] = eVirt;
+      }
+    }
+
+    if (this.start[f.e]) {
+      while (this.tsA[this.top] !== EOS) this.top -= 1;
+      this.top -= 1;
+    }
+
+    while (
+      this.tsA[this.top] !== EOS &&
+      this.tsB[this.top] !== vnum &&
+      this.high(v) > this.tsH[this.top]!
+    ) {
+      this.top -= 1;
+    }
+
+    f.outv -= 1;
+  }
+
+  private assemble(): TriconnectedComponent[] {
+    const raw = this.components.filter((comp) => comp.edges.length > 0);
+    const parent = raw.map((_, i) => i);
+    const find = (i: number): number => {
+      let r = i;
+      while (parent[r] !== r) r = parent[r]!;
+      while (parent[i] !== r) {
+        const next = parent[i]!;
+        parent[i] = r;
+        i = next;
+      }
+      return r;
+    };
+
+    const owners: number[][] = Array.from({ length: this.src.length }, () => []);
+    raw.forEach((comp, idx) => {
+      for (const e of comp.edges) owners[e]!.push(idx);
+    });
+
+    const internal = new Set<number>();
+    for (let e = this.realEdgeCount; e < owners.length; e += 1) {
+      const pair = owners[e]!;
+      if (pair.length !== 2) continue;
+      const [c1, c2] = pair as [number, number];
+      const t1 = raw[c1]!.type;
+      const t2 = raw[c2]!.type;
+      if (t1 !== t2 || t1 === 'triconnected') continue;
+      internal.add(e);
+      const r1 = find(c1);
+      const r2 = find(c2);
+      if (r1 !== r2) parent[Math.max(r1, r2)] = Math.min(r1, r2);
+    }
+
+    const merged = new Map<number, TriconnectedComponent>();
+    raw.forEach((comp, idx) => {
+      const rootIdx = find(idx);
+      let target = merged.get(rootIdx);
+      if (!target) {
+        target = { type: comp.type ?? 'polygon', edges: [] };
+        merged.set(rootIdx, target);
+      }
+      for (const e of comp.edges) {
+        if (!internal.has(e)) target.edges.push(e);
+      }
+    });
+    return [...merged.values()];
+  }
+
+  run(): TriconnectivityResult {
+    const endpoints = () =>
+      this.src.map((u, e) => [u, this.tgt[e]!] as [VertexId, VertexId]);
+
+    const vertices = new Set<number>();
+    this.root = -1;
+    for (let e = 0; e < this.src.length; e += 1) {
+      vertices.add(this.src[e]!);
+      vertices.add(this.tgt[e]!);
+      const low = Math.min(this.src[e]!, this.tgt[e]!);
+      if (this.root === -1 || low < this.root) this.root = low;
+    }
+    if (vertices.size <= 2) {
+      const comp = { type: 'bond' as const, edges: this.src.map((_, e) => e) };
+      return { components: [comp], endpoints: endpoints(), realEdgeCount: this.realEdgeCount };
+    }
+
+    this.splitMultiEdges();
+    this.dfs1();
+    this.buildAcceptableAdjStruct();
+    this.dfs2();
+
+    this.tsA[0] = EOS;
+    this.top = 0;
+    this.pathSearch();
+
+    const last = this.newComp();
+    while (this.estack.length > 0) last.edges.push(this.estack.pop()!);
+    last.type = last.edges.length >= 4 ? 'triconnected' : 'polygon';
+
+    return { components: this.assemble(), endpoints: endpoints(), realEdgeCount: this.realEdgeCount };
+  }
+}
+
+export const triconnectedComponents = (
+  n: number,
+  edges: TriconnectivityEdgeSpec[],
+): TriconnectivityResult => {
+  const solver = new TriconnectivitySolver(n, edges);
+  return solver.run();
+};
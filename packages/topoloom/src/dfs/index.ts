@@ -1,11 +1,11 @@
-import type { Graph, EdgeId, VertexId } from '../graph';
+import type { ReadonlyGraph, EdgeId, VertexId } from '../graph';
 
 export type SCCResult = {
   components: VertexId[][];
   componentOf: number[];
 };
 
-export function sccTarjan(graph: Graph): SCCResult {
+export function sccTarjan(graph: ReadonlyGraph): SCCResult {
   const n = graph.vertexCount();
   const index: number[] = Array(n).fill(-1);
   const lowlink: number[] = Array(n).fill(0);
@@ -67,7 +67,7 @@ export type BiconnectedOptions = {
 };
 
 export function biconnectedComponents(
-  graph: Graph,
+  graph: ReadonlyGraph,
   options: BiconnectedOptions = {},
 ): BiconnectedResult {
   const loopEdges: EdgeId[] = [];
@@ -109,13 +109,39 @@ export function biconnectedComponents(
     if (block.length > 0) blocks.push(block);
   };
 
-  const dfs = (u: VertexId) => {
-    disc[u] = time;
-    low[u] = time;
-    time += 1;
-    let childCount = 0;
+  const dfs = (root: VertexId) => {
+    const frames: Array<{ u: VertexId; adj: ReturnType<ReadonlyGraph['adjacency']>; index: number; childCount: number }> = [];
+    const enter = (u: VertexId) => {
+      disc[u] = time;
+      low[u] = time;
+      time += 1;
+      frames.push({ u, adj: graph.adjacency(u), index: 0, childCount: 0 });
+    };
+    enter(root);
 
-    for (const adj of graph.adjacency(u)) {
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1]!;
+      const u = frame.u;
+      if (frame.index >= frame.adj.length) {
+        frames.pop();
+        const p = parent[u] ?? -1;
+        if (p === -1 || frames.length === 0) continue;
+        const e = parentEdge[u]!;
+        low[p] = Math.min(low[p]!, low[u] ?? low[p]!);
+        if ((low[u] ?? 0) >= disc[p]!) {
+          if (parent[p] !== -1 || frames[frames.length - 1]!.childCount > 1) {
+            articulationSet.add(p);
+          }
+          popBlockUntil(e);
+        }
+        if ((low[u] ?? 0) > disc[p]!) {
+          bridges.push(e);
+        }
+        continue;
+      }
+
+      const adj = frame.adj[frame.index]!;
+      frame.index += 1;
       const e = adj.edge;
       if (visitedEdge[e]) continue;
       const record = graph.edge(e);
@@ -129,24 +155,12 @@ export function biconnectedComponents(
       if (disc[v] === -1) {
         parent[v] = u;
         parentEdge[v] = e;
-        childCount += 1;
+        frame.childCount += 1;
         edgeStack.push(e);
-        dfs(v);
-        low[u] = Math.min(low[u], low[v] ?? low[u]);
-
-        if ((low[v] ?? 0) >= disc[u]) {
-          if (parent[u] !== -1 || childCount > 1) {
-            articulationSet.add(u);
-          }
-          popBlockUntil(e);
-        }
-
-        if ((low[v] ?? 0) > disc[u]) {
-          bridges.push(e);
-        }
+        enter(v);
       } else if (v !== parent[u] || e !== parentEdge[u]) {
-        low[u] = Math.min(low[u], disc[v] ?? low[u]);
-        if ((disc[v] ?? 0) < disc[u]) {
+        low[u] = Math.min(low[u]!, disc[v] ?? low[u]!);
+        if ((disc[v] ?? 0) < disc[u]!) {
           edgeStack.push(e);
         }
       }
@@ -193,7 +207,7 @@ export type BCTree = {
   edgeToBlock: number[];
 };
 
-export function buildBCTree(graph: Graph, bcc?: BiconnectedResult): BCTree {
+export function buildBCTree(graph: ReadonlyGraph, bcc?: BiconnectedResult): BCTree {
   const result = bcc ?? biconnectedComponents(graph);
   const nodes: BCTreeNode[] = [];
   const adj: number[][] = [];
@@ -1,8 +1,15 @@
-import { GraphBuilder } from '../graph';
+import { GraphBuilder, MutableGraph } from '../graph';
 import type { EdgeId, Graph, VertexId } from '../graph';
 import type { FaceId, HalfEdgeMesh } from '../embedding';
 import { buildHalfEdgeMesh } from '../embedding';
-import { testPlanarity, type PlanarityOptions } from '../planarity';
+import {
+  maximalPlanarSubgraph,
+  testPlanarity,
+  type PlanarityOptions,
+  type PlanarSubgraphOptions,
+} from '../planarity';
+import { spqrDecomposeAll } from '../decomp';
+import type { SPQRTree } from '../decomp';
 
 export type DualGraph = {
   graph: ReturnType<GraphBuilder['build']>;
@@ -96,10 +103,7 @@ export function dualShortestPath(
 
   let target: FaceId | null = null;
   for (const f of goalFaces) {
-    if (dist[f] < Infinity) {
-      target = f;
-      break;
-    }
+    if (dist[f] < (target === null ? Infinity : dist[target])) target = f;
   }
   if (target === null) return null;
 
@@ -148,9 +152,216 @@ export function routeEdgeFixedEmbedding(
   return { crossedPrimalEdges: path.primalEdges, faces: path.faces };
 }
 
+export function crossingCost(graph: Graph, edge: EdgeId): number {
+  const cost = graph.edgeAttributes(edge).crossingCost ?? 1;
+  if (!(cost >= 0)) throw new Error(`Edge ${edge} has an invalid crossing cost ${cost}.`);
+  return cost;
+}
+
+const crossingCostOf = (graph: Graph) => (edge: EdgeId) => crossingCost(graph, edge);
+
+// Crossings of an edge routed through a subgraph between the two faces beside an extra s-t path;
+// by planar duality this is a minimum s-t cut, whichever embedding the subgraph gets.
+const crossSubgraph = (graph: Graph, edges: EdgeId[], s: VertexId, t: VertexId): EdgeId[] => {
+  const cost = crossingCostOf(graph);
+  const local = new Map<VertexId, VertexId>();
+  const builder = new GraphBuilder();
+  const vertexOf = (v: VertexId) => {
+    let id = local.get(v);
+    if (id === undefined) {
+      id = builder.addVertex(v);
+      local.set(v, id);
+    }
+    return id;
+  };
+  for (const id of edges) {
+    const edge = graph.edge(id);
+    builder.addEdge(vertexOf(edge.u), vertexOf(edge.v), false);
+  }
+  // The pole edge is subdivided so that it never runs parallel to a subgraph edge.
+  const middle = builder.addVertex('poles');
+  const poles = builder.addEdge(vertexOf(s), middle, false);
+  const other = builder.addEdge(middle, vertexOf(t), false);
+  const sub = builder.build();
+  const planarity = testPlanarity(sub);
+  if (!planarity.planar) throw new Error('Variable edge insertion requires a planar graph.');
+  const mesh = buildHalfEdgeMesh(sub, planarity.embedding);
+  const path = dualShortestPath(
+    buildDual(mesh),
+    [mesh.face[2 * poles]!],
+    [mesh.face[2 * poles + 1]!],
+    (_, primalEdge) => (primalEdge === poles || primalEdge === other ? Infinity : cost(edges[primalEdge]!)),
+  );
+  if (!path) throw new Error('Variable edge insertion found no path through a subgraph.');
+  return path.primalEdges.map((id) => edges[id]!);
+};
+
+// Optimal insertion path through one block, following Gutwenger, Mutzel and Weiskircher: only
+// R-node skeletons on the SPQR-tree path from x to y cost crossings, P-nodes are permuted and
+// S-nodes are crossed for free.
+const routeThroughBlock = (graph: Graph, tree: SPQRTree, x: VertexId, y: VertexId): EdgeId[] => {
+  const inner = tree.nodes.filter((node) => node.type !== 'Q');
+  if (inner.length === 0) return [];
+  const cost = crossingCostOf(graph);
+  const treeAdjacency = new Map<number, Array<{ node: number; treeEdge: number }>>();
+  for (const edge of tree.edges) {
+    if (edge.kind !== 'virtual') continue;
+    treeAdjacency.set(edge.from, [...(treeAdjacency.get(edge.from) ?? []), { node: edge.to, treeEdge: edge.id }]);
+    treeAdjacency.set(edge.to, [...(treeAdjacency.get(edge.to) ?? []), { node: edge.from, treeEdge: edge.id }]);
+  }
+  const holds = (nodeId: number, v: VertexId) => tree.nodes[nodeId]!.vertexMap.includes(v);
+
+  const shared = inner.filter((node) => holds(node.id, x) && holds(node.id, y));
+  let path: number[];
+  if (shared.length > 0) {
+    if (shared.some((node) => node.type !== 'R')) return [];
+    path = [shared[0]!.id];
+  } else {
+    const previous = new Map<number, number>();
+    const queue = inner.filter((node) => holds(node.id, x)).map((node) => node.id);
+    for (const id of queue) previous.set(id, -1);
+    let target = -1;
+    for (let i = 0; i < queue.length && target === -1; i += 1) {
+      const current = queue[i]!;
+      if (holds(current, y)) {
+        target = current;
+        break;
+      }
+      for (const { node } of treeAdjacency.get(current) ?? []) {
+        if (previous.has(node)) continue;
+        previous.set(node, current);
+        queue.push(node);
+      }
+    }
+    if (target === -1) throw new Error('Variable edge insertion found no SPQR-tree path.');
+    path = [];
+    for (let node = target; node !== -1; node = previous.get(node)!) path.push(node);
+    path.reverse();
+  }
+
+  const treeEdgeBetween = (a: number, b: number) =>
+    treeAdjacency.get(a)!.find((entry) => entry.node === b)!.treeEdge;
+  const expansion = (nodeId: number, treeEdge: number) => {
+    const edges = new Set<EdgeId>();
+    const start = tree.edges[treeEdge]!;
+    const stack = [start.from === nodeId ? start.to : start.from];
+    const seen = new Set([nodeId]);
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      for (const kind of tree.nodes[current]!.edgeKind) {
+        if (kind?.kind === 'real') edges.add(kind.original);
+      }
+      for (const { node } of treeAdjacency.get(current) ?? []) stack.push(node);
+    }
+    return [...edges].sort((a, b) => a - b);
+  };
+
+  const crossed: EdgeId[] = [];
+  path.forEach((nodeId, i) => {
+    const node = tree.nodes[nodeId]!;
+    if (node.type !== 'R') return;
+    const skeletonEdgeOf = (treeEdge: number) =>
+      node.edgeKind.findIndex((kind) => kind?.kind === 'virtual' && kind.treeEdge === treeEdge);
+    const entry = i === 0 ? -1 : skeletonEdgeOf(treeEdgeBetween(nodeId, path[i - 1]!));
+    const exit = i === path.length - 1 ? -1 : skeletonEdgeOf(treeEdgeBetween(nodeId, path[i + 1]!));
+    const planarity = testPlanarity(node.skeleton);
+    if (!planarity.planar) throw new Error('Variable edge insertion requires a planar graph.');
+    const mesh = buildHalfEdgeMesh(node.skeleton, planarity.embedding);
+    const endFaces = (skeletonEdge: number, v: VertexId) => {
+      if (skeletonEdge !== -1) return [mesh.face[2 * skeletonEdge]!, mesh.face[2 * skeletonEdge + 1]!];
+      const local = node.vertexMap.indexOf(v);
+      return [...new Set(mesh.origin.flatMap((o, h) => (o === local ? [mesh.face[h]!] : [])))];
+    };
+
+    const throughVirtual = new Map<number, EdgeId[]>();
+    const crossing = (skeletonEdge: number) => {
+      const kind = node.edgeKind[skeletonEdge]!;
+      if (kind.kind === 'real') return [kind.original];
+      let list = throughVirtual.get(skeletonEdge);
+      if (!list) {
+        const record = node.skeleton.edge(skeletonEdge);
+        list = crossSubgraph(
+          graph,
+          expansion(nodeId, kind.treeEdge!),
+          node.vertexMap[record.u]!,
+          node.vertexMap[record.v]!,
+        );
+        throughVirtual.set(skeletonEdge, list);
+      }
+      return list;
+    };
+    const route = dualShortestPath(buildDual(mesh), endFaces(entry, x), endFaces(exit, y), (_, primalEdge) =>
+      primalEdge === entry || primalEdge === exit
+        ? Infinity
+        : crossing(primalEdge).reduce((sum, id) => sum + cost(id), 0),
+    );
+    if (!route) throw new Error('Variable edge insertion found no path through a skeleton.');
+    for (const skeletonEdge of route.primalEdges) crossed.push(...crossing(skeletonEdge));
+  });
+  return crossed;
+};
+
+// Routes u-v with the cheapest crossings over all planar embeddings of a planar graph, each crossed
+// edge costing its crossingCost attribute. Blocks on the BC-tree path are routed independently
+// since cut vertices can always be rotated to make room.
+export function routeEdgeVariableEmbedding(
+  graph: Graph,
+  u: VertexId,
+  v: VertexId,
+): { crossedPrimalEdges: EdgeId[] } {
+  const forest = spqrDecomposeAll(graph, { allowSelfLoops: 'ignore', treatDirectedAsUndirected: true });
+  const blocksAt = new Map<VertexId, number[]>();
+  forest.blocks.forEach((block, index) => {
+    const ends = new Set(block.edges.flatMap((id) => [graph.edge(id).u, graph.edge(id).v]));
+    for (const w of ends) blocksAt.set(w, [...(blocksAt.get(w) ?? []), index]);
+  });
+
+  // Breadth-first search over the block/cut-vertex tree, keyed by vertex.
+  const reachedBy = new Map<VertexId, { block: number; from: VertexId }>([[u, { block: -1, from: -1 }]]);
+  const queue = [u];
+  const scanned = new Set<number>();
+  for (let i = 0; i < queue.length && !reachedBy.has(v); i += 1) {
+    const w = queue[i]!;
+    for (const block of blocksAt.get(w) ?? []) {
+      if (scanned.has(block)) continue;
+      scanned.add(block);
+      for (const id of forest.blocks[block]!.edges) {
+        for (const end of [graph.edge(id).u, graph.edge(id).v]) {
+          if (reachedBy.has(end)) continue;
+          reachedBy.set(end, { block, from: w });
+          queue.push(end);
+        }
+      }
+    }
+  }
+  if (!reachedBy.has(v)) return { crossedPrimalEdges: [] };
+
+  const segments: Array<{ block: number; from: VertexId; to: VertexId }> = [];
+  for (let w = v; w !== u; ) {
+    const step = reachedBy.get(w)!;
+    segments.push({ block: step.block, from: step.from, to: w });
+    w = step.from;
+  }
+  segments.reverse();
+  // Consecutive hops inside one block collapse into a single pass through it.
+  const merged: typeof segments = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.block === segment.block) last.to = segment.to;
+    else merged.push({ ...segment });
+  }
+  const crossedPrimalEdges = merged.flatMap(({ block, from, to }) =>
+    routeThroughBlock(graph, forest.blocks[block]!.tree, from, to),
+  );
+  return { crossedPrimalEdges };
+}
+
 export type RouteOnGraphOptions = {
   planarityFallback?: boolean;
   planarityOptions?: PlanarityOptions;
+  planarSubgraph?: PlanarSubgraphOptions;
 };
 
 export type RouteOnGraphResult = {
@@ -160,43 +371,32 @@ export type RouteOnGraphResult = {
   droppedEdges?: EdgeId[];
 };
 
-const buildMaximalPlanarSubgraph = (graph: Graph, options?: PlanarityOptions) => {
-  const kept: Array<{ u: VertexId; v: VertexId; original: EdgeId }> = [];
-  const dropped: EdgeId[] = [];
+const buildMaximalPlanarSubgraph = (
+  graph: Graph,
+  options?: PlanarityOptions,
+  subgraphOptions?: PlanarSubgraphOptions,
+) => {
   const treatDirected = options?.treatDirectedAsUndirected ?? false;
   const allowSelfLoops = options?.allowSelfLoops ?? 'reject';
 
   for (const edge of graph.edges()) {
-    if (edge.u === edge.v) {
-      if (allowSelfLoops === 'ignore') {
-        dropped.push(edge.id);
-        continue;
-      }
+    if (edge.u === edge.v && allowSelfLoops !== 'ignore') {
       throw new Error('Dual routing does not support self-loops.');
     }
     if (edge.directed && !treatDirected) {
       throw new Error('Dual routing requires an undirected graph.');
     }
-    const builder = new GraphBuilder();
-    for (const v of graph.vertices()) builder.addVertex(graph.label(v));
-    for (const keptEdge of kept) builder.addEdge(keptEdge.u, keptEdge.v, false);
-    builder.addEdge(edge.u, edge.v, false);
-    const test = testPlanarity(builder.build(), options);
-    if (test.planar) {
-      kept.push({ u: edge.u, v: edge.v, original: edge.id });
-    } else {
-      dropped.push(edge.id);
-    }
   }
 
-  const baseBuilder = new GraphBuilder();
-  for (const v of graph.vertices()) baseBuilder.addVertex(graph.label(v));
-  const edgeMap: EdgeId[] = [];
-  for (const keptEdge of kept) {
-    const id = baseBuilder.addEdge(keptEdge.u, keptEdge.v, false);
-    edgeMap[id] = keptEdge.original;
-  }
-  return { graph: baseBuilder.build(), edgeMap, dropped };
+  const subgraph = maximalPlanarSubgraph(graph, subgraphOptions);
+  const isLoop = (id: EdgeId) => graph.edge(id).u === graph.edge(id).v;
+  const dropped = [...subgraph.removed, ...subgraph.kept.filter(isLoop)].sort((a, b) => a - b);
+
+  const base = MutableGraph.from(graph);
+  for (const id of dropped) base.removeEdge(id);
+  for (const { id, directed } of base.edges()) if (directed) base.setEdgeDirected(id, false);
+  const { graph: baseGraph, edgeOrigin } = base.freeze();
+  return { graph: baseGraph, edgeMap: edgeOrigin, dropped };
 };
 
 export function routeEdgeOnGraph(
@@ -209,7 +409,8 @@ export function routeEdgeOnGraph(
   const planarity = testPlanarity(graph, options.planarityOptions);
   if (planarity.planar) {
     const mesh = buildHalfEdgeMesh(graph, planarity.embedding);
-    const route = routeEdgeFixedEmbedding(mesh, u, v);
+    const cost = crossingCostOf(graph);
+    const route = routeEdgeFixedEmbedding(mesh, u, v, (_, primalEdge) => cost(primalEdge));
     if (!route) return null;
     const note = planarity.ignoredSelfLoops?.length
       ? `Ignored ${planarity.ignoredSelfLoops.length} self-loop(s) during planarity check.`
@@ -222,11 +423,13 @@ export function routeEdgeOnGraph(
   const { graph: base, edgeMap, dropped } = buildMaximalPlanarSubgraph(
     graph,
     options.planarityOptions,
+    options.planarSubgraph,
   );
   const basePlanarity = testPlanarity(base, options.planarityOptions);
   if (!basePlanarity.planar) return null;
   const mesh = buildHalfEdgeMesh(base, basePlanarity.embedding);
-  const route = routeEdgeFixedEmbedding(mesh, u, v);
+  const cost = crossingCostOf(graph);
+  const route = routeEdgeFixedEmbedding(mesh, u, v, (_, primalEdge) => cost(edgeMap[primalEdge]!));
   if (!route) return null;
   const mapped = route.crossedPrimalEdges.map((edgeId) => edgeMap[edgeId] ?? edgeId);
   const result: RouteOnGraphResult = {
@@ -0,0 +1,332 @@
+// An embedding that edges get added to. Half-edges pair up as (2e, 2e + 1) and h also names the
+// corner at origin[h] between prev[h] and h; the corners of a face are the half-edges along it.
+export type PlaneShape = {
+  vertexCount: number;
+  origin: number[];
+  next: number[];
+  prev: number[];
+};
+
+type Plane = PlaneShape & {
+  degree: number[];
+  // One half-edge leaving every vertex, or -1 for vertices without edges.
+  corner: number[];
+  adjacent: Set<number>;
+};
+
+const head = (plane: PlaneShape, h: number) => plane.origin[h ^ 1]!;
+const isLoop = (plane: PlaneShape, h: number) => plane.origin[h] === head(plane, h);
+const pairKey = (plane: Plane, u: number, v: number) =>
+  Math.min(u, v) * plane.vertexCount + Math.max(u, v);
+const isAdjacent = (plane: Plane, u: number, v: number) => plane.adjacent.has(pairKey(plane, u, v));
+
+export const toPlane = (shape: PlaneShape): Plane => {
+  const plane: Plane = {
+    ...shape,
+    degree: Array(shape.vertexCount).fill(0),
+    corner: Array(shape.vertexCount).fill(-1),
+    adjacent: new Set(),
+  };
+  shape.origin.forEach((v, h) => {
+    plane.degree[v] = plane.degree[v]! + 1;
+    if (plane.corner[v] === -1) plane.corner[v] = h;
+    plane.adjacent.add(pairKey(plane, v, head(shape, h)));
+  });
+  return plane;
+};
+
+// Adds the edge u-v, where u and v are the origins of corner a and corner b (or -1 for a vertex
+// without edges), and returns its half-edge from u. Inside one face this splits it, with the new
+// half-edge from u running into b; across two components it merges their faces.
+const addEdge = (plane: Plane, u: number, v: number, a: number, b: number) => {
+  const g = plane.origin.length;
+  plane.origin.push(u, v);
+  plane.next.push(g + 1, g);
+  plane.prev.push(g + 1, g);
+  if (b >= 0) {
+    const pb = plane.prev[b]!;
+    plane.next[g] = b;
+    plane.prev[b] = g;
+    plane.next[pb] = g + 1;
+    plane.prev[g + 1] = pb;
+  }
+  if (a >= 0) {
+    const pa = plane.prev[a]!;
+    plane.next[g + 1] = a;
+    plane.prev[a] = g + 1;
+    plane.next[pa] = g;
+    plane.prev[g] = pa;
+  }
+  for (const [w, h] of [
+    [u, g],
+    [v, g + 1],
+  ] as const) {
+    plane.degree[w] = plane.degree[w]! + 1;
+    if (plane.corner[w] === -1) plane.corner[w] = h;
+  }
+  plane.adjacent.add(pairKey(plane, u, v));
+  return g;
+};
+
+const insertChord = (plane: Plane, a: number, b: number) =>
+  addEdge(plane, plane.origin[a]!, plane.origin[b]!, a, b);
+
+const lowerScore = (plane: Plane, u: number, v: number, than: [number, number]) => {
+  const [du, dv] = [plane.degree[u]!, plane.degree[v]!];
+  const worst = Math.max(du, dv);
+  return worst < than[0] || (worst === than[0] && du + dv < than[1]);
+};
+
+// Chains the components together, each time through the vertices of lowest degree.
+export const connectPlane = (plane: Plane) => {
+  const parent = Array.from({ length: plane.vertexCount }, (_, v) => v);
+  const find = (v: number): number => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]!]!;
+      v = parent[v]!;
+    }
+    return v;
+  };
+  plane.origin.forEach((v, h) => {
+    parent[find(v)] = find(head(plane, h));
+  });
+  const components = new Map<number, number[]>();
+  for (let v = 0; v < plane.vertexCount; v += 1) {
+    const root = find(v);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(v);
+  }
+  const lowest = (vertices: number[]) =>
+    vertices.reduce((best, v) => (plane.degree[v]! < plane.degree[best]! ? v : best));
+  const list = [...components.values()];
+  for (let i = 1; i < list.length; i += 1) {
+    const u = lowest(list[i - 1]!);
+    const v = lowest(list[i]!);
+    addEdge(plane, u, v, plane.corner[u]!, plane.corner[v]!);
+  }
+};
+
+// The half-edges along the face from h, self-loops left out.
+const walkFrom = (plane: Plane, start: number) => {
+  const walk: number[] = [];
+  let h = start;
+  do {
+    if (!isLoop(plane, h)) walk.push(h);
+    h = plane.next[h]!;
+  } while (h !== start);
+  return walk;
+};
+
+// Every face as the half-edges along it, self-loops left out.
+const faceWalks = (plane: Plane) => {
+  const seen: boolean[] = Array(plane.origin.length).fill(false);
+  const walks: number[][] = [];
+  for (let start = 0; start < plane.origin.length; start += 1) {
+    if (seen[start]) continue;
+    let h = start;
+    do {
+      seen[h] = true;
+      h = plane.next[h]!;
+    } while (h !== start);
+    const walk = walkFrom(plane, start);
+    if (walk.length > 0) walks.push(walk);
+  }
+  return walks;
+};
+
+const lowestCorner = (plane: Plane, corners: number[]) =>
+  corners.reduce((best, h) =>
+    plane.degree[plane.origin[h]!]! < plane.degree[plane.origin[best]!]! ? h : best,
+  );
+
+// A connected plane graph is biconnected once no face passes a vertex twice. A face that comes
+// back to v leaves a pocket between the two visits that only v joins to the rest of the face, so
+// a chord from the pocket to the rest, between its vertices of lowest degree, is never parallel.
+export const biconnectPlane = (plane: Plane) => {
+  const pending = faceWalks(plane);
+  while (pending.length > 0) {
+    const walk = pending.pop()!;
+    const lastSeen = new Map<number, number>();
+    for (let j = 0; j < walk.length; j += 1) {
+      const v = plane.origin[walk[j]!]!;
+      const i = lastSeen.get(v);
+      lastSeen.set(v, j);
+      if (i === undefined) continue;
+      const pocket = walk.slice(i + 1, j);
+      const rest = [...walk.slice(j + 1), ...walk.slice(0, i)].filter((h) => plane.origin[h] !== v);
+      const g = insertChord(plane, lowestCorner(plane, pocket), lowestCorner(plane, rest));
+      pending.push(walkFrom(plane, g), walkFrom(plane, g + 1));
+      break;
+    }
+  }
+};
+
+// Binary heap of [worst degree, degree sum, node, version] entries, smallest first.
+type Entry = [number, number, number, number];
+const less = (x: Entry, y: Entry) => x[0] < y[0] || (x[0] === y[0] && x[1] < y[1]);
+const heapPush = (heap: Entry[], entry: Entry) => {
+  heap.push(entry);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (!less(heap[i]!, heap[parent]!)) break;
+    [heap[parent], heap[i]] = [heap[i]!, heap[parent]!];
+    i = parent;
+  }
+};
+const heapPop = (heap: Entry[]) => {
+  const top = heap[0]!;
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const [l, r] = [2 * i + 1, 2 * i + 2];
+      let smallest = i;
+      if (l < heap.length && less(heap[l]!, heap[smallest]!)) smallest = l;
+      if (r < heap.length && less(heap[r]!, heap[smallest]!)) smallest = r;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i]!, heap[smallest]!];
+      i = smallest;
+    }
+  }
+  return top;
+};
+
+// Cuts ears off the face until three edges are left: the ear at position i is the chord from the
+// start of walk[i] to the end of the half-edge after it, and the one between the vertices of
+// lowest degree goes first. A chord never joins a vertex to itself or to a neighbor.
+const triangulateWalk = (plane: Plane, walk: number[]) => {
+  const size = walk.length;
+  const nextPos = walk.map((_, i) => (i + 1) % size);
+  const prevPos = walk.map((_, i) => (i - 1 + size) % size);
+  const version: number[] = Array(size).fill(0);
+  const alive: boolean[] = Array(size).fill(true);
+  const heap: Entry[] = [];
+  const ends = (i: number) => [plane.origin[walk[i]!]!, head(plane, walk[nextPos[i]!]!)] as const;
+  const push = (i: number) => {
+    const [a, c] = ends(i);
+    if (a === c || isAdjacent(plane, a, c)) return;
+    const [da, dc] = [plane.degree[a]!, plane.degree[c]!];
+    heapPush(heap, [Math.max(da, dc), da + dc, i, version[i]!]);
+  };
+  walk.forEach((_, i) => push(i));
+  let left = size;
+  while (left > 3) {
+    if (heap.length === 0) throw new Error('Failed to triangulate a face of the embedding.');
+    const [worst, sum, i, stamp] = heapPop(heap);
+    if (!alive[i] || stamp !== version[i]) continue;
+    const [a, c] = ends(i);
+    if (isAdjacent(plane, a, c)) continue;
+    const [da, dc] = [plane.degree[a]!, plane.degree[c]!];
+    if (Math.max(da, dc) !== worst || da + dc !== sum) {
+      heapPush(heap, [Math.max(da, dc), da + dc, i, stamp]);
+      continue;
+    }
+    const j = nextPos[i]!;
+    walk[i] = insertChord(plane, walk[i]!, plane.next[walk[j]!]!);
+    alive[j] = false;
+    nextPos[i] = nextPos[j]!;
+    prevPos[nextPos[j]!] = i;
+    left -= 1;
+    for (const k of [i, prevPos[i]!]) {
+      version[k] = version[k]! + 1;
+      push(k);
+    }
+  }
+};
+
+export const triangulatePlane = (plane: Plane) => {
+  for (const walk of faceWalks(plane)) {
+    if (walk.length > 3) triangulateWalk(plane, walk);
+  }
+};
+
+// A biconnected plane graph on four or more vertices is triconnected exactly when no two faces
+// share two vertices that are not ends of one edge on both. Such a pair u, v cuts a face where
+// they are not neighbors into two arcs; a chord between the arcs, at vertices of low degree,
+// removes it. Faces without such a chord get triangulated instead.
+export const triconnectPlane = (plane: Plane) => {
+  const present = plane.degree.filter((d) => d > 0).length;
+  if (present < 4) return;
+  for (;;) {
+    const walks = faceWalks(plane);
+    const facesAt: number[][] = Array.from({ length: plane.vertexCount }, () => []);
+    const vertexSets = walks.map((walk, f) => {
+      const vertices = [...new Set(walk.map((h) => plane.origin[h]!))];
+      for (const v of vertices) facesAt[v]!.push(f);
+      return vertices;
+    });
+    const neighborsOn = (walk: number[], u: number, v: number) =>
+      walk.some((h) => {
+        const [x, y] = [plane.origin[h]!, head(plane, h)];
+        return (x === u && y === v) || (x === v && y === u);
+      });
+
+    // Faces split during a pass wait for the next one; the others keep their walks.
+    const split = new Set<number>();
+    for (let f = 0; f < walks.length; f += 1) {
+      if (split.has(f)) continue;
+      const shared = new Map<number, number[]>();
+      for (const v of vertexSets[f]!) {
+        for (const g of facesAt[v]!) {
+          if (g === f || split.has(g)) continue;
+          if (!shared.has(g)) shared.set(g, []);
+          shared.get(g)!.push(v);
+        }
+      }
+      for (const [g, common] of shared) {
+        if (common.length < 2) continue;
+        const side = [f, g].find((k) => findSeparatedPair(walks[k]!, common, neighborsOn));
+        if (side === undefined) continue;
+        const walk = walks[side]!;
+        const pair = findSeparatedPair(walk, common, neighborsOn)!;
+        if (!addCrossChord(plane, walk, pair)) triangulateWalk(plane, walk);
+        split.add(side);
+        if (side === f) break;
+      }
+    }
+    if (split.size === 0) return;
+  }
+};
+
+const findSeparatedPair = (
+  walk: number[],
+  common: number[],
+  neighborsOn: (walk: number[], u: number, v: number) => boolean,
+): [number, number] | null => {
+  for (let i = 0; i < common.length; i += 1) {
+    for (let j = i + 1; j < common.length; j += 1) {
+      const [u, v] = [common[i]!, common[j]!];
+      if (!neighborsOn(walk, u, v)) return [u, v];
+    }
+  }
+  return null;
+};
+
+// Adds the best chord of the face between the two arcs that u and v cut it into.
+const addCrossChord = (plane: Plane, walk: number[], [u, v]: [number, number]) => {
+  const start = walk.findIndex((h) => plane.origin[h] === u);
+  const arcs: number[][] = [[], []];
+  let side = 0;
+  for (let k = 1; k < walk.length; k += 1) {
+    const h = walk[(start + k) % walk.length]!;
+    const w = plane.origin[h]!;
+    if (w === v) side = 1;
+    else if (w !== u) arcs[side]!.push(h);
+  }
+  let best: [number, number] | null = null;
+  let bestScore: [number, number] = [Infinity, Infinity];
+  for (const x of arcs[0]!) {
+    for (const y of arcs[1]!) {
+      const [a, b] = [plane.origin[x]!, plane.origin[y]!];
+      if (a === b || isAdjacent(plane, a, b) || !lowerScore(plane, a, b, bestScore)) continue;
+      best = [x, y];
+      const [da, db] = [plane.degree[a]!, plane.degree[b]!];
+      bestScore = [Math.max(da, db), da + db];
+    }
+  }
+  if (!best) return false;
+  insertChord(plane, best[0], best[1]);
+  return true;
+};
@@ -0,0 +1,176 @@
+// In-place edits of a half-edge mesh whose half-edges pair up as (2e, 2e + 1) with edge[h] = e.
+// Only the faces an edit touches are walked again. Removing an edge or a face moves the last one
+// into the freed id, so ids stay dense; every other edge and face keeps its id.
+export type EditableMesh = {
+  halfEdgeCount: number;
+  origin: number[];
+  twin: number[];
+  next: number[];
+  prev: number[];
+  edge: number[];
+  face: number[];
+  faces: number[][];
+};
+
+const link = (mesh: EditableMesh, a: number, b: number) => {
+  mesh.next[a] = b;
+  mesh.prev[b] = a;
+};
+
+// Walks the face through start and gives it the id f.
+const labelFace = (mesh: EditableMesh, f: number, start: number) => {
+  const cycle: number[] = [];
+  let h = start;
+  do {
+    mesh.face[h] = f;
+    cycle.push(h);
+    h = mesh.next[h]!;
+  } while (h !== start);
+  mesh.faces[f] = cycle;
+  return cycle;
+};
+
+const pushPair = (mesh: EditableMesh, u: number, v: number) => {
+  const g = mesh.halfEdgeCount;
+  mesh.origin.push(u, v);
+  mesh.twin.push(g + 1, g);
+  mesh.next.push(g + 1, g);
+  mesh.prev.push(g + 1, g);
+  mesh.edge.push(g >> 1, g >> 1);
+  mesh.face.push(-1, -1);
+  mesh.halfEdgeCount += 2;
+  return g;
+};
+
+// Adds an edge across the face from corner from (at its origin, between prev[from] and from) to
+// corner to. The half-edge returned runs from origin[from] into to and keeps the face's id; the
+// other side becomes a new face.
+export const insertInFace = (mesh: EditableMesh, from: number, to: number) => {
+  if (from === to || mesh.face[from] !== mesh.face[to]) {
+    throw new Error('Edge insertion needs two different corners of one face.');
+  }
+  const f = mesh.face[from]!;
+  const [pa, pb] = [mesh.prev[from]!, mesh.prev[to]!];
+  const g = pushPair(mesh, mesh.origin[from]!, mesh.origin[to]!);
+  link(mesh, pa, g);
+  link(mesh, g, to);
+  link(mesh, pb, g + 1);
+  link(mesh, g + 1, from);
+  labelFace(mesh, f, g);
+  labelFace(mesh, mesh.faces.length, g + 1);
+  return g;
+};
+
+// Puts vertex on edge e = u-v: edge e keeps u-vertex and the returned half-edge starts the new
+// edge vertex-v.
+export const subdivide = (mesh: EditableMesh, e: number, vertex: number) => {
+  const [h, t] = [2 * e, 2 * e + 1];
+  const [nh, pt] = [mesh.next[h]!, mesh.prev[t]!];
+  const g = pushPair(mesh, vertex, mesh.origin[t]!);
+  mesh.origin[t] = vertex;
+  link(mesh, h, g);
+  link(mesh, g, nh === t ? g + 1 : nh);
+  link(mesh, pt === h ? g : pt, g + 1);
+  link(mesh, g + 1, t);
+  labelFace(mesh, mesh.face[h]!, h);
+  labelFace(mesh, mesh.face[t]!, t);
+  return g;
+};
+
+// Moves the last half-edge pair into the slot of edge e and returns its old edge id, or -1 when
+// e was the last edge.
+const dropPair = (mesh: EditableMesh, e: number) => {
+  const last = mesh.halfEdgeCount / 2 - 1;
+  const moved = (x: number) => (x >> 1 === last ? 2 * e + (x & 1) : x);
+  if (e !== last) {
+    for (const k of [0, 1]) {
+      const [from, to] = [2 * last + k, 2 * e + k];
+      mesh.origin[to] = mesh.origin[from]!;
+      mesh.face[to] = mesh.face[from]!;
+      mesh.next[to] = moved(mesh.next[from]!);
+      mesh.prev[to] = moved(mesh.prev[from]!);
+    }
+    for (const k of [0, 1]) {
+      const to = 2 * e + k;
+      mesh.prev[mesh.next[to]!] = to;
+      mesh.next[mesh.prev[to]!] = to;
+      const cycle = mesh.faces[mesh.face[to]!]!;
+      cycle[cycle.indexOf(2 * last + k)] = to;
+    }
+  }
+  mesh.halfEdgeCount -= 2;
+  for (const list of [mesh.origin, mesh.twin, mesh.next, mesh.prev, mesh.edge, mesh.face]) {
+    list.length = mesh.halfEdgeCount;
+  }
+  return e === last ? -1 : last;
+};
+
+// Deletes edge e ('delete' merges or splits its faces, 'contract' also merges its head into its
+// tail). The faces along it are walked again under their old ids. Returns the old id of the edge
+// moved into e (-1 if none) and the face moved into a freed id, if any.
+export const removeEdge = (mesh: EditableMesh, e: number, mode: 'delete' | 'contract') => {
+  const [h, t] = [2 * e, 2 * e + 1];
+  const [u, v] = [mesh.origin[h]!, mesh.origin[t]!];
+  if (mode === 'contract' && u === v) throw new Error('Cannot contract a self-loop.');
+  const [nh, nt] = [mesh.next[h]!, mesh.next[t]!];
+  const survivors = [mesh.prev[h]!, mesh.prev[t]!, nh, nt].filter((x) => x >> 1 !== e);
+  if (mode === 'contract') {
+    for (let x = nh; x !== t; x = mesh.next[mesh.twin[x]!]!) mesh.origin[x] = u;
+  }
+  // The walk that reached h now goes on with nt after a deletion and with nh after a contraction.
+  const after = (x: number) => ((x === h) === (mode === 'delete') ? nt : nh);
+  for (const a of survivors) {
+    if (mesh.next[a]! >> 1 !== e) continue;
+    let b = after(mesh.next[a]!);
+    for (let guard = 0; b >> 1 === e && guard < 2; guard += 1) b = after(b);
+    link(mesh, a, b);
+  }
+
+  const touched = [...new Set([mesh.face[h]!, mesh.face[t]!])].sort((a, b) => a - b);
+  const movedEdge = dropPair(mesh, e);
+  const renamed = survivors.map((x) => (x >> 1 === movedEdge ? 2 * e + (x & 1) : x));
+  // The new walks take over the ids of the faces they replace, and a split adds one at the end.
+  const walked = new Set<number>();
+  let reused = 0;
+  for (const start of renamed) {
+    if (walked.has(start)) continue;
+    const f = reused < touched.length ? touched[reused++]! : mesh.faces.length;
+    for (const x of labelFace(mesh, f, start)) walked.add(x);
+  }
+  // A merge frees one id, which the last face moves into.
+  let movedFace: { from: number; to: number } | null = null;
+  if (reused < touched.length) {
+    const [free, lastFace] = [touched[reused]!, mesh.faces.length - 1];
+    if (free !== lastFace) {
+      mesh.faces[free] = mesh.faces[lastFace]!;
+      for (const x of mesh.faces[free]!) mesh.face[x] = free;
+      movedFace = { from: lastFace, to: free };
+    }
+    mesh.faces.pop();
+  }
+  return { movedEdge, movedFace };
+};
+
+// Turns edge e inside the two faces beside it: each end moves one step forward along its face,
+// and both faces keep their ids.
+export const flip = (mesh: EditableMesh, e: number) => {
+  const [h, t] = [2 * e, 2 * e + 1];
+  const [fh, ft] = [mesh.face[h]!, mesh.face[t]!];
+  if (fh === ft || mesh.faces[fh]!.length < 3 || mesh.faces[ft]!.length < 3) {
+    throw new Error('Edge flips need two different faces of three or more edges beside the edge.');
+  }
+  const [n1, n2] = [mesh.next[h]!, mesh.next[t]!];
+  const [a, b] = [mesh.origin[mesh.twin[n1]!]!, mesh.origin[mesh.twin[n2]!]!];
+  if (a === b) throw new Error('Flipping the edge would turn it into a self-loop.');
+  const [r1, r2] = [mesh.next[n1]!, mesh.next[n2]!];
+  link(mesh, mesh.prev[h]!, n2);
+  link(mesh, mesh.prev[t]!, n1);
+  mesh.origin[h] = b;
+  mesh.origin[t] = a;
+  link(mesh, n2, h);
+  link(mesh, h, r1);
+  link(mesh, n1, t);
+  link(mesh, t, r2);
+  labelFace(mesh, fh, h);
+  labelFace(mesh, ft, t);
+};
@@ -0,0 +1,79 @@
+type Point = { x: number; y: number };
+
+export type Segment = { id: number; u: number; v: number; p: Point; q: Point };
+
+// Orders directions counterclockwise from the positive x axis (y up), exactly and without trig.
+export const compareDirections = (a: Point, b: Point) => {
+  const half = (d: Point) => (d.y > 0 || (d.y === 0 && d.x > 0) ? 0 : 1);
+  return half(a) - half(b) || a.y * b.x - a.x * b.y;
+};
+
+const orient = (p: Point, q: Point, r: Point) =>
+  Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+
+// r lies in the bounding box of pq; with orient(p, q, r) = 0 that puts it on the segment.
+const within = (p: Point, q: Point, r: Point) =>
+  Math.min(p.x, q.x) <= r.x &&
+  r.x <= Math.max(p.x, q.x) &&
+  Math.min(p.y, q.y) <= r.y &&
+  r.y <= Math.max(p.y, q.y);
+
+// Two edges drawn straight meet anywhere but at a common end: they cross, touch or overlap.
+const meetImproperly = (a: Segment, b: Segment) => {
+  const shared = [a.u, a.v].filter((w) => w === b.u || w === b.v);
+  if (shared.length === 2) return true;
+  if (shared.length === 1) {
+    const c = shared[0] === a.u ? a.p : a.q;
+    const x = shared[0] === a.u ? a.q : a.p;
+    const y = shared[0] === b.u ? b.q : b.p;
+    const dot = (x.x - c.x) * (y.x - c.x) + (x.y - c.y) * (y.y - c.y);
+    return orient(c, x, y) === 0 && dot > 0;
+  }
+  const [o1, o2] = [orient(a.p, a.q, b.p), orient(a.p, a.q, b.q)];
+  const [o3, o4] = [orient(b.p, b.q, a.p), orient(b.p, b.q, a.q)];
+  if (o1 === 0 && within(a.p, a.q, b.p)) return true;
+  if (o2 === 0 && within(a.p, a.q, b.q)) return true;
+  if (o3 === 0 && within(b.p, b.q, a.p)) return true;
+  if (o4 === 0 && within(b.p, b.q, a.q)) return true;
+  return o1 * o2 < 0 && o3 * o4 < 0;
+};
+
+// Pairs of segments that meet improperly, found with a sweep over x; a segment whose ends sit at
+// one point is paired with itself.
+export const improperPairs = (segments: Segment[]) => {
+  const pairs: Array<[number, number]> = [];
+  const sorted = segments
+    .map((s) => ({
+      s,
+      left: Math.min(s.p.x, s.q.x),
+      right: Math.max(s.p.x, s.q.x),
+      low: Math.min(s.p.y, s.q.y),
+      high: Math.max(s.p.y, s.q.y),
+    }))
+    .sort((a, b) => a.left - b.left);
+  let active: typeof sorted = [];
+  for (const item of sorted) {
+    if (item.s.p.x === item.s.q.x && item.s.p.y === item.s.q.y) pairs.push([item.s.id, item.s.id]);
+    active = active.filter((other) => other.right >= item.left);
+    for (const other of active) {
+      if (other.high < item.low || item.high < other.low) continue;
+      if (meetImproperly(other.s, item.s)) {
+        pairs.push([Math.min(other.s.id, item.s.id), Math.max(other.s.id, item.s.id)]);
+      }
+    }
+    active.push(item);
+  }
+  return pairs.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+};
+
+// Whether list b is list a turned cyclically, comparing entries with key.
+export const sameCycle = <T>(a: T[], b: T[], key: (item: T) => string) => {
+  if (a.length !== b.length) return false;
+  if (a.length === 0) return true;
+  const [ka, kb] = [a.map(key), b.map(key)];
+  for (let shift = 0; shift < kb.length; shift += 1) {
+    if (kb[shift] !== ka[0]) continue;
+    if (ka.every((k, i) => kb[(shift + i) % kb.length] === k)) return true;
+  }
+  return false;
+};
@@ -1,4 +1,13 @@
-import type { EdgeId, Graph, VertexId } from '../graph';
+import type { EdgeId, ReadonlyGraph, VertexId } from '../graph';
+import {
+  biconnectPlane,
+  connectPlane,
+  toPlane,
+  triangulatePlane,
+  triconnectPlane,
+} from './augment';
+import { flip, insertInFace, removeEdge, subdivide } from './edit';
+import { compareDirections, improperPairs, sameCycle } from './geometry';
 
 export type HalfEdgeId = number;
 export type FaceId = number;
@@ -23,7 +32,7 @@ export type HalfEdgeMesh = {
   faces: HalfEdgeId[][];
 };
 
-export function rotationFromAdjacency(graph: Graph): RotationSystem {
+export function rotationFromAdjacency(graph: ReadonlyGraph): RotationSystem {
   const order: HalfEdgeRef[][] = [];
   for (const v of graph.vertices()) {
     const list: HalfEdgeRef[] = [];
@@ -35,7 +44,78 @@ export function rotationFromAdjacency(graph: Graph): RotationSystem {
   return { order };
 }
 
-export function buildHalfEdgeMesh(graph: Graph, rotation: RotationSystem): HalfEdgeMesh {
+export type PositionRotation = {
+  rotation: RotationSystem;
+  // True when no two edges meet except at a common end, so rotation is the drawing's embedding.
+  plane: boolean;
+  // Edges that cross, touch or overlap in the straight-line drawing (an edge whose ends sit at one
+  // point is paired with itself).
+  crossings: Array<[EdgeId, EdgeId]>;
+};
+
+// Reads the rotation off a straight-line drawing: neighbors counterclockwise from the positive x
+// axis with y up, parallel edges by id and self-loops last with their two ends side by side.
+export function rotationFromPositions(
+  graph: ReadonlyGraph,
+  positions: Map<VertexId, { x: number; y: number }>,
+): PositionRotation {
+  const at = (v: VertexId) => {
+    const p = positions.get(v);
+    if (!p) throw new Error(`Vertex ${v} has no position.`);
+    return p;
+  };
+  const order: HalfEdgeRef[][] = [];
+  for (const v of graph.vertices()) {
+    const origin = at(v);
+    const direction = (ref: HalfEdgeRef) => {
+      const p = at(ref.to);
+      return { x: p.x - origin.x, y: p.y - origin.y };
+    };
+    order[v] = graph
+      .adjacency(v)
+      .map((adj) => ({ edge: adj.edge, to: adj.to }))
+      .sort((a, b) => {
+        const loops = Number(a.to === v) - Number(b.to === v);
+        if (loops !== 0 || a.to === v) return loops || a.edge - b.edge;
+        return compareDirections(direction(a), direction(b)) || a.edge - b.edge;
+      });
+  }
+  const crossings = improperPairs(
+    graph
+      .edges()
+      .filter((e) => e.u !== e.v)
+      .map((e) => ({ id: e.id, u: e.u, v: e.v, p: at(e.u), q: at(e.v) })),
+  );
+  return { rotation: { order }, plane: crossings.length === 0, crossings };
+}
+
+// Whether two rotation systems embed the graph alike on the sphere, each connected component
+// possibly mirrored. Which face ends up outside is not part of a rotation system.
+export function equivalent(a: RotationSystem, b: RotationSystem): boolean {
+  const vertexCount = Math.max(a.order.length, b.order.length);
+  const parent = Array.from({ length: vertexCount }, (_, v) => v);
+  const find = (v: number) => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]!]!;
+      v = parent[v]!;
+    }
+    return v;
+  };
+  a.order.forEach((refs, v) => refs.forEach((ref) => (parent[find(v)] = find(ref.to))));
+
+  const key = (ref: HalfEdgeRef) => `${ref.edge}:${ref.to}`;
+  const kept = new Map<number, boolean>();
+  const mirrored = new Map<number, boolean>();
+  for (let v = 0; v < vertexCount; v += 1) {
+    const root = find(v);
+    const [x, y] = [a.order[v] ?? [], b.order[v] ?? []];
+    if (!sameCycle(x, y, key)) kept.set(root, false);
+    if (!sameCycle(x, [...y].reverse(), key)) mirrored.set(root, false);
+  }
+  return [...kept.keys()].every((root) => mirrored.get(root) !== false);
+}
+
+export function buildHalfEdgeMesh(graph: ReadonlyGraph, rotation: RotationSystem): HalfEdgeMesh {
   const halfEdgeCount = graph.edgeCount() * 2;
   const origin: VertexId[] = Array(halfEdgeCount).fill(-1);
   const twin: HalfEdgeId[] = Array(halfEdgeCount).fill(-1);
@@ -217,58 +297,271 @@ export function validateMesh(mesh: HalfEdgeMesh): { ok: boolean; errors: string[
   return { ok: errors.length === 0, errors };
 }
 
-export function selectOuterFace(mesh: HalfEdgeMesh, positions?: Map<VertexId, { x: number; y: number }>): FaceId {
-  if (!positions) {
-    const vertexCount = Math.max(0, ...mesh.origin) + 1;
-    const target = Math.max(3, Math.min(90, Math.max(18, Math.round(4 * Math.sqrt(Math.max(1, vertexCount))))));
-    const low = Math.max(3, Math.floor(Math.min(20, vertexCount / 6)));
-    const high = Math.max(low, Math.floor(Math.min(80, vertexCount / 2)));
-
-    const candidates = mesh.faces
-      .map((cycle, idx) => ({ idx, len: cycle.length }))
-      .filter((face) => face.len >= 3);
-
-    if (candidates.length === 0) return 0 as FaceId;
-
-    const preferred = candidates.filter((face) => face.len >= low && face.len <= high);
-    const pool = preferred.length > 0 ? preferred : candidates;
-
-    const scored = pool.slice().sort((a, b) => {
-      const hugeA = a.len > high ? (a.len - high) * 2.4 : 0;
-      const hugeB = b.len > high ? (b.len - high) * 2.4 : 0;
-      const scoreA = Math.abs(a.len - target) + hugeA;
-      const scoreB = Math.abs(b.len - target) + hugeB;
-      if (scoreA !== scoreB) return scoreA - scoreB;
-      if (a.len !== b.len) return a.len - b.len;
-      return a.idx - b.idx;
-    });
+// Orientable genus of the surface the mesh's rotation system draws on, summed over its connected
+// components from V - E + F = 2 - 2g each. Vertices without edges do not count.
+export function genus(mesh: HalfEdgeMesh): number {
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), 0) + 1;
+  const parent = Array.from({ length: vertexCount }, (_, v) => v);
+  const find = (v: number) => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]!]!;
+      v = parent[v]!;
+    }
+    return v;
+  };
+  for (let h = 0; h < mesh.halfEdgeCount; h += 2) {
+    parent[find(mesh.origin[h]!)] = find(mesh.origin[h + 1]!);
+  }
+  const vertices = new Set(mesh.origin);
+  const components = new Set([...vertices].map(find)).size;
+  const euler = vertices.size - mesh.halfEdgeCount / 2 + mesh.faces.length;
+  return (2 * components - euler) / 2;
+}
+
+export type OuterFaceStrategy =
+  | 'auto'
+  | 'largest'
+  | 'medium'
+  | 'smallest'
+  | 'area'
+  // The caller's score; the highest wins.
+  | ((face: FaceId, mesh: HalfEdgeMesh) => number);
+
+export type OuterFaceOptions = {
+  // 'auto' (default) is 'area' when positions are given and otherwise a face near the size
+  // 'medium' aims for, kept well short of the longest faces so the boundary does not become a
+  // ring around everything: when no face is within the preferred range, faces over 1.35 times
+  // that size are left out, which can pick a triangle over a closer but longer face. 'area'
+  // needs positions.
+  strategy?: OuterFaceStrategy;
+  positions?: Map<VertexId, { x: number; y: number }>;
+  // Only faces through the most of these vertices and edges are left to the strategy.
+  preferVertices?: VertexId[];
+  preferEdges?: EdgeId[];
+};
 
-    return (scored[0]?.idx ?? 0) as FaceId;
+// Faces are measured in half-edges, so a face that passes a cut vertex twice counts it twice.
+// Candidates are the faces with three or more sides (every face when there are none), and ties
+// go to the lower face id. A positions map in place of the options means { positions }.
+export function selectOuterFace(
+  mesh: HalfEdgeMesh,
+  options: OuterFaceOptions | Map<VertexId, { x: number; y: number }> = {},
+): FaceId {
+  const {
+    strategy = 'auto',
+    positions,
+    preferVertices = [],
+    preferEdges = [],
+  } = options instanceof Map ? { positions: options } : options;
+  if (mesh.faces.length === 0) return 0;
+  let candidates = faces(mesh).filter((f) => mesh.faces[f]!.length >= 3);
+  if (candidates.length === 0) candidates = faces(mesh);
+  if (preferVertices.length > 0 || preferEdges.length > 0) {
+    const [vertices, edges] = [new Set(preferVertices), new Set(preferEdges)];
+    const preference = (f: FaceId) => {
+      const cycle = mesh.faces[f]!;
+      const onVertices = new Set(cycle.map((h) => mesh.origin[h]!).filter((v) => vertices.has(v)));
+      const onEdges = new Set(cycle.map((h) => mesh.edge[h]!).filter((e) => edges.has(e)));
+      return onVertices.size + onEdges.size;
+    };
+    const scores = new Map(candidates.map((f) => [f, preference(f)]));
+    const most = candidates.reduce((top, f) => Math.max(top, scores.get(f)!), 0);
+    candidates = candidates.filter((f) => scores.get(f) === most);
   }
+  // The first face that no other beats under compare (negative when a beats b).
+  const best = (pool: FaceId[], compare: (a: FaceId, b: FaceId) => number) =>
+    pool.reduce((chosen, f) => (compare(f, chosen) < 0 ? f : chosen));
+  const size = (f: FaceId) => mesh.faces[f]!.length;
 
-  const faceAreas = mesh.faces.map((cycle) => {
-    let area = 0;
-    for (let i = 0; i < cycle.length; i += 1) {
-      const h = cycle[i];
-      const hId = h as number;
-      const v = (mesh.origin[hId] ?? 0) as VertexId;
-      const nextH = cycle[(i + 1) % cycle.length] as number;
-      const w = (mesh.origin[nextH] ?? 0) as VertexId;
-      const p1 = positions.get(v);
-      const p2 = positions.get(w);
-      if (!p1 || !p2) continue;
-      area += p1.x * p2.y - p2.x * p1.y;
-    }
-    return Math.abs(area);
-  });
+  if (typeof strategy === 'function') {
+    const scores = new Map(candidates.map((f) => [f, strategy(f, mesh)]));
+    return best(candidates, (a, b) => scores.get(b)! - scores.get(a)!);
+  }
+  if (strategy === 'largest') return best(candidates, (a, b) => size(b) - size(a));
+  if (strategy === 'smallest') return best(candidates, (a, b) => size(a) - size(b));
+  if (strategy === 'area' || (strategy === 'auto' && positions)) {
+    if (!positions) throw new Error('Outer face strategy area needs vertex positions.');
+    const area = (f: FaceId) => {
+      const cycle = mesh.faces[f]!;
+      let sum = 0;
+      cycle.forEach((h, i) => {
+        const p1 = positions.get(mesh.origin[h]!);
+        const p2 = positions.get(mesh.origin[cycle[(i + 1) % cycle.length]!]!);
+        if (p1 && p2) sum += p1.x * p2.y - p2.x * p1.y;
+      });
+      return Math.abs(sum);
+    };
+    const areas = new Map(candidates.map((f) => [f, area(f)]));
+    return best(candidates, (a, b) => areas.get(b)! - areas.get(a)!);
+  }
 
-  let max = -Infinity;
-  let chosen = 0;
-  faceAreas.forEach((area, idx) => {
-    if (area > max) {
-      max = area;
-      chosen = idx;
-    }
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), 0) + 1;
+  const target = Math.max(3, Math.min(90, Math.max(18, Math.round(4 * Math.sqrt(vertexCount)))));
+  const low = Math.max(3, Math.floor(Math.min(20, vertexCount / 6)));
+  const high = Math.max(low, Math.floor(Math.min(80, vertexCount / 2)));
+  const closest = (pool: FaceId[], penalty: boolean) => {
+    const distance = (f: FaceId) =>
+      Math.abs(size(f) - target) + (penalty && size(f) > high ? (size(f) - high) * 2.4 : 0);
+    return best(pool, (a, b) => distance(a) - distance(b) || size(a) - size(b));
+  };
+  if (strategy === 'medium') return closest(candidates, false);
+  const preferred = candidates.filter((f) => size(f) >= low && size(f) <= high);
+  if (preferred.length > 0) return closest(preferred, true);
+  const short = candidates.filter((f) => size(f) <= Math.max(high, Math.round(target * 1.35)));
+  return closest(short.length > 0 ? short : candidates, true);
+}
+
+export type AugmentOptions = {
+  target: 'connected' | 'biconnected' | 'triconnected' | 'triangulated';
+  // Counts vertices without edges, which the mesh cannot see; defaults to the largest origin + 1.
+  vertexCount?: number;
+  // Augments every connected component on its own and never joins two of them (so 'connected'
+  // adds nothing).
+  perComponent?: boolean;
+};
+
+export type AugmentResult = {
+  mesh: HalfEdgeMesh;
+  // dummy[e] is true for the edges that augment added; they get ids after every original edge.
+  dummy: boolean[];
+};
+
+// Adds edges inside faces until the embedding reaches the target, keeping every original edge and
+// its place in the rotation. Edges go between vertices of low degree where there is a choice, and
+// never parallel to an existing edge; self-loops stay where they are.
+export function augment(mesh: HalfEdgeMesh, options: AugmentOptions): AugmentResult {
+  for (let h = 0; h < mesh.halfEdgeCount; h += 1) {
+    if (mesh.twin[h] !== (h ^ 1)) throw new Error('Augment needs half-edges 2e and 2e + 1 paired.');
+  }
+  const largest = mesh.origin.reduce((best, v) => Math.max(best, v), -1);
+  const vertexCount = options.vertexCount ?? largest + 1;
+  if (vertexCount <= largest) throw new Error('Augment vertexCount is below a vertex of the mesh.');
+  const plane = toPlane({
+    vertexCount,
+    origin: mesh.origin.slice(),
+    next: mesh.next.slice(),
+    prev: mesh.prev.slice(),
   });
-  return chosen as FaceId;
+  if (!options.perComponent) connectPlane(plane);
+  if (options.target === 'triangulated') {
+    triangulatePlane(plane);
+  } else if (options.target !== 'connected') {
+    biconnectPlane(plane);
+    if (options.target === 'triconnected') triconnectPlane(plane);
+  }
+
+  const halfEdgeCount = plane.origin.length;
+  const firstDummy = mesh.edge.reduce((best, e) => Math.max(best, e), -1) + 1;
+  const edge = Array.from({ length: halfEdgeCount }, (_, h) =>
+    h < mesh.halfEdgeCount ? mesh.edge[h]! : firstDummy + ((h - mesh.halfEdgeCount) >> 1),
+  );
+  const dummy = Array.from(
+    { length: firstDummy + (halfEdgeCount - mesh.halfEdgeCount) / 2 },
+    (_, e) => e >= firstDummy,
+  );
+  const face: FaceId[] = Array(halfEdgeCount).fill(-1);
+  const faceCycles: HalfEdgeId[][] = [];
+  for (let h = 0; h < halfEdgeCount; h += 1) {
+    if (face[h] !== -1) continue;
+    const cycle: HalfEdgeId[] = [];
+    let current = h;
+    do {
+      face[current] = faceCycles.length;
+      cycle.push(current);
+      current = plane.next[current]!;
+    } while (current !== h);
+    faceCycles.push(cycle);
+  }
+  return {
+    mesh: {
+      halfEdgeCount,
+      origin: plane.origin,
+      twin: Array.from({ length: halfEdgeCount }, (_, h) => h ^ 1),
+      next: plane.next,
+      prev: plane.prev,
+      edge,
+      face,
+      faces: faceCycles,
+    },
+    dummy,
+  };
 }
+
+export type MeshEditOptions = {
+  // Runs validateMesh after the edit and throws on the first error, for debugging.
+  validate?: boolean;
+};
+
+// Removing an edge moves the last edge into its id: half-edges 2 * from and 2 * from + 1 become
+// 2 * to and 2 * to + 1. The faces along the removed edge keep their ids; when they merge into one,
+// the last face moves into the id left over and movedFace reports it.
+export type MeshRemoval = {
+  moved: { from: EdgeId; to: EdgeId } | null;
+  movedFace: { from: FaceId; to: FaceId } | null;
+};
+
+const checkEdit = (mesh: HalfEdgeMesh, options: MeshEditOptions) => {
+  if (!options.validate) return;
+  const { ok, errors } = validateMesh(mesh);
+  if (!ok) throw new Error(`Mesh edit left an inconsistent mesh: ${errors[0]}`);
+};
+
+// The edits below change the mesh in place and need half-edges 2e and 2e + 1 to make up edge e, as
+// buildHalfEdgeMesh and augment lay them out. Faces away from the edit keep their ids and walks,
+// except for the last face when a removal moves it (reported as movedFace).
+
+// Adds an edge across a face between the corners at origin[from] (between prev[from] and from) and
+// at origin[to]; returns its half-edge from origin[from], which keeps the face id.
+export function insertEdgeInFace(
+  mesh: HalfEdgeMesh,
+  from: HalfEdgeId,
+  to: HalfEdgeId,
+  options: MeshEditOptions = {},
+): HalfEdgeId {
+  const h = insertInFace(mesh, from, to);
+  checkEdit(mesh, options);
+  return h;
+}
+
+// Subdivides edge u-v with the new vertex w: the edge keeps u-w and the returned half-edge w->v
+// belongs to a new edge.
+export function splitEdge(
+  mesh: HalfEdgeMesh,
+  edge: EdgeId,
+  vertex: VertexId,
+  options: MeshEditOptions = {},
+): HalfEdgeId {
+  const h = subdivide(mesh, edge, vertex);
+  checkEdit(mesh, options);
+  return h;
+}
+
+// Deletes an edge, merging the faces on its sides (or splitting the face of a bridge).
+export function deleteEdge(
+  mesh: HalfEdgeMesh,
+  edge: EdgeId,
+  options: MeshEditOptions = {},
+): MeshRemoval {
+  const { movedEdge, movedFace } = removeEdge(mesh, edge, 'delete');
+  checkEdit(mesh, options);
+  return { moved: movedEdge < 0 ? null : { from: movedEdge, to: edge }, movedFace };
+}
+
+// Contracts edge u-v into u; the other edges at v keep their rotation and now start at u.
+export function contractEdge(
+  mesh: HalfEdgeMesh,
+  edge: EdgeId,
+  options: MeshEditOptions = {},
+): MeshRemoval {
+  const { movedEdge, movedFace } = removeEdge(mesh, edge, 'contract');
+  checkEdit(mesh, options);
+  return { moved: movedEdge < 0 ? null : { from: movedEdge, to: edge }, movedFace };
+}
+
+// Flips an edge between two faces: in a triangulation, the diagonal u-v of quadrilateral u-a-v-b
+// becomes a-b. Both faces keep their ids.
+export function flipEdge(mesh: HalfEdgeMesh, edge: EdgeId, options: MeshEditOptions = {}): void {
+  flip(mesh, edge);
+  checkEdit(mesh, options);
+}
+
@@ -64,27 +64,53 @@ function dijkstra(graph: ResidualGraph, source: number, potentials: number[]) {
   const visited = Array(n).fill(false);
   dist[source] = 0;
 
-  for (let i = 0; i < n; i += 1) {
-    let u = -1;
-    let best = Infinity;
-    for (let v = 0; v < n; v += 1) {
-      if (!visited[v] && dist[v] < best) {
-        best = dist[v];
-        u = v;
+  // Binary heap of [distance, node] pairs with lazy deletion.
+  const heap: Array<[number, number]> = [[0, source]];
+  const push = (entry: [number, number]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent]![0] <= heap[i]![0]) break;
+      [heap[parent], heap[i]] = [heap[i]!, heap[parent]!];
+      i = parent;
+    }
+  };
+  const pop = () => {
+    const top = heap[0]!;
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < heap.length && heap[l]![0] < heap[smallest]![0]) smallest = l;
+        if (r < heap.length && heap[r]![0] < heap[smallest]![0]) smallest = r;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i]!, heap[smallest]!];
+        i = smallest;
       }
     }
-    if (u === -1) break;
+    return top;
+  };
+
+  while (heap.length > 0) {
+    const [d, u] = pop();
+    if (visited[u] || d > dist[u]) continue;
     visited[u] = true;
 
     for (let ei = 0; ei < (graph[u] ?? []).length; ei += 1) {
       const edge = graph[u]![ei]!;
-      if (edge.cap <= 0) continue;
+      if (edge.cap <= 0 || visited[edge.to]) continue;
       const cost = edge.cost + (potentials[u] ?? 0) - (potentials[edge.to] ?? 0);
       const nd = dist[u] + cost;
       if (nd < dist[edge.to]) {
         dist[edge.to] = nd;
         prevNode[edge.to] = u;
         prevEdge[edge.to] = ei;
+        push([nd, edge.to]);
       }
     }
   }
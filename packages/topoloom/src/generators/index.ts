@@ -0,0 +1,386 @@
+import { GraphBuilder } from '../graph';
+import type { Graph, VertexId } from '../graph';
+
+export type GeneratorOptions = {
+  seed?: number;
+};
+
+type Random = () => number;
+
+const createRandom = (seed = 1): Random => {
+  // Mulberry32, so every family is reproducible from its seed.
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = (random: Random, count: number) => Math.floor(random() * count);
+
+const shuffle = <T>(items: T[], random: Random) => {
+  for (let i = items.length - 1; i > 0; i -= 1) {
+    const j = pick(random, i + 1);
+    [items[i], items[j]] = [items[j]!, items[i]!];
+  }
+  return items;
+};
+
+const requireInteger = (value: number, min: number, name: string) => {
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`${name} must be an integer >= ${min}, got ${value}.`);
+  }
+};
+
+const edgeKey = (u: VertexId, v: VertexId) => (u < v ? `${u},${v}` : `${v},${u}`);
+
+const buildGraph = (
+  n: number,
+  edges: Array<[VertexId, VertexId]>,
+  positions?: Array<{ x: number; y: number }>,
+): Graph => {
+  const builder = new GraphBuilder();
+  for (let v = 0; v < n; v += 1) builder.addVertex(v, positions?.[v]);
+  for (const [u, v] of edges) builder.addEdge(u, v, false);
+  return builder.build();
+};
+
+// Keeps a random spanning tree plus random other edges until `count` edges remain.
+const thinConnected = (
+  n: number,
+  edges: Array<[VertexId, VertexId]>,
+  count: number,
+  random: Random,
+) => {
+  if (count < n - 1 || count > edges.length) {
+    throw new Error(`Edge count must lie in ${n - 1}..${edges.length}, got ${count}.`);
+  }
+  const parent = Array.from({ length: n }, (_, v) => v);
+  const find = (v: number): number => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]!]!;
+      v = parent[v]!;
+    }
+    return v;
+  };
+  const keep = new Set<number>();
+  const rest: number[] = [];
+  const order = shuffle(
+    edges.map((_, i) => i),
+    random,
+  );
+  for (const index of order) {
+    const [u, v] = edges[index]!;
+    const ru = find(u);
+    const rv = find(v);
+    if (ru !== rv) {
+      parent[ru] = rv;
+      keep.add(index);
+    } else {
+      rest.push(index);
+    }
+  }
+  for (const index of rest.slice(0, count - keep.size)) keep.add(index);
+  return edges.filter((_, i) => keep.has(i));
+};
+
+// rows x cols grid; vertex r * cols + c sits at x = c, y = r.
+export function grid(rows: number, cols: number): Graph {
+  requireInteger(rows, 1, 'rows');
+  requireInteger(cols, 1, 'cols');
+  const edges: Array<[VertexId, VertexId]> = [];
+  const positions: Array<{ x: number; y: number }> = [];
+  for (let r = 0; r < rows; r += 1) {
+    for (let c = 0; c < cols; c += 1) {
+      const v = r * cols + c;
+      positions.push({ x: c, y: r });
+      if (c + 1 < cols) edges.push([v, v + 1]);
+      if (r + 1 < rows) edges.push([v, v + cols]);
+    }
+  }
+  return buildGraph(rows * cols, edges, positions);
+}
+
+// Grid with wrap-around rows and columns; needs at least 3 of each to stay simple.
+export function torus(rows: number, cols: number): Graph {
+  requireInteger(rows, 3, 'rows');
+  requireInteger(cols, 3, 'cols');
+  const edges: Array<[VertexId, VertexId]> = [];
+  const positions: Array<{ x: number; y: number }> = [];
+  for (let r = 0; r < rows; r += 1) {
+    for (let c = 0; c < cols; c += 1) {
+      positions.push({ x: c, y: r });
+      edges.push([r * cols + c, r * cols + ((c + 1) % cols)]);
+      edges.push([r * cols + c, ((r + 1) % rows) * cols + c]);
+    }
+  }
+  return buildGraph(rows * cols, edges, positions);
+}
+
+export type TriangulationOptions = GeneratorOptions & {
+  // Random edge flips applied after the stacked construction (default 2n).
+  flips?: number;
+};
+
+const triangulationEdges = (n: number, flips: number, random: Random) => {
+  // The starting triangle bounds two faces, the inner and the outer one.
+  const faces: Array<[VertexId, VertexId, VertexId]> = [
+    [0, 1, 2],
+    [0, 1, 2],
+  ];
+  const edges: Array<[VertexId, VertexId]> = [
+    [0, 1],
+    [1, 2],
+    [0, 2],
+  ];
+  const edgeIndex = new Map(edges.map(([u, v], i) => [edgeKey(u, v), i]));
+  const edgeFaces = new Map<string, number[]>(edges.map(([u, v]) => [edgeKey(u, v), [0, 1]]));
+  const degree = [2, 2, 2];
+  const replaceFace = (u: VertexId, v: VertexId, from: number, to: number) => {
+    const list = edgeFaces.get(edgeKey(u, v))!;
+    list[list.indexOf(from)] = to;
+  };
+  const addEdge = (u: VertexId, v: VertexId, incident: number[]) => {
+    edgeIndex.set(edgeKey(u, v), edges.length);
+    edgeFaces.set(edgeKey(u, v), incident);
+    edges.push([u, v]);
+  };
+
+  // Stacked triangulation: every new vertex lands in a random face and splits it in three.
+  for (let v = 3; v < n; v += 1) {
+    const f = pick(random, faces.length);
+    const [a, b, c] = faces[f]!;
+    const g = faces.length;
+    faces[f] = [a, b, v];
+    faces.push([b, c, v], [c, a, v]);
+    replaceFace(b, c, f, g);
+    replaceFace(c, a, f, g + 1);
+    addEdge(a, v, [f, g + 1]);
+    addEdge(b, v, [f, g]);
+    addEdge(c, v, [g, g + 1]);
+    degree[a]! += 1;
+    degree[b]! += 1;
+    degree[c]! += 1;
+    degree.push(3);
+  }
+
+  // Flips keep the graph maximal planar while breaking up the stacked structure.
+  for (let i = 0; n > 4 && i < flips; i += 1) {
+    const index = pick(random, edges.length);
+    const [u, v] = edges[index]!;
+    const [f1, f2] = edgeFaces.get(edgeKey(u, v))!;
+    const a = faces[f1!]!.find((x) => x !== u && x !== v)!;
+    const b = faces[f2!]!.find((x) => x !== u && x !== v)!;
+    if (degree[u]! <= 3 || degree[v]! <= 3 || edgeIndex.has(edgeKey(a, b))) continue;
+    faces[f1!] = [a, b, u];
+    faces[f2!] = [a, b, v];
+    replaceFace(v, a, f1!, f2!);
+    replaceFace(u, b, f2!, f1!);
+    edgeIndex.delete(edgeKey(u, v));
+    edgeFaces.delete(edgeKey(u, v));
+    edges[index] = [Math.min(a, b), Math.max(a, b)];
+    edgeIndex.set(edgeKey(a, b), index);
+    edgeFaces.set(edgeKey(a, b), [f1!, f2!]);
+    degree[u]! -= 1;
+    degree[v]! -= 1;
+    degree[a]! += 1;
+    degree[b]! += 1;
+  }
+  return edges.map(([u, v]): [VertexId, VertexId] => (u < v ? [u, v] : [v, u]));
+};
+
+// Random maximal planar graph (3n - 6 edges).
+export function randomTriangulation(n: number, options: TriangulationOptions = {}): Graph {
+  requireInteger(n, 3, 'n');
+  const random = createRandom(options.seed);
+  return buildGraph(n, triangulationEdges(n, options.flips ?? 2 * n, random));
+}
+
+type Point = { x: number; y: number };
+
+const delaunayEdges = (points: Point[]) => {
+  type Triangle = { a: number; b: number; c: number; cx: number; cy: number; r2: number };
+  const all = [...points, { x: -100, y: -100 }, { x: 100, y: -100 }, { x: 0, y: 100 }];
+  const n = points.length;
+  const triangle = (a: number, b: number, c: number): Triangle => {
+    const [pa, pb, pc] = [all[a]!, all[b]!, all[c]!];
+    const d = 2 * (pa.x * (pb.y - pc.y) + pb.x * (pc.y - pa.y) + pc.x * (pa.y - pb.y));
+    const sa = pa.x * pa.x + pa.y * pa.y;
+    const sb = pb.x * pb.x + pb.y * pb.y;
+    const sc = pc.x * pc.x + pc.y * pc.y;
+    const cx = (sa * (pb.y - pc.y) + sb * (pc.y - pa.y) + sc * (pa.y - pb.y)) / d;
+    const cy = (sa * (pc.x - pb.x) + sb * (pa.x - pc.x) + sc * (pb.x - pa.x)) / d;
+    return { a, b, c, cx, cy, r2: (pa.x - cx) ** 2 + (pa.y - cy) ** 2 };
+  };
+
+  // Bowyer-Watson: remove the triangles whose circumcircle holds the point, re-fan the hole.
+  let triangles = [triangle(n, n + 1, n + 2)];
+  for (let p = 0; p < n; p += 1) {
+    const { x, y } = all[p]!;
+    const boundary = new Map<string, [number, number] | null>();
+    const kept: Triangle[] = [];
+    for (const t of triangles) {
+      if ((x - t.cx) ** 2 + (y - t.cy) ** 2 > t.r2) {
+        kept.push(t);
+        continue;
+      }
+      for (const [u, v] of [
+        [t.a, t.b],
+        [t.b, t.c],
+        [t.c, t.a],
+      ] as Array<[number, number]>) {
+        const key = edgeKey(u, v);
+        boundary.set(key, boundary.has(key) ? null : [u, v]);
+      }
+    }
+    for (const edge of boundary.values()) {
+      if (edge) kept.push(triangle(edge[0], edge[1], p));
+    }
+    triangles = kept;
+  }
+
+  const seen = new Set<string>();
+  const edges: Array<[VertexId, VertexId]> = [];
+  for (const t of triangles) {
+    for (const [u, v] of [
+      [t.a, t.b],
+      [t.b, t.c],
+      [t.c, t.a],
+    ] as Array<[number, number]>) {
+      if (u >= n || v >= n || seen.has(edgeKey(u, v))) continue;
+      seen.add(edgeKey(u, v));
+      edges.push(u < v ? [u, v] : [v, u]);
+    }
+  }
+  return edges.sort((e, f) => e[0] - f[0] || e[1] - f[1]);
+};
+
+export type RandomPlanarOptions = GeneratorOptions & {
+  // 'flip' thins a random triangulation, 'delaunay' the Delaunay triangulation of random points
+  // (positions are kept as x/y vertex attributes).
+  method?: 'flip' | 'delaunay';
+  // Edge count of the connected result; defaults to keeping every edge of the triangulation.
+  edges?: number;
+};
+
+export function randomPlanar(n: number, options: RandomPlanarOptions = {}): Graph {
+  requireInteger(n, 3, 'n');
+  const random = createRandom(options.seed);
+  if (options.method === 'delaunay') {
+    const points = Array.from({ length: n }, () => ({ x: random(), y: random() }));
+    const edges = delaunayEdges(points);
+    return buildGraph(n, thinConnected(n, edges, options.edges ?? edges.length, random), points);
+  }
+  const edges = triangulationEdges(n, 2 * n, random);
+  return buildGraph(n, thinConnected(n, edges, options.edges ?? edges.length, random));
+}
+
+export type SeriesParallelOptions = GeneratorOptions & {
+  // Adds the edge between the terminals 0 and 1, which makes the result biconnected (default true).
+  closed?: boolean;
+};
+
+// Random two-terminal series-parallel graph on n vertices with terminals 0 and 1.
+export function seriesParallel(n: number, options: SeriesParallelOptions = {}): Graph {
+  requireInteger(n, 2, 'n');
+  const random = createRandom(options.seed);
+  const edges: Array<[VertexId, VertexId]> = [[0, 1]];
+  for (let w = 2; w < n; w += 1) {
+    const index = pick(random, edges.length);
+    const [u, v] = edges[index]!;
+    if (random() < 0.5) {
+      // Series: subdivide the edge.
+      edges[index] = [u, w];
+      edges.push([w, v]);
+    } else {
+      // Parallel: route a new two-edge path beside it.
+      edges.push([u, w], [w, v]);
+    }
+  }
+  const hasTerminalEdge = edges.some(([u, v]) => edgeKey(u, v) === '0,1');
+  if ((options.closed ?? true) && !hasTerminalEdge) edges.push([0, 1]);
+  return buildGraph(n, edges);
+}
+
+export type KuratowskiKind = 'K5' | 'K33';
+
+// K5 or K3,3 with `subdivisions` extra vertices spread over random edges.
+export function kuratowskiSubdivision(
+  kind: KuratowskiKind,
+  subdivisions = 0,
+  options: GeneratorOptions = {},
+): Graph {
+  requireInteger(subdivisions, 0, 'subdivisions');
+  const random = createRandom(options.seed);
+  const base: Array<[VertexId, VertexId]> = [];
+  const size = kind === 'K5' ? 5 : 6;
+  for (let u = 0; u < size; u += 1) {
+    for (let v = u + 1; v < size; v += 1) {
+      if (kind === 'K5' || (u < 3 && v >= 3)) base.push([u, v]);
+    }
+  }
+  const paths = base.map(([u, v]) => [u, v]);
+  for (let i = 0; i < subdivisions; i += 1) {
+    const path = paths[pick(random, paths.length)]!;
+    path.splice(1 + pick(random, path.length - 1), 0, size + i);
+  }
+  const edges: Array<[VertexId, VertexId]> = [];
+  for (const path of paths) {
+    for (let i = 1; i < path.length; i += 1) edges.push([path[i - 1]!, path[i]!]);
+  }
+  return buildGraph(size + subdivisions, edges);
+}
+
+// Random k-tree: a (k + 1)-clique grown by vertices joined to a random existing k-clique.
+export function randomKTree(n: number, k: number, options: GeneratorOptions = {}): Graph {
+  requireInteger(k, 1, 'k');
+  requireInteger(n, k + 1, 'n');
+  const random = createRandom(options.seed);
+  const edges: Array<[VertexId, VertexId]> = [];
+  const cliques: VertexId[][] = [];
+  for (let u = 0; u <= k; u += 1) {
+    for (let v = u + 1; v <= k; v += 1) edges.push([u, v]);
+    cliques.push(Array.from({ length: k + 1 }, (_, i) => i).filter((i) => i !== u));
+  }
+  for (let w = k + 1; w < n; w += 1) {
+    const clique = cliques[pick(random, cliques.length)]!;
+    for (const u of clique) edges.push([u, w]);
+    for (const u of clique) cliques.push([...clique.filter((x) => x !== u), w]);
+  }
+  return buildGraph(n, edges);
+}
+
+// Random triangulation plus `extra` random non-edges (the last `extra` edge ids); any extra edge makes
+// the graph nonplanar.
+export function nearPlanar(n: number, extra: number, options: GeneratorOptions = {}): Graph {
+  requireInteger(n, 3, 'n');
+  requireInteger(extra, 0, 'extra');
+  const random = createRandom(options.seed);
+  const edges = triangulationEdges(n, 2 * n, random);
+  const available = (n * (n - 1)) / 2 - edges.length;
+  if (extra > available) {
+    throw new Error(`Only ${available} extra edges fit on ${n} vertices, got ${extra}.`);
+  }
+  const present = new Set(edges.map(([u, v]) => edgeKey(u, v)));
+  const added: Array<[VertexId, VertexId]> = [];
+  if (extra > available / 2) {
+    const candidates: Array<[VertexId, VertexId]> = [];
+    for (let u = 0; u < n; u += 1) {
+      for (let v = u + 1; v < n; v += 1) {
+        if (!present.has(edgeKey(u, v))) candidates.push([u, v]);
+      }
+    }
+    added.push(...shuffle(candidates, random).slice(0, extra));
+  }
+  while (added.length < extra) {
+    const u = pick(random, n);
+    const v = pick(random, n);
+    if (u === v || present.has(edgeKey(u, v))) continue;
+    present.add(edgeKey(u, v));
+    added.push(u < v ? [u, v] : [v, u]);
+  }
+  return buildGraph(n, [...edges, ...added]);
+}
@@ -14,20 +14,55 @@ export type AdjEntry = {
   dir: 'out' | 'in' | 'undirected';
 };
 
+export type AttributeValue = string | number | boolean | null;
+
+export type VertexAttributes = {
+  width?: number;
+  height?: number;
+  weight?: number;
+  [key: string]: AttributeValue | undefined;
+};
+
+export type EdgeAttributes = {
+  weight?: number;
+  length?: number;
+  // Cost of routing another edge across this one; dual routing and planarization default to 1.
+  crossingCost?: number;
+  sourcePort?: string;
+  targetPort?: string;
+  [key: string]: AttributeValue | undefined;
+};
+
 export type GraphJSON = {
   labels?: Array<string | number | null>;
-  edges: Array<{ u: VertexId; v: VertexId; directed: boolean }>;
+  vertexAttributes?: VertexAttributes[];
+  edges: Array<{ u: VertexId; v: VertexId; directed: boolean; attributes?: EdgeAttributes }>;
 };
 
+const NO_ATTRIBUTES: Readonly<VertexAttributes & EdgeAttributes> = Object.freeze({});
+const isEmpty = (attributes: object | undefined) => !attributes || Object.keys(attributes).length === 0;
+const copyAttributes = <T extends object>(attributes: T | undefined): T | undefined =>
+  isEmpty(attributes) ? undefined : { ...attributes! };
+
 export class Graph {
   private readonly _labels: Array<string | number | null>;
   private readonly _edges: EdgeRecord[];
   private readonly _adj: AdjEntry[][];
-
-  constructor(labels: Array<string | number | null>, edges: EdgeRecord[], adj: AdjEntry[][]) {
+  private readonly _vertexAttributes: Array<VertexAttributes | undefined>;
+  private readonly _edgeAttributes: Array<EdgeAttributes | undefined>;
+
+  constructor(
+    labels: Array<string | number | null>,
+    edges: EdgeRecord[],
+    adj: AdjEntry[][],
+    vertexAttributes: Array<VertexAttributes | undefined> = [],
+    edgeAttributes: Array<EdgeAttributes | undefined> = [],
+  ) {
     this._labels = labels;
     this._edges = edges;
     this._adj = adj;
+    this._vertexAttributes = vertexAttributes;
+    this._edgeAttributes = edgeAttributes;
   }
 
   static fromJSON(json: GraphJSON): Graph {
@@ -35,19 +70,26 @@ export class Graph {
     const builder = new GraphBuilder();
     const maxVertex = labels.length > 0 ? labels.length : 0;
     for (let i = 0; i < maxVertex; i += 1) {
-      builder.addVertex(labels[i] ?? null);
+      builder.addVertex(labels[i] ?? null, json.vertexAttributes?.[i]);
     }
     for (const edge of json.edges) {
-      builder.addEdge(edge.u, edge.v, edge.directed);
+      builder.addEdge(edge.u, edge.v, edge.directed, edge.attributes);
     }
     return builder.build();
   }
 
   toJSON(): GraphJSON {
-    return {
+    const json: GraphJSON = {
       labels: [...this._labels],
-      edges: this._edges.map((edge) => ({ u: edge.u, v: edge.v, directed: edge.directed })),
+      edges: this._edges.map((edge) => {
+        const attributes = copyAttributes(this._edgeAttributes[edge.id]);
+        return { u: edge.u, v: edge.v, directed: edge.directed, ...(attributes ? { attributes } : {}) };
+      }),
     };
+    if (this._vertexAttributes.some((attributes) => !isEmpty(attributes))) {
+      json.vertexAttributes = this._labels.map((_, v) => ({ ...this._vertexAttributes[v] }));
+    }
+    return json;
   }
 
   vertexCount(): number {
@@ -70,12 +112,20 @@ export class Graph {
     return this._labels[v] ?? null;
   }
 
+  vertexAttributes(v: VertexId): Readonly<VertexAttributes> {
+    return this._vertexAttributes[v] ?? NO_ATTRIBUTES;
+  }
+
   edge(e: EdgeId): EdgeRecord {
     const record = this._edges[e];
     if (!record) throw new Error(`Edge ${e} not found`);
     return record;
   }
 
+  edgeAttributes(e: EdgeId): Readonly<EdgeAttributes> {
+    return this._edgeAttributes[e] ?? NO_ATTRIBUTES;
+  }
+
   adjacency(v: VertexId): ReadonlyArray<AdjEntry> {
     return this._adj[v] ?? [];
   }
@@ -113,21 +163,25 @@ export class GraphBuilder {
   private labels: Array<string | number | null> = [];
   private edges: EdgeRecord[] = [];
   private adj: AdjEntry[][] = [];
+  private vertexAttributes: Array<VertexAttributes | undefined> = [];
+  private edgeAttributes: Array<EdgeAttributes | undefined> = [];
 
-  addVertex(label: string | number | null = null): VertexId {
+  addVertex(label: string | number | null = null, attributes?: VertexAttributes): VertexId {
     const id = this.labels.length as VertexId;
     this.labels.push(label);
     this.adj.push([]);
+    this.vertexAttributes.push(copyAttributes(attributes));
     return id;
   }
 
-  addEdge(u: VertexId, v: VertexId, directed = false): EdgeId {
+  addEdge(u: VertexId, v: VertexId, directed = false, attributes?: EdgeAttributes): EdgeId {
     if (u < 0 || v < 0 || u >= this.labels.length || v >= this.labels.length) {
       throw new Error(`Invalid vertex id(s) ${u}, ${v}`);
     }
     const id = this.edges.length as EdgeId;
     const record: EdgeRecord = { id, u, v, directed };
     this.edges.push(record);
+    this.edgeAttributes.push(copyAttributes(attributes));
 
     if (directed) {
       this.adj[u]?.push({ edge: id, to: v, dir: 'out' });
@@ -141,7 +195,419 @@ export class GraphBuilder {
   }
 
   build(): Graph {
-    return new Graph([...this.labels], [...this.edges], this.adj.map((list) => [...list]));
+    return new Graph(
+      [...this.labels],
+      [...this.edges],
+      this.adj.map((list) => [...list]),
+      [...this.vertexAttributes],
+      [...this.edgeAttributes],
+    );
+  }
+}
+
+export type FrozenGraph = {
+  graph: Graph;
+  // MutableGraph ids behind each vertex and edge of graph.
+  vertexIds: VertexId[];
+  edgeIds: EdgeId[];
+  // Ids in the graph the MutableGraph was created from, or -1 for vertices and edges added since.
+  vertexOrigin: VertexId[];
+  edgeOrigin: EdgeId[];
+};
+
+// Editable graph whose vertex and edge ids stay valid across removals; freeze() compacts them.
+export class MutableGraph {
+  private labels: Array<string | number | null> = [];
+  private alive: boolean[] = [];
+  private records: Array<EdgeRecord | null> = [];
+  private adj: AdjEntry[][] = [];
+  private vertexOrigins: VertexId[] = [];
+  private edgeOrigins: EdgeId[] = [];
+  private vertexAttrs: Array<VertexAttributes | undefined> = [];
+  private edgeAttrs: Array<EdgeAttributes | undefined> = [];
+  private liveVertices = 0;
+  private liveEdges = 0;
+
+  static from(graph: Graph): MutableGraph {
+    const mutable = new MutableGraph();
+    for (const v of graph.vertices()) {
+      mutable.addVertex(graph.label(v), graph.vertexAttributes(v));
+      mutable.adj[v] = graph.adjacency(v).map((entry) => ({ ...entry }));
+      mutable.vertexOrigins[v] = v;
+    }
+    mutable.records = graph.edges().map((edge) => ({ ...edge }));
+    mutable.edgeOrigins = graph.edges().map((edge) => edge.id);
+    mutable.edgeAttrs = graph.edges().map((edge) => copyAttributes(graph.edgeAttributes(edge.id)));
+    mutable.liveEdges = graph.edgeCount();
+    return mutable;
+  }
+
+  vertexCount(): number {
+    return this.liveVertices;
+  }
+
+  edgeCount(): number {
+    return this.liveEdges;
+  }
+
+  hasVertex(v: VertexId): boolean {
+    return this.alive[v] === true;
+  }
+
+  hasEdge(e: EdgeId): boolean {
+    return this.records[e] != null;
+  }
+
+  vertices(): VertexId[] {
+    return this.labels.map((_, v) => v as VertexId).filter((v) => this.alive[v]);
+  }
+
+  edges(): EdgeRecord[] {
+    return this.records.filter((record): record is EdgeRecord => record !== null);
+  }
+
+  label(v: VertexId): string | number | null {
+    return this.labels[this.vertex(v)] ?? null;
+  }
+
+  vertexAttributes(v: VertexId): Readonly<VertexAttributes> {
+    return this.vertexAttrs[this.vertex(v)] ?? NO_ATTRIBUTES;
+  }
+
+  edge(e: EdgeId): EdgeRecord {
+    const record = this.records[e];
+    if (!record) throw new Error(`Edge ${e} not found`);
+    return record;
+  }
+
+  edgeAttributes(e: EdgeId): Readonly<EdgeAttributes> {
+    return this.edgeAttrs[this.edge(e).id] ?? NO_ATTRIBUTES;
+  }
+
+  setVertexAttributes(v: VertexId, attributes: VertexAttributes): void {
+    this.vertexAttrs[this.vertex(v)] = copyAttributes(attributes);
+  }
+
+  setEdgeAttributes(e: EdgeId, attributes: EdgeAttributes): void {
+    this.edgeAttrs[this.edge(e).id] = copyAttributes(attributes);
+  }
+
+  // Keeps e's id, endpoints and rotation slots; a directed e runs from u to v.
+  setEdgeDirected(e: EdgeId, directed: boolean): void {
+    const { u, v } = this.edge(e);
+    const tail = this.adj[u]!.findIndex((entry) => entry.edge === e);
+    const head = this.adj[v]!.findIndex((entry, i) => entry.edge === e && (u !== v || i !== tail));
+    this.records[e] = { id: e, u, v, directed };
+    this.adj[u]![tail]!.dir = directed ? 'out' : 'undirected';
+    this.adj[v]![head]!.dir = directed ? 'in' : 'undirected';
+  }
+
+  adjacency(v: VertexId): ReadonlyArray<AdjEntry> {
+    return this.adj[this.vertex(v)]!;
+  }
+
+  vertexOrigin(v: VertexId): VertexId {
+    return this.vertexOrigins[this.vertex(v)]!;
+  }
+
+  edgeOrigin(e: EdgeId): EdgeId {
+    return this.edgeOrigins[this.edge(e).id]!;
+  }
+
+  addVertex(label: string | number | null = null, attributes?: VertexAttributes): VertexId {
+    const id = this.labels.length as VertexId;
+    this.labels.push(label);
+    this.vertexAttrs.push(copyAttributes(attributes));
+    this.alive.push(true);
+    this.adj.push([]);
+    this.vertexOrigins.push(-1);
+    this.liveVertices += 1;
+    return id;
+  }
+
+  addEdge(u: VertexId, v: VertexId, directed = false, attributes?: EdgeAttributes): EdgeId {
+    if (!this.hasVertex(u) || !this.hasVertex(v)) {
+      throw new Error(`Invalid vertex id(s) ${u}, ${v}`);
+    }
+    const id = this.records.length as EdgeId;
+    this.records.push({ id, u, v, directed });
+    this.edgeOrigins.push(-1);
+    this.edgeAttrs.push(copyAttributes(attributes));
+    this.liveEdges += 1;
+    this.adj[u]!.push({ edge: id, to: v, dir: directed ? 'out' : 'undirected' });
+    this.adj[v]!.push({ edge: id, to: u, dir: directed ? 'in' : 'undirected' });
+    return id;
+  }
+
+  removeEdge(e: EdgeId): void {
+    const { u, v } = this.edge(e);
+    this.adj[u] = this.adj[u]!.filter((entry) => entry.edge !== e);
+    this.adj[v] = this.adj[v]!.filter((entry) => entry.edge !== e);
+    this.records[e] = null;
+    this.liveEdges -= 1;
+  }
+
+  removeVertex(v: VertexId): void {
+    for (const edge of new Set(this.adjacency(v).map((entry) => entry.edge))) this.removeEdge(edge);
+    this.alive[v] = false;
+    this.liveVertices -= 1;
+  }
+
+  // Merges v into u for e = {u, v}. The edges of v take the place of e in the rotation at u, so
+  // an embedding stays planar; parallel u-v edges turn into loops.
+  contractEdge(e: EdgeId): VertexId {
+    const { u, v } = this.edge(e);
+    if (u === v) throw new Error('Cannot contract a self-loop.');
+    const around = this.adj[v]!;
+    const from = around.findIndex((entry) => entry.edge === e);
+    const moved = [...around.slice(from + 1), ...around.slice(0, from)];
+    const at = this.adj[u]!.findIndex((entry) => entry.edge === e);
+    this.adj[u]!.splice(at, 1, ...moved);
+    this.adj[v] = [];
+    this.records[e] = null;
+    this.liveEdges -= 1;
+
+    for (const edge of new Set(moved.map((entry) => entry.edge))) {
+      const record = this.records[edge]!;
+      const updated = { ...record, u: record.u === v ? u : record.u, v: record.v === v ? u : record.v };
+      this.records[edge] = updated;
+      for (const end of new Set([updated.u, updated.v])) {
+        for (const entry of this.adj[end]!) {
+          if (entry.edge === edge) entry.to = end === updated.u ? updated.v : updated.u;
+        }
+      }
+    }
+    this.alive[v] = false;
+    this.liveVertices -= 1;
+    return u;
+  }
+
+  // Replaces e = {u, v} by u-w and w-v in e's rotation slots; both halves keep e's origin and
+  // attributes.
+  subdivideEdge(e: EdgeId): { vertex: VertexId; edges: [EdgeId, EdgeId] } {
+    const { u, v, directed } = this.edge(e);
+    const origin = this.edgeOrigins[e]!;
+    const w = this.addVertex();
+    const first = this.records.length as EdgeId;
+    const second = (first + 1) as EdgeId;
+    this.records.push({ id: first, u, v: w, directed }, { id: second, u: w, v, directed });
+    this.edgeOrigins.push(origin, origin);
+    this.edgeAttrs.push(copyAttributes(this.edgeAttrs[e]), copyAttributes(this.edgeAttrs[e]));
+    this.records[e] = null;
+    this.liveEdges += 1;
+
+    const firstSlot = this.adj[u]!.findIndex((entry) => entry.edge === e && entry.dir !== 'in');
+    this.adj[u]![firstSlot] = { edge: first, to: w, dir: directed ? 'out' : 'undirected' };
+    const secondSlot = this.adj[v]!.findIndex((entry) => entry.edge === e);
+    this.adj[v]![secondSlot] = { edge: second, to: w, dir: directed ? 'in' : 'undirected' };
+    this.adj[w] = [
+      { edge: first, to: u, dir: directed ? 'in' : 'undirected' },
+      { edge: second, to: v, dir: directed ? 'out' : 'undirected' },
+    ];
+    return { vertex: w, edges: [first, second] };
+  }
+
+  freeze(): FrozenGraph {
+    const vertexIds = this.vertices();
+    const edgeIds = this.edges().map((record) => record.id);
+    const vertexIndex: VertexId[] = Array(this.labels.length).fill(-1);
+    const edgeIndex: EdgeId[] = Array(this.records.length).fill(-1);
+    vertexIds.forEach((v, i) => {
+      vertexIndex[v] = i;
+    });
+    edgeIds.forEach((e, i) => {
+      edgeIndex[e] = i;
+    });
+    const edges = edgeIds.map((e, id) => {
+      const record = this.records[e]!;
+      return { id, u: vertexIndex[record.u]!, v: vertexIndex[record.v]!, directed: record.directed };
+    });
+    const adj = vertexIds.map((v) =>
+      this.adj[v]!.map((entry) => ({ edge: edgeIndex[entry.edge]!, to: vertexIndex[entry.to]!, dir: entry.dir })),
+    );
+    return {
+      graph: new Graph(
+        vertexIds.map((v) => this.labels[v] ?? null),
+        edges,
+        adj,
+        vertexIds.map((v) => copyAttributes(this.vertexAttrs[v])),
+        edgeIds.map((e) => copyAttributes(this.edgeAttrs[e])),
+      ),
+      vertexIds,
+      edgeIds,
+      vertexOrigin: vertexIds.map((v) => this.vertexOrigins[v]!),
+      edgeOrigin: edgeIds.map((e) => this.edgeOrigins[e]!),
+    };
+  }
+
+  private vertex(v: VertexId): VertexId {
+    if (!this.hasVertex(v)) throw new Error(`Vertex ${v} not found`);
+    return v;
+  }
+}
+
+// The read-only surface dfs, planarity, embedding and order need; Graph and CsrGraph provide it.
+export type ReadonlyGraph = Pick<
+  Graph,
+  'vertexCount' | 'edgeCount' | 'vertices' | 'edges' | 'label' | 'edge' | 'adjacency'
+>;
+
+// Compressed sparse rows: slots offsets[v] to offsets[v + 1] - 1 hold v's adjacency, with the
+// neighbour in targets and the edge in slotEdges. Plain typed arrays, so a worker can take them
+// without copying (see CsrGraph.transferList).
+export type CsrGraphData = {
+  offsets: Int32Array;
+  targets: Int32Array;
+  slotEdges: Int32Array;
+  edgeU: Int32Array;
+  edgeV: Int32Array;
+  directed: Uint8Array;
+  labels?: Array<string | number | null>;
+};
+
+// Compact graph for large inputs. Adjacency entries and edge records are created on demand.
+export class CsrGraph {
+  private readonly data: CsrGraphData;
+
+  constructor(data: CsrGraphData) {
+    const n = data.offsets.length - 1;
+    const m = data.edgeU.length;
+    if (
+      n < 0 ||
+      data.edgeV.length !== m ||
+      data.directed.length !== m ||
+      data.targets.length !== 2 * m ||
+      data.slotEdges.length !== 2 * m ||
+      data.offsets[n] !== 2 * m
+    ) {
+      throw new Error('Invalid CSR graph data.');
+    }
+    this.data = data;
+  }
+
+  // Adjacency follows edge order at every vertex, as GraphBuilder produces it.
+  static fromEdges(
+    vertexCount: number,
+    edgeU: ArrayLike<VertexId>,
+    edgeV: ArrayLike<VertexId>,
+    directed?: ArrayLike<number>,
+  ): CsrGraph {
+    const m = edgeU.length;
+    const offsets = new Int32Array(vertexCount + 1);
+    for (let e = 0; e < m; e += 1) {
+      const u = edgeU[e]!;
+      const v = edgeV[e]!;
+      if (!(u >= 0 && v >= 0 && u < vertexCount && v < vertexCount)) {
+        throw new Error(`Invalid vertex id(s) ${u}, ${v}`);
+      }
+      offsets[u + 1] = offsets[u + 1]! + 1;
+      offsets[v + 1] = offsets[v + 1]! + 1;
+    }
+    for (let v = 0; v < vertexCount; v += 1) offsets[v + 1] = offsets[v + 1]! + offsets[v]!;
+    const cursor = offsets.slice(0, vertexCount);
+    const targets = new Int32Array(2 * m);
+    const slotEdges = new Int32Array(2 * m);
+    for (let e = 0; e < m; e += 1) {
+      const u = edgeU[e]!;
+      const v = edgeV[e]!;
+      targets[cursor[u]!] = v;
+      slotEdges[cursor[u]!++] = e;
+      targets[cursor[v]!] = u;
+      slotEdges[cursor[v]!++] = e;
+    }
+    return new CsrGraph({
+      offsets,
+      targets,
+      slotEdges,
+      edgeU: Int32Array.from(edgeU),
+      edgeV: Int32Array.from(edgeV),
+      directed: directed ? Uint8Array.from(directed) : new Uint8Array(m),
+    });
+  }
+
+  static fromGraph(graph: ReadonlyGraph): CsrGraph {
+    const n = graph.vertexCount();
+    const edges = graph.edges();
+    const offsets = new Int32Array(n + 1);
+    for (let v = 0; v < n; v += 1) offsets[v + 1] = offsets[v]! + graph.adjacency(v).length;
+    const targets = new Int32Array(offsets[n]!);
+    const slotEdges = new Int32Array(offsets[n]!);
+    for (let v = 0; v < n; v += 1) {
+      graph.adjacency(v).forEach((entry, i) => {
+        targets[offsets[v]! + i] = entry.to;
+        slotEdges[offsets[v]! + i] = entry.edge;
+      });
+    }
+    return new CsrGraph({
+      offsets,
+      targets,
+      slotEdges,
+      edgeU: Int32Array.from(edges, (edge) => edge.u),
+      edgeV: Int32Array.from(edges, (edge) => edge.v),
+      directed: Uint8Array.from(edges, (edge) => (edge.directed ? 1 : 0)),
+      labels: graph.vertices().map((v) => graph.label(v)),
+    });
+  }
+
+  // Buffers to pass as the transfer list when posting toData() to a worker.
+  static transferList(data: CsrGraphData): ArrayBuffer[] {
+    const arrays = [data.offsets, data.targets, data.slotEdges, data.edgeU, data.edgeV, data.directed];
+    return [...new Set(arrays.map((array) => array.buffer as ArrayBuffer))];
+  }
+
+  toData(): CsrGraphData {
+    return this.data;
+  }
+
+  vertexCount(): number {
+    return this.data.offsets.length - 1;
+  }
+
+  edgeCount(): number {
+    return this.data.edgeU.length;
+  }
+
+  vertices(): VertexId[] {
+    return Array.from({ length: this.vertexCount() }, (_, v) => v);
+  }
+
+  edges(): EdgeRecord[] {
+    return Array.from({ length: this.edgeCount() }, (_, e) => this.edge(e));
+  }
+
+  label(v: VertexId): string | number | null {
+    return this.data.labels?.[v] ?? null;
+  }
+
+  edge(e: EdgeId): EdgeRecord {
+    const u = this.data.edgeU[e];
+    const v = this.data.edgeV[e];
+    if (u === undefined || v === undefined) throw new Error(`Edge ${e} not found`);
+    return { id: e, u, v, directed: this.data.directed[e] === 1 };
+  }
+
+  degree(v: VertexId): number {
+    return (this.data.offsets[v + 1] ?? 0) - (this.data.offsets[v] ?? 0);
+  }
+
+  neighbors(v: VertexId): Int32Array {
+    return this.data.targets.subarray(this.data.offsets[v] ?? 0, this.data.offsets[v + 1] ?? 0);
+  }
+
+  adjacency(v: VertexId): ReadonlyArray<AdjEntry> {
+    const { offsets, targets, slotEdges, edgeU, edgeV, directed } = this.data;
+    const entries: AdjEntry[] = [];
+    for (let slot = offsets[v] ?? 0; slot < (offsets[v + 1] ?? 0); slot += 1) {
+      const edge = slotEdges[slot]!;
+      let dir: AdjEntry['dir'] = 'undirected';
+      if (directed[edge] === 1) {
+        // A directed loop has its outgoing slot first.
+        const loopSecond = edgeU[edge] === edgeV[edge] && slot > offsets[v]! && slotEdges[slot - 1] === edge;
+        dir = edgeU[edge] === v && !loopSecond ? 'out' : 'in';
+      }
+      entries.push({ edge, to: targets[slot]!, dir });
+    }
+    return entries;
   }
 }
 
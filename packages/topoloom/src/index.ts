@@ -7,3 +7,5 @@ export * as decomp from './decomp';
 export * as order from './order';
 export * as flow from './flow';
 export * as layout from './layout';
+export * as io from './io';
+export * as generators from './generators';
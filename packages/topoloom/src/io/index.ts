@@ -0,0 +1,1087 @@
+import { GraphBuilder } from '../graph';
+import type { AttributeValue, EdgeAttributes, Graph, VertexAttributes, VertexId } from '../graph';
+import { escapeEntities, decodeEntities, parseError, splitLines, splitTokens } from './text';
+import type { TextLine } from './text';
+import { childElements, localName, parseXml, textContent } from './xml';
+import type { XmlElement } from './xml';
+
+type Attributes = Record<string, AttributeValue | undefined>;
+type Label = string | number | null;
+
+const attributeEntries = (attributes: Readonly<Attributes>) =>
+  Object.entries(attributes).filter(
+    (entry): entry is [string, AttributeValue] => entry[1] !== undefined,
+  );
+
+const finite = (value: number, format: string) => {
+  if (!Number.isFinite(value)) throw new Error(`${format} cannot represent the value ${value}.`);
+  return String(value);
+};
+
+// ---------------------------------------------------------------------------------------------
+// GraphML
+
+type GraphMLKey = {
+  name: string;
+  type: 'boolean' | 'number' | 'string';
+  default?: AttributeValue;
+};
+
+const GRAPHML_NUMBER_TYPES = new Set(['int', 'long', 'float', 'double']);
+
+export function fromGraphML(text: string): Graph {
+  const root = parseXml(text, 'GraphML');
+  const fail = (element: XmlElement, message: string) =>
+    parseError('GraphML', text, element.offset, message);
+  if (localName(root.name) !== 'graphml') {
+    throw fail(root, `Expected <graphml>, found <${root.name}>.`);
+  }
+
+  const convert = (element: XmlElement, key: GraphMLKey, raw: string): AttributeValue => {
+    if (key.type === 'string') return raw;
+    const trimmed = raw.trim();
+    if (key.type === 'boolean') {
+      if (/^(true|1)$/i.test(trimmed)) return true;
+      if (/^(false|0)$/i.test(trimmed)) return false;
+      throw fail(element, `Invalid boolean '${trimmed}' for key '${key.name}'.`);
+    }
+    const value = Number(trimmed);
+    if (trimmed === '' || Number.isNaN(value)) {
+      throw fail(element, `Invalid number '${trimmed}' for key '${key.name}'.`);
+    }
+    return value;
+  };
+
+  const nodeKeys = new Map<string, GraphMLKey>();
+  const edgeKeys = new Map<string, GraphMLKey>();
+  for (const element of childElements(root, 'key')) {
+    const id = element.attributes.get('id');
+    if (id === undefined) throw fail(element, 'Key without an id.');
+    const domain = element.attributes.get('for') ?? 'all';
+    const rawType = element.attributes.get('attr.type') ?? 'string';
+    const type =
+      rawType === 'boolean' || rawType === 'string'
+        ? rawType
+        : GRAPHML_NUMBER_TYPES.has(rawType)
+          ? 'number'
+          : null;
+    if (!type) throw fail(element, `Unsupported attr.type '${rawType}'.`);
+    const key: GraphMLKey = { name: element.attributes.get('attr.name') ?? id, type };
+    const defaultElement = childElements(element, 'default')[0];
+    if (defaultElement) key.default = convert(defaultElement, key, textContent(defaultElement));
+    if (domain === 'node' || domain === 'all') nodeKeys.set(id, key);
+    if (domain === 'edge' || domain === 'all') edgeKeys.set(id, key);
+  }
+
+  const graphElement = childElements(root, 'graph')[0];
+  if (!graphElement) throw fail(root, 'Missing <graph> element.');
+  const directedDefault = graphElement.attributes.get('edgedefault') !== 'undirected';
+
+  const readData = (element: XmlElement, keys: Map<string, GraphMLKey>) => {
+    const attributes: Attributes = {};
+    for (const key of keys.values()) {
+      if (key.default !== undefined) attributes[key.name] = key.default;
+    }
+    for (const data of childElements(element, 'data')) {
+      const id = data.attributes.get('key');
+      const key = id === undefined ? undefined : keys.get(id);
+      if (!key) throw fail(data, `Unknown key '${id ?? ''}'.`);
+      attributes[key.name] = convert(data, key, textContent(data));
+    }
+    return attributes;
+  };
+
+  const hasLabelKey = [...nodeKeys.values()].some((key) => key.name === 'label');
+  const builder = new GraphBuilder();
+  const vertexOf = new Map<string, VertexId>();
+  for (const node of childElements(graphElement, 'node')) {
+    const id = node.attributes.get('id');
+    if (id === undefined) throw fail(node, 'Node without an id.');
+    if (vertexOf.has(id)) throw fail(node, `Duplicate node id '${id}'.`);
+    const { label, ...attributes } = readData(node, nodeKeys);
+    const vertexLabel: Label = hasLabelKey
+      ? typeof label === 'boolean'
+        ? String(label)
+        : (label ?? null)
+      : id;
+    vertexOf.set(id, builder.addVertex(vertexLabel, attributes as VertexAttributes));
+  }
+
+  if (childElements(graphElement, 'hyperedge').length > 0) {
+    throw fail(childElements(graphElement, 'hyperedge')[0]!, 'Hyperedges are not supported.');
+  }
+  for (const edge of childElements(graphElement, 'edge')) {
+    const endpoint = (name: 'source' | 'target') => {
+      const id = edge.attributes.get(name);
+      const vertex = id === undefined ? undefined : vertexOf.get(id);
+      if (vertex === undefined) throw fail(edge, `Edge ${name} '${id ?? ''}' is not a node.`);
+      return vertex;
+    };
+    const directed = edge.attributes.get('directed');
+    const attributes = readData(edge, edgeKeys) as EdgeAttributes;
+    const sourcePort = edge.attributes.get('sourceport');
+    const targetPort = edge.attributes.get('targetport');
+    if (sourcePort !== undefined && attributes.sourcePort === undefined) {
+      attributes.sourcePort = sourcePort;
+    }
+    if (targetPort !== undefined && attributes.targetPort === undefined) {
+      attributes.targetPort = targetPort;
+    }
+    builder.addEdge(
+      endpoint('source'),
+      endpoint('target'),
+      directed === undefined ? directedDefault : directed === 'true',
+      attributes,
+    );
+  }
+
+  return builder.build();
+}
+
+export function toGraphML(graph: Graph): string {
+  // One key per attribute name and value type, so values of mixed types each read back typed.
+  type Key = { id: string; domain: 'node' | 'edge'; name: string; type: string };
+  const keys = new Map<string, Key>();
+  const keyType = (value: string | number | boolean) =>
+    typeof value === 'number' ? 'double' : typeof value === 'boolean' ? 'boolean' : 'string';
+
+  const vertexEntries = graph.vertices().map((v) => {
+    const entries = attributeEntries(graph.vertexAttributes(v));
+    if (entries.some(([name]) => name === 'label')) {
+      throw new Error(
+        `Vertex attribute 'label' of vertex ${v} clashes with the GraphML vertex label.`,
+      );
+    }
+    const label = graph.label(v);
+    return label === null ? entries : [['label', label] as [string, AttributeValue], ...entries];
+  });
+  const edgeEntries = graph.edges().map((edge) => attributeEntries(graph.edgeAttributes(edge.id)));
+  const register = (domain: Key['domain'], entries: Array<[string, AttributeValue]>) => {
+    for (const [name, value] of entries) {
+      if (value === null) continue;
+      const type = keyType(value);
+      if (!keys.has(`${domain}:${name}:${type}`)) {
+        keys.set(`${domain}:${name}:${type}`, { id: `d${keys.size}`, domain, name, type });
+      }
+    }
+  };
+  vertexEntries.forEach((entries) => register('node', entries));
+  edgeEntries.forEach((entries) => register('edge', entries));
+
+  const dataLines = (domain: Key['domain'], entries: Array<[string, AttributeValue]>) =>
+    entries
+      .filter(([, value]) => value !== null)
+      .map(([name, value]) => {
+        const key = keys.get(`${domain}:${name}:${keyType(value!)}`)!;
+        const raw = typeof value === 'number' ? finite(value, 'GraphML') : String(value);
+        return `<data key="${key.id}">${escapeEntities(raw, false)}</data>`;
+      });
+
+  const edges = graph.edges();
+  const directedDefault = edges.length > 0 && edges.every((edge) => edge.directed);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+  ];
+  for (const key of keys.values()) {
+    const name = escapeEntities(key.name);
+    lines.push(
+      `  <key id="${key.id}" for="${key.domain}" attr.name="${name}" attr.type="${key.type}"/>`,
+    );
+  }
+  lines.push(`  <graph id="G" edgedefault="${directedDefault ? 'directed' : 'undirected'}">`);
+  const element = (tag: string, attributes: string, children: string[]) => {
+    if (children.length === 0) {
+      lines.push(`    <${tag} ${attributes}/>`);
+      return;
+    }
+    lines.push(
+      `    <${tag} ${attributes}>`,
+      ...children.map((child) => `      ${child}`),
+      `    </${tag}>`,
+    );
+  };
+  for (const v of graph.vertices())
+    element('node', `id="n${v}"`, dataLines('node', vertexEntries[v]!));
+  for (const edge of edges) {
+    const directed = edge.directed === directedDefault ? '' : ` directed="${edge.directed}"`;
+    const endpoints = `id="e${edge.id}" source="n${edge.u}" target="n${edge.v}"${directed}`;
+    element('edge', endpoints, dataLines('edge', edgeEntries[edge.id]!));
+  }
+  lines.push('  </graph>', '</graphml>');
+  return `${lines.join('\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------------------------
+// GML
+
+type GmlEntry = { key: string; value: number | string | GmlEntry[]; offset: number };
+
+const GML_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function parseGml(text: string): GmlEntry[] {
+  const tokenRe =
+    /\s+|#[^\n]*|(\[)|(\])|"([^"]*)"|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)|([A-Za-z_]\w*)/y;
+  type Token = {
+    kind: 'open' | 'close' | 'string' | 'number' | 'key';
+    value: string;
+    offset: number;
+  };
+  const tokens: Token[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    tokenRe.lastIndex = pos;
+    const match = tokenRe.exec(text);
+    if (!match) throw parseError('GML', text, pos, `Unexpected character '${text[pos]}'.`);
+    const [whole, open, close, string, number, key] = match;
+    if (open) tokens.push({ kind: 'open', value: open, offset: pos });
+    else if (close) tokens.push({ kind: 'close', value: close, offset: pos });
+    else if (string !== undefined) tokens.push({ kind: 'string', value: string, offset: pos });
+    else if (number) tokens.push({ kind: 'number', value: number, offset: pos });
+    else if (key) tokens.push({ kind: 'key', value: key, offset: pos });
+    pos += whole.length;
+  }
+
+  let index = 0;
+  const parseList = (closing: Token | null): GmlEntry[] => {
+    const entries: GmlEntry[] = [];
+    while (true) {
+      const token = tokens[index];
+      if (!token) {
+        if (closing) throw parseError('GML', text, closing.offset, "Unclosed '['.");
+        return entries;
+      }
+      index += 1;
+      if (token.kind === 'close') {
+        if (!closing) throw parseError('GML', text, token.offset, "Unexpected ']'.");
+        return entries;
+      }
+      if (token.kind !== 'key') {
+        throw parseError('GML', text, token.offset, `Expected a key, found '${token.value}'.`);
+      }
+      const value = tokens[index];
+      if (!value) throw parseError('GML', text, text.length, `Missing value for '${token.value}'.`);
+      index += 1;
+      if (value.kind === 'open') {
+        entries.push({ key: token.value, value: parseList(value), offset: token.offset });
+      } else if (value.kind === 'number') {
+        entries.push({ key: token.value, value: Number(value.value), offset: token.offset });
+      } else if (value.kind === 'string') {
+        const decoded = decodeEntities(value.value);
+        if (typeof decoded !== 'string') {
+          throw parseError(
+            'GML',
+            text,
+            value.offset + 1 + decoded.invalidAt,
+            'Invalid character reference.',
+          );
+        }
+        entries.push({ key: token.value, value: decoded, offset: token.offset });
+      } else {
+        throw parseError(
+          'GML',
+          text,
+          value.offset,
+          `Expected a value for '${token.value}', found '${value.value}'.`,
+        );
+      }
+    }
+  };
+  return parseList(null);
+}
+
+export function fromGML(text: string): Graph {
+  const entries = parseGml(text);
+  const graphEntry = entries.find((entry) => entry.key === 'graph' && Array.isArray(entry.value));
+  if (!graphEntry) throw parseError('GML', text, 0, "Missing 'graph [ ... ]' block.");
+  const body = graphEntry.value as GmlEntry[];
+  const fail = (entry: GmlEntry, message: string) => parseError('GML', text, entry.offset, message);
+  const directedDefault = body.some((entry) => entry.key === 'directed' && entry.value === 1);
+
+  // As in GraphML, nodes take their ids as labels unless the file labels nodes, and then the
+  // nodes it leaves unlabelled have a null label.
+  const hasLabels = body.some(
+    (node) =>
+      node.key === 'node' &&
+      Array.isArray(node.value) &&
+      node.value.some((entry) => entry.key === 'label' && !Array.isArray(entry.value)),
+  );
+  const builder = new GraphBuilder();
+  const vertexOf = new Map<string | number, VertexId>();
+  for (const node of body) {
+    if (node.key !== 'node' || !Array.isArray(node.value)) continue;
+    let id: string | number | undefined;
+    let label: Label | undefined;
+    const attributes: Attributes = {};
+    for (const entry of node.value) {
+      if (Array.isArray(entry.value)) continue;
+      if (entry.key === 'id') id = entry.value;
+      else if (entry.key === 'label') label = entry.value;
+      else attributes[entry.key] = entry.value;
+    }
+    if (id === undefined) throw fail(node, 'Node without an id.');
+    if (vertexOf.has(id)) throw fail(node, `Duplicate node id ${id}.`);
+    const vertexLabel = hasLabels ? (label ?? null) : id;
+    vertexOf.set(id, builder.addVertex(vertexLabel, attributes as VertexAttributes));
+  }
+
+  for (const edge of body) {
+    if (edge.key !== 'edge' || !Array.isArray(edge.value)) continue;
+    const endpoints: { source?: VertexId; target?: VertexId } = {};
+    let directed = directedDefault;
+    const attributes: Attributes = {};
+    for (const entry of edge.value) {
+      if (Array.isArray(entry.value)) continue;
+      if (entry.key === 'source' || entry.key === 'target') {
+        const vertex = vertexOf.get(entry.value);
+        if (vertex === undefined) {
+          throw fail(entry, `Edge ${entry.key} ${entry.value} is not a node.`);
+        }
+        endpoints[entry.key] = vertex;
+      } else if (entry.key === 'directed') {
+        directed = entry.value === 1;
+      } else if (entry.key !== 'id') {
+        attributes[entry.key] = entry.value;
+      }
+    }
+    if (endpoints.source === undefined || endpoints.target === undefined) {
+      throw fail(edge, 'Edge without a source and target.');
+    }
+    builder.addEdge(endpoints.source, endpoints.target, directed, attributes as EdgeAttributes);
+  }
+
+  return builder.build();
+}
+
+export function toGML(graph: Graph): string {
+  const scalar = (value: string | number | boolean) => {
+    if (typeof value === 'string') return `"${escapeEntities(value)}"`;
+    if (typeof value === 'boolean') return value ? '1' : '0';
+    return finite(value, 'GML');
+  };
+  const entryLines = (entries: Array<[string, AttributeValue]>, reserved: string[]) =>
+    entries
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => {
+        if (!GML_KEY.test(key) || reserved.includes(key)) {
+          throw new Error(`Attribute '${key}' cannot be written as a GML key.`);
+        }
+        return `    ${key} ${scalar(value!)}`;
+      });
+
+  const edges = graph.edges();
+  const directed = edges.length > 0 && edges.every((edge) => edge.directed);
+  const mixed = edges.some((edge) => edge.directed !== directed);
+  const lines = ['graph [', `  directed ${directed ? 1 : 0}`];
+  for (const v of graph.vertices()) {
+    const label = graph.label(v);
+    lines.push('  node [', `    id ${v}`);
+    if (label !== null) lines.push(`    label ${scalar(label)}`);
+    lines.push(...entryLines(attributeEntries(graph.vertexAttributes(v)), ['id', 'label']), '  ]');
+  }
+  for (const edge of edges) {
+    lines.push('  edge [', `    source ${edge.u}`, `    target ${edge.v}`);
+    if (mixed) lines.push(`    directed ${edge.directed ? 1 : 0}`);
+    lines.push(
+      ...entryLines(attributeEntries(graph.edgeAttributes(edge.id)), [
+        'id',
+        'source',
+        'target',
+        'directed',
+      ]),
+    );
+    lines.push('  ]');
+  }
+  lines.push(']');
+  return `${lines.join('\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------------------------
+// DOT
+
+type DotToken = {
+  kind: 'id' | 'punct' | 'edgeop' | 'end';
+  value: string;
+  quoted: boolean;
+  offset: number;
+};
+
+const DOT_NUMERAL = /^-?(?:\.\d+|\d+(?:\.\d*)?)$/;
+const DOT_IDENTIFIER = /^[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*$/;
+const DOT_WORD = /-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*/y;
+const DOT_KEYWORDS = new Set(['strict', 'graph', 'digraph', 'node', 'edge', 'subgraph']);
+
+function lexDot(text: string): DotToken[] {
+  const tokens: DotToken[] = [];
+  const fail = (offset: number, message: string) => parseError('DOT', text, offset, message);
+  let pos = 0;
+  const skipTrivia = () => {
+    while (pos < text.length) {
+      const char = text[pos]!;
+      if (/\s/.test(char)) {
+        pos += 1;
+      } else if (
+        text.startsWith('//', pos) ||
+        (char === '#' && (pos === 0 || text[pos - 1] === '\n'))
+      ) {
+        const end = text.indexOf('\n', pos);
+        pos = end < 0 ? text.length : end;
+      } else if (text.startsWith('/*', pos)) {
+        const end = text.indexOf('*/', pos + 2);
+        if (end < 0) throw fail(pos, 'Unterminated comment.');
+        pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+  const readQuoted = () => {
+    const start = pos;
+    let value = '';
+    pos += 1;
+    while (true) {
+      const char = text[pos];
+      if (char === undefined) throw fail(start, 'Unterminated string.');
+      pos += 1;
+      if (char === '"') return value;
+      if (char === '\\' && (text[pos] === '"' || text[pos] === '\\')) {
+        value += text[pos];
+        pos += 1;
+      } else if (char === '\\' && text[pos] === '\n') {
+        pos += 1;
+      } else if (char === '\\' && text.startsWith('\r\n', pos)) {
+        pos += 2;
+      } else {
+        value += char;
+      }
+    }
+  };
+
+  while (true) {
+    skipTrivia();
+    const start = pos;
+    const char = text[pos];
+    if (char === undefined) break;
+    if (char === '"') {
+      let value = readQuoted();
+      while (true) {
+        const save = pos;
+        skipTrivia();
+        if (text[pos] !== '+') {
+          pos = save;
+          break;
+        }
+        pos += 1;
+        skipTrivia();
+        if (text[pos] !== '"') throw fail(pos, "Expected a quoted string after '+'.");
+        value += readQuoted();
+      }
+      tokens.push({ kind: 'id', value, quoted: true, offset: start });
+    } else if (char === '<') {
+      let depth = 0;
+      do {
+        if (pos >= text.length) throw fail(start, 'Unterminated HTML string.');
+        if (text[pos] === '<') depth += 1;
+        else if (text[pos] === '>') depth -= 1;
+        pos += 1;
+      } while (depth > 0);
+      tokens.push({
+        kind: 'id',
+        value: text.slice(start + 1, pos - 1),
+        quoted: true,
+        offset: start,
+      });
+    } else if (text.startsWith('--', pos) || text.startsWith('->', pos)) {
+      pos += 2;
+      tokens.push({ kind: 'edgeop', value: text.slice(start, pos), quoted: false, offset: start });
+    } else if ('{}[]=;,:'.includes(char)) {
+      pos += 1;
+      tokens.push({ kind: 'punct', value: char, quoted: false, offset: start });
+    } else {
+      DOT_WORD.lastIndex = pos;
+      const found = DOT_WORD.exec(text);
+      if (!found) throw fail(pos, `Unexpected character '${char}'.`);
+      pos += found[0].length;
+      tokens.push({ kind: 'id', value: found[0], quoted: false, offset: start });
+    }
+  }
+  tokens.push({ kind: 'end', value: 'end of input', quoted: false, offset: text.length });
+  return tokens;
+}
+
+export function fromDOT(text: string): Graph {
+  const tokens = lexDot(text);
+  let index = 0;
+  const fail = (token: DotToken, message: string) => parseError('DOT', text, token.offset, message);
+  const peek = () => tokens[index]!;
+  const next = () => {
+    const token = tokens[index]!;
+    if (token.kind !== 'end') index += 1;
+    return token;
+  };
+  const isKeyword = (token: DotToken, keyword: string) =>
+    token.kind === 'id' && !token.quoted && token.value.toLowerCase() === keyword;
+  const accept = (value: string) => {
+    const token = peek();
+    if ((token.kind === 'punct' || token.kind === 'edgeop') && token.value === value) {
+      index += 1;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) throw fail(peek(), `Expected '${value}', found '${peek().value}'.`);
+  };
+  const readId = () => {
+    const token = next();
+    if (token.kind !== 'id' || (!token.quoted && DOT_KEYWORDS.has(token.value.toLowerCase()))) {
+      throw fail(token, `Expected an identifier, found '${token.value}'.`);
+    }
+    return token;
+  };
+  const typed = (token: DotToken): AttributeValue => {
+    if (token.quoted) return token.value;
+    if (DOT_NUMERAL.test(token.value)) return Number(token.value);
+    if (token.value === 'true' || token.value === 'false') return token.value === 'true';
+    return token.value;
+  };
+
+  const strict = isKeyword(peek(), 'strict');
+  if (strict) next();
+  const header = next();
+  if (!isKeyword(header, 'graph') && !isKeyword(header, 'digraph')) {
+    throw fail(header, `Expected 'graph' or 'digraph', found '${header.value}'.`);
+  }
+  const directedGraph = isKeyword(header, 'digraph');
+  const edgeOp = directedGraph ? '->' : '--';
+  if (peek().kind === 'id') readId();
+
+  const vertexOf = new Map<string, VertexId>();
+  const names: Label[] = [];
+  const vertexAttributes: Attributes[] = [];
+  const edgeList: Array<{ u: VertexId; v: VertexId; directed: boolean; attributes: Attributes }> =
+    [];
+  const seenEdges = new Set<string>();
+  type Scope = { node: Attributes; edge: Attributes };
+
+  const readAttributes = () => {
+    const attributes: Attributes = {};
+    while (accept('[')) {
+      while (!accept(']')) {
+        const key = readId();
+        attributes[key.value] = accept('=') ? typed(readId()) : true;
+        if (!accept(';')) accept(',');
+      }
+    }
+    return attributes;
+  };
+  const vertex = (token: DotToken, scope: Scope) => {
+    let v = vertexOf.get(token.value);
+    if (v === undefined) {
+      v = names.length;
+      names.push(
+        !token.quoted && DOT_NUMERAL.test(token.value) ? Number(token.value) : token.value,
+      );
+      vertexOf.set(token.value, v);
+      vertexAttributes.push({ ...scope.node });
+    }
+    return v;
+  };
+  const readPort = () => {
+    if (!accept(':')) return undefined;
+    const port = readId().value;
+    return accept(':') ? `${port}:${readId().value}` : port;
+  };
+
+  type Operand = { vertices: VertexId[]; port: string | undefined };
+  const readStatements = (scope: Scope): VertexId[] => {
+    const members = new Set<VertexId>();
+    const readOperand = (): Operand | null => {
+      const token = peek();
+      if (isKeyword(token, 'subgraph') || (token.kind === 'punct' && token.value === '{')) {
+        if (isKeyword(token, 'subgraph')) {
+          next();
+          if (peek().kind === 'id') readId();
+        }
+        expect('{');
+        const vertices = readStatements({ node: { ...scope.node }, edge: { ...scope.edge } });
+        expect('}');
+        vertices.forEach((v) => members.add(v));
+        return { vertices, port: undefined };
+      }
+      if (token.kind !== 'id') return null;
+      const v = vertex(readId(), scope);
+      members.add(v);
+      return { vertices: [v], port: readPort() };
+    };
+
+    while (true) {
+      const token = peek();
+      if (token.kind === 'end' || (token.kind === 'punct' && token.value === '}')) break;
+      if (accept(';')) continue;
+      if (isKeyword(token, 'graph') || isKeyword(token, 'node') || isKeyword(token, 'edge')) {
+        next();
+        const attributes = readAttributes();
+        if (isKeyword(token, 'node')) Object.assign(scope.node, attributes);
+        if (isKeyword(token, 'edge')) Object.assign(scope.edge, attributes);
+        continue;
+      }
+      if (
+        token.kind === 'id' &&
+        tokens[index + 1]?.kind === 'punct' &&
+        tokens[index + 1]?.value === '='
+      ) {
+        readId();
+        next();
+        readId();
+        continue;
+      }
+      const first = readOperand();
+      if (!first) throw fail(token, `Unexpected '${token.value}'.`);
+      const chain = [first];
+      while (peek().kind === 'edgeop') {
+        const op = next();
+        if (op.value !== edgeOp) {
+          throw fail(op, `'${op.value}' is not allowed in a ${header.value.toLowerCase()}.`);
+        }
+        const operand = readOperand();
+        if (!operand) throw fail(peek(), `Expected a node or subgraph, found '${peek().value}'.`);
+        chain.push(operand);
+      }
+      const attributes = readAttributes();
+      if (chain.length === 1) {
+        for (const v of first.vertices) Object.assign(vertexAttributes[v]!, attributes);
+        continue;
+      }
+      let directed = directedGraph;
+      const edgeAttributes = { ...scope.edge, ...attributes };
+      if (directedGraph && edgeAttributes.dir === 'none') {
+        directed = false;
+        delete edgeAttributes.dir;
+      }
+      for (let i = 1; i < chain.length; i += 1) {
+        const tail = chain[i - 1]!;
+        const head = chain[i]!;
+        for (const u of tail.vertices) {
+          for (const v of head.vertices) {
+            if (strict) {
+              const key = directed ? `${u}>${v}` : `${Math.min(u, v)}-${Math.max(u, v)}`;
+              if (seenEdges.has(key)) continue;
+              seenEdges.add(key);
+            }
+            const ports: Attributes = {};
+            if (tail.port !== undefined) ports.sourcePort = tail.port;
+            if (head.port !== undefined) ports.targetPort = head.port;
+            edgeList.push({ u, v, directed, attributes: { ...edgeAttributes, ...ports } });
+          }
+        }
+      }
+    }
+    return [...members];
+  };
+
+  expect('{');
+  readStatements({ node: {}, edge: {} });
+  expect('}');
+  if (peek().kind !== 'end') throw fail(peek(), `Expected end of input, found '${peek().value}'.`);
+
+  // As in GraphML, nodes take their names as labels unless the file gives nodes label
+  // attributes, and then the nodes without one have a null label.
+  const labelled = vertexAttributes.some((attributes) => attributes.label !== undefined);
+  const builder = new GraphBuilder();
+  names.forEach((name, v) => {
+    const { label, ...attributes } = vertexAttributes[v]!;
+    const vertexLabel: Label = labelled
+      ? typeof label === 'boolean'
+        ? String(label)
+        : (label ?? null)
+      : name;
+    builder.addVertex(vertexLabel, attributes as VertexAttributes);
+  });
+  for (const edge of edgeList)
+    builder.addEdge(edge.u, edge.v, edge.directed, edge.attributes as EdgeAttributes);
+  return builder.build();
+}
+
+export function toDOT(graph: Graph): string {
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const id = (value: string | number) => {
+    if (typeof value === 'number') {
+      const raw = finite(value, 'DOT');
+      return DOT_NUMERAL.test(raw) ? raw : quote(raw);
+    }
+    return quote(value);
+  };
+  const key = (name: string) =>
+    DOT_IDENTIFIER.test(name) && !DOT_KEYWORDS.has(name.toLowerCase()) ? name : quote(name);
+  const attributeList = (entries: Array<[string, AttributeValue]>) => {
+    const parts = entries
+      .filter(([, value]) => value !== null)
+      .map(
+        ([name, value]) =>
+          `${key(name)}=${typeof value === 'boolean' ? String(value) : id(value!)}`,
+      );
+    return parts.length > 0 ? ` [${parts.join(', ')}]` : '';
+  };
+
+  // Vertices are named by their labels when those are distinct and none is null; otherwise by
+  // their ids, with each label kept in a label attribute.
+  const labels = graph.vertices().map((v) => graph.label(v));
+  const named =
+    labels.every((label) => label !== null) && new Set(labels.map(String)).size === labels.length;
+  const name = (v: VertexId) => id(named ? labels[v]! : v);
+  const edges = graph.edges();
+  const directed = edges.some((edge) => edge.directed);
+  const lines = [directed ? 'digraph {' : 'graph {'];
+  for (const v of graph.vertices()) {
+    const entries = attributeEntries(graph.vertexAttributes(v));
+    if (entries.some(([key]) => key === 'label')) {
+      throw new Error(`Vertex attribute 'label' of vertex ${v} clashes with the DOT vertex label.`);
+    }
+    const label = labels[v]!;
+    if (!named && label !== null) entries.unshift(['label', label]);
+    lines.push(`  ${name(v)}${attributeList(entries)};`);
+  }
+  for (const edge of edges) {
+    const { sourcePort, targetPort, ...rest } = graph.edgeAttributes(edge.id);
+    const entries = attributeEntries(rest);
+    if (directed && !edge.directed) entries.push(['dir', 'none']);
+    const tail = sourcePort === undefined ? name(edge.u) : `${name(edge.u)}:${quote(sourcePort)}`;
+    const head = targetPort === undefined ? name(edge.v) : `${name(edge.v)}:${quote(targetPort)}`;
+    lines.push(`  ${tail} ${directed ? '->' : '--'} ${head}${attributeList(entries)};`);
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------------------------
+// DIMACS
+
+const INTEGER = /^[-+]?\d+$/;
+
+export function fromDIMACS(text: string): Graph {
+  const fail = (offset: number, message: string) => parseError('DIMACS', text, offset, message);
+  let vertexCount: number | null = null;
+  const vertexWeights = new Map<VertexId, number>();
+  const edges: Array<{ u: VertexId; v: VertexId; directed: boolean; attributes: EdgeAttributes }> =
+    [];
+
+  const number = (
+    token: { value: string; offset: number } | undefined,
+    line: TextLine,
+    what: string,
+  ) => {
+    if (!token) throw fail(line.offset + line.text.length, `Missing ${what}.`);
+    const value = Number(token.value);
+    if (token.value === '' || Number.isNaN(value)) {
+      throw fail(token.offset, `Invalid ${what} '${token.value}'.`);
+    }
+    return value;
+  };
+  const vertex = (token: { value: string; offset: number } | undefined, line: TextLine) => {
+    const value = number(token, line, 'vertex');
+    if (vertexCount === null) {
+      throw fail(line.offset, "Expected the problem line 'p <format> <vertices> <edges>' first.");
+    }
+    if (!Number.isInteger(value) || value < 1 || value > vertexCount) {
+      throw fail(token!.offset, `Vertex ${token!.value} is outside 1..${vertexCount}.`);
+    }
+    return value - 1;
+  };
+
+  for (const line of splitLines(text)) {
+    const tokens = splitTokens(line);
+    const [kind] = tokens;
+    if (!kind || kind.value === 'c') continue;
+    if (kind.value === 'p') {
+      if (vertexCount !== null) throw fail(kind.offset, 'Duplicate problem line.');
+      if (!tokens[1]) throw fail(line.offset + line.text.length, 'Missing problem format.');
+      const count = number(tokens[2], line, 'vertex count');
+      number(tokens[3], line, 'edge count');
+      if (!INTEGER.test(tokens[2]!.value) || count < 0) {
+        throw fail(tokens[2]!.offset, 'Invalid vertex count.');
+      }
+      vertexCount = count;
+    } else if (kind.value === 'e' || kind.value === 'a') {
+      const u = vertex(tokens[1], line);
+      const v = vertex(tokens[2], line);
+      const attributes: EdgeAttributes = tokens[3]
+        ? { weight: number(tokens[3], line, 'weight') }
+        : {};
+      edges.push({ u, v, directed: kind.value === 'a', attributes });
+    } else if (kind.value === 'n') {
+      vertexWeights.set(vertex(tokens[1], line), number(tokens[2], line, 'weight'));
+    } else {
+      throw fail(kind.offset, `Unknown line type '${kind.value}'.`);
+    }
+  }
+  if (vertexCount === null) {
+    throw fail(text.length, "Missing the problem line 'p <format> <vertices> <edges>'.");
+  }
+
+  const builder = new GraphBuilder();
+  for (let v = 0; v < vertexCount; v += 1) {
+    const weight = vertexWeights.get(v);
+    builder.addVertex(v + 1, weight === undefined ? undefined : { weight });
+  }
+  for (const edge of edges) builder.addEdge(edge.u, edge.v, edge.directed, edge.attributes);
+  return builder.build();
+}
+
+export function toDIMACS(graph: Graph): string {
+  const edges = graph.edges();
+  const directed = edges.length > 0 && edges.every((edge) => edge.directed);
+  if (!directed && edges.some((edge) => edge.directed)) {
+    throw new Error('DIMACS cannot mix directed and undirected edges.');
+  }
+  const lines = [`p ${directed ? 'sp' : 'edge'} ${graph.vertexCount()} ${edges.length}`];
+  for (const v of graph.vertices()) {
+    const { weight } = graph.vertexAttributes(v);
+    if (weight !== undefined) lines.push(`n ${v + 1} ${finite(weight, 'DIMACS')}`);
+  }
+  for (const edge of edges) {
+    const { weight } = graph.edgeAttributes(edge.id);
+    const suffix = weight === undefined ? '' : ` ${finite(weight, 'DIMACS')}`;
+    lines.push(`${directed ? 'a' : 'e'} ${edge.u + 1} ${edge.v + 1}${suffix}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------------------------
+// Dataset formats (SNAP, Matrix Market, BU4P, Wolfram SparseArray, OpenStreetMap)
+
+export type EdgeListOptions = { directed?: boolean };
+
+// Vertices are labelled with their ids from the file, in order of first appearance.
+export function fromSnapEdgeList(text: string, options: EdgeListOptions = {}): Graph {
+  const builder = new GraphBuilder();
+  const vertexOf = new Map<number, VertexId>();
+  const vertex = (token: { value: string; offset: number }) => {
+    if (!INTEGER.test(token.value)) {
+      throw parseError('SNAP', text, token.offset, `Invalid node id '${token.value}'.`);
+    }
+    const id = Number(token.value);
+    let v = vertexOf.get(id);
+    if (v === undefined) {
+      v = builder.addVertex(id);
+      vertexOf.set(id, v);
+    }
+    return v;
+  };
+  for (const line of splitLines(text)) {
+    const tokens = splitTokens(line);
+    if (tokens.length === 0 || tokens[0]!.value.startsWith('#')) continue;
+    if (tokens.length < 2) {
+      throw parseError('SNAP', text, tokens[0]!.offset, 'Expected two node ids.');
+    }
+    builder.addEdge(vertex(tokens[0]!), vertex(tokens[1]!), options.directed ?? false);
+  }
+  return builder.build();
+}
+
+// Coordinate matrices only; symmetric storage yields undirected edges, general storage directed ones.
+// Vertices are the 1-based row/column indices, diagonal entries are dropped and values become weights.
+export function fromMatrixMarket(text: string): Graph {
+  const fail = (offset: number, message: string) =>
+    parseError('MatrixMarket', text, offset, message);
+  const lines = splitLines(text);
+  let directed = true;
+  let pattern = false;
+  const banner = lines[0] ? splitTokens(lines[0]) : [];
+  if (banner[0]?.value.toLowerCase() === '%%matrixmarket') {
+    const [, object, format, field, symmetry] = banner.map((token) => token.value.toLowerCase());
+    if (object !== 'matrix') throw fail(banner[1]?.offset ?? 0, "Expected the 'matrix' object.");
+    if (format !== 'coordinate') {
+      throw fail(banner[2]?.offset ?? 0, 'Only coordinate matrices are supported.');
+    }
+    if (!['real', 'integer', 'complex', 'pattern'].includes(field ?? '')) {
+      throw fail(banner[3]?.offset ?? 0, `Unknown field '${field ?? ''}'.`);
+    }
+    if (!['general', 'symmetric', 'skew-symmetric', 'hermitian'].includes(symmetry ?? '')) {
+      throw fail(banner[4]?.offset ?? 0, `Unknown symmetry '${symmetry ?? ''}'.`);
+    }
+    directed = symmetry === 'general';
+    pattern = field === 'pattern';
+  }
+
+  let size: number | null = null;
+  const builder = new GraphBuilder();
+  for (const line of lines) {
+    const tokens = splitTokens(line);
+    if (tokens.length === 0 || tokens[0]!.value.startsWith('%')) continue;
+    const integers = tokens.slice(0, size === null ? 3 : 2);
+    const bad = integers.find((token) => !INTEGER.test(token.value));
+    if (bad) throw fail(bad.offset, `Expected an integer, found '${bad.value}'.`);
+    if (integers.length < (size === null ? 3 : 2)) {
+      throw fail(
+        line.offset + line.text.length,
+        size === null ? 'Expected rows, columns and entries.' : 'Expected a row and column.',
+      );
+    }
+    if (size === null) {
+      size = Math.max(Number(tokens[0]!.value), Number(tokens[1]!.value));
+      for (let v = 1; v <= size; v += 1) builder.addVertex(v);
+      continue;
+    }
+    const [row, column] = [Number(tokens[0]!.value), Number(tokens[1]!.value)];
+    const outside = [tokens[0]!, tokens[1]!].find(
+      (token) => Number(token.value) < 1 || Number(token.value) > size!,
+    );
+    if (outside) throw fail(outside.offset, `Index ${outside.value} is outside 1..${size}.`);
+    if (row === column) continue;
+    const value = tokens[2];
+    if (!pattern && value && Number.isNaN(Number(value.value))) {
+      throw fail(value.offset, `Invalid value '${value.value}'.`);
+    }
+    builder.addEdge(
+      row - 1,
+      column - 1,
+      directed,
+      !pattern && value ? { weight: Number(value.value) } : undefined,
+    );
+  }
+  if (size === null) throw fail(text.length, 'Missing the size line.');
+  return builder.build();
+}
+
+// BU4P benchmark graphs list each node with the edges it touches; an edge joins the two nodes naming it.
+export function fromBu4p(text: string): Graph {
+  const nodes = new Set<number>();
+  const edgeEnds = new Map<number, number[]>();
+  let current: number | null = null;
+  for (const line of splitLines(text)) {
+    const trimmed = line.text.trim();
+    if (!trimmed) continue;
+    if (current === null && /^\d+$/.test(trimmed)) {
+      current = Number(trimmed);
+      nodes.add(current);
+      continue;
+    }
+    const edge = trimmed.match(/^<EDGE>\s+(\d+)\s+--/);
+    if (edge) {
+      if (current === null) {
+        throw parseError(
+          'BU4P',
+          text,
+          line.offset + line.text.indexOf('<EDGE>'),
+          '<EDGE> outside a node.',
+        );
+      }
+      const ends = edgeEnds.get(Number(edge[1])) ?? [];
+      if (!ends.includes(current)) ends.push(current);
+      edgeEnds.set(Number(edge[1]), ends);
+    } else if (trimmed === '</NODE>') {
+      current = null;
+    }
+  }
+
+  const builder = new GraphBuilder();
+  const vertexOf = new Map<number, VertexId>();
+  for (const node of [...nodes].sort((a, b) => a - b)) vertexOf.set(node, builder.addVertex(node));
+  for (const [, ends] of [...edgeEnds.entries()].sort((a, b) => a[0] - b[0])) {
+    if (ends.length !== 2) continue;
+    const [u, v] = ends.sort((a, b) => a - b);
+    builder.addEdge(vertexOf.get(u!)!, vertexOf.get(v!)!, false);
+  }
+  return builder.build();
+}
+
+// Adjacency matrix stored as a Wolfram Language SparseArray; vertices are labelled 1..n.
+export function fromWolframSparseArray(text: string, options: EdgeListOptions = {}): Graph {
+  const match =
+    /SparseArray\[Automatic, \{(\d+),\s*(\d+)\}, 0, \{1, \{\{([\s\S]*?)\}, \{([\s\S]*?)\}\}, Pattern\}\]/m.exec(
+      text,
+    );
+  if (!match) throw parseError('Wolfram', text, 0, 'Could not locate a SparseArray payload.');
+  const fail = (message: string) => parseError('Wolfram', text, match.index, message);
+  const size = Number(match[1]);
+  if (size !== Number(match[2])) throw fail('SparseArray adjacency matrix is not square.');
+  const rowPointers = match[3]!.split(',').map((part) => Number(part.trim()));
+  const columns = [...match[4]!.matchAll(/\{\s*(\d+)\s*\}/g)].map((entry) => Number(entry[1]));
+  if (
+    rowPointers.length !== size + 1 ||
+    rowPointers.some((pointer) => !Number.isInteger(pointer))
+  ) {
+    throw fail(`Expected ${size + 1} row pointers, found ${rowPointers.length}.`);
+  }
+  if (rowPointers[size] !== columns.length) {
+    throw fail('Row pointers do not match the column indices.');
+  }
+
+  const builder = new GraphBuilder();
+  for (let v = 1; v <= size; v += 1) builder.addVertex(v);
+  const directed = options.directed ?? false;
+  const seen = new Set<string>();
+  for (let row = 0; row < size; row += 1) {
+    for (let i = rowPointers[row]!; i < rowPointers[row + 1]!; i += 1) {
+      const column = columns[i]! - 1;
+      if (column < 0 || column >= size) throw fail(`Column ${column + 1} is outside 1..${size}.`);
+      if (column === row) continue;
+      const key = directed
+        ? `${row},${column}`
+        : `${Math.min(row, column)},${Math.max(row, column)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      builder.addEdge(row, column, directed);
+    }
+  }
+  return builder.build();
+}
+
+export type OsmElement = {
+  type: string;
+  id?: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  tags?: Record<string, string>;
+};
+
+export type OsmJSON = { elements?: OsmElement[] };
+
+// Street network of an Overpass JSON export: ends and shared nodes of highway ways become vertices
+// (labelled with the OSM node id, `x`/`y` = lon/lat), consecutive ones along a way become edges.
+export function fromOsm(json: OsmJSON): Graph {
+  const coordinate = (value: number | undefined) =>
+    Number.isFinite(Number(value)) ? Number(value) : 0;
+  const coordinates = new Map<number, { x: number; y: number }>();
+  const ways: Array<{ id: number; nodes: number[] }> = [];
+  for (const element of json.elements ?? []) {
+    if (element.type === 'node' && typeof element.id === 'number') {
+      coordinates.set(element.id, { x: coordinate(element.lon), y: coordinate(element.lat) });
+    } else if (element.type === 'way' && element.tags?.highway) {
+      const nodes = (element.nodes ?? []).map(Number).filter(Number.isFinite);
+      if (nodes.length >= 2) ways.push({ id: Number(element.id), nodes });
+    }
+  }
+  ways.sort((a, b) => a.id - b.id);
+
+  const incidence = new Map<number, number>();
+  for (const way of ways) {
+    for (const node of way.nodes) incidence.set(node, (incidence.get(node) ?? 0) + 1);
+  }
+  const important = new Set<number>();
+  const pairs = new Map<string, [number, number]>();
+  for (const way of ways) {
+    let previous: number | null = null;
+    way.nodes.forEach((node, i) => {
+      if (i !== 0 && i !== way.nodes.length - 1 && (incidence.get(node) ?? 0) <= 1) return;
+      important.add(node);
+      if (previous !== null && previous !== node) {
+        const pair: [number, number] = previous < node ? [previous, node] : [node, previous];
+        pairs.set(`${pair[0]},${pair[1]}`, pair);
+      }
+      previous = node;
+    });
+  }
+
+  const builder = new GraphBuilder();
+  const vertexOf = new Map<number, VertexId>();
+  for (const node of [...important].sort((a, b) => a - b)) {
+    vertexOf.set(node, builder.addVertex(node, coordinates.get(node) ?? { x: 0, y: 0 }));
+  }
+  const edges = [...pairs.values()].map(([a, b]) => [vertexOf.get(a)!, vertexOf.get(b)!] as const);
+  edges.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  for (const [u, v] of edges) builder.addEdge(u, v, false);
+  return builder.build();
+}
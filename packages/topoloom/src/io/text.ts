@@ -0,0 +1,74 @@
+export type TextLine = { text: string; offset: number };
+
+export const positionAt = (text: string, offset: number): { line: number; column: number } => {
+  let line = 1;
+  let lineStart = 0;
+  const end = Math.min(offset, text.length);
+  for (let i = 0; i < end; i += 1) {
+    if (text.charCodeAt(i) === 10) {
+      line += 1;
+      lineStart = i + 1;
+    }
+  }
+  return { line, column: offset - lineStart + 1 };
+};
+
+export const parseError = (
+  format: string,
+  text: string,
+  offset: number,
+  message: string,
+): Error => {
+  const { line, column } = positionAt(text, offset);
+  return new Error(`${format} parse error at line ${line}, column ${column}: ${message}`);
+};
+
+export const splitLines = (text: string): TextLine[] => {
+  const lines: TextLine[] = [];
+  let offset = 0;
+  for (const raw of text.split('\n')) {
+    lines.push({ text: raw.endsWith('\r') ? raw.slice(0, -1) : raw, offset });
+    offset += raw.length + 1;
+  }
+  return lines;
+};
+
+// Whitespace-separated tokens of a line, each with its offset into the whole text.
+export const splitTokens = (line: TextLine): Array<{ value: string; offset: number }> => {
+  const tokens: Array<{ value: string; offset: number }> = [];
+  for (const match of line.text.matchAll(/\S+/g)) {
+    tokens.push({ value: match[0], offset: line.offset + match.index });
+  }
+  return tokens;
+};
+
+const NAMED_ENTITIES = new Map([
+  ['amp', '&'],
+  ['lt', '<'],
+  ['gt', '>'],
+  ['quot', '"'],
+  ['apos', "'"],
+]);
+
+// Decodes XML/HTML character references; returns the index of the first bad reference on failure.
+export const decodeEntities = (value: string): string | { invalidAt: number } => {
+  let invalidAt = -1;
+  const decoded = value.replace(/&([^;&\s]*);?/g, (match, body: string, index: number) => {
+    let code: number | undefined;
+    if (/^#x[0-9a-f]+$/i.test(body)) code = Number.parseInt(body.slice(2), 16);
+    else if (/^#[0-9]+$/.test(body)) code = Number.parseInt(body.slice(1), 10);
+    const named = NAMED_ENTITIES.get(body);
+    if (match.endsWith(';') && named !== undefined) return named;
+    if (match.endsWith(';') && code !== undefined && code <= 0x10ffff) {
+      return String.fromCodePoint(code);
+    }
+    if (invalidAt < 0) invalidAt = index;
+    return match;
+  });
+  return invalidAt < 0 ? decoded : { invalidAt };
+};
+
+export const escapeEntities = (value: string, quote = true): string => {
+  const escaped = value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return quote ? escaped.replace(/"/g, '&quot;') : escaped;
+};
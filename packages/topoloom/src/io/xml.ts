@@ -0,0 +1,142 @@
+import { decodeEntities, parseError } from './text';
+
+export type XmlElement = {
+  name: string;
+  attributes: Map<string, string>;
+  children: XmlNode[];
+  offset: number;
+};
+
+export type XmlNode = XmlElement | string;
+
+const NAME = /[A-Za-z_:][\w.:-]*/y;
+
+// Minimal non-validating XML reader: elements, attributes, text, CDATA; skips comments, PIs and DOCTYPE.
+export function parseXml(text: string, format: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const fail = (offset: number, message: string) => parseError(format, text, offset, message);
+  const decode = (value: string, offset: number) => {
+    const decoded = decodeEntities(value);
+    if (typeof decoded !== 'string') {
+      throw fail(offset + decoded.invalidAt, 'Invalid character reference.');
+    }
+    return decoded;
+  };
+  const skipTo = (terminator: string, what: string) => {
+    const end = text.indexOf(terminator, pos);
+    if (end < 0) throw fail(pos, `Unterminated ${what}.`);
+    const body = text.slice(pos, end);
+    pos = end + terminator.length;
+    return body;
+  };
+  const readName = () => {
+    NAME.lastIndex = pos;
+    const match = NAME.exec(text);
+    if (!match) throw fail(pos, 'Expected a name.');
+    pos += match[0].length;
+    return match[0];
+  };
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos]!)) pos += 1;
+  };
+  const addText = (value: string, offset: number) => {
+    const parent = stack[stack.length - 1];
+    if (parent) parent.children.push(value);
+    else if (value.trim() !== '') throw fail(offset, 'Text outside the root element.');
+  };
+
+  while (pos < text.length) {
+    const start = pos;
+    if (text.startsWith('<!--', pos)) {
+      pos += 4;
+      skipTo('-->', 'comment');
+    } else if (text.startsWith('<![CDATA[', pos)) {
+      pos += 9;
+      addText(skipTo(']]>', 'CDATA section'), start);
+    } else if (text.startsWith('<?', pos)) {
+      pos += 2;
+      skipTo('?>', 'processing instruction');
+    } else if (text.startsWith('<!', pos)) {
+      let depth = 0;
+      do {
+        if (pos >= text.length) throw fail(start, 'Unterminated declaration.');
+        if (text[pos] === '<') depth += 1;
+        else if (text[pos] === '>') depth -= 1;
+        pos += 1;
+      } while (depth > 0);
+    } else if (text.startsWith('</', pos)) {
+      pos += 2;
+      const name = readName();
+      skipSpace();
+      if (text[pos] !== '>') throw fail(pos, "Expected '>'.");
+      pos += 1;
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        throw fail(
+          start,
+          open ? `Expected </${open.name}>, found </${name}>.` : `Unexpected </${name}>.`,
+        );
+      }
+    } else if (text[pos] === '<') {
+      pos += 1;
+      const element: XmlElement = {
+        name: readName(),
+        attributes: new Map(),
+        children: [],
+        offset: start,
+      };
+      while (true) {
+        skipSpace();
+        if (text.startsWith('/>', pos) || text[pos] === '>') break;
+        if (pos >= text.length) throw fail(start, `Unterminated <${element.name}> tag.`);
+        const attrOffset = pos;
+        const attrName = readName();
+        skipSpace();
+        if (text[pos] !== '=') throw fail(pos, "Expected '='.");
+        pos += 1;
+        skipSpace();
+        const quote = text[pos];
+        if (quote !== '"' && quote !== "'") throw fail(pos, 'Expected a quoted attribute value.');
+        pos += 1;
+        const valueOffset = pos;
+        const raw = skipTo(quote, 'attribute value');
+        if (element.attributes.has(attrName)) {
+          throw fail(attrOffset, `Duplicate attribute '${attrName}'.`);
+        }
+        element.attributes.set(attrName, decode(raw, valueOffset));
+      }
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(element);
+      else if (root) throw fail(start, 'Multiple root elements.');
+      else root = element;
+      if (text[pos] === '>') {
+        stack.push(element);
+        pos += 1;
+      } else {
+        pos += 2;
+      }
+    } else {
+      const end = text.indexOf('<', pos);
+      pos = end < 0 ? text.length : end;
+      addText(decode(text.slice(start, pos), start), start);
+    }
+  }
+
+  const open = stack[stack.length - 1];
+  if (open) throw fail(open.offset, `Unclosed <${open.name}> element.`);
+  if (!root) throw fail(0, 'Missing root element.');
+  return root;
+}
+
+export const localName = (name: string) => name.slice(name.indexOf(':') + 1);
+
+export const childElements = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && localName(child.name) === name,
+  );
+
+export const textContent = (element: XmlElement): string =>
+  element.children.filter((child): child is string => typeof child === 'string').join('');
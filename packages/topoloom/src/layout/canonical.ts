@@ -0,0 +1,230 @@
+import type { VertexId } from '../graph';
+import { augment } from '../embedding';
+import type { HalfEdgeMesh } from '../embedding';
+import { removeEdge } from '../embedding/edit';
+
+export type Triangulation = {
+  vertexCount: number;
+  // Neighbors in rotation order; walking a face from u->v continues with v->pred_v(u).
+  rotation: VertexId[][];
+  // Outer triangle in canonical-ordering roles: v1 (left), v2 (right), vn (top).
+  outer: [VertexId, VertexId, VertexId];
+  // Edges added by the triangulation (undirected, u < v).
+  added: Array<[VertexId, VertexId]>;
+};
+
+export type CanonicalOrdering = {
+  order: VertexId[];
+  rank: number[];
+  // Leftmost / rightmost contour neighbor of each vertex at insertion time (k >= 3).
+  leftContact: number[];
+  rightContact: number[];
+};
+
+// Triangulates a copy of the mesh with augment, after deleting self-loops and parallel copies:
+// canonical ordering needs a simple triangulation, and augment keeps every edge it is given.
+export const triangulateMesh = (mesh: HalfEdgeMesh, outerFace: number): Triangulation | null => {
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
+  if (vertexCount < 3) return null;
+
+  const simple: HalfEdgeMesh = {
+    ...mesh,
+    origin: mesh.origin.slice(),
+    twin: mesh.twin.slice(),
+    next: mesh.next.slice(),
+    prev: mesh.prev.slice(),
+    edge: Array.from({ length: mesh.halfEdgeCount }, (_, h) => h >> 1),
+    face: mesh.face.slice(),
+    faces: mesh.faces.map((cycle) => cycle.slice()),
+  };
+  const pairs = new Set<number>();
+  const extra = new Set<number>();
+  for (let e = 0; e < mesh.halfEdgeCount / 2; e += 1) {
+    const [u, v] = [mesh.origin[2 * e]!, mesh.origin[2 * e + 1]!];
+    const key = Math.min(u, v) * vertexCount + Math.max(u, v);
+    if (u === v || pairs.has(key)) extra.add(e);
+    else pairs.add(key);
+  }
+  let outerDart = (mesh.faces[outerFace] ?? []).find((h) => !extra.has(h >> 1)) ?? -1;
+  // Deleting from the highest id down only ever moves an edge that stays into the freed slot.
+  for (const e of [...extra].reverse()) {
+    const { movedEdge } = removeEdge(simple, e, 'delete');
+    if (movedEdge === outerDart >> 1) outerDart = 2 * e + (outerDart & 1);
+  }
+
+  const { mesh: tri, dummy } = augment(simple, { target: 'triangulated', vertexCount });
+  if (outerDart === -1) outerDart = 0;
+  const first: number[] = Array(vertexCount).fill(-1);
+  for (let h = tri.halfEdgeCount - 1; h >= 0; h -= 1) first[tri.origin[h]!] = h;
+  const rotation: VertexId[][] = first.map((start) => {
+    const ring: VertexId[] = [];
+    for (let h = start; ring.length === 0 || h !== start; h = tri.twin[tri.prev[h]!]!) {
+      ring.push(tri.origin[tri.twin[h]!]!);
+    }
+    return ring;
+  });
+  const added: Array<[VertexId, VertexId]> = [];
+  dummy.forEach((isDummy, e) => {
+    if (!isDummy) return;
+    const [u, v] = [tri.origin[2 * e]!, tri.origin[2 * e + 1]!];
+    added.push(u < v ? [u, v] : [v, u]);
+  });
+
+  const v1 = tri.origin[outerDart]!;
+  const vn = tri.origin[tri.twin[outerDart]!]!;
+  const v2 = tri.origin[tri.prev[outerDart]!]!;
+  return { vertexCount, rotation, outer: [v1, v2, vn], added };
+};
+
+export const canonicalOrdering = (tri: Triangulation): CanonicalOrdering => {
+  const n = tri.vertexCount;
+  const [v1, v2, vn] = tri.outer;
+  const position: Array<Map<VertexId, number>> = tri.rotation.map((list) => {
+    const map = new Map<VertexId, number>();
+    list.forEach((w, i) => map.set(w, i));
+    return map;
+  });
+
+  const outer: boolean[] = Array(n).fill(false);
+  const removed: boolean[] = Array(n).fill(false);
+  const chords: number[] = Array(n).fill(0);
+  const prev: number[] = Array(n).fill(-1);
+  const next: number[] = Array(n).fill(-1);
+  const leftContact: number[] = Array(n).fill(-1);
+  const rightContact: number[] = Array(n).fill(-1);
+  const order: VertexId[] = Array(n).fill(-1);
+  const rank: number[] = Array(n).fill(-1);
+
+  outer[v1] = outer[v2] = outer[vn] = true;
+  next[v1] = vn;
+  prev[vn] = v1;
+  next[vn] = v2;
+  prev[v2] = vn;
+
+  const spanIndex = new Map<VertexId, number>();
+  const stack: VertexId[] = [vn];
+  for (let k = n - 1; k >= 2; k -= 1) {
+    let v = -1;
+    while (stack.length > 0) {
+      const candidate = stack.pop()!;
+      if (!removed[candidate] && outer[candidate] && chords[candidate] === 0) {
+        v = candidate;
+        break;
+      }
+    }
+    if (v === -1) throw new Error('Canonical ordering requires a triangulated embedding.');
+
+    const a = prev[v]!;
+    const b = next[v]!;
+    removed[v] = true;
+    order[k] = v;
+    rank[v] = k;
+    leftContact[v] = a;
+    rightContact[v] = b;
+
+    const list = tri.rotation[v]!;
+    const span: VertexId[] = [];
+    let idx = position[v]!.get(a)!;
+    for (let step = 0; step < list.length; step += 1) {
+      idx = (idx + 1) % list.length;
+      const w = list[idx]!;
+      if (w === b) break;
+      span.push(w);
+    }
+
+    if (span.length === 0) {
+      chords[a]! -= 1;
+      chords[b]! -= 1;
+      next[a] = b;
+      prev[b] = a;
+    } else {
+      let left = a;
+      for (let i = 0; i < span.length; i += 1) {
+        const u = span[i]!;
+        outer[u] = true;
+        prev[u] = left;
+        next[left] = u;
+        left = u;
+      }
+      next[left] = b;
+      prev[b] = left;
+      span.forEach((u, i) => spanIndex.set(u, i));
+      span.forEach((u, i) => {
+        for (const x of tri.rotation[u]!) {
+          if (removed[x] || !outer[x] || x === prev[u] || x === next[u]) continue;
+          if ((spanIndex.get(x) ?? -1) > i) continue;
+          chords[u]! += 1;
+          chords[x]! += 1;
+        }
+      });
+      spanIndex.clear();
+    }
+
+    for (const w of [a, b, ...span]) {
+      if (w !== v1 && w !== v2 && chords[w] === 0) stack.push(w);
+    }
+  }
+
+  order[0] = v1;
+  order[1] = v2;
+  rank[v1] = 0;
+  rank[v2] = 1;
+  return { order, rank, leftContact, rightContact };
+};
+
+export const shiftPlacement = (tri: Triangulation, ordering: CanonicalOrdering) => {
+  const n = tri.vertexCount;
+  const { order, leftContact, rightContact } = ordering;
+  const dx: number[] = Array(n).fill(0);
+  const y: number[] = Array(n).fill(0);
+  const left: number[] = Array(n).fill(-1);
+  const right: number[] = Array(n).fill(-1);
+
+  const v1 = order[0]!;
+  const v2 = order[1]!;
+  const v3 = order[2]!;
+  right[v1] = v3;
+  right[v3] = v2;
+  dx[v3] = 1;
+  dx[v2] = 1;
+  y[v3] = 1;
+
+  for (let k = 3; k < n; k += 1) {
+    const v = order[k]!;
+    const wp = leftContact[v]!;
+    const wq = rightContact[v]!;
+    const wp1 = right[wp]!;
+
+    dx[wp1]! += 1;
+    dx[wq]! += 1;
+    let delta = 0;
+    for (let w = wp1; ; w = right[w]!) {
+      delta += dx[w]!;
+      if (w === wq) break;
+    }
+    dx[v] = (delta - y[wp]! + y[wq]!) / 2;
+    y[v] = (delta + y[wp]! + y[wq]!) / 2;
+    dx[wq] = delta - dx[v]!;
+    if (wp1 !== wq) {
+      dx[wp1]! -= dx[v]!;
+      left[v] = wp1;
+      let last = wp1;
+      while (right[last] !== wq) last = right[last]!;
+      right[last] = -1;
+    } else {
+      left[v] = -1;
+    }
+    right[wp] = v;
+    right[v] = wq;
+  }
+
+  const x: number[] = Array(n).fill(0);
+  const stack: Array<[number, number]> = [[v1, 0]];
+  while (stack.length > 0) {
+    const [v, base] = stack.pop()!;
+    x[v] = base + dx[v]!;
+    if (left[v] !== -1) stack.push([left[v]!, x[v]!]);
+    if (right[v] !== -1) stack.push([right[v]!, x[v]!]);
+  }
+  return { x, y };
+};
@@ -1,10 +1,39 @@
-import { GraphBuilder } from '../graph';
-import type { Graph, EdgeId, VertexId } from '../graph';
-import { buildHalfEdgeMesh, selectOuterFace } from '../embedding';
-import type { HalfEdgeMesh, FaceId } from '../embedding';
-import { buildDual, routeEdgeFixedEmbedding } from '../dual';
-import { testPlanarity } from '../planarity';
-import { minCostFlow } from '../flow';
+import { CsrGraph, GraphBuilder, MutableGraph } from '../graph';
+import type { Graph, EdgeId, ReadonlyGraph, VertexId } from '../graph';
+import {
+  augment,
+  buildHalfEdgeMesh,
+  insertEdgeInFace,
+  selectOuterFace,
+  splitEdge,
+} from '../embedding';
+import type { HalfEdgeMesh, HalfEdgeId, FaceId, RotationSystem } from '../embedding';
+import { crossingCost, routeEdgeFixedEmbedding, routeEdgeVariableEmbedding } from '../dual';
+import {
+  maximalPlanarSubgraph,
+  testOuterplanarity,
+  testLevelPlanarity,
+  testPlanarity,
+  testUpwardEmbedding,
+  testUpwardPlanarity,
+} from '../planarity';
+import { bipolarOrientation } from '../order';
+import type { PlanarSubgraphOptions } from '../planarity';
+import { buildCsr, solveSparse } from './sparse';
+import { canonicalOrdering, shiftPlacement, triangulateMesh } from './canonical';
+import { schnyderCoordinates, schnyderTrees } from './schnyder';
+import { upwardGrid } from './upward';
+import {
+  acyclicTails,
+  brandesKoepf,
+  longestPathLayers,
+  networkSimplexLayers,
+  reduceCrossings,
+} from './layered';
+import { assignCoordinates, buildOrthogonalShape, refineRectangular, shapeComponents } from './orthogonal';
+import type { SparseSolverMethod } from './sparse';
+import type { CrossingHeuristic, LayeringMethod, ProperLayering } from './layered';
+import type { OrthogonalMode, OrthogonalShapeOptions } from './orthogonal';
 
 export type Point = { x: number; y: number };
 export type EdgePath = { edge: EdgeId; points: Point[] };
@@ -16,10 +45,79 @@ export type LayoutResult = {
     bends: number;
     area: number;
     crossings: number;
+    // Total length of all edge polylines.
+    edgeLength: number;
   };
+  solver?: TutteSolveReport;
+  // Vertices drawn as boxes, with the box's lower-left corner and size.
+  boxes?: Map<VertexId, Box>;
+  layering?: LayeringReport;
 };
 
-type Direction = 'N' | 'E' | 'S' | 'W';
+// Layer of every vertex in a layered drawing, and the directed edges turned around to break cycles.
+export type LayeringReport = { layer: number[]; reversed: EdgeId[] };
+
+export type Box = { x: number; y: number; width: number; height: number };
+
+export type Size = { width: number; height: number };
+
+// Vertex widths and heights from graph attributes, in the form the nodeSizes options take.
+export function nodeSizes(graph: Graph): Map<VertexId, Size> {
+  const sizes = new Map<VertexId, Size>();
+  for (const v of graph.vertices()) {
+    const { width, height } = graph.vertexAttributes(v);
+    if (width === undefined && height === undefined) continue;
+    sizes.set(v, { width: width ?? 0, height: height ?? 0 });
+  }
+  return sizes;
+}
+
+export type TutteSolveReport = {
+  method: SparseSolverMethod;
+  iterations: number;
+  residual: number;
+  converged: boolean;
+};
+
+export type PlanarStraightLineOptions = {
+  solver?: SparseSolverMethod;
+  tolerance?: number;
+  maxIterations?: number;
+  initialPositions?: Map<VertexId, Point>;
+  // Vertices drawn as boxes of this size, centred on their position.
+  nodeSizes?: Map<VertexId, Size>;
+  // Face whose boundary is pinned outside; selectOuterFace picks one by default.
+  outerFace?: FaceId;
+};
+
+export type GridDrawingOptions = {
+  nodeSizes?: Map<VertexId, Size>;
+};
+
+export type SchnyderColor = 0 | 1 | 2;
+
+export type SchnyderEdge = {
+  edge: EdgeId;
+  color: SchnyderColor;
+  // Edges are oriented from source towards the root of their color's tree.
+  source: VertexId;
+  target: VertexId;
+};
+
+export type SchnyderWood = {
+  // Roots of trees 0, 1 and 2: the outer triangle vertices.
+  roots: [VertexId, VertexId, VertexId];
+  // parent[i][v] is v's parent in tree i, or -1 for outer vertices.
+  parent: [VertexId[], VertexId[], VertexId[]];
+  // Interior edges only; the three outer edges carry no color.
+  edges: SchnyderEdge[];
+};
+
+export type SchnyderOptions = {
+  outerFace?: FaceId;
+  // Only used by schnyderDrawing.
+  nodeSizes?: Map<VertexId, Size>;
+};
 
 export function segmentsIntersect(a1: Point, a2: Point, b1: Point, b2: Point): boolean {
   const orient = (p: Point, q: Point, r: Point) => {
@@ -72,33 +170,21 @@ const uniqueCycle = (vertices: VertexId[]) => {
   return cycle;
 };
 
-const buildTriangulatedAdjacency = (mesh: HalfEdgeMesh): Array<Set<VertexId>> => {
-  const vertexCount = Math.max(...mesh.origin) + 1;
+// Neighbors and triangular faces in the triangulated embedding. Components are triangulated
+// apart, so each one still gets laid out on its own.
+const triangulateComponents = (mesh: HalfEdgeMesh) => {
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
+  const triangulated = augment(mesh, { target: 'triangulated', perComponent: true }).mesh;
   const neighbors: Array<Set<VertexId>> = Array.from({ length: vertexCount }, () => new Set());
-  const addEdge = (u: VertexId, v: VertexId) => {
-    if (u === v) return;
-    neighbors[u]?.add(v);
-    neighbors[v]?.add(u);
-  };
-
-  for (let e = 0; e < mesh.halfEdgeCount / 2; e += 1) {
-    const h0 = e * 2;
-    const h1 = e * 2 + 1;
-    const u = mesh.origin[h0] ?? 0;
-    const v = mesh.origin[h1] ?? 0;
-    addEdge(u, v);
+  for (let h = 0; h < triangulated.halfEdgeCount; h += 1) {
+    const u = triangulated.origin[h]!;
+    const v = triangulated.origin[h ^ 1]!;
+    if (u !== v) neighbors[u]!.add(v);
   }
-
-  mesh.faces.forEach((cycle) => {
-    const verts = uniqueCycle(cycle.map((h) => mesh.origin[h] ?? 0));
-    if (verts.length <= 3) return;
-    const root = verts[0]!;
-    for (let i = 2; i < verts.length - 1; i += 1) {
-      addEdge(root, verts[i]!);
-    }
-  });
-
-  return neighbors;
+  const triangles = triangulated.faces
+    .map((cycle) => uniqueCycle(cycle.map((h) => triangulated.origin[h]!)))
+    .filter((cycle) => cycle.length === 3 && new Set(cycle).size === 3);
+  return { neighbors, triangles };
 };
 
 const connectedComponents = (neighbors: Array<Set<VertexId>>) => {
@@ -126,147 +212,299 @@ const connectedComponents = (neighbors: Array<Set<VertexId>>) => {
   return components;
 };
 
-const solveLinearSystem = (A: number[][], b: number[]): number[] => {
-  const n = b.length;
-  const x = Array(n).fill(0);
-  const M = A.map((row) => [...row]);
-  const rhs = [...b];
-
-  for (let i = 0; i < n; i += 1) {
-    let pivot = i;
-    let max = Math.abs(M[i]?.[i] ?? 0);
-    for (let r = i + 1; r < n; r += 1) {
-      const val = Math.abs(M[r]?.[i] ?? 0);
-      if (val > max) {
-        max = val;
-        pivot = r;
-      }
-    }
-    if (pivot !== i) {
-      [M[i], M[pivot]] = [M[pivot]!, M[i]!];
-      [rhs[i], rhs[pivot]] = [rhs[pivot]!, rhs[i]!];
-    }
-    const diag = M[i]?.[i] ?? 0;
-    if (Math.abs(diag) < 1e-12) continue;
-    for (let r = i + 1; r < n; r += 1) {
-      const factor = (M[r]?.[i] ?? 0) / diag;
-      if (!Number.isFinite(factor)) continue;
-      for (let c = i; c < n; c += 1) {
-        M[r]![c] = (M[r]![c] ?? 0) - factor * (M[i]![c] ?? 0);
-      }
-      rhs[r] = (rhs[r] ?? 0) - factor * (rhs[i] ?? 0);
+const straightEdgePaths = (mesh: HalfEdgeMesh, positions: Map<VertexId, Point>): EdgePath[] => {
+  const edges: EdgePath[] = [];
+  for (let e = 0; e < mesh.halfEdgeCount / 2; e += 1) {
+    const h0 = e * 2;
+    const h1 = e * 2 + 1;
+    const u = mesh.origin[h0] ?? 0;
+    const v = mesh.origin[h1] ?? 0;
+    if (u === v) {
+      const p = positions.get(u) ?? { x: 0, y: 0 };
+      const r = 10;
+      edges.push({
+        edge: e,
+        points: [
+          { x: p.x + r, y: p.y },
+          { x: p.x + r, y: p.y + r },
+          { x: p.x, y: p.y + r },
+          { x: p.x, y: p.y },
+        ],
+      });
+    } else {
+      edges.push({
+        edge: e,
+        points: [positions.get(u) ?? { x: 0, y: 0 }, positions.get(v) ?? { x: 0, y: 0 }],
+      });
     }
   }
+  return edges;
+};
 
-  for (let i = n - 1; i >= 0; i -= 1) {
-    let sum = rhs[i] ?? 0;
-    for (let j = i + 1; j < n; j += 1) {
-      sum -= (M[i]?.[j] ?? 0) * (x[j] ?? 0);
+// Pairs of straight edges that cross, found by a sweep over x: an edge is only tested against the
+// edges whose x-range is still open where it starts and whose y-range meets its own.
+const countStraightCrossings = (edges: EdgePath[]) => {
+  const slack = 1e-9;
+  const shared = (p: Point, q: Point) => p.x === q.x && p.y === q.y;
+  const segments = edges.flatMap(({ points: [a, b] }) => {
+    if (!a || !b) return [];
+    const [left, right] = [Math.min(a.x, b.x), Math.max(a.x, b.x)];
+    return [{ a, b, left, right, low: Math.min(a.y, b.y), high: Math.max(a.y, b.y) }];
+  });
+  segments.sort((s, t) => s.left - t.left);
+  const open: typeof segments = [];
+  let crossings = 0;
+  for (const s of segments) {
+    let kept = 0;
+    for (const t of open) {
+      if (t.right < s.left - slack) continue;
+      open[kept++] = t;
+      if (t.high < s.low - slack || t.low > s.high + slack) continue;
+      if (shared(s.a, t.a) || shared(s.a, t.b) || shared(s.b, t.a) || shared(s.b, t.b)) continue;
+      if (segmentsIntersect(t.a, t.b, s.a, s.b)) crossings += 1;
     }
-    const diag = M[i]?.[i] ?? 0;
-    x[i] = Math.abs(diag) < 1e-12 ? 0 : sum / diag;
+    open.length = kept;
+    open.push(s);
   }
-  return x;
+  return crossings;
 };
 
-const snapPositionsToGrid = (positions: Map<VertexId, Point>, spacing = 20) => {
-  const snapped = new Map<VertexId, Point>();
-  const values = [...positions.values()];
-  if (values.length === 0) return snapped;
-
-  const rankAxis = (vals: number[]) => {
-    const sorted = [...vals].sort((a, b) => a - b);
-    const unique: number[] = [];
-    for (const val of sorted) {
-      if (!unique.length || Math.abs(val - unique[unique.length - 1]!) > 1e-6) {
-        unique.push(val);
-      }
+const checkOuterFace = (mesh: HalfEdgeMesh, face: FaceId) => {
+  if (!Number.isInteger(face) || face < 0 || face >= mesh.faces.length) {
+    throw new Error(`Outer face ${face} is not a face of the mesh.`);
+  }
+  return face;
+};
+
+// The requested outer face once checked against the mesh, or selectOuterFace's pick.
+const outerFaceOf = (mesh: HalfEdgeMesh, face: FaceId | undefined) =>
+  face === undefined ? selectOuterFace(mesh) : checkOuterFace(mesh, face);
+
+// Largest minus smallest value, found by a loop: big drawings have too many coordinates to spread
+// into Math.max.
+const span = (values: number[]) => {
+  let [low, high] = [Infinity, -Infinity];
+  for (const v of values) [low, high] = [Math.min(low, v), Math.max(high, v)];
+  return values.length > 0 ? high - low : 0;
+};
+
+const totalEdgeLength = (edges: EdgePath[]) =>
+  edges.reduce((sum, edge) => {
+    let length = 0;
+    for (let i = 0; i + 1 < edge.points.length; i += 1) {
+      const a = edge.points[i]!;
+      const b = edge.points[i + 1]!;
+      length += Math.hypot(b.x - a.x, b.y - a.y);
     }
-    const findRank = (value: number) => {
-      let lo = 0;
-      let hi = unique.length - 1;
-      while (lo <= hi) {
-        const mid = (lo + hi) >> 1;
-        const cur = unique[mid] ?? 0;
-        if (Math.abs(cur - value) <= 1e-6) return mid;
-        if (cur < value) lo = mid + 1;
-        else hi = mid - 1;
-      }
-      return Math.max(0, Math.min(unique.length - 1, lo));
-    };
-    return { unique, findRank };
-  };
+    return sum + length;
+  }, 0);
+
+const NODE_CLEARANCE = 1;
+
+// Smallest t >= 0 such that growing the rx-by-ry half-extent box around c by t reaches segment a-b.
+const boxReach = (c: Point, rx: number, ry: number, a: Point, b: Point) => {
+  const [ax, bx, ay, by] = [(a.x - c.x) / rx, (b.x - a.x) / rx, (a.y - c.y) / ry, (b.y - a.y) / ry];
+  const at = (t: number) => Math.max(Math.abs(ax + bx * t), Math.abs(ay + by * t));
+  // The maximum of two linear absolute values is minimal at an end or where a term vanishes or
+  // the terms meet.
+  const candidates = [0, 1, -ax / bx, -ay / by, (ay - ax) / (bx - by), -(ax + ay) / (bx + by)];
+  return Math.min(...candidates.filter((t) => t >= 0 && t <= 1).map(at));
+};
 
-  const xs = values.map((p) => p.x);
-  const ys = values.map((p) => p.y);
-  const rx = rankAxis(xs);
-  const ry = rankAxis(ys);
+// Scales a straight-line drawing uniformly until every sized vertex box clears the other vertices
+// and the edges it is not an end of; scaling keeps the drawing planar.
+const fitStraightLine = (result: LayoutResult, sizes: Map<VertexId, Size> | undefined): LayoutResult => {
+  if (!sizes || sizes.size === 0) return result;
+  let scale = 1;
+  // Vertices the drawing already puts on top of each other or on an edge cannot be scaled apart.
+  const xs = [...result.positions.values()].map((p) => p.x);
+  const ys = [...result.positions.values()].map((p) => p.y);
+  const tolerance = 1e-9 * Math.max(1, span(xs), span(ys));
+  const grow = (reach: number, rx: number, ry: number) => {
+    if (reach * Math.min(rx, ry) > tolerance) scale = Math.max(scale, 1 / reach);
+  };
+  sizes.forEach((size, v) => {
+    const c = result.positions.get(v);
+    if (!c) return;
+    result.positions.forEach((p, w) => {
+      const other = sizes.get(w);
+      if (w === v || (other && w < v)) return;
+      const rx = (size.width + (other?.width ?? 0)) / 2 + NODE_CLEARANCE;
+      const ry = (size.height + (other?.height ?? 0)) / 2 + NODE_CLEARANCE;
+      grow(boxReach(c, rx, ry, p, p), rx, ry);
+    });
+    const rx = size.width / 2 + NODE_CLEARANCE;
+    const ry = size.height / 2 + NODE_CLEARANCE;
+    for (const { points } of result.edges) {
+      const [first, last] = [points[0], points[points.length - 1]];
+      if ((first?.x === c.x && first.y === c.y) || (last?.x === c.x && last.y === c.y)) continue;
+      for (let i = 0; i + 1 < points.length; i += 1) {
+        grow(boxReach(c, rx, ry, points[i]!, points[i + 1]!), rx, ry);
+      }
+    }
+  });
 
-  positions.forEach((p, v) => {
-    const ix = rx.findRank(p.x);
-    const iy = ry.findRank(p.y);
-    snapped.set(v, { x: ix * spacing, y: iy * spacing });
+  const scaled = (p: Point) => ({ x: p.x * scale, y: p.y * scale });
+  const positions = new Map([...result.positions].map(([v, p]) => [v, scaled(p)]));
+  const edges = result.edges.map((edge) => ({ edge: edge.edge, points: edge.points.map(scaled) }));
+  const boxes = new Map<VertexId, Box>();
+  sizes.forEach((size, v) => {
+    const p = positions.get(v);
+    if (p) boxes.set(v, { x: p.x - size.width / 2, y: p.y - size.height / 2, ...size });
   });
-  return snapped;
+  return {
+    ...result,
+    positions,
+    edges,
+    stats: { ...result.stats, area: result.stats.area * scale * scale, edgeLength: totalEdgeLength(edges) },
+    boxes,
+  };
 };
 
-const compactOrthogonalGrid = (
-  positions: Map<VertexId, Point>,
-  edges: EdgePath[],
-  spacing = 20,
-) => {
-  const xs = new Set<number>();
-  const ys = new Set<number>();
-  positions.forEach((p) => {
-    xs.add(p.x);
-    ys.add(p.y);
-  });
-  edges.forEach((edge) => {
-    edge.points.forEach((p) => {
-      xs.add(p.x);
-      ys.add(p.y);
+// Widens the columns and rows of an orthogonal drawing until sized vertices fit: point vertices
+// get a centred box with clearance to the neighbouring grid lines, and boxes spanning several grid
+// lines are stretched to at least their size. The stretch is monotone, so segments stay
+// axis-parallel and disjoint.
+const fitOrthogonal = (result: LayoutResult, sizes: Map<VertexId, Size> | undefined): LayoutResult => {
+  if (!sizes || sizes.size === 0) return result;
+  const stretch = (axis: 'x' | 'y', extent: 'width' | 'height') => {
+    const values = new Set<number>();
+    result.positions.forEach((p, v) => {
+      if (!result.boxes?.has(v)) values.add(p[axis]);
+    });
+    result.boxes?.forEach((box) => values.add(box[axis]).add(box[axis] + box[extent]));
+    for (const edge of result.edges) for (const p of edge.points) values.add(p[axis]);
+    const coords = [...values].sort((a, b) => a - b);
+    const index = new Map(coords.map((value, i) => [value, i]));
+    const margin: number[] = Array(coords.length).fill(0);
+    const minGap: number[] = Array(coords.length).fill(0);
+    sizes.forEach((size, v) => {
+      const box = result.boxes?.get(v);
+      const from = index.get(box ? box[axis] : result.positions.get(v)?.[axis] ?? NaN);
+      if (from === undefined) return;
+      const to = box ? index.get(box[axis] + box[extent])! : from;
+      if (to === from) margin[from] = Math.max(margin[from]!, size[extent] / 2);
+      for (let i = from; i < to; i += 1) minGap[i] = Math.max(minGap[i]!, size[extent] / (to - from));
     });
+    const mapped = coords.slice(0, 1);
+    for (let i = 0; i + 1 < coords.length; i += 1) {
+      const sides = margin[i]! + margin[i + 1]!;
+      const gap = Math.max(coords[i + 1]! - coords[i]!, minGap[i]!, sides > 0 ? sides + NODE_CLEARANCE : 0);
+      mapped.push(mapped[i]! + gap);
+    }
+    return (value: number) => mapped[index.get(value)!]!;
+  };
+  const mapX = stretch('x', 'width');
+  const mapY = stretch('y', 'height');
+  const moved = (p: Point) => ({ x: mapX(p.x), y: mapY(p.y) });
+
+  const boxes = new Map<VertexId, Box>();
+  result.boxes?.forEach((box, v) => {
+    const low = moved(box);
+    const high = moved({ x: box.x + box.width, y: box.y + box.height });
+    boxes.set(v, { x: low.x, y: low.y, width: high.x - low.x, height: high.y - low.y });
+  });
+  const positions = new Map<VertexId, Point>();
+  result.positions.forEach((p, v) => {
+    const box = boxes.get(v);
+    positions.set(v, box ? { x: box.x + box.width / 2, y: box.y + box.height / 2 } : moved(p));
+  });
+  sizes.forEach((size, v) => {
+    const p = positions.get(v);
+    if (!p) return;
+    const box = boxes.get(v);
+    const width = Math.max(size.width, box?.width ?? 0);
+    const height = Math.max(size.height, box?.height ?? 0);
+    boxes.set(v, { x: p.x - width / 2, y: p.y - height / 2, width, height });
   });
+  const edges = result.edges.map((edge) => ({ edge: edge.edge, points: edge.points.map(moved) }));
 
-  const mapAxis = (values: Set<number>) => {
-    const sorted = [...values].sort((a, b) => a - b);
-    const mapping = new Map<number, number>();
-    sorted.forEach((v, idx) => mapping.set(v, idx * spacing));
-    return mapping;
+  const points = [...positions.values(), ...edges.flatMap((edge) => edge.points)];
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const area = span(xs) * span(ys);
+  return {
+    ...result,
+    positions,
+    edges,
+    stats: { ...result.stats, area, edgeLength: totalEdgeLength(edges) },
+    boxes,
   };
+};
 
-  const xMap = mapAxis(xs);
-  const yMap = mapAxis(ys);
-  const nextPositions = new Map<VertexId, Point>();
-  positions.forEach((p, v) => {
-    nextPositions.set(v, {
-      x: xMap.get(p.x) ?? p.x,
-      y: yMap.get(p.y) ?? p.y,
-    });
+// Tutte's barycentric placement: every vertex of interior at the mean of its triangulated
+// neighbors, with the vertices of pinned already placed.
+const solveTutte = (
+  interior: VertexId[],
+  pinned: Set<VertexId>,
+  neighbors: Array<Set<VertexId>>,
+  positions: Map<VertexId, Point>,
+  options: PlanarStraightLineOptions,
+): TutteSolveReport => {
+  const index = new Map<VertexId, number>();
+  interior.forEach((v, idx) => index.set(v, idx));
+  const size = interior.length;
+  const rows: Array<Array<[number, number]>> = [];
+  const bx = new Float64Array(size);
+  const by = new Float64Array(size);
+
+  interior.forEach((v, row) => {
+    const neigh = Array.from(neighbors[v] ?? []);
+    const entries: Array<[number, number]> = [[row, neigh.length || 1]];
+    for (const n of neigh) {
+      if (pinned.has(n)) {
+        const pos = positions.get(n) ?? { x: 0, y: 0 };
+        bx[row] = bx[row]! + pos.x;
+        by[row] = by[row]! + pos.y;
+      } else if (index.has(n)) {
+        entries.push([index.get(n)!, -1]);
+      }
+    }
+    rows.push(entries);
   });
 
-  const nextEdges = edges.map((edge) => ({
-    edge: edge.edge,
-    points: edge.points.map((p) => ({
-      x: xMap.get(p.x) ?? p.x,
-      y: yMap.get(p.y) ?? p.y,
-    })),
-  }));
+  const x0 = new Float64Array(size);
+  const y0 = new Float64Array(size);
+  interior.forEach((v, idx) => {
+    const warm = options.initialPositions?.get(v);
+    if (!warm) return;
+    x0[idx] = warm.x;
+    y0[idx] = warm.y;
+  });
 
-  return { positions: nextPositions, edges: nextEdges };
+  const matrix = buildCsr(rows);
+  const solveOptions = {
+    method: options.solver ?? 'cg',
+    tolerance: options.tolerance ?? 1e-10,
+    maxIterations: options.maxIterations ?? Math.max(200, size * 4),
+  };
+  const solvedX = solveSparse(matrix, bx, x0, solveOptions);
+  const solvedY = solveSparse(matrix, by, y0, solveOptions);
+  interior.forEach((v, idx) => {
+    positions.set(v, { x: solvedX.x[idx] ?? 0, y: solvedY.x[idx] ?? 0 });
+  });
+  return {
+    method: solveOptions.method,
+    iterations: Math.max(solvedX.iterations, solvedY.iterations),
+    residual: Math.max(solvedX.residual, solvedY.residual),
+    converged: solvedX.converged && solvedY.converged,
+  };
 };
 
-export function planarStraightLine(mesh: HalfEdgeMesh): LayoutResult {
-  const vertexCount = Math.max(...mesh.origin) + 1;
+export function planarStraightLine(
+  mesh: HalfEdgeMesh,
+  options: PlanarStraightLineOptions = {},
+): LayoutResult {
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
   const positions = new Map<VertexId, Point>();
   if (vertexCount === 0) {
-    return { positions, edges: [], stats: { bends: 0, area: 0, crossings: 0 } };
+    return { positions, edges: [], stats: { bends: 0, area: 0, crossings: 0, edgeLength: 0 } };
   }
 
-  const outer = selectOuterFace(mesh);
+  const outer = outerFaceOf(mesh, options.outerFace);
   const boundary = uniqueCycle((mesh.faces[outer] ?? []).map((h) => mesh.origin[h] ?? 0));
   const boundarySet = new Set(boundary);
-  const neighbors = buildTriangulatedAdjacency(mesh);
+  const { neighbors, triangles } = triangulateComponents(mesh);
 
   const components = connectedComponents(neighbors);
   const mainComponent = components.find((comp) => comp.some((v) => boundarySet.has(v))) ?? components[0] ?? [];
@@ -293,391 +531,594 @@ export function planarStraightLine(mesh: HalfEdgeMesh): LayoutResult {
   });
 
   const interior = mainComponent.filter((v) => !boundarySet.has(v));
+  const reports: TutteSolveReport[] = [];
   if (boundary.length >= 3 && interior.length > 0) {
-    const index = new Map<VertexId, number>();
-    interior.forEach((v, idx) => index.set(v, idx));
-    const size = interior.length;
-    const Ax: number[][] = Array.from({ length: size }, () => Array(size).fill(0));
-    const Ay: number[][] = Array.from({ length: size }, () => Array(size).fill(0));
-    const bx: number[] = Array(size).fill(0);
-    const by: number[] = Array(size).fill(0);
-
-    for (const v of interior) {
-      const row = index.get(v);
-      if (row === undefined) continue;
-      const neigh = Array.from(neighbors[v] ?? []);
-      const degree = neigh.length || 1;
-      const axRow = Ax[row];
-      const ayRow = Ay[row];
-      if (!axRow || !ayRow) continue;
-      axRow[row] = 1;
-      ayRow[row] = 1;
-      for (const n of neigh) {
-        if (boundarySet.has(n)) {
-          const pos = positions.get(n) ?? { x: 0, y: 0 };
-          bx[row] = (bx[row] ?? 0) + pos.x / degree;
-          by[row] = (by[row] ?? 0) + pos.y / degree;
-        } else if (index.has(n)) {
-          const col = index.get(n)!;
-          axRow[col] = (axRow[col] ?? 0) - 1 / degree;
-          ayRow[col] = (ayRow[col] ?? 0) - 1 / degree;
-        }
-      }
-    }
-
-    const solvedX = solveLinearSystem(Ax, bx);
-    const solvedY = solveLinearSystem(Ay, by);
-    interior.forEach((v, idx) => {
-      positions.set(v, { x: solvedX[idx] ?? 0, y: solvedY[idx] ?? 0 });
-    });
+    reports.push(solveTutte(interior, boundarySet, neighbors, positions, options));
   }
 
+  // The other components go to the right, each pinned by one of its triangles: the triangulation
+  // keeps the rest of the component inside that triangle.
+  const triangleAt = new Map<VertexId, VertexId[]>();
+  for (const cycle of triangles) if (!triangleAt.has(cycle[0]!)) triangleAt.set(cycle[0]!, cycle);
   let offsetX = radius * 2.5;
   for (const comp of components) {
     if (comp === mainComponent) continue;
     const r = Math.max(20, comp.length * 8);
-    comp.forEach((v, i) => {
-      const angle = (2 * Math.PI * i) / Math.max(1, comp.length);
+    const corners = triangleAt.get(comp.find((v) => triangleAt.has(v)) ?? -1) ?? comp;
+    corners.forEach((v, i) => {
+      const angle = (2 * Math.PI * i) / Math.max(1, corners.length);
       positions.set(v, { x: offsetX + Math.cos(angle) * r, y: Math.sin(angle) * r });
     });
+    const pinned = new Set(corners);
+    const inside = comp.filter((v) => !pinned.has(v));
+    if (inside.length > 0) reports.push(solveTutte(inside, pinned, neighbors, positions, options));
     offsetX += r * 3;
   }
+  const solver = reports.reduce<TutteSolveReport | undefined>(
+    (all, report) =>
+      all && {
+        method: all.method,
+        iterations: Math.max(all.iterations, report.iterations),
+        residual: Math.max(all.residual, report.residual),
+        converged: all.converged && report.converged,
+      },
+    reports[0],
+  );
 
-  const edges: EdgePath[] = [];
-  for (let e = 0; e < mesh.halfEdgeCount / 2; e += 1) {
-    const h0 = e * 2;
-    const h1 = e * 2 + 1;
-    const u = mesh.origin[h0] ?? 0;
-    const v = mesh.origin[h1] ?? 0;
-    if (u === v) {
-      const p = positions.get(u) ?? { x: 0, y: 0 };
-      const r = 10;
-      edges.push({
-        edge: e,
-        points: [
-          { x: p.x + r, y: p.y },
-          { x: p.x + r, y: p.y + r },
-          { x: p.x, y: p.y + r },
-          { x: p.x, y: p.y },
-        ],
-      });
-    } else {
-      edges.push({
-        edge: e,
-        points: [positions.get(u) ?? { x: 0, y: 0 }, positions.get(v) ?? { x: 0, y: 0 }],
-      });
-    }
-  }
-
+  const edges = straightEdgePaths(mesh, positions);
   const boundaryPoints = boundary.map((v) => positions.get(v) ?? { x: 0, y: 0 });
   const area = boundaryPoints.length >= 3 ? polygonArea(boundaryPoints) : 0;
+  const crossings = countStraightCrossings(edges);
 
-  let crossings = 0;
-  const shared = (p: Point, q: Point) => p.x === q.x && p.y === q.y;
-  for (let i = 0; i < edges.length; i += 1) {
-    for (let j = i + 1; j < edges.length; j += 1) {
-      const e1 = edges[i]!;
-      const e2 = edges[j]!;
-      const [a1, a2] = e1.points;
-      const [b1, b2] = e2.points;
-      if (!a1 || !a2 || !b1 || !b2) continue;
-      if (shared(a1, b1) || shared(a1, b2) || shared(a2, b1) || shared(a2, b2)) continue;
-      if (segmentsIntersect(a1, a2, b1, b2)) crossings += 1;
-    }
-  }
-
-  return {
-    positions,
-    edges,
-    stats: {
-      bends: 0,
-      area,
-      crossings,
+  return fitStraightLine(
+    {
+      positions,
+      edges,
+      stats: {
+        bends: 0,
+        area,
+        crossings,
+        edgeLength: totalEdgeLength(edges),
+      },
+      ...(solver ? { solver } : {}),
     },
-  };
+    options.nodeSizes,
+  );
 }
 
-const incidentFacesInOrder = (mesh: HalfEdgeMesh, vertex: VertexId): FaceId[] => {
-  const start = mesh.origin.findIndex((v) => v === vertex);
-  if (start < 0) return [];
-  const faces: FaceId[] = [];
-  let h = start;
-  const guardLimit = mesh.halfEdgeCount;
-  let guard = 0;
-  do {
-    const f = mesh.face[h] ?? -1;
-    if (!faces.includes(f)) faces.push(f as FaceId);
-    const twin = mesh.twin[h] ?? -1;
-    const next = mesh.next[twin] ?? -1;
-    h = next;
-    guard += 1;
-  } while (h !== start && guard < guardLimit);
-  return faces;
+const gridLayout = (
+  mesh: HalfEdgeMesh,
+  positions: Map<VertexId, Point>,
+  sizes: Map<VertexId, Size> | undefined,
+): LayoutResult => {
+  const edges = straightEdgePaths(mesh, positions);
+  const xs = Array.from(positions.values(), (p) => p.x);
+  const ys = Array.from(positions.values(), (p) => p.y);
+  const area = span(xs) * span(ys);
+
+  return fitStraightLine(
+    {
+      positions,
+      edges,
+      stats: {
+        bends: 0,
+        area,
+        crossings: countStraightCrossings(edges),
+        edgeLength: totalEdgeLength(edges),
+      },
+    },
+    sizes,
+  );
 };
 
-const incidentHalfEdgesInOrder = (mesh: HalfEdgeMesh, vertex: VertexId): number[] => {
-  const start = mesh.origin.findIndex((v) => v === vertex);
-  if (start < 0) return [];
-  const order: number[] = [];
-  let h = start;
-  const guardLimit = mesh.halfEdgeCount;
-  let guard = 0;
-  do {
-    order.push(h);
-    const twin = mesh.twin[h] ?? -1;
-    const next = mesh.next[twin] ?? -1;
-    h = next;
-    guard += 1;
-  } while (h !== start && guard < guardLimit);
-  return order;
-};
+export function planarGridDrawing(mesh: HalfEdgeMesh, options: GridDrawingOptions = {}): LayoutResult {
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
+  const positions = new Map<VertexId, Point>();
+  if (vertexCount === 0) {
+    return { positions, edges: [], stats: { bends: 0, area: 0, crossings: 0, edgeLength: 0 } };
+  }
 
-const buildPortAssignments = (
-  mesh: HalfEdgeMesh,
-  positions: Map<VertexId, Point>,
-  spacing = 20,
-) => {
-  const portMap = new Map<string, { point: Point; dir: Direction }>();
-  const directions: Direction[] = ['E', 'N', 'W', 'S'];
-  const vertexCount = Math.max(...mesh.origin) + 1;
-  const offset = Math.max(6, Math.round(spacing * 0.4));
-  const spread = Math.max(4, Math.round(spacing * 0.35));
+  const tri = triangulateMesh(mesh, selectOuterFace(mesh));
+  if (!tri) {
+    for (let v = 0; v < vertexCount; v += 1) positions.set(v, { x: v, y: 0 });
+  } else {
+    const { x, y } = shiftPlacement(tri, canonicalOrdering(tri));
+    for (let v = 0; v < vertexCount; v += 1) positions.set(v, { x: x[v] ?? 0, y: y[v] ?? 0 });
+  }
+  return gridLayout(mesh, positions, options.nodeSizes);
+}
 
-  for (let v = 0; v < vertexCount; v += 1) {
-    const base = positions.get(v as VertexId) ?? { x: 0, y: 0 };
-    const halfEdges = incidentHalfEdgesInOrder(mesh, v as VertexId);
-    if (!halfEdges.length) continue;
-    const buckets: Record<Direction, Array<{ edgeId: EdgeId }>> = {
-      N: [],
-      E: [],
-      S: [],
-      W: [],
-    };
-    halfEdges.forEach((h, idx) => {
-      const edgeId = Math.floor(h / 2) as EdgeId;
-      const dir = directions[idx % directions.length] ?? 'E';
-      buckets[dir].push({ edgeId });
-    });
+export function schnyderWood(mesh: HalfEdgeMesh, options: SchnyderOptions = {}): SchnyderWood {
+  const tri = mesh.halfEdgeCount === 0 ? null : triangulateMesh(mesh, outerFaceOf(mesh, options.outerFace));
+  if (!tri || tri.added.length > 0 || mesh.halfEdgeCount !== 2 * (3 * tri.vertexCount - 6)) {
+    throw new Error('Schnyder woods require a maximal planar graph.');
+  }
 
-    (Object.keys(buckets) as Direction[]).forEach((dir) => {
-      const items = buckets[dir];
-      const count = items.length;
-      items.forEach((item, idx) => {
-        const offsetIndex = idx - (count - 1) / 2;
-        let point: Point;
-        if (dir === 'N' || dir === 'S') {
-          point = {
-            x: Math.round(base.x + offsetIndex * spread),
-            y: Math.round(base.y + (dir === 'N' ? -offset : offset)),
-          };
-        } else {
-          point = {
-            x: Math.round(base.x + (dir === 'E' ? offset : -offset)),
-            y: Math.round(base.y + offsetIndex * spread),
-          };
-        }
-        portMap.set(`${item.edgeId}:${v}`, { point, dir });
-      });
+  const n = tri.vertexCount;
+  const { roots, parent } = schnyderTrees(tri, canonicalOrdering(tri));
+  const edgeIds = new Map<number, EdgeId>();
+  for (let e = 0; e < mesh.halfEdgeCount / 2; e += 1) {
+    const u = mesh.origin[2 * e] ?? 0;
+    const v = mesh.origin[2 * e + 1] ?? 0;
+    edgeIds.set(u * n + v, e);
+    edgeIds.set(v * n + u, e);
+  }
+
+  const edges: SchnyderEdge[] = [];
+  parent.forEach((tree, color) => {
+    tree.forEach((target, source) => {
+      if (target === -1) return;
+      edges.push({ edge: edgeIds.get(source * n + target)!, color: color as SchnyderColor, source, target });
     });
+  });
+  edges.sort((a, b) => a.edge - b.edge);
+
+  return { roots, parent, edges };
+}
+
+export function schnyderDrawing(mesh: HalfEdgeMesh, options: SchnyderOptions = {}): LayoutResult {
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
+  const positions = new Map<VertexId, Point>();
+  if (vertexCount === 0) {
+    return { positions, edges: [], stats: { bends: 0, area: 0, crossings: 0, edgeLength: 0 } };
   }
 
-  return portMap;
-};
+  const tri = triangulateMesh(mesh, outerFaceOf(mesh, options.outerFace));
+  if (!tri) {
+    for (let v = 0; v < vertexCount; v += 1) positions.set(v, { x: v, y: 0 });
+  } else {
+    const ordering = canonicalOrdering(tri);
+    const { x, y } = schnyderCoordinates(tri, ordering, schnyderTrees(tri, ordering));
+    for (let v = 0; v < vertexCount; v += 1) positions.set(v, { x: x[v] ?? 0, y: y[v] ?? 0 });
+  }
+  return gridLayout(mesh, positions, options.nodeSizes);
+}
 
-const computeBends = (mesh: HalfEdgeMesh) => {
-  const faceCount = mesh.faces.length;
-  const outer = selectOuterFace(mesh);
-  const vertexCount = Math.max(...mesh.origin) + 1;
-  const edgeCount = mesh.halfEdgeCount / 2;
-  const faceRotation = Array(faceCount).fill(0);
-  let relaxedDegree = false;
+const dedupePoints = (points: Point[]) => {
+  const out: Point[] = [];
+  for (const p of points) {
+    const prev = out[out.length - 1];
+    if (!prev || prev.x !== p.x || prev.y !== p.y) out.push(p);
+  }
+  return out;
+};
 
-  for (let v = 0; v < vertexCount; v += 1) {
-    const faces = incidentFacesInOrder(mesh, v);
-    const degree = faces.length;
-    if (degree === 0) continue;
-    const angles = Array(degree).fill(1);
-    if (degree === 1) {
-      // single face around a dangling edge: treat as 360°
-      angles[0] = 4;
-    } else if (degree === 2) {
-      angles[0] = 2;
-      angles[1] = 2;
-    } else if (degree === 3) {
-      let idx = faces.indexOf(outer);
-      if (idx < 0) idx = 0;
-      angles[idx] = 2;
-    } else if (degree === 4) {
-      // all 90° already
-    } else {
-      // Allow higher degree by treating extra incidences as 90° ports.
-      relaxedDegree = true;
-      for (let i = 0; i < angles.length; i += 1) angles[i] = 1;
-    }
+const countBends = (edges: EdgePath[]) =>
+  edges.reduce((sum, edge) => sum + Math.max(0, edge.points.length - 2), 0);
 
-    for (let i = 0; i < faces.length; i += 1) {
-      const f = faces[i]!;
-      const angle = angles[i] ?? 1;
-      faceRotation[f] += 2 - angle;
-    }
+const simplifyPolyline = (points: Point[]) => {
+  const out: Point[] = [];
+  for (const p of dedupePoints(points)) {
+    const a = out[out.length - 2];
+    const b = out[out.length - 1];
+    if (a && b && ((a.x === b.x && b.x === p.x) || (a.y === b.y && b.y === p.y))) out.pop();
+    out.push(p);
   }
+  return out;
+};
+
+const ORTHOGONAL_GRID = 20;
 
-  const demands = Array(faceCount).fill(0);
-  for (let f = 0; f < faceCount; f += 1) {
-    const required = f === outer ? -4 : 4;
-    demands[f] = required - (faceRotation[f] ?? 0);
+const drawOrthogonal = (mesh: HalfEdgeMesh, shapeOptions: OrthogonalShapeOptions): LayoutResult => {
+  const positions = new Map<VertexId, Point>();
+  if (mesh.halfEdgeCount === 0) {
+    return { positions, edges: [], stats: { bends: 0, area: 0, crossings: 0, edgeLength: 0 } };
   }
 
-  const dual = buildDual(mesh);
-  const arcs: Array<{ from: number; to: number; upper: number; cost: number }> = [];
-  const edgeArcIndex: Array<{ forward: number; backward: number }> = [];
-  const capacity = 1000;
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
+  const shape = buildOrthogonalShape(mesh, shapeOptions);
+  refineRectangular(shape);
+  const { x, y, drawn } = assignCoordinates(shape);
+
+  // Components are laid out side by side, isolated vertices after them.
+  const find = shapeComponents(shape);
+  const placed: boolean[] = Array(shape.vertexCount).fill(false);
+  shape.origin.forEach((v) => {
+    placed[v] = true;
+  });
+  const members = new Map<number, number[]>();
+  for (let v = 0; v < shape.vertexCount; v += 1) {
+    if (!drawn[v]) continue;
+    const root = find(v);
+    const list = members.get(root) ?? [];
+    list.push(v);
+    members.set(root, list);
+  }
+  let offset = 0;
+  for (const list of members.values()) {
+    const minX = list.reduce((low, v) => Math.min(low, x[v]!), Infinity);
+    const maxX = list.reduce((high, v) => Math.max(high, x[v]!), -Infinity);
+    const minY = list.reduce((low, v) => Math.min(low, y[v]!), Infinity);
+    for (let v = 0; v < shape.vertexCount; v += 1) {
+      if (!placed[v] || find(v) !== find(list[0]!)) continue;
+      x[v] = x[v]! - minX + offset;
+      y[v] = y[v]! - minY;
+    }
+    offset += maxX - minX + 2;
+  }
+  for (let v = 0; v < vertexCount; v += 1) {
+    if (placed[v] || shape.vertexOf[v] === -1) continue;
+    x[v] = offset;
+    y[v] = 0;
+    placed[v] = true;
+    offset += 2;
+  }
 
+  const point = (v: number): Point => ({ x: x[v]! * ORTHOGONAL_GRID, y: y[v]! * ORTHOGONAL_GRID });
+  // Splits may hand either half of an edge to a dummy, so each edge is walked along the pieces it
+  // owns from the end that stands for its source vertex.
+  const pieces: number[][] = Array.from({ length: mesh.halfEdgeCount / 2 }, () => []);
+  shape.owner.forEach((e, s) => {
+    if (e !== -1) pieces[e]!.push(2 * s, 2 * s + 1);
+  });
+  const edges: EdgePath[] = [];
   for (let e = 0; e < mesh.halfEdgeCount / 2; e += 1) {
-    const faces = dual.edgeFaces[e];
-    const left = faces?.left ?? 0;
-    const right = faces?.right ?? 0;
-    const forward = arcs.length;
-    arcs.push({ from: left, to: right, upper: capacity, cost: 1 });
-    const backward = arcs.length;
-    arcs.push({ from: right, to: left, upper: capacity, cost: 1 });
-    edgeArcIndex[e] = { forward, backward };
-  }
-
-  const result = minCostFlow({ nodeCount: faceCount, arcs, demands });
-  if (!result.feasible) {
-    if (relaxedDegree) {
-      return Array(edgeCount).fill(0);
+    const out = new Map<number, number[]>();
+    for (const h of pieces[e]!) {
+      const list = out.get(shape.origin[h]!) ?? [];
+      list.push(h);
+      out.set(shape.origin[h]!, list);
+    }
+    let h = pieces[e]!.find((c) => shape.vertexOf[shape.origin[c]!] === mesh.origin[2 * e])!;
+    const points = [point(shape.origin[h]!)];
+    for (;;) {
+      const w = shape.origin[h ^ 1]!;
+      points.push(point(w));
+      if (shape.vertexOf[w] !== -1) break;
+      h = out.get(w)!.find((c) => c !== (h ^ 1))!;
     }
-    throw new Error('Orthogonal representation flow is infeasible.');
+    edges.push({ edge: e, points: simplifyPolyline(points) });
   }
 
-  const bendsPerEdge: number[] = [];
-  for (let e = 0; e < edgeCount; e += 1) {
-    const idx = edgeArcIndex[e];
-    if (!idx) {
-      bendsPerEdge[e] = 0;
+  // Ports and corners of expanded vertices are framed by a box.
+  const boxes = new Map<VertexId, Box>();
+  for (let v = 0; v < shape.vertexCount; v += 1) {
+    const owner = shape.vertexOf[v]!;
+    if (owner === -1 || !placed[v]) continue;
+    const p = point(v);
+    if (owner === v) {
+      positions.set(v, p);
       continue;
     }
-    const forward = result.flowByArc[idx.forward] ?? 0;
-    const backward = result.flowByArc[idx.backward] ?? 0;
-    bendsPerEdge[e] = forward + backward;
+    const box = boxes.get(owner);
+    if (!box) {
+      boxes.set(owner, { x: p.x, y: p.y, width: 0, height: 0 });
+      continue;
+    }
+    const right = Math.max(box.x + box.width, p.x);
+    const top = Math.max(box.y + box.height, p.y);
+    box.x = Math.min(box.x, p.x);
+    box.y = Math.min(box.y, p.y);
+    box.width = right - box.x;
+    box.height = top - box.y;
   }
-  return bendsPerEdge;
+  boxes.forEach((box, v) => {
+    positions.set(v, { x: box.x + box.width / 2, y: box.y + box.height / 2 });
+  });
+
+  const points = [...positions.values(), ...edges.flatMap((edge) => edge.points)];
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const area = span(xs) * span(ys);
+
+  return {
+    positions,
+    edges,
+    stats: {
+      bends: countBends(edges),
+      area,
+      crossings: 0,
+      edgeLength: totalEdgeLength(edges),
+    },
+    ...(boxes.size > 0 ? { boxes } : {}),
+  };
 };
 
-const dedupePoints = (points: Point[]) => {
-  const out: Point[] = [];
-  for (const p of points) {
-    const prev = out[out.length - 1];
-    if (!prev || prev.x !== p.x || prev.y !== p.y) out.push(p);
+export type OrthogonalLayoutOptions = {
+  // 'kandinsky' draws every vertex as a box whose sides may carry several edges.
+  mode?: OrthogonalMode;
+  // Vertices drawn at least this size; rows and columns widen to make room.
+  nodeSizes?: Map<VertexId, Size>;
+  // Face drawn outside in its component; by default each component takes its longest face.
+  outerFace?: FaceId;
+};
+
+export function orthogonalLayout(mesh: HalfEdgeMesh, options: OrthogonalLayoutOptions = {}): LayoutResult {
+  const shapeOptions: OrthogonalShapeOptions = { mode: options.mode ?? 'tamassia' };
+  if (options.outerFace !== undefined) {
+    shapeOptions.outerFace = checkOuterFace(mesh, options.outerFace);
   }
-  return out;
+  return fitOrthogonal(drawOrthogonal(mesh, shapeOptions), options.nodeSizes);
+}
+
+export type OuterplanarCircularOptions = {
+  radius?: number;
+  // Vertices drawn as boxes of this size, centred on their position.
+  nodeSizes?: Map<VertexId, Size>;
 };
 
-const orthogonalizeEdgePath = (points: Point[]) => {
-  if (points.length < 2) return points;
-  const out: Point[] = [points[0]!];
-  for (let i = 0; i < points.length - 1; i += 1) {
-    const a = points[i]!;
-    const b = points[i + 1]!;
-    if (a.x === b.x || a.y === b.y) {
-      out.push(b);
-      continue;
-    }
-    out.push({ x: a.x, y: b.y });
-    out.push(b);
+// Vertices on a circle in outer-face order, so every edge is a chord and no two chords cross.
+export function outerplanarCircular(
+  graph: Graph,
+  options: OuterplanarCircularOptions = {},
+): LayoutResult {
+  const result = testOuterplanarity(graph);
+  if (!result.outerplanar) {
+    throw new Error(`Graph is not outerplanar (contains a ${result.witness.type} subdivision).`);
   }
-  return dedupePoints(out);
+  const { boundary } = result;
+  const radius = options.radius ?? Math.max(30, boundary.length * 12);
+  const positions = new Map<VertexId, Point>();
+  boundary.forEach((v, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(1, boundary.length);
+    positions.set(v, { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+  });
+
+  const edges = straightEdgePaths(buildHalfEdgeMesh(graph, result.embedding), positions);
+  const boundaryPoints = boundary.map((v) => positions.get(v)!);
+  return fitStraightLine(
+    {
+      positions,
+      edges,
+      stats: {
+        bends: 0,
+        area: boundaryPoints.length >= 3 ? polygonArea(boundaryPoints) : 0,
+        crossings: countStraightCrossings(edges),
+        edgeLength: totalEdgeLength(edges),
+      },
+    },
+    options.nodeSizes,
+  );
+}
+
+const UPWARD_GRID = 20;
+
+export type UpwardLayoutOptions = {
+  // Rotation to draw; by default one is searched for (directed input) or found by testPlanarity.
+  embedding?: RotationSystem;
+  // Ends of the orientation given to undirected input; by default an edge of the outer face.
+  source?: VertexId;
+  sink?: VertexId;
 };
 
-const countBends = (edges: EdgePath[]) =>
-  edges.reduce((sum, edge) => sum + Math.max(0, edge.points.length - 2), 0);
+// Polyline drawing in which every edge runs upward: each vertex sits on its layer and each edge
+// climbs vertically in its own column. Directed input has to be upward planar (and single-source
+// unless an embedding is given); undirected input has to be biconnected and is oriented from
+// source to sink with bipolarOrientation first.
+export function upwardPlanarLayout(graph: Graph, options: UpwardLayoutOptions = {}): LayoutResult {
+  const positions = new Map<VertexId, Point>();
+  const graphEdges = graph.edges();
+  if (graphEdges.length === 0) {
+    for (const v of graph.vertices()) positions.set(v, { x: v * UPWARD_GRID, y: 0 });
+    return { positions, edges: [], stats: { bends: 0, area: 0, crossings: 0, edgeLength: 0 } };
+  }
+  const directedCount = graphEdges.filter((edge) => edge.directed).length;
+  if (directedCount !== 0 && directedCount !== graphEdges.length) {
+    throw new Error('Upward layout needs every edge directed or every edge undirected.');
+  }
 
-const routeOrthogonal = (
-  start: Point,
-  end: Point,
-  bends: number,
-  spacing: number,
-  seed: number,
-): Point[] => {
-  let path: Point[];
-  if (start.x === end.x || start.y === end.y) {
-    path = [start, end];
+  const builder = new GraphBuilder();
+  for (const v of graph.vertices()) builder.addVertex(v);
+  for (const edge of graphEdges) builder.addEdge(edge.u, edge.v, false);
+  const undirected = builder.build();
+  let mesh: HalfEdgeMesh;
+  let tail: VertexId[];
+  let angles: { outerFace: FaceId; largeAngles: number[] };
+  if (directedCount > 0 && !options.embedding) {
+    const result = testUpwardPlanarity(graph);
+    if (!result.upward) throw new Error(`Graph is not upward planar (${result.reason}).`);
+    ({ mesh } = result);
+    tail = graphEdges.map((edge) => edge.u);
+    angles = result;
   } else {
-    const midA = { x: start.x, y: end.y };
-    const midB = { x: end.x, y: start.y };
-    const distA = Math.abs(start.x - midA.x) + Math.abs(start.y - midA.y);
-    const distB = Math.abs(start.x - midB.x) + Math.abs(start.y - midB.y);
-    const mid = distA <= distB ? midA : midB;
-    path = [start, mid, end];
-  }
-
-  let extra = bends - (path.length - 2);
-  if (extra > 0) {
-    const sign = seed % 2 === 0 ? 1 : -1;
-    const detour = Math.max(4, Math.round(spacing * 0.4));
-    while (extra > 0) {
-      const a = path[0]!;
-      const b = path[1]!;
-      if (a.x === b.x) {
-        const midY = Math.round((a.y + b.y) / 2);
-        const xOff = a.x + sign * detour;
-        const p1 = { x: xOff, y: a.y };
-        const p2 = { x: xOff, y: midY };
-        const p3 = { x: a.x, y: midY };
-        path.splice(1, 0, p1, p2, p3);
-      } else {
-        const midX = Math.round((a.x + b.x) / 2);
-        const yOff = a.y + sign * detour;
-        const p1 = { x: a.x, y: yOff };
-        const p2 = { x: midX, y: yOff };
-        const p3 = { x: midX, y: a.y };
-        path.splice(1, 0, p1, p2, p3);
+    let embedding = options.embedding;
+    if (!embedding) {
+      const planar = testPlanarity(undirected);
+      if (!planar.planar) throw new Error('Graph is not planar.');
+      embedding = planar.embedding;
+    }
+    mesh = buildHalfEdgeMesh(undirected, embedding);
+    let outerFace = selectOuterFace(mesh);
+    let directed: ReadonlyGraph = graph;
+    if (directedCount > 0) {
+      tail = graphEdges.map((edge) => edge.u);
+    } else {
+      const first = mesh.faces[outerFace]![0]!;
+      const s = options.source ?? mesh.origin[first]!;
+      const t = options.sink ?? mesh.origin[mesh.twin[first]!]!;
+      tail = graphEdges.map((edge) => edge.u);
+      for (const { edge, from } of bipolarOrientation(mesh, s, t).edgeDirections) tail[edge] = from;
+      const heads = graphEdges.map((edge) => (tail[edge.id] === edge.u ? edge.v : edge.u));
+      directed = CsrGraph.fromEdges(graph.vertexCount(), tail, heads, tail.map(() => 1));
+      const around = (v: VertexId) => new Set(mesh.face.filter((_, h) => mesh.origin[h] === v));
+      const [facesS, facesT] = [around(s), around(t)];
+      if (!facesS.has(outerFace) || !facesT.has(outerFace)) {
+        outerFace = [...facesS].find((f) => facesT.has(f))!;
       }
-      extra -= 2;
     }
+    const result = testUpwardEmbedding(directed, mesh, directedCount > 0 ? {} : { outerFace });
+    if (!result.upward) throw new Error(`Embedding has no upward drawing (${result.reason}).`);
+    angles = result;
+  }
+
+  const { layer, column } = upwardGrid(mesh, tail, angles.outerFace, angles.largeAngles);
+  for (const v of graph.vertices()) {
+    const columns = graph.adjacency(v).map((adj) => column[adj.edge]!);
+    const x = columns.length
+      ? (columns.reduce((a, b) => Math.min(a, b)) + columns.reduce((a, b) => Math.max(a, b))) / 2
+      : 0;
+    positions.set(v, { x: x * UPWARD_GRID, y: layer[v]! * UPWARD_GRID });
   }
-  return dedupePoints(path);
+  // Edges leave and enter a vertex a quarter layer away from it, which keeps them inside the
+  // vertex's stretch of its layer.
+  const edges: EdgePath[] = graphEdges.map((edge) => {
+    const from = tail[edge.id]!;
+    const to = from === edge.u ? edge.v : edge.u;
+    const x = column[edge.id]! * UPWARD_GRID;
+    const points = simplifyPolyline([
+      positions.get(from)!,
+      { x, y: (layer[from]! + 0.25) * UPWARD_GRID },
+      { x, y: (layer[to]! - 0.25) * UPWARD_GRID },
+      positions.get(to)!,
+    ]);
+    return { edge: edge.id, points: from === edge.u ? points : points.reverse() };
+  });
+
+  const points = [...positions.values(), ...edges.flatMap((edge) => edge.points)];
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return {
+    positions,
+    edges,
+    stats: {
+      bends: countBends(edges),
+      area: span(xs) * span(ys),
+      crossings: 0,
+      edgeLength: totalEdgeLength(edges),
+    },
+  };
+}
+
+const LAYERED_GRID = 20;
+
+export type LayeredLayoutOptions = {
+  // Default 'network-simplex', which keeps the weighted edge spans short.
+  layering?: LayeringMethod;
+  crossingMinimization?: CrossingHeuristic;
+  // Swap neighbors after every sweep while that removes crossings; default true.
+  transpose?: boolean;
+  sweeps?: number;
+  // Look for a crossing-free order of the layers when the sweeps leave crossings; default true.
+  levelPlanarity?: boolean;
+  layerSpacing?: number;
+  nodeSpacing?: number;
 };
 
-export function orthogonalLayout(mesh: HalfEdgeMesh): LayoutResult {
-  const base = planarStraightLine(mesh);
-  const positions = snapPositionsToGrid(base.positions, 20);
-  const bendsPerEdge = computeBends(mesh);
-  const portMap = buildPortAssignments(mesh, positions, 20);
-  const edges: EdgePath[] = [];
+// Sugiyama-style drawing: break cycles, put the vertices on layers with every edge climbing, split
+// long edges at the layers they pass, order the layers to cut crossings and place them with
+// Brandes and Köpf. Edge weights (default 1) weigh the spans in network-simplex layering. Edges
+// bend at the split points; self-loops get a small square of their own.
+export function layered(graph: Graph, options: LayeredLayoutOptions = {}): LayoutResult {
+  const n = graph.vertexCount();
+  const positions = new Map<VertexId, Point>();
+  if (n === 0) {
+    return { positions, edges: [], stats: { bends: 0, area: 0, crossings: 0, edgeLength: 0 } };
+  }
+  const layerSpacing = options.layerSpacing ?? LAYERED_GRID;
+  const nodeSpacing = options.nodeSpacing ?? LAYERED_GRID;
+  const graphEdges = graph.edges();
+  const tails = acyclicTails(n, graphEdges);
+  const headOf = (edge: { id: EdgeId; u: VertexId; v: VertexId }) =>
+    tails[edge.id] === edge.u ? edge.v : edge.u;
+  const kept = graphEdges.filter((edge) => edge.u !== edge.v);
+  const keptTails = kept.map((edge) => tails[edge.id]!);
+  const keptHeads = kept.map(headOf);
+  const layer =
+    options.layering === 'longest-path'
+      ? longestPathLayers(n, keptTails, keptHeads)
+      : networkSimplexLayers(
+          n,
+          keptTails,
+          keptHeads,
+          kept.map((edge) => graph.edgeAttributes(edge.id).weight ?? 1),
+        );
+
+  const proper: ProperLayering = {
+    layerOf: layer.slice(),
+    below: layer.map(() => []),
+    above: layer.map(() => []),
+    isDummy: layer.map(() => false),
+  };
+  // Nodes every edge passes, from its tail to its head.
+  const chains: number[][] = graphEdges.map(() => []);
+  for (const edge of kept) {
+    const [tail, head] = [tails[edge.id]!, headOf(edge)];
+    const chain = [tail];
+    for (let l = layer[tail]! + 1; l < layer[head]!; l += 1) {
+      chain.push(proper.layerOf.length);
+      proper.layerOf.push(l);
+      proper.below.push([]);
+      proper.above.push([]);
+      proper.isDummy.push(true);
+    }
+    chain.push(head);
+    for (let i = 0; i + 1 < chain.length; i += 1) {
+      proper.above[chain[i]!]!.push(chain[i + 1]!);
+      proper.below[chain[i + 1]!]!.push(chain[i]!);
+    }
+    chains[edge.id] = chain;
+  }
 
-  for (let e = 0; e < mesh.halfEdgeCount / 2; e += 1) {
-    const h0 = e * 2;
-    const h1 = e * 2 + 1;
-    const u = mesh.origin[h0] ?? 0;
-    const v = mesh.origin[h1] ?? 0;
-    const startPort = portMap.get(`${e}:${u}`);
-    const endPort = portMap.get(`${e}:${v}`);
-    const p1 = startPort?.point ?? positions.get(u) ?? { x: 0, y: 0 };
-    const p2 = endPort?.point ?? positions.get(v) ?? { x: 0, y: 0 };
-    const edgeBends = bendsPerEdge[e] ?? 0;
-    const path = routeOrthogonal(p1, p2, edgeBends, 20, e);
-    edges.push({ edge: e, points: path });
-  }
-
-  const compacted = compactOrthogonalGrid(positions, edges, 20);
-  const xs = [...compacted.positions.values()].map((p) => p.x);
-  const ys = [...compacted.positions.values()].map((p) => p.y);
-  const minX = xs.length ? Math.min(...xs) : 0;
-  const maxX = xs.length ? Math.max(...xs) : 0;
-  const minY = ys.length ? Math.min(...ys) : 0;
-  const maxY = ys.length ? Math.max(...ys) : 0;
-  const area = Math.max(0, maxX - minX) * Math.max(0, maxY - minY);
+  // Start from a depth-first order, which keeps connected nodes near one another.
+  const layerCount = layer.reduce((best, l) => Math.max(best, l), 0) + 1;
+  let orders: number[][] = Array.from({ length: layerCount }, () => []);
+  const seen = proper.layerOf.map(() => false);
+  for (let start = 0; start < proper.layerOf.length; start += 1) {
+    if (seen[start]) continue;
+    seen[start] = true;
+    const stack = [start];
+    while (stack.length > 0) {
+      const v = stack.pop()!;
+      orders[proper.layerOf[v]!]!.push(v);
+      for (const w of [...proper.below[v]!, ...proper.above[v]!]) {
+        if (seen[w]) continue;
+        seen[w] = true;
+        stack.push(w);
+      }
+    }
+  }
+  const reduced = reduceCrossings(orders, proper, {
+    heuristic: options.crossingMinimization ?? 'median',
+    transpose: options.transpose ?? true,
+    sweeps: options.sweeps ?? 8,
+  });
+  orders = reduced.orders;
+  let crossings = reduced.crossings;
+  if (crossings > 0 && (options.levelPlanarity ?? true)) {
+    const level = testLevelPlanarity(graph, layer);
+    if (level.levelPlanar) {
+      orders = level.orders.map((items, l) =>
+        items.map((item) => {
+          if ('vertex' in item) return item.vertex;
+          const chain = chains[item.edge]!;
+          return chain[l - layer[chain[0]!]!]!;
+        }),
+      );
+      crossings = 0;
+    }
+  }
+
+  const x = brandesKoepf(orders, proper, nodeSpacing);
+  const at = (node: number): Point => ({ x: x[node]!, y: proper.layerOf[node]! * layerSpacing });
+  for (const v of graph.vertices()) positions.set(v, at(v));
+  const loop = nodeSpacing / 4;
+  const edges: EdgePath[] = graphEdges.map((edge) => {
+    if (edge.u === edge.v) {
+      const { x: px, y: py } = at(edge.u);
+      const points = [at(edge.u), { x: px + loop, y: py }, { x: px + loop, y: py + loop }];
+      return { edge: edge.id, points: [...points, { x: px, y: py + loop }, at(edge.u)] };
+    }
+    const points = simplifyPolyline(chains[edge.id]!.map(at));
+    return { edge: edge.id, points: tails[edge.id] === edge.u ? points : points.reverse() };
+  });
 
+  const points = [...positions.values(), ...edges.flatMap((edge) => edge.points)];
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
   return {
-    positions: compacted.positions,
-    edges: compacted.edges,
+    positions,
+    edges,
     stats: {
-      bends: countBends(compacted.edges),
-      area,
-      crossings: 0,
+      bends: countBends(edges),
+      area: span(xs) * span(ys),
+      crossings,
+      edgeLength: totalEdgeLength(edges),
+    },
+    layering: {
+      layer,
+      reversed: graphEdges
+        .filter((edge) => edge.directed && edge.u !== edge.v && tails[edge.id] !== edge.u)
+        .map((edge) => edge.id),
     },
   };
 }
@@ -686,37 +1127,36 @@ export type PlanarizationResult = {
   baseGraph: Graph;
   remainingEdges: EdgeId[];
   routes: Array<{ edge: EdgeId; crossed: EdgeId[] }>;
+  // Embedding of baseGraph the remaining edges were inserted into.
+  embedding: RotationSystem;
+  // Crossings after insertion, then after each re-insertion round.
+  crossingsPerRound: number[];
   layout: LayoutResult;
 };
 
 export type PlanarizationLayoutOptions = {
-  mode?: 'straight' | 'orthogonal';
+  mode?: 'straight' | 'orthogonal' | 'kandinsky';
+  // 'variable' inserts each edge optimally over all embeddings instead of the current one.
+  insertion?: 'fixed' | 'variable';
+  planarSubgraph?: PlanarSubgraphOptions;
+  // Re-routes the inserted edges (or every crossed edge) optimally until a round gains nothing.
+  reinsertion?: 'none' | 'inserted' | 'all';
+  maxRounds?: number;
+  // Milliseconds the re-insertion rounds may take.
+  timeLimit?: number;
 };
 
 export function planarizationLayout(
   graph: Graph,
   options: PlanarizationLayoutOptions = {},
 ): PlanarizationResult {
-  const kept: Array<{ u: VertexId; v: VertexId; id: EdgeId }> = [];
-  const remaining: EdgeId[] = [];
-
-  for (const edge of graph.edges()) {
-    const builder = new GraphBuilder();
-    for (const v of graph.vertices()) builder.addVertex(v);
-    for (const keptEdge of kept) builder.addEdge(keptEdge.u, keptEdge.v, false);
-    builder.addEdge(edge.u, edge.v, false);
-    const test = testPlanarity(builder.build());
-    if (test.planar) {
-      kept.push({ u: edge.u, v: edge.v, id: edge.id });
-    } else {
-      remaining.push(edge.id);
-    }
-  }
+  const subgraph = maximalPlanarSubgraph(graph, options.planarSubgraph);
+  const remaining = subgraph.removed;
 
-  const baseBuilder = new GraphBuilder();
-  for (const v of graph.vertices()) baseBuilder.addVertex(v);
-  for (const keptEdge of kept) baseBuilder.addEdge(keptEdge.u, keptEdge.v, false);
-  const baseGraph = baseBuilder.build();
+  const base = MutableGraph.from(graph);
+  for (const id of remaining) base.removeEdge(id);
+  for (const { id, directed } of base.edges()) if (directed) base.setEdgeDirected(id, false);
+  const { graph: baseGraph, edgeOrigin } = base.freeze();
   const routes: Array<{ edge: EdgeId; crossed: EdgeId[] }> = [];
 
   type WorkingEdge = { u: VertexId; v: VertexId; originalEdge: EdgeId };
@@ -736,63 +1176,193 @@ export function planarizationLayout(
   const currentEdges: WorkingEdge[] = baseGraph.edges().map((edge) => ({
     u: edge.u,
     v: edge.v,
-    originalEdge: kept[edge.id]?.id ?? edge.id,
+    originalEdge: edgeOrigin[edge.id]!,
   }));
 
   const paths = new Map<EdgeId, VertexId[]>();
-  baseGraph.edges().forEach((edge) => {
-    const original = kept[edge.id]?.id ?? edge.id;
-    paths.set(original, [edge.u, edge.v]);
-  });
+  baseGraph.edges().forEach((edge) => paths.set(edgeOrigin[edge.id]!, [edge.u, edge.v]));
 
   const buildCurrentGraph = () => {
     const builder = new GraphBuilder();
     for (let i = 0; i < currentVertexCount; i += 1) builder.addVertex(i);
-    for (const edge of currentEdges) builder.addEdge(edge.u, edge.v, false);
+    for (const edge of currentEdges) {
+      builder.addEdge(edge.u, edge.v, false, graph.edgeAttributes(edge.originalEdge));
+    }
     return builder.build();
   };
 
-  for (const edgeId of remaining) {
+  // Fixed insertion edits one embedding of the planarization in place, with mesh edge ids
+  // following currentEdges. It is rebuilt only after an edge that joined two components.
+  let mesh: HalfEdgeMesh | null = null;
+  const currentMesh = () => {
+    if (mesh) return mesh;
     const currentGraph = buildCurrentGraph();
     const embedding = testPlanarity(currentGraph);
     if (!embedding.planar) {
       throw new Error('Planarization graph should remain planar during insertion.');
     }
-    const mesh = buildHalfEdgeMesh(currentGraph, embedding.embedding);
+    mesh = buildHalfEdgeMesh(currentGraph, embedding.embedding);
+    return mesh;
+  };
+  // The corner at vertex along the face through h.
+  const cornerAt = (faceMesh: HalfEdgeMesh, h: HalfEdgeId, vertex: VertexId) => {
+    let corner = h;
+    while (faceMesh.origin[corner] !== vertex) {
+      corner = faceMesh.next[corner]!;
+      if (corner === h) return -1;
+    }
+    return corner;
+  };
+
+  // Every dummy is a crossing between the route that created it and the edge it split.
+  const crossing = new Map<VertexId, { route: EdgeId; crossed: EdgeId }>();
+  for (const edgeId of remaining) {
     const edge = graph.edge(edgeId);
-    const route = routeEdgeFixedEmbedding(mesh, edge.u, edge.v);
-    const crossed = route?.crossedPrimalEdges ?? [];
+    let crossed: EdgeId[];
+    let walk: { mesh: HalfEdgeMesh; sides: HalfEdgeId[]; start: HalfEdgeId } | null = null;
+    if (options.insertion === 'variable') {
+      crossed = routeEdgeVariableEmbedding(buildCurrentGraph(), edge.u, edge.v).crossedPrimalEdges;
+    } else {
+      const routeMesh = currentMesh();
+      const route = routeEdgeFixedEmbedding(routeMesh, edge.u, edge.v, (_, primalEdge) =>
+        crossingCost(graph, currentEdges[primalEdge]!.originalEdge),
+      );
+      crossed = route?.crossedPrimalEdges ?? [];
+      if (route) {
+        // The half-edge of every crossed edge on the side the route comes from.
+        const sides = crossed.map((id, i) =>
+          routeMesh.face[2 * id] === route.faces[i] ? 2 * id : 2 * id + 1,
+        );
+        walk = { mesh: routeMesh, sides, start: routeMesh.faces[route.faces[0]!]![0]! };
+      } else {
+        mesh = null;
+      }
+    }
     const crossedOriginal = crossed.map((id) => currentEdges[id]?.originalEdge ?? id);
     routes.push({ edge: edgeId, crossed: crossedOriginal });
 
-    const dummyMap = new Map<EdgeId, VertexId>();
     const path: VertexId[] = [edge.u];
-    crossed.forEach((crossedId) => {
+    let corner = walk ? cornerAt(walk.mesh, walk.start, edge.u) : -1;
+    crossed.forEach((crossedId, i) => {
       const dummy = currentVertexCount as VertexId;
       currentVertexCount += 1;
-      dummyMap.set(crossedId, dummy);
+      crossing.set(dummy, { route: edgeId, crossed: crossedOriginal[i]! });
+      const crossedEdge = currentEdges[crossedId]!;
+      const original = crossedEdge.originalEdge;
+      const originalPath = paths.get(original) ?? [crossedEdge.u, crossedEdge.v];
+      insertDummyInPath(originalPath, crossedEdge.u, crossedEdge.v, dummy);
+      paths.set(original, originalPath);
+      currentEdges[crossedId] = { u: crossedEdge.u, v: dummy, originalEdge: original };
+      currentEdges.push({ u: dummy, v: crossedEdge.v, originalEdge: original });
+      if (walk) {
+        const side = walk.sides[i]!;
+        const second = splitEdge(walk.mesh, crossedId, dummy);
+        // The dummy's corner follows the split half-edge on either side of the crossed edge.
+        const [here, there] = side % 2 === 0 ? [second, side + 1] : [side, second];
+        if (i === 0) corner = cornerAt(walk.mesh, here, edge.u);
+        insertEdgeInFace(walk.mesh, corner, here);
+        corner = there;
+      }
+      currentEdges.push({ u: path[path.length - 1]!, v: dummy, originalEdge: edgeId });
       path.push(dummy);
     });
+    if (walk) insertEdgeInFace(walk.mesh, corner, cornerAt(walk.mesh, corner, edge.v));
+    currentEdges.push({ u: path[path.length - 1]!, v: edge.v, originalEdge: edgeId });
     path.push(edge.v);
     paths.set(edgeId, path);
+  }
 
-    const splitList = [...crossed].sort((a, b) => b - a);
-    for (const crossedId of splitList) {
-      const dummy = dummyMap.get(crossedId);
-      if (dummy === undefined) continue;
-      const crossedEdge = currentEdges[crossedId];
-      if (!crossedEdge) continue;
-      const original = crossedEdge.originalEdge;
-      const originalPath = paths.get(original) ?? [crossedEdge.u, crossedEdge.v];
-      insertDummyInPath(originalPath, crossedEdge.u, crossedEdge.v, dummy);
-      paths.set(original, originalPath);
-      const first: WorkingEdge = { u: crossedEdge.u, v: dummy, originalEdge: original };
-      const second: WorkingEdge = { u: dummy, v: crossedEdge.v, originalEdge: original };
-      currentEdges.splice(crossedId, 1, first, second);
+  const crossingsPerRound = [crossing.size];
+  const reinsertion = options.reinsertion ?? 'none';
+  if (reinsertion !== 'none') {
+    let nextDummy = currentVertexCount;
+    const started = Date.now();
+    const outOfTime = () => options.timeLimit !== undefined && Date.now() - started > options.timeLimit;
+
+    // Removes the edge with all its crossings and inserts it again along an optimal route,
+    // keeping the old route unless the new one is cheaper to cross through.
+    const reroute = (edgeId: EdgeId) => {
+      const before = paths.get(edgeId)!;
+      if (before.length === 2) return false;
+      let costBefore = 0;
+      const savedPaths = new Map([...paths].map(([id, path]) => [id, path.slice()]));
+      const savedCrossing = new Map(crossing);
+      for (const dummy of before.slice(1, -1)) {
+        const { route, crossed } = crossing.get(dummy)!;
+        costBefore += crossingCost(graph, route === edgeId ? crossed : route);
+        const other = paths.get(route === edgeId ? crossed : route)!;
+        other.splice(other.indexOf(dummy), 1);
+        crossing.delete(dummy);
+      }
+      paths.delete(edgeId);
+
+      const pieces: WorkingEdge[] = [];
+      paths.forEach((path, originalEdge) => {
+        for (let i = 0; i + 1 < path.length; i += 1) pieces.push({ u: path[i]!, v: path[i + 1]!, originalEdge });
+      });
+      const builder = new GraphBuilder();
+      for (let v = 0; v < nextDummy; v += 1) builder.addVertex(v);
+      for (const piece of pieces) {
+        builder.addEdge(piece.u, piece.v, false, graph.edgeAttributes(piece.originalEdge));
+      }
+      const edge = graph.edge(edgeId);
+      const crossed = routeEdgeVariableEmbedding(builder.build(), edge.u, edge.v).crossedPrimalEdges;
+      const costAfter = crossed.reduce((sum, id) => sum + crossingCost(graph, pieces[id]!.originalEdge), 0);
+      if (costAfter >= costBefore) {
+        paths.clear();
+        savedPaths.forEach((path, id) => paths.set(id, path));
+        crossing.clear();
+        savedCrossing.forEach((value, dummy) => crossing.set(dummy, value));
+        return false;
+      }
+      const path: VertexId[] = [edge.u];
+      for (const id of crossed) {
+        const piece = pieces[id]!;
+        const dummy = nextDummy as VertexId;
+        nextDummy += 1;
+        insertDummyInPath(paths.get(piece.originalEdge)!, piece.u, piece.v, dummy);
+        crossing.set(dummy, { route: edgeId, crossed: piece.originalEdge });
+        path.push(dummy);
+      }
+      path.push(edge.v);
+      paths.set(edgeId, path);
+      return true;
+    };
+
+    for (let round = 0; round < (options.maxRounds ?? 10) && !outOfTime(); round += 1) {
+      const candidates = reinsertion === 'inserted' ? remaining : [...paths.keys()].sort((a, b) => a - b);
+      let improved = false;
+      for (const edgeId of candidates) {
+        if (outOfTime()) break;
+        if (reroute(edgeId)) improved = true;
+      }
+      crossingsPerRound.push(crossing.size);
+      if (!improved) break;
     }
 
-    for (let i = 0; i < path.length - 1; i += 1) {
-      currentEdges.push({ u: path[i]!, v: path[i + 1]!, originalEdge: edgeId });
+    // Renumber the surviving dummies and rebuild the planarized edges and routes from the paths.
+    const renumber = new Map<VertexId, VertexId>();
+    [...crossing.keys()]
+      .sort((a, b) => a - b)
+      .forEach((dummy, i) => renumber.set(dummy, baseGraph.vertexCount() + i));
+    paths.forEach((path, id) => paths.set(id, path.map((v) => renumber.get(v) ?? v)));
+    const renamed = new Map([...crossing].map(([dummy, value]) => [renumber.get(dummy)!, value]));
+    crossing.clear();
+    renamed.forEach((value, dummy) => crossing.set(dummy, value));
+    currentVertexCount = baseGraph.vertexCount() + crossing.size;
+    currentEdges.length = 0;
+    paths.forEach((path, originalEdge) => {
+      for (let i = 0; i + 1 < path.length; i += 1) {
+        currentEdges.push({ u: path[i]!, v: path[i + 1]!, originalEdge });
+      }
+    });
+
+    const owners = new Set([...crossing.values()].map((value) => value.route));
+    const rerouted = [...owners].filter((id) => !remaining.includes(id)).sort((a, b) => a - b);
+    routes.length = 0;
+    for (const edgeId of [...remaining, ...rerouted]) {
+      const owned = paths.get(edgeId)!.filter((v) => crossing.get(v)?.route === edgeId);
+      routes.push({ edge: edgeId, crossed: owned.map((v) => crossing.get(v)!.crossed) });
     }
   }
 
@@ -803,28 +1373,74 @@ export function planarizationLayout(
   }
 
   const planarMesh = buildHalfEdgeMesh(planarGraph, planarEmbedding.embedding);
+  // Base edges keep their rotation slots through the chains they were split into.
+  const baseEdgeOf = new Map(edgeOrigin.map((original, id) => [original, id]));
+  const embedding: RotationSystem = {
+    order: baseGraph.vertices().map((v) =>
+      planarEmbedding.embedding.order[v]!.flatMap((ref) => {
+        const id = baseEdgeOf.get(currentEdges[ref.edge]!.originalEdge);
+        if (id === undefined) return [];
+        const record = baseGraph.edge(id);
+        return [{ edge: id, to: record.u === v ? record.v : record.u }];
+      }),
+    ),
+  };
   const mode = options.mode ?? 'straight';
-  const baseLayout = mode === 'orthogonal' ? orthogonalLayout(planarMesh) : planarStraightLine(planarMesh);
+  const orthogonal = mode !== 'straight';
+  const crossings = new Set<number>();
+  for (let v = baseGraph.vertexCount(); v < currentVertexCount; v += 1) crossings.add(v);
+  const baseLayout = orthogonal
+    ? drawOrthogonal(planarMesh, { mode: mode === 'kandinsky' ? 'kandinsky' : 'tamassia', points: crossings })
+    : planarStraightLine(planarMesh);
+
+  // Planar edge ids follow currentEdges, so each original edge is the chain of its routed pieces.
+  const routedPieces = new Map<EdgeId, Map<string, Point[]>>();
+  if (orthogonal) {
+    for (const routed of baseLayout.edges) {
+      const piece = currentEdges[routed.edge];
+      if (!piece) continue;
+      const pieces = routedPieces.get(piece.originalEdge) ?? new Map<string, Point[]>();
+      pieces.set(`${piece.u},${piece.v}`, routed.points);
+      pieces.set(`${piece.v},${piece.u}`, routed.points.slice().reverse());
+      routedPieces.set(piece.originalEdge, pieces);
+    }
+  }
 
   const finalEdges: EdgePath[] = [];
   paths.forEach((path, edgeId) => {
     const points = path.map((v) => baseLayout.positions.get(v) ?? { x: 0, y: 0 });
-    const routed = mode === 'orthogonal' ? orthogonalizeEdgePath(points) : points;
-    finalEdges.push({ edge: edgeId, points: routed });
+    if (!orthogonal) {
+      finalEdges.push({ edge: edgeId, points });
+      return;
+    }
+    const pieces = routedPieces.get(edgeId);
+    const chained: Point[] = [];
+    for (let i = 0; i < path.length - 1; i += 1) {
+      const piece = pieces?.get(`${path[i]},${path[i + 1]}`) ?? [points[i]!, points[i + 1]!];
+      chained.push(...piece);
+    }
+    finalEdges.push({ edge: edgeId, points: simplifyPolyline(chained) });
   });
 
   return {
     baseGraph,
     remainingEdges: remaining,
     routes,
-    layout: {
-      positions: baseLayout.positions,
-      edges: finalEdges,
-      stats: {
-        bends: mode === 'orthogonal' ? countBends(finalEdges) : baseLayout.stats.bends,
-        area: baseLayout.stats.area,
-        crossings: currentVertexCount - baseGraph.vertexCount(),
+    embedding,
+    crossingsPerRound,
+    layout: (orthogonal ? fitOrthogonal : fitStraightLine)(
+      {
+        positions: baseLayout.positions,
+        edges: finalEdges,
+        stats: {
+          bends: orthogonal ? countBends(finalEdges) : baseLayout.stats.bends,
+          area: baseLayout.stats.area,
+          crossings: currentVertexCount - baseGraph.vertexCount(),
+          edgeLength: totalEdgeLength(finalEdges),
+        },
+        ...(baseLayout.boxes ? { boxes: baseLayout.boxes } : {}),
       },
-    },
+      nodeSizes(graph),
+    ),
   };
 }
@@ -0,0 +1,377 @@
+import { minCostFlow } from '../flow';
+import type { FlowArc } from '../flow';
+
+export type LayeringMethod = 'longest-path' | 'network-simplex';
+
+export type CrossingHeuristic = 'barycenter' | 'median';
+
+// Layer structure after long edges are split at every layer they pass: nodes 0..vertexCount-1 are
+// the vertices and the rest dummies, below and above list neighbors on the adjacent layers.
+export type ProperLayering = {
+  layerOf: number[];
+  below: number[][];
+  above: number[][];
+  isDummy: boolean[];
+};
+
+// Eades, Lin and Smyth: peel sinks to the back and sources to the front, otherwise move the vertex
+// with the largest out-degree surplus to the front. Returns the tail of every edge once the ones
+// against that order are turned around; undirected edges follow the order.
+export const acyclicTails = (
+  vertexCount: number,
+  edges: Array<{ u: number; v: number; directed: boolean }>,
+) => {
+  const outDegree: number[] = Array(vertexCount).fill(0);
+  const inDegree: number[] = Array(vertexCount).fill(0);
+  const outgoing: number[][] = Array.from({ length: vertexCount }, () => []);
+  const incoming: number[][] = Array.from({ length: vertexCount }, () => []);
+  for (const { u, v, directed } of edges) {
+    if (!directed || u === v) continue;
+    outDegree[u] = outDegree[u]! + 1;
+    inDegree[v] = inDegree[v]! + 1;
+    outgoing[u]!.push(v);
+    incoming[v]!.push(u);
+  }
+  const removed: boolean[] = Array(vertexCount).fill(false);
+  const remove = (v: number) => {
+    removed[v] = true;
+    for (const w of outgoing[v]!) inDegree[w] = inDegree[w]! - 1;
+    for (const w of incoming[v]!) outDegree[w] = outDegree[w]! - 1;
+  };
+  const front: number[] = [];
+  const back: number[] = [];
+  let remaining = vertexCount;
+  while (remaining > 0) {
+    let peeled = true;
+    while (peeled) {
+      peeled = false;
+      for (let v = 0; v < vertexCount; v += 1) {
+        if (removed[v]) continue;
+        if (outDegree[v] === 0) back.push(v);
+        else if (inDegree[v] === 0) front.push(v);
+        else continue;
+        remove(v);
+        remaining -= 1;
+        peeled = true;
+      }
+    }
+    if (remaining === 0) break;
+    let best = -1;
+    for (let v = 0; v < vertexCount; v += 1) {
+      if (removed[v]) continue;
+      if (best < 0 || outDegree[v]! - inDegree[v]! > outDegree[best]! - inDegree[best]!) best = v;
+    }
+    front.push(best);
+    remove(best);
+    remaining -= 1;
+  }
+  const rank: number[] = Array(vertexCount).fill(0);
+  [...front, ...back.reverse()].forEach((v, i) => {
+    rank[v] = i;
+  });
+  return edges.map(({ u, v }) => (rank[u]! <= rank[v]! ? u : v));
+};
+
+const topologicalOrder = (vertexCount: number, tails: number[], heads: number[]) => {
+  const out: number[][] = Array.from({ length: vertexCount }, () => []);
+  const inDegree: number[] = Array(vertexCount).fill(0);
+  tails.forEach((t, e) => {
+    out[t]!.push(heads[e]!);
+    inDegree[heads[e]!] = inDegree[heads[e]!]! + 1;
+  });
+  const order = inDegree.flatMap((d, v) => (d === 0 ? [v] : []));
+  for (let i = 0; i < order.length; i += 1) {
+    for (const w of out[order[i]!]!) {
+      inDegree[w] = inDegree[w]! - 1;
+      if (inDegree[w] === 0) order.push(w);
+    }
+  }
+  return { order, out };
+};
+
+// Every vertex one layer above its highest predecessor; sources on layer 0.
+export const longestPathLayers = (vertexCount: number, tails: number[], heads: number[]) => {
+  const { order, out } = topologicalOrder(vertexCount, tails, heads);
+  const layer: number[] = Array(vertexCount).fill(0);
+  for (const v of order) {
+    for (const w of out[v]!) layer[w] = Math.max(layer[w]!, layer[v]! + 1);
+  }
+  return layer;
+};
+
+// Layers minimising the weighted total edge span, layer(head) - layer(tail) >= 1. Its dual is a
+// flow that pays -1 per unit on every edge, with each vertex's weighted out-degree surplus as its
+// supply; the layers then follow from the spans that the flow uses being exactly one.
+export const networkSimplexLayers = (
+  vertexCount: number,
+  tails: number[],
+  heads: number[],
+  weights: number[],
+) => {
+  const demands: number[] = Array(vertexCount).fill(0);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const arcs: FlowArc[] = tails.map((t, e) => {
+    demands[t] = demands[t]! + weights[e]!;
+    demands[heads[e]!] = demands[heads[e]!]! - weights[e]!;
+    return { from: t, to: heads[e]!, upper: total, cost: -1 };
+  });
+  const flow = minCostFlow({ nodeCount: vertexCount, arcs, demands });
+  if (!flow.feasible) throw new Error('Layering flow is infeasible.');
+
+  const layer: number[] = Array(vertexCount).fill(0);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    tails.forEach((t, e) => {
+      const h = heads[e]!;
+      if (layer[h]! < layer[t]! + 1) {
+        layer[h] = layer[t]! + 1;
+        changed = true;
+      }
+      if ((flow.flowByArc[e] ?? 0) > 0 && layer[t]! < layer[h]! - 1) {
+        layer[t] = layer[h]! - 1;
+        changed = true;
+      }
+    });
+  }
+  return layer;
+};
+
+const countBetween = (lower: number[], position: number[], above: number[][], width: number) => {
+  // Barth, Jünger and Mutzel: sort the segments by their lower end and count the inversions of
+  // their upper ends with a Fenwick tree.
+  const tree: number[] = Array(width + 1).fill(0);
+  let crossings = 0;
+  let inserted = 0;
+  for (const v of lower) {
+    const ends = above[v]!.map((w) => position[w]!).sort((a, b) => a - b);
+    for (const p of ends) {
+      let atMost = 0;
+      for (let i = p + 1; i > 0; i -= i & -i) atMost += tree[i]!;
+      crossings += inserted - atMost;
+      for (let i = p + 1; i <= width; i += i & -i) tree[i] = tree[i]! + 1;
+      inserted += 1;
+    }
+  }
+  return crossings;
+};
+
+export const countLayerCrossings = (orders: number[][], above: number[][], position: number[]) => {
+  let crossings = 0;
+  for (let i = 0; i + 1 < orders.length; i += 1) {
+    crossings += countBetween(orders[i]!, position, above, orders[i + 1]!.length);
+  }
+  return crossings;
+};
+
+const medianOf = (values: number[]) => {
+  const p = values.slice().sort((a, b) => a - b);
+  const m = p.length >> 1;
+  if (p.length % 2 === 1) return p[m]!;
+  if (p.length === 2) return (p[0]! + p[1]!) / 2;
+  // Gansner et al.: lean towards the side where the neighbors are packed closer.
+  const left = p[m - 1]! - p[0]!;
+  const right = p[p.length - 1]! - p[m]!;
+  if (left + right === 0) return (p[m - 1]! + p[m]!) / 2;
+  return (p[m - 1]! * right + p[m]! * left) / (left + right);
+};
+
+export type CrossingOptions = {
+  heuristic: CrossingHeuristic;
+  transpose: boolean;
+  sweeps: number;
+};
+
+// Layer-by-layer sweeps up and down, placing each node at the barycenter or median of its
+// neighbors on the layer just fixed; nodes without such neighbors keep their place. Adjacent
+// swaps that remove crossings follow each sweep, and the best order seen wins.
+export const reduceCrossings = (
+  initial: number[][],
+  proper: ProperLayering,
+  options: CrossingOptions,
+) => {
+  const { below, above } = proper;
+  const position: number[] = Array(proper.layerOf.length).fill(0);
+  const place = (orders: number[][]) =>
+    orders.forEach((nodes) =>
+      nodes.forEach((v, i) => {
+        position[v] = i;
+      }),
+    );
+  const orders = initial.map((nodes) => nodes.slice());
+  place(orders);
+
+  const reorder = (layer: number, neighbors: number[][]) => {
+    const nodes = orders[layer]!;
+    const key = (v: number) => {
+      const around = neighbors[v]!.map((w) => position[w]!);
+      if (!around.length) return undefined;
+      if (options.heuristic === 'median') return medianOf(around);
+      return around.reduce((sum, p) => sum + p, 0) / around.length;
+    };
+    const movable = nodes
+      .map((v, i) => ({ v, i, key: key(v) }))
+      .filter((entry) => entry.key !== undefined)
+      .sort((a, b) => a.key! - b.key! || a.i - b.i);
+    let next = 0;
+    orders[layer] = nodes.map((v) => (key(v) === undefined ? v : movable[next++]!.v));
+    orders[layer]!.forEach((v, i) => {
+      position[v] = i;
+    });
+  };
+
+  // Crossings among the edges of v and w, with v placed left of w.
+  const pairCrossings = (v: number, w: number) => {
+    let crossings = 0;
+    for (const neighbors of [below, above]) {
+      for (const a of neighbors[v]!) {
+        for (const b of neighbors[w]!) if (position[a]! > position[b]!) crossings += 1;
+      }
+    }
+    return crossings;
+  };
+  const transpose = () => {
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const nodes of orders) {
+        for (let i = 0; i + 1 < nodes.length; i += 1) {
+          const [v, w] = [nodes[i]!, nodes[i + 1]!];
+          if (pairCrossings(w, v) >= pairCrossings(v, w)) continue;
+          nodes[i] = w;
+          nodes[i + 1] = v;
+          position[v] = i + 1;
+          position[w] = i;
+          improved = true;
+        }
+      }
+    }
+  };
+
+  let best = orders.map((nodes) => nodes.slice());
+  let bestCrossings = countLayerCrossings(orders, above, position);
+  for (let sweep = 0; sweep < options.sweeps && bestCrossings > 0; sweep += 1) {
+    if (sweep % 2 === 0) {
+      for (let layer = 1; layer < orders.length; layer += 1) reorder(layer, below);
+    } else {
+      for (let layer = orders.length - 2; layer >= 0; layer -= 1) reorder(layer, above);
+    }
+    if (options.transpose) transpose();
+    const crossings = countLayerCrossings(orders, above, position);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = orders.map((nodes) => nodes.slice());
+    }
+  }
+  return { orders: best, crossings: bestCrossings };
+};
+
+// Brandes and Köpf: align every node with a median neighbor on the previous layer, skipping
+// segments that cross an edge between two dummies, in all four combinations of sweeping up or
+// down and left or right. Each alignment is packed against the side it sweeps from, the four are
+// shifted onto the narrowest one and every node takes the mean of its two middle candidates.
+export const brandesKoepf = (orders: number[][], proper: ProperLayering, spacing: number) => {
+  const { below, above, isDummy } = proper;
+  const nodeCount = proper.layerOf.length;
+  const position: number[] = Array(nodeCount).fill(0);
+  orders.forEach((nodes) =>
+    nodes.forEach((v, i) => {
+      position[v] = i;
+    }),
+  );
+
+  const marked = new Set<number>();
+  const segmentKey = (a: number, b: number) => Math.min(a, b) * nodeCount + Math.max(a, b);
+  for (let i = 0; i + 1 < orders.length; i += 1) {
+    const [lower, upper] = [orders[i]!, orders[i + 1]!];
+    let k0 = 0;
+    let l = 0;
+    upper.forEach((v, l1) => {
+      const inner = isDummy[v] ? below[v]!.find((u) => isDummy[u]) : undefined;
+      if (l1 !== upper.length - 1 && inner === undefined) return;
+      const k1 = inner === undefined ? lower.length - 1 : position[inner]!;
+      for (; l <= l1; l += 1) {
+        const w = upper[l]!;
+        for (const u of below[w]!) {
+          if (position[u]! < k0 || position[u]! > k1) marked.add(segmentKey(u, w));
+        }
+      }
+      k0 = k1;
+    });
+  }
+
+  const candidates: number[][] = [];
+  for (const upward of [true, false]) {
+    for (const leftward of [true, false]) {
+      const layers = (upward ? orders : orders.slice().reverse()).map((nodes) =>
+        leftward ? nodes : nodes.slice().reverse(),
+      );
+      const previous = upward ? below : above;
+      const rank: number[] = Array(nodeCount).fill(0);
+      layers.forEach((nodes) =>
+        nodes.forEach((v, i) => {
+          rank[v] = i;
+        }),
+      );
+      const root = Array.from({ length: nodeCount }, (_, v) => v);
+      const align = Array.from({ length: nodeCount }, (_, v) => v);
+      for (const nodes of layers.slice(1)) {
+        let reached = -1;
+        for (const v of nodes) {
+          const neighbors = previous[v]!.slice().sort((a, b) => rank[a]! - rank[b]!);
+          const d = neighbors.length;
+          if (d === 0) continue;
+          for (const m of new Set([Math.floor((d - 1) / 2), Math.ceil((d - 1) / 2)])) {
+            if (align[v] !== v) break;
+            const u = neighbors[m]!;
+            if (marked.has(segmentKey(u, v)) || reached >= rank[u]!) continue;
+            align[u] = v;
+            root[v] = root[u]!;
+            align[v] = root[v]!;
+            reached = rank[u]!;
+          }
+        }
+      }
+
+      // Blocks pack as far towards the start of their layers as their left neighbors allow.
+      const after: number[][] = Array.from({ length: nodeCount }, () => []);
+      const inDegree: number[] = Array(nodeCount).fill(0);
+      for (const nodes of layers) {
+        for (let i = 0; i + 1 < nodes.length; i += 1) {
+          after[root[nodes[i]!]!]!.push(root[nodes[i + 1]!]!);
+          inDegree[root[nodes[i + 1]!]!] = inDegree[root[nodes[i + 1]!]!]! + 1;
+        }
+      }
+      const x: number[] = Array(nodeCount).fill(0);
+      const queue = root.filter((r, v) => r === v && inDegree[v] === 0);
+      for (let i = 0; i < queue.length; i += 1) {
+        const r = queue[i]!;
+        for (const s of after[r]!) {
+          x[s] = Math.max(x[s]!, x[r]! + spacing);
+          inDegree[s] = inDegree[s]! - 1;
+          if (inDegree[s] === 0) queue.push(s);
+        }
+      }
+      candidates.push(root.map((r) => (leftward ? x[r]! : -x[r]!)));
+    }
+  }
+
+  const bounds = candidates.map((x) => {
+    let [lo, hi] = [Infinity, -Infinity];
+    for (const value of x) [lo, hi] = [Math.min(lo, value), Math.max(hi, value)];
+    return [lo, hi] as const;
+  });
+  const narrowest = bounds.reduce(
+    (best, [lo, hi], i) => (hi - lo < bounds[best]![1] - bounds[best]![0] ? i : best),
+    0,
+  );
+  const [lo, hi] = bounds[narrowest]!;
+  const shifted = candidates.map((x, i) => {
+    const shift = i % 2 === 0 ? lo - bounds[i]![0] : hi - bounds[i]![1];
+    return x.map((value) => value + shift);
+  });
+  return Array.from({ length: nodeCount }, (_, v) => {
+    const values = shifted.map((x) => x[v]!).sort((a, b) => a - b);
+    return (values[1]! + values[2]!) / 2;
+  });
+};
@@ -0,0 +1,644 @@
+import type { HalfEdgeMesh, FaceId } from '../embedding';
+import { minCostFlow } from '../flow';
+import type { FlowArc } from '../flow';
+
+export type OrthogonalMode = 'tamassia' | 'kandinsky';
+
+export type OrthogonalShapeOptions = {
+  outerFace?: FaceId;
+  mode?: OrthogonalMode;
+  // Vertices drawn as points even in Kandinsky mode, such as planarization crossings.
+  points?: Set<number>;
+};
+
+// Half-edges come in twin pairs (2e, 2e + 1). Every face lies to the right of its half-edges,
+// so bounded faces are walked clockwise. Directions are 0 = east, 1 = north, 2 = west, 3 = south.
+export type OrthogonalShape = {
+  vertexCount: number;
+  origin: number[];
+  next: number[];
+  prev: number[];
+  // Angle at origin(h) between prev[h] and h, in multiples of 90 degrees.
+  angle: number[];
+  direction: number[];
+  // Mesh edge carried by each edge, or -1 for dummy edges.
+  owner: number[];
+  // Weight of each edge in the compaction objective: 0 for refinement edges.
+  weight: number[];
+  // Mesh vertex represented by each vertex (ports of expanded vertices included), or -1.
+  vertexOf: number[];
+  // One half-edge on the outer face of every connected component.
+  outer: number[];
+  bends: number;
+};
+
+const splitHalfEdge = (shape: OrthogonalShape, h: number) => {
+  const { origin, next, prev, angle, direction, owner, weight, vertexOf } = shape;
+  const t = h ^ 1;
+  const w = shape.vertexCount;
+  shape.vertexCount += 1;
+  vertexOf.push(-1);
+  const n0 = origin.length;
+  const n1 = n0 + 1;
+  origin.push(w, origin[t]!);
+  origin[t] = w;
+  next.push(-1, -1);
+  prev.push(-1, -1);
+  angle.push(2, angle[t]!);
+  angle[t] = 2;
+  direction.push(direction[h]!, direction[t]!);
+  owner.push(owner[h >> 1]!);
+  weight.push(weight[h >> 1]!);
+
+  next[n0] = next[h]!;
+  prev[next[h]!] = n0;
+  next[h] = n0;
+  prev[n0] = h;
+  prev[n1] = prev[t]!;
+  next[prev[t]!] = n1;
+  next[n1] = t;
+  prev[t] = n1;
+  return n0;
+};
+
+const addEdgePair = (shape: OrthogonalShape, from: number, to: number, weight = 0) => {
+  const h = shape.origin.length;
+  shape.origin.push(from, to);
+  shape.next.push(-1, -1);
+  shape.prev.push(-1, -1);
+  shape.angle.push(0, 0);
+  shape.direction.push(-1, -1);
+  shape.owner.push(-1);
+  shape.weight.push(weight);
+  return h;
+};
+
+const addVertex = (shape: OrthogonalShape, represents: number) => {
+  shape.vertexOf.push(represents);
+  shape.vertexCount += 1;
+  return shape.vertexCount - 1;
+};
+
+const walk = (shape: OrthogonalShape, start: number) => {
+  const cycle: number[] = [];
+  let h = start;
+  do {
+    cycle.push(h);
+    h = shape.next[h]!;
+  } while (h !== start);
+  return cycle;
+};
+
+const rotationAt = (shape: OrthogonalShape, start: number) => {
+  const ring: number[] = [];
+  let h = start;
+  do {
+    ring.push(h);
+    h = shape.next[h ^ 1]!;
+  } while (h !== start);
+  return ring;
+};
+
+const outgoingHalfEdges = (shape: OrthogonalShape, meshVertexCount: number) => {
+  const outgoing: number[] = Array(meshVertexCount).fill(-1);
+  shape.origin.forEach((v, h) => {
+    if (v < meshVertexCount && outgoing[v] === -1) outgoing[v] = h;
+  });
+  return outgoing;
+};
+
+// Moves the edges in ring (outgoing half-edges of v in rotation order) onto a cycle of ports,
+// returning the cycle half-edges on the outside of the box; cycle[i] runs from port i to port i + 1.
+const expandVertex = (shape: OrthogonalShape, v: number, ring: number[]) => {
+  const ports = ring.map(() => addVertex(shape, v));
+  const cycle = ring.map((_, i) => addEdgePair(shape, ports[i]!, ports[(i + 1) % ring.length]!, 1));
+  ring.forEach((out, i) => {
+    shape.origin[out] = ports[i]!;
+  });
+  ring.forEach((out, i) => {
+    const a = cycle[i]!;
+    const b = a ^ 1;
+    const nextOut = ring[(i + 1) % ring.length]!;
+    const prevB = cycle[(i - 1 + ring.length) % ring.length]! ^ 1;
+    shape.next[out ^ 1] = a;
+    shape.prev[a] = out ^ 1;
+    shape.next[a] = nextOut;
+    shape.prev[nextOut] = a;
+    shape.next[b] = prevB;
+    shape.prev[prevB] = b;
+  });
+  shape.vertexOf[v] = -1;
+  return cycle;
+};
+
+// Replaces each vertex of degree > 4 by a rectangular box of degree-3 ports, one per incident edge.
+const expandHighDegree = (shape: OrthogonalShape, meshVertexCount: number) => {
+  const boxEdges = new Set<number>();
+  const outgoing = outgoingHalfEdges(shape, meshVertexCount);
+  for (let v = 0; v < meshVertexCount; v += 1) {
+    if (outgoing[v] === -1) continue;
+    const ring = rotationAt(shape, outgoing[v]!);
+    if (ring.length <= 4) continue;
+    for (const a of expandVertex(shape, v, ring)) boxEdges.add(a >> 1);
+  }
+  return boxEdges;
+};
+
+// Kandinsky boxes: an angle of k right angles between consecutive edges becomes k box corners
+// between their ports, so edges with a zero angle leave the same side of the box. Ports and
+// corners are shape vertices, so compaction keeps them a unit apart and sides grow with degree.
+const expandKandinskyBoxes = (shape: OrthogonalShape, meshVertexCount: number, points: Set<number>) => {
+  const outgoing = outgoingHalfEdges(shape, meshVertexCount);
+  for (let v = 0; v < meshVertexCount; v += 1) {
+    if (outgoing[v] === -1 || points.has(v)) continue;
+    const ring = rotationAt(shape, outgoing[v]!);
+    const corners = ring.map((_, i) => shape.angle[ring[(i + 1) % ring.length]!]!);
+    expandVertex(shape, v, ring).forEach((a, i) => {
+      shape.angle[ring[i]!] = 1;
+      shape.angle[a] = 1;
+      shape.angle[a ^ 1] = 2;
+      let h = a;
+      for (let k = 0; k < corners[i]!; k += 1) {
+        const n0 = splitHalfEdge(shape, h);
+        shape.vertexOf[shape.origin[n0]!] = v;
+        shape.angle[n0] = 3;
+        shape.angle[h ^ 1] = 1;
+        h = n0;
+      }
+    });
+  }
+};
+
+const componentRoots = (shape: OrthogonalShape) => {
+  const parent = Array.from({ length: shape.vertexCount }, (_, v) => v);
+  const find = (v: number): number => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]!]!;
+      v = parent[v]!;
+    }
+    return v;
+  };
+  for (let h = 0; h < shape.origin.length; h += 2) {
+    const a = find(shape.origin[h]!);
+    const b = find(shape.origin[h + 1]!);
+    if (a !== b) parent[a] = b;
+  }
+  return find;
+};
+
+export const buildOrthogonalShape = (
+  mesh: HalfEdgeMesh,
+  options: OrthogonalShapeOptions = {},
+): OrthogonalShape => {
+  const { outerFace, points = new Set<number>() } = options;
+  const meshVertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
+  const shape: OrthogonalShape = {
+    vertexCount: meshVertexCount,
+    origin: mesh.origin.slice(),
+    next: mesh.next.slice(),
+    prev: mesh.prev.slice(),
+    angle: Array(mesh.halfEdgeCount).fill(0),
+    direction: Array(mesh.halfEdgeCount).fill(-1),
+    owner: Array.from({ length: mesh.halfEdgeCount / 2 }, (_, e) => e),
+    weight: Array(mesh.halfEdgeCount / 2).fill(1),
+    vertexOf: Array.from({ length: meshVertexCount }, (_, v) => v),
+    outer: [],
+    bends: 0,
+  };
+  const kandinsky = options.mode === 'kandinsky';
+  const boxEdges = kandinsky ? new Set<number>() : expandHighDegree(shape, meshVertexCount);
+
+  const halfEdgeCount = shape.origin.length;
+  const insideBox = (h: number) => boxEdges.has(h >> 1) && (h & 1) === 1;
+  const faceOf: number[] = Array(halfEdgeCount).fill(-1);
+  const faceSize: number[] = [];
+  const faceStart: number[] = [];
+  const boxInterior = new Set<number>();
+  for (let h = 0; h < halfEdgeCount; h += 1) {
+    if (faceOf[h] !== -1) continue;
+    const cycle = walk(shape, h);
+    cycle.forEach((x) => {
+      faceOf[x] = faceSize.length;
+    });
+    if (cycle.every(insideBox)) boxInterior.add(faceSize.length);
+    faceSize.push(cycle.length);
+    faceStart.push(h);
+  }
+
+  // Each component gets one outer face: the requested one, or its longest face.
+  const find = componentRoots(shape);
+  const outerOf = new Map<number, number>();
+  const requested = outerFace === undefined ? undefined : mesh.faces[outerFace]?.[0];
+  const requestedFace = requested === undefined ? -1 : faceOf[requested]!;
+  faceStart.forEach((h, f) => {
+    if (boxInterior.has(f)) return;
+    const root = find(shape.origin[h]!);
+    const current = outerOf.get(root);
+    if (current === requestedFace) return;
+    if (f === requestedFace || current === undefined || faceSize[f]! > faceSize[current]!) outerOf.set(root, f);
+  });
+  const isOuter = new Set(outerOf.values());
+  shape.outer = [...isOuter].map((f) => faceStart[f]!);
+
+  // Tamassia's network: vertices supply 4 right angles, face f consumes 2|f| - 4 (2|f| + 4 if outer),
+  // angle arcs carry vertex angles into faces and face-to-face arcs carry bends at unit cost.
+  // The Kandinsky network also admits zero angles; each angle unit past the first costs 1 and a
+  // bend costs 2, so edges share a box side rather than bend, but not without reason.
+  const V = shape.vertexCount;
+  const demands: number[] = Array(V + faceSize.length).fill(0);
+  shape.origin.forEach((v) => {
+    demands[v] = 4;
+  });
+  faceSize.forEach((size, f) => {
+    demands[V + f] = -(isOuter.has(f) ? 2 * size + 4 : 2 * size - 4);
+  });
+
+  const arcs: FlowArc[] = [];
+  const angleArcs: number[][] = [];
+  for (let h = 0; h < halfEdgeCount; h += 1) {
+    const from = shape.origin[h]!;
+    const to = V + faceOf[h]!;
+    const box = kandinsky && !points.has(from);
+    angleArcs.push(box ? [arcs.length, arcs.length + 1] : [arcs.length]);
+    if (box) {
+      arcs.push({ from, to, upper: 1, cost: 0 }, { from, to, upper: 3, cost: 1 });
+    } else {
+      arcs.push({ from, to, lower: 1, upper: insideBox(h) ? 2 : 4, cost: 0 });
+    }
+  }
+  const bendCost = kandinsky ? 2 : 1;
+  const capacity = 4 * V + 4;
+  const bendArcs: Array<[number, number] | null> = [];
+  for (let e = 0; e < halfEdgeCount / 2; e += 1) {
+    const f = faceOf[2 * e]!;
+    const g = faceOf[2 * e + 1]!;
+    if (f === g || boxEdges.has(e)) {
+      bendArcs.push(null);
+      continue;
+    }
+    bendArcs.push([arcs.length, arcs.length + 1]);
+    arcs.push({ from: V + f, to: V + g, upper: capacity, cost: bendCost });
+    arcs.push({ from: V + g, to: V + f, upper: capacity, cost: bendCost });
+  }
+
+  const flow = minCostFlow({ nodeCount: V + faceSize.length, arcs, demands });
+  if (!flow.feasible) {
+    throw new Error('Orthogonal representation flow is infeasible.');
+  }
+  angleArcs.forEach((ids, h) => {
+    shape.angle[h] = ids.reduce((sum, id) => sum + (flow.flowByArc[id] ?? 0), 0);
+  });
+
+  // Subdivide edges at bends: flow f -> g is a right turn when walking 2e, g -> f a left turn.
+  bendArcs.forEach((pair, e) => {
+    if (!pair) return;
+    const right = flow.flowByArc[pair[0]] ?? 0;
+    const left = flow.flowByArc[pair[1]] ?? 0;
+    let h = 2 * e;
+    for (let i = 0; i < right + left; i += 1) {
+      const n0 = splitHalfEdge(shape, h);
+      shape.angle[n0] = i < right ? 1 : 3;
+      shape.angle[h ^ 1] = 4 - shape.angle[n0]!;
+      h = n0;
+    }
+    shape.bends += right + left;
+  });
+  if (kandinsky) expandKandinskyBoxes(shape, meshVertexCount, points);
+
+  // Propagate axis directions along face walks and twins.
+  for (const start of shape.outer) {
+    shape.direction[start] = 0;
+    const queue = [start];
+    while (queue.length > 0) {
+      const h = queue.pop()!;
+      const d = shape.direction[h]!;
+      const twin = h ^ 1;
+      if (shape.direction[twin] === -1) {
+        shape.direction[twin] = (d + 2) % 4;
+        queue.push(twin);
+      }
+      const n = shape.next[h]!;
+      if (shape.direction[n] === -1) {
+        shape.direction[n] = (((d - (2 - shape.angle[n]!)) % 4) + 4) % 4;
+        queue.push(n);
+      }
+    }
+  }
+
+  return shape;
+};
+
+// Connects the reflex corner at the head of e to a new vertex on the front edge f.
+const insertExtension = (shape: OrthogonalShape, e: number, f: number) => {
+  const { next, prev, angle, direction } = shape;
+  const v = shape.origin[e ^ 1]!;
+  const after = next[e]!;
+  const n0 = splitHalfEdge(shape, f);
+  const x = addEdgePair(shape, v, shape.origin[n0]!);
+  const y = x ^ 1;
+  next[e] = x;
+  prev[x] = e;
+  next[x] = n0;
+  prev[n0] = x;
+  next[f] = y;
+  prev[y] = f;
+  next[y] = after;
+  prev[after] = y;
+  angle[y] = 1;
+  angle[n0] = 1;
+  angle[x] = 2;
+  angle[after] = angle[after]! - 2;
+  direction[x] = direction[e]!;
+  direction[y] = (direction[e]! + 2) % 4;
+  return n0;
+};
+
+// Splits a face along the extensions of its reflex corners; returns reflex edges without a front.
+const refineFace = (shape: OrthogonalShape, start: number) => {
+  const list = walk(shape, start);
+  const k = list.length;
+  const turn = list.map((h) => 2 - shape.angle[shape.next[h]!]!);
+  const rotation: number[] = [0];
+  for (let j = 0; j < 2 * k; j += 1) rotation.push(rotation[j]! + turn[j % k]!);
+
+  // The front of a reflex edge is the first later edge rotated one right turn past it.
+  const stack: number[] = [];
+  const fronts: Array<[number, number]> = [];
+  for (let j = 0; j < 2 * k; j += 1) {
+    while (stack.length > 0 && rotation[j]! > rotation[stack[stack.length - 1]!]!) {
+      fronts.push([stack.pop()!, j % k]);
+    }
+    if (j < k && turn[j]! < 0) stack.push(j);
+  }
+
+  const last = list.slice();
+  for (const [i, j] of fronts) {
+    last[j] = insertExtension(shape, last[i]!, last[j]!);
+  }
+  return stack.map((i) => last[i]!);
+};
+
+// Closes the outer face of a component with an enclosing rectangle attached at reflex edge e.
+const enclose = (shape: OrthogonalShape, e: number) => {
+  const d = shape.direction[e]!;
+  const v = shape.origin[e ^ 1]!;
+  const after = shape.next[e]!;
+  const corners = [addVertex(shape, -1), addVertex(shape, -1), addVertex(shape, -1), addVertex(shape, -1)];
+  const w = addVertex(shape, -1);
+  const ring = [w, ...corners];
+  const sides = ring.map((u, i) => addEdgePair(shape, u, ring[(i + 1) % ring.length]!));
+  const x = addEdgePair(shape, v, w);
+  const y = x ^ 1;
+  const turns = [1, 2, 3, 0, 1];
+  sides.forEach((r, i) => {
+    const t = r ^ 1;
+    const nextR = sides[(i + 1) % sides.length]!;
+    shape.next[r] = nextR;
+    shape.prev[nextR] = r;
+    shape.next[nextR ^ 1] = t;
+    shape.prev[t] = nextR ^ 1;
+    shape.direction[r] = (((d - turns[i]!) % 4) + 4) % 4;
+    shape.direction[t] = (shape.direction[r]! + 2) % 4;
+    shape.angle[r] = 1;
+    shape.angle[t] = 3;
+  });
+  const r0 = sides[0]!;
+  const r4 = sides[4]!;
+  shape.next[e] = x;
+  shape.prev[x] = e;
+  shape.next[x] = r0;
+  shape.prev[r0] = x;
+  shape.next[r4] = y;
+  shape.prev[y] = r4;
+  shape.next[y] = after;
+  shape.prev[after] = y;
+  shape.angle[r0] = 1;
+  shape.angle[y] = 1;
+  shape.angle[r4 ^ 1] = 2;
+  shape.angle[x] = 2;
+  shape.angle[after] = shape.angle[after]! - 2;
+  shape.direction[x] = d;
+  shape.direction[y] = (d + 2) % 4;
+  return { inner: x, outer: r0 ^ 1 };
+};
+
+// Rectangular refinement: afterwards every bounded face is a rectangle.
+export const refineRectangular = (shape: OrthogonalShape) => {
+  const outer = new Set<number>();
+  const seen: boolean[] = [];
+  for (const start of shape.outer) {
+    for (const h of walk(shape, start)) outer.add(h);
+  }
+  const starts: number[] = [];
+  for (let h = 0; h < shape.origin.length; h += 1) {
+    if (seen[h]) continue;
+    for (const x of walk(shape, h)) seen[x] = true;
+    if (!outer.has(h)) starts.push(h);
+  }
+  for (const start of starts) refineFace(shape, start);
+  shape.outer = shape.outer.map((start) => {
+    const leftover = refineFace(shape, start);
+    const { inner, outer } = enclose(shape, leftover[0]!);
+    refineFace(shape, inner);
+    return outer;
+  });
+};
+
+// Longest-path coordinates over maximal vertical (x) and horizontal (y) segments.
+type Separation = { from: number; to: number; weight: number };
+
+// Minimises sum w (x_to - x_from) subject to x_to - x_from >= 1 for every separation. Its dual is
+// a min-cost flow; complementary slackness fixes every separation carrying flow to length 1, and
+// the least solution of the resulting difference constraints is an optimal placement.
+const minimiseLength = (nodeCount: number, separations: Separation[]) => {
+  const supply: number[] = Array(nodeCount).fill(0);
+  for (const { from, to, weight } of separations) {
+    if (from === to) throw new Error('Orthogonal compaction found a cyclic constraint graph.');
+    supply[from]! += weight;
+    supply[to]! -= weight;
+  }
+  const total = supply.reduce((sum, value) => sum + Math.max(0, value), 0);
+  const arcs: FlowArc[] = separations.map(({ from, to }) => ({ from, to, upper: total, cost: -1 }));
+  const flow = minCostFlow({ nodeCount, arcs, demands: supply });
+  if (!flow.feasible) {
+    throw new Error('Orthogonal compaction found a cyclic constraint graph.');
+  }
+
+  const out: Array<Array<[number, number]>> = Array.from({ length: nodeCount }, () => []);
+  separations.forEach(({ from, to }, i) => {
+    out[from]!.push([to, 1]);
+    if ((flow.flowByArc[i] ?? 0) > 0) out[to]!.push([from, -1]);
+  });
+  const coord: number[] = Array(nodeCount).fill(0);
+  const queued: boolean[] = Array(nodeCount).fill(true);
+  const queue = Array.from({ length: nodeCount }, (_, v) => v);
+  const limit = nodeCount * (separations.length + 1);
+  let size = nodeCount;
+  for (let step = 0; size > 0; step += 1) {
+    if (step > limit) throw new Error('Orthogonal compaction found a cyclic constraint graph.');
+    const a = queue[step % nodeCount]!;
+    size -= 1;
+    queued[a] = false;
+    for (const [b, length] of out[a]!) {
+      if (coord[b]! >= coord[a]! + length) continue;
+      coord[b] = coord[a]! + length;
+      if (!queued[b]) {
+        queued[b] = true;
+        queue[(step + size + 1) % nodeCount] = b;
+        size += 1;
+      }
+    }
+  }
+  return coord;
+};
+
+const disjointSets = (n: number) => {
+  const parent = Array.from({ length: n }, (_, v) => v);
+  const find = (v: number): number => {
+    while (parent[v] !== v) {
+      parent[v] = parent[parent[v]!]!;
+      v = parent[v]!;
+    }
+    return v;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+  return { find, union };
+};
+
+// Maximal straight runs of drawn edges between drawn vertices (vertices, ports, box corners and
+// bends); interior points of a run only split it for the refinement.
+const drawnRuns = (shape: OrthogonalShape) => {
+  const n = shape.vertexCount;
+  const directions: number[][] = Array.from({ length: n }, () => []);
+  shape.origin.forEach((v, h) => {
+    if (shape.weight[h >> 1]! > 0) directions[v]!.push(shape.direction[h]!);
+  });
+  const drawn = directions.map(
+    (list, v) => shape.vertexOf[v] !== -1 || list.some((d) => d % 2 !== list[0]! % 2),
+  );
+  const runs: Array<Separation & { axis: number; via: number[] }> = [];
+  shape.origin.forEach((v, h) => {
+    const axis = shape.direction[h]!;
+    if (!drawn[v] || axis > 1 || shape.weight[h >> 1]! === 0) return;
+    const via: number[] = [];
+    let g = h;
+    let w = shape.origin[g ^ 1]!;
+    while (!drawn[w]) {
+      via.push(w);
+      let c = g ^ 1;
+      do c = shape.next[c ^ 1]!;
+      while (shape.weight[c >> 1]! === 0 || shape.direction[c] !== axis);
+      g = c;
+      w = shape.origin[g ^ 1]!;
+    }
+    runs.push({ from: v, to: w, weight: shape.weight[h >> 1]!, axis, via });
+  });
+  return { drawn, runs };
+};
+
+// Compaction first solves the constraint graphs of the rectangular refinement, then repeatedly
+// re-solves each axis against the drawn objects only, separating those that see each other.
+export const assignCoordinates = (shape: OrthogonalShape) => {
+  const n = shape.vertexCount;
+  const refined = (vertical: boolean) => {
+    const sets = disjointSets(n);
+    for (let h = 0; h < shape.origin.length; h += 2) {
+      if ((shape.direction[h]! % 2 === 1) === vertical) sets.union(shape.origin[h]!, shape.origin[h + 1]!);
+    }
+    const forward = vertical ? 0 : 1;
+    const separations: Separation[] = [];
+    for (let h = 0; h < shape.origin.length; h += 1) {
+      if (shape.direction[h] !== forward) continue;
+      separations.push({
+        from: sets.find(shape.origin[h]!),
+        to: sets.find(shape.origin[h ^ 1]!),
+        weight: shape.weight[h >> 1]!,
+      });
+    }
+    const coord = minimiseLength(n, separations);
+    return Array.from({ length: n }, (_, v) => coord[sets.find(v)]!);
+  };
+
+  const { drawn, runs } = drawnRuns(shape);
+  const component = componentRoots(shape);
+  const improve = (vertical: boolean, coord: number[], other: number[]) => {
+    const sets = disjointSets(n);
+    for (const run of runs) {
+      if ((run.axis === 1) === vertical) sets.union(run.from, run.to);
+    }
+    const index = new Map<number, number>();
+    const low: number[] = [];
+    const high: number[] = [];
+    const members: number[][] = [];
+    for (let v = 0; v < n; v += 1) {
+      if (!drawn[v]) continue;
+      const root = sets.find(v);
+      let i = index.get(root);
+      if (i === undefined) {
+        i = members.length;
+        index.set(root, i);
+        low.push(other[v]!);
+        high.push(other[v]!);
+        members.push([]);
+      }
+      low[i] = Math.min(low[i]!, other[v]!);
+      high[i] = Math.max(high[i]!, other[v]!);
+      members[i]!.push(v);
+    }
+
+    const separations: Separation[] = [];
+    for (const run of runs) {
+      if ((run.axis === 0) !== vertical) continue;
+      separations.push({ from: index.get(sets.find(run.from))!, to: index.get(sets.find(run.to))!, weight: run.weight });
+    }
+    // Sweep along the axis, painting each class over its extent; whatever it covers sees it.
+    const order = members.map((_, i) => i).sort((a, b) => coord[members[a]![0]!]! - coord[members[b]![0]!]!);
+    const painted = new Map<number, Map<number, number>>();
+    for (const i of order) {
+      const key = component(members[i]![0]!);
+      const line = painted.get(key) ?? new Map<number, number>();
+      painted.set(key, line);
+      const seen = new Set<number>();
+      for (let t = low[i]!; t <= high[i]!; t += 1) {
+        const j = line.get(t);
+        if (j !== undefined && !seen.has(j)) {
+          seen.add(j);
+          separations.push({ from: j, to: i, weight: 0 });
+        }
+        line.set(t, i);
+      }
+    }
+
+    const solved = minimiseLength(members.length, separations);
+    const next = coord.slice();
+    members.forEach((list, i) => {
+      for (const v of list) next[v] = solved[i]!;
+    });
+    return next;
+  };
+
+  let x = refined(true);
+  let y = refined(false);
+  for (let round = 0; round < 2; round += 1) {
+    x = improve(true, x, y);
+    y = improve(false, y, x);
+  }
+  for (const run of runs) {
+    for (const w of run.via) {
+      x[w] = x[run.from]!;
+      y[w] = y[run.from]!;
+    }
+  }
+
+  // Ranking the lines in use keeps every order while dropping empty ones.
+  const rank = (coord: number[]) => {
+    const lines = [...new Set(coord.filter((_, v) => drawn[v]))].sort((a, b) => a - b);
+    const position = new Map(lines.map((value, i) => [value, i]));
+    return coord.map((value) => position.get(value) ?? 0);
+  };
+  return { x: rank(x), y: rank(y), drawn };
+};
+
+export const shapeComponents = componentRoots;
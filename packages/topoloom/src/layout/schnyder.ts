@@ -0,0 +1,93 @@
+import type { VertexId } from '../graph';
+import type { CanonicalOrdering, Triangulation } from './canonical';
+
+export type SchnyderTrees = {
+  // Roots r0 (top), r1 (left), r2 (right) of the three trees.
+  roots: [VertexId, VertexId, VertexId];
+  // parent[i][v] is the head of the outgoing i-colored edge of v, or -1.
+  parent: [number[], number[], number[]];
+};
+
+export const schnyderTrees = (tri: Triangulation, ordering: CanonicalOrdering): SchnyderTrees => {
+  const n = tri.vertexCount;
+  const { order, leftContact, rightContact } = ordering;
+  const parent: [number[], number[], number[]] = [
+    Array(n).fill(-1),
+    Array(n).fill(-1),
+    Array(n).fill(-1),
+  ];
+
+  for (let k = 2; k < n; k += 1) {
+    const v = order[k]!;
+    const a = leftContact[v]!;
+    const b = rightContact[v]!;
+    if (k < n - 1) {
+      parent[1][v] = a;
+      parent[2][v] = b;
+    }
+    // Contour vertices strictly between a and b are covered by v.
+    const list = tri.rotation[v]!;
+    let idx = list.indexOf(a);
+    for (let step = 0; step < list.length; step += 1) {
+      idx = (idx + 1) % list.length;
+      const w = list[idx]!;
+      if (w === b) break;
+      parent[0][w] = v;
+    }
+  }
+
+  return { roots: [order[n - 1]!, order[0]!, order[1]!], parent };
+};
+
+export const schnyderCoordinates = (
+  tri: Triangulation,
+  ordering: CanonicalOrdering,
+  trees: SchnyderTrees,
+) => {
+  const n = tri.vertexCount;
+  const { roots, parent } = trees;
+  const increasing = ordering.order;
+  const decreasing = ordering.order.slice().reverse();
+  // Tree 0 points up the canonical ordering, trees 1 and 2 point down.
+  const bottomUp = [increasing, decreasing, decreasing];
+  const topDown = [decreasing, increasing, increasing];
+
+  const subtreeSize = [0, 1, 2].map((i) => {
+    const size: number[] = Array(n).fill(1);
+    for (const v of bottomUp[i]!) {
+      const p = parent[i]![v]!;
+      if (p !== -1) size[p]! += size[v]!;
+    }
+    return size;
+  });
+
+  const pathSum = (i: number, weight: number[]) => {
+    const sum: number[] = Array(n).fill(0);
+    for (const v of topDown[i]!) {
+      const p = parent[i]![v]!;
+      sum[v] = weight[v]! + (p === -1 ? 0 : sum[p]!);
+    }
+    return sum;
+  };
+
+  const ones: number[] = Array(n).fill(1);
+  const pathLength = [0, 1, 2].map((i) => pathSum(i, ones));
+
+  // Vertices in region R_i(v) minus vertices on P_{i-1}(v); the three values sum to n - 1.
+  const regionCount = (i: number) => {
+    const next = (i + 1) % 3;
+    const prev = (i + 2) % 3;
+    const alongNext = pathSum(next, subtreeSize[i]!);
+    const alongPrev = pathSum(prev, subtreeSize[i]!);
+    const value = Array.from(
+      { length: n },
+      (_, v) => alongNext[v]! + alongPrev[v]! - subtreeSize[i]![v]! - pathLength[prev]![v]!,
+    );
+    value[roots[i]!] = n - 2;
+    value[roots[next]!] = 0;
+    value[roots[prev]!] = 1;
+    return value;
+  };
+
+  return { x: regionCount(2), y: regionCount(0) };
+};
@@ -0,0 +1,146 @@
+export type CsrMatrix = {
+  size: number;
+  rowPtr: Int32Array;
+  colIdx: Int32Array;
+  values: Float64Array;
+  diagonal: Float64Array;
+};
+
+export type SparseSolverMethod = 'cg' | 'gauss-seidel';
+
+export type SparseSolveOptions = {
+  method: SparseSolverMethod;
+  tolerance: number;
+  maxIterations: number;
+};
+
+export type SparseSolveResult = {
+  x: Float64Array;
+  iterations: number;
+  residual: number;
+  converged: boolean;
+};
+
+export const buildCsr = (rows: Array<Array<[number, number]>>): CsrMatrix => {
+  const size = rows.length;
+  const rowPtr = new Int32Array(size + 1);
+  for (let i = 0; i < size; i += 1) rowPtr[i + 1] = rowPtr[i]! + rows[i]!.length;
+  const colIdx = new Int32Array(rowPtr[size]!);
+  const values = new Float64Array(rowPtr[size]!);
+  const diagonal = new Float64Array(size);
+  for (let i = 0; i < size; i += 1) {
+    const entries = rows[i]!.slice().sort((a, b) => a[0] - b[0]);
+    let k = rowPtr[i]!;
+    for (const [col, value] of entries) {
+      colIdx[k] = col;
+      values[k] = value;
+      if (col === i) diagonal[i] = value;
+      k += 1;
+    }
+  }
+  return { size, rowPtr, colIdx, values, diagonal };
+};
+
+const multiply = (A: CsrMatrix, x: Float64Array, out: Float64Array) => {
+  for (let i = 0; i < A.size; i += 1) {
+    let sum = 0;
+    for (let k = A.rowPtr[i]!; k < A.rowPtr[i + 1]!; k += 1) sum += A.values[k]! * x[A.colIdx[k]!]!;
+    out[i] = sum;
+  }
+};
+
+const dot = (a: Float64Array, b: Float64Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) sum += a[i]! * b[i]!;
+  return sum;
+};
+
+const residualNorm = (A: CsrMatrix, b: Float64Array, x: Float64Array, scratch: Float64Array) => {
+  multiply(A, x, scratch);
+  let sum = 0;
+  for (let i = 0; i < A.size; i += 1) {
+    const r = b[i]! - scratch[i]!;
+    sum += r * r;
+  }
+  return Math.sqrt(sum);
+};
+
+const solveConjugateGradient = (
+  A: CsrMatrix,
+  b: Float64Array,
+  x: Float64Array,
+  options: SparseSolveOptions,
+  bNorm: number,
+): SparseSolveResult => {
+  const n = A.size;
+  const r = new Float64Array(n);
+  const z = new Float64Array(n);
+  const p = new Float64Array(n);
+  const Ap = new Float64Array(n);
+  multiply(A, x, Ap);
+  for (let i = 0; i < n; i += 1) {
+    r[i] = b[i]! - Ap[i]!;
+    z[i] = r[i]! / (A.diagonal[i] || 1);
+    p[i] = z[i]!;
+  }
+  let rz = dot(r, z);
+  let residual = Math.sqrt(dot(r, r)) / bNorm;
+  let iterations = 0;
+  while (residual > options.tolerance && iterations < options.maxIterations) {
+    multiply(A, p, Ap);
+    const pAp = dot(p, Ap);
+    if (pAp <= 0) break;
+    const alpha = rz / pAp;
+    for (let i = 0; i < n; i += 1) {
+      x[i] = x[i]! + alpha * p[i]!;
+      r[i] = r[i]! - alpha * Ap[i]!;
+      z[i] = r[i]! / (A.diagonal[i] || 1);
+    }
+    const rzNext = dot(r, z);
+    const beta = rzNext / rz;
+    for (let i = 0; i < n; i += 1) p[i] = z[i]! + beta * p[i]!;
+    rz = rzNext;
+    iterations += 1;
+    residual = Math.sqrt(dot(r, r)) / bNorm;
+  }
+  residual = residualNorm(A, b, x, Ap) / bNorm;
+  return { x, iterations, residual, converged: residual <= options.tolerance };
+};
+
+const solveGaussSeidel = (
+  A: CsrMatrix,
+  b: Float64Array,
+  x: Float64Array,
+  options: SparseSolveOptions,
+  bNorm: number,
+): SparseSolveResult => {
+  const scratch = new Float64Array(A.size);
+  let residual = residualNorm(A, b, x, scratch) / bNorm;
+  let iterations = 0;
+  while (residual > options.tolerance && iterations < options.maxIterations) {
+    for (let i = 0; i < A.size; i += 1) {
+      let sum = b[i]!;
+      for (let k = A.rowPtr[i]!; k < A.rowPtr[i + 1]!; k += 1) {
+        const col = A.colIdx[k]!;
+        if (col !== i) sum -= A.values[k]! * x[col]!;
+      }
+      x[i] = sum / (A.diagonal[i] || 1);
+    }
+    iterations += 1;
+    residual = residualNorm(A, b, x, scratch) / bNorm;
+  }
+  return { x, iterations, residual, converged: residual <= options.tolerance };
+};
+
+export const solveSparse = (
+  A: CsrMatrix,
+  b: Float64Array,
+  initial: Float64Array,
+  options: SparseSolveOptions,
+): SparseSolveResult => {
+  const x = Float64Array.from(initial);
+  const bNorm = Math.sqrt(dot(b, b)) || 1;
+  return options.method === 'gauss-seidel'
+    ? solveGaussSeidel(A, b, x, options, bNorm)
+    : solveConjugateGradient(A, b, x, options, bNorm);
+};
@@ -0,0 +1,206 @@
+import type { VertexId } from '../graph';
+import type { FaceId, HalfEdgeId, HalfEdgeMesh } from '../embedding';
+
+// An upward embedding being saturated into a planar st-digraph. Half-edges pair up as (2e, 2e + 1)
+// like the mesh's, tail[e] is where edge e starts, and added vertices and edges go at the end.
+type UpwardShape = {
+  vertexCount: number;
+  origin: number[];
+  next: number[];
+  prev: number[];
+  tail: number[];
+};
+
+export type UpwardGrid = {
+  // Layer of every vertex of the mesh, counted from 0 at the bottom.
+  layer: number[];
+  // Column of every mesh edge; its vertical part runs there.
+  column: number[];
+};
+
+const up = (shape: UpwardShape, h: number) => shape.origin[h] === shape.tail[h >> 1];
+const isMin = (shape: UpwardShape, h: number) => !up(shape, shape.prev[h]!) && up(shape, h);
+const isMax = (shape: UpwardShape, h: number) => up(shape, shape.prev[h]!) && !up(shape, h);
+
+const walk = (shape: UpwardShape, start: number) => {
+  const cycle: number[] = [];
+  let h = start;
+  do {
+    cycle.push(h);
+    h = shape.next[h]!;
+  } while (h !== start);
+  return cycle;
+};
+
+const switchesOf = (shape: UpwardShape, start: number) =>
+  walk(shape, start).filter((h) => isMin(shape, h) || isMax(shape, h));
+
+// Adds an edge from origin(a) to origin(b) through the face holding both angles, returning its
+// half-edge at origin(a): that one walks the part from b on, its twin the part from a on.
+const insertEdge = (shape: UpwardShape, a: number, b: number, tail: number) => {
+  const g = shape.origin.length;
+  const [pa, pb] = [shape.prev[a]!, shape.prev[b]!];
+  shape.origin.push(shape.origin[a]!, shape.origin[b]!);
+  shape.next.push(b, a);
+  shape.prev.push(pa, pb);
+  shape.next[pa] = g;
+  shape.prev[b] = g;
+  shape.next[pb] = g + 1;
+  shape.prev[a] = g + 1;
+  shape.tail.push(tail);
+  return g;
+};
+
+// Hangs a new vertex off the angle a; returns the new vertex's only half-edge.
+const addLeaf = (shape: UpwardShape, a: number, leafIsTail: boolean) => {
+  const leaf = shape.vertexCount;
+  shape.vertexCount += 1;
+  const g = shape.origin.length;
+  const pa = shape.prev[a]!;
+  shape.origin.push(shape.origin[a]!, leaf);
+  shape.next.push(g + 1, a);
+  shape.prev.push(pa, g);
+  shape.next[pa] = g;
+  shape.prev[a] = g + 1;
+  shape.tail.push(leafIsTail ? leaf : shape.origin[a]!);
+  return g + 1;
+};
+
+// Bertolazzi et al.: while a face shows a large switch followed by two small ones, an edge from
+// the large one to the second small one cuts off a face with a single source and sink. The outer
+// face is then closed with a new source below its large minima and a new sink above its large
+// maxima, joined by an edge. Returns a half-edge of the final outer face.
+const saturate = (shape: UpwardShape, large: Set<number>, outerStart: number) => {
+  let outer = outerStart;
+  const pending = new Set<number>();
+  const seen = new Set<number>();
+  for (let h = 0; h < shape.origin.length; h += 1) {
+    if (seen.has(h)) continue;
+    walk(shape, h).forEach((c) => seen.add(c));
+    pending.add(h);
+  }
+  const outerFaceOf = new Set(walk(shape, outer));
+  for (const start of pending) {
+    const isOuter = outerFaceOf.has(start);
+    let face = start;
+    for (;;) {
+      const switches = switchesOf(shape, face);
+      const k = switches.length;
+      const i = switches.findIndex(
+        (h, j) =>
+          large.has(h) &&
+          !large.has(switches[(j + 1) % k]!) &&
+          !large.has(switches[(j + 2) % k]!) &&
+          shape.origin[h] !== shape.origin[switches[(j + 2) % k]!],
+      );
+      if (i < 0 || k < 4) break;
+      const a = switches[i]!;
+      const c = switches[(i + 2) % k]!;
+      const tail = isMax(shape, a) ? shape.origin[a]! : shape.origin[c]!;
+      face = insertEdge(shape, a, c, tail);
+      large.delete(a);
+    }
+    if (isOuter) outer = face;
+  }
+
+  const switches = switchesOf(shape, outer);
+  const k = switches.length;
+  const minima = switches.flatMap((h, i) => (large.has(h) && isMin(shape, h) ? [i] : []));
+  // Exactly one stretch between consecutive large minima holds large maxima; the new source
+  // closes every other stretch, starting just after that one.
+  const holdsMaxima = (from: number, to: number) => {
+    for (let j = (from + 1) % k; j !== to; j = (j + 1) % k) {
+      if (large.has(switches[j]!) && isMax(shape, switches[j]!)) return true;
+    }
+    return false;
+  };
+  const open = minima.findIndex((from, i) => holdsMaxima(from, minima[(i + 1) % minima.length]!));
+  if (open < 0) throw new Error('Upward saturation found no outer face stretch to keep open.');
+  const rotated = [...minima.slice(open + 1), ...minima.slice(0, open + 1)];
+  const maxima: number[] = [];
+  for (let j = (rotated[rotated.length - 1]! + 1) % k; j !== rotated[0]; j = (j + 1) % k) {
+    if (large.has(switches[j]!) && isMax(shape, switches[j]!)) maxima.push(switches[j]!);
+  }
+
+  const source = shape.vertexCount;
+  let sourceAngle = addLeaf(shape, switches[rotated[0]!]!, true);
+  for (const i of rotated.slice(1)) {
+    sourceAngle = insertEdge(shape, switches[i]!, sourceAngle, source) + 1;
+  }
+  let sinkAngle = addLeaf(shape, maxima[0]!, false);
+  for (const h of maxima.slice(1)) {
+    sinkAngle = insertEdge(shape, h, sinkAngle, shape.origin[h]!) + 1;
+  }
+  return insertEdge(shape, sourceAngle, sinkAngle, source) + 1;
+};
+
+const longestPaths = (nodeCount: number, arcs: Array<[number, number]>) => {
+  const out: number[][] = Array.from({ length: nodeCount }, () => []);
+  const inDegree: number[] = Array(nodeCount).fill(0);
+  for (const [from, to] of arcs) {
+    out[from]!.push(to);
+    inDegree[to] = inDegree[to]! + 1;
+  }
+  const dist: number[] = Array(nodeCount).fill(0);
+  const queue = dist.flatMap((_, v) => (inDegree[v] === 0 ? [v] : []));
+  while (queue.length > 0) {
+    const v = queue.pop()!;
+    for (const w of out[v]!) {
+      dist[w] = Math.max(dist[w]!, dist[v]! + 1);
+      inDegree[w] = inDegree[w]! - 1;
+      if (inDegree[w] === 0) queue.push(w);
+    }
+  }
+  return dist;
+};
+
+// Visibility representation of an upward embedding: saturate it to a planar st-digraph, put every
+// vertex on its longest-path layer and every edge in the column of the face on its left, counted
+// along the longest path of the dual from the left half of the outer face.
+export const upwardGrid = (
+  mesh: HalfEdgeMesh,
+  tail: VertexId[],
+  outerFace: FaceId,
+  largeAngles: HalfEdgeId[],
+): UpwardGrid => {
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
+  const shape: UpwardShape = {
+    vertexCount,
+    origin: mesh.origin.slice(),
+    next: mesh.next.slice(),
+    prev: mesh.prev.slice(),
+    tail: tail.slice(),
+  };
+  const outer = saturate(shape, new Set(largeAngles), mesh.faces[outerFace]![0]!);
+
+  const face: number[] = Array(shape.origin.length).fill(-1);
+  let faceCount = 0;
+  for (let h = 0; h < shape.origin.length; h += 1) {
+    if (face[h] !== -1) continue;
+    for (const c of walk(shape, h)) face[c] = faceCount;
+    faceCount += 1;
+  }
+  const edgeCount = shape.tail.length;
+  const heads = shape.tail.map((t, e) =>
+    shape.origin[2 * e] === t ? shape.origin[2 * e + 1]! : shape.origin[2 * e]!,
+  );
+  const layer = longestPaths(
+    shape.vertexCount,
+    shape.tail.map((t, e): [number, number] => [t, heads[e]!]),
+  );
+
+  // Faces lie right of their half-edges, so the face right of an edge is that of its upward half.
+  const left: number[] = [];
+  const right: number[] = [];
+  for (let e = 0; e < edgeCount; e += 1) {
+    const h = shape.origin[2 * e] === shape.tail[e] ? 2 * e : 2 * e + 1;
+    right.push(face[h]!);
+    left.push(face[h ^ 1] === face[outer] ? faceCount : face[h ^ 1]!);
+  }
+  const x = longestPaths(
+    faceCount + 1,
+    left.map((l, e): [number, number] => [l, right[e]!]),
+  );
+  const column = left.slice(0, mesh.halfEdgeCount / 2).map((l) => x[l]!);
+  return { layer: layer.slice(0, vertexCount), column };
+};
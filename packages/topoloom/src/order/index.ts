@@ -1,5 +1,5 @@
 import { GraphBuilder } from '../graph';
-import type { Graph, VertexId, EdgeId } from '../graph';
+import type { ReadonlyGraph, VertexId, EdgeId } from '../graph';
 import type { HalfEdgeMesh } from '../embedding';
 import { biconnectedComponents } from '../dfs';
 
@@ -13,7 +13,7 @@ export type StNumberingOptions = {
   allowSelfLoops?: 'reject' | 'ignore';
 };
 
-const sanitizeUndirected = (graph: Graph, options: StNumberingOptions = {}) => {
+const sanitizeUndirected = (graph: ReadonlyGraph, options: StNumberingOptions = {}) => {
   const treatDirected = options.treatDirectedAsUndirected ?? true;
   const allowSelfLoops = options.allowSelfLoops ?? 'ignore';
 
@@ -37,7 +37,7 @@ const sanitizeUndirected = (graph: Graph, options: StNumberingOptions = {}) => {
 };
 
 export function validateStNumbering(
-  graph: Graph,
+  graph: ReadonlyGraph,
   s: VertexId,
   t: VertexId,
   numbering: StNumbering,
@@ -66,7 +66,7 @@ export function validateStNumbering(
   }
 }
 
-export function stNumbering(graph: Graph, s: VertexId, t: VertexId, options: StNumberingOptions = {}): StNumbering {
+export function stNumbering(graph: ReadonlyGraph, s: VertexId, t: VertexId, options: StNumberingOptions = {}): StNumbering {
   const { graph: sanitized } = sanitizeUndirected(graph, options);
   const n = sanitized.vertexCount();
   if (s === t) throw new Error('st-numbering requires distinct s and t.');
@@ -94,18 +94,21 @@ export function stNumbering(graph: Graph, s: VertexId, t: VertexId, options: StN
     adjacency[s]?.push({ to: t, edge: extraEdgeId });
     adjacency[t]?.push({ to: s, edge: extraEdgeId });
   }
+  // The search has to take the edge st first, so that t is the first child of s.
+  adjacency[s]?.sort((a, b) => Number(b.to === t) - Number(a.to === t));
 
   const dfsNum = Array(n).fill(-1);
   const lowNum = Array(n).fill(0);
   const parent = Array(n).fill(-1);
   const parentEdge = Array(n).fill(-1);
-  const postOrder: VertexId[] = [];
+  const preOrder: VertexId[] = [];
   let time = 0;
 
   const dfs = (v: VertexId) => {
     dfsNum[v] = time;
     lowNum[v] = time;
     time += 1;
+    preOrder.push(v);
 
     const neighbors = adjacency[v] ?? [];
     for (const adj of neighbors) {
@@ -124,7 +127,6 @@ export function stNumbering(graph: Graph, s: VertexId, t: VertexId, options: StN
         }
       }
     }
-    postOrder.push(v);
   };
 
   dfs(s);
@@ -163,15 +165,19 @@ export function stNumbering(graph: Graph, s: VertexId, t: VertexId, options: StN
     }
   };
 
-  const processOrder = postOrder.slice().reverse();
-  for (const v of processOrder) {
+  // Tarjan: in preorder, each vertex goes right before or after its parent, on the side its
+  // lowpoint's sign points to, and the parent's sign then points away from it.
+  const sign = Array(n).fill(-1);
+  for (const v of preOrder) {
     if (v === s || v === t) continue;
     const parentV = parent[v];
-    if (parentV === -1) continue;
-    if (lowNum[v] < dfsNum[parentV]) {
+    const lowVertex = preOrder[lowNum[v]]!;
+    if (sign[lowVertex] === -1) {
       insertBefore(v, parentV);
+      sign[parentV] = 1;
     } else {
       insertAfter(v, parentV);
+      sign[parentV] = -1;
     }
   }
 
@@ -202,7 +208,7 @@ export type BipolarOrientation = {
 
 export function bipolarOrientation(mesh: HalfEdgeMesh, s: VertexId, t: VertexId): BipolarOrientation {
   const builder = new GraphBuilder();
-  const vertexCount = Math.max(...mesh.origin) + 1;
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
   for (let i = 0; i < vertexCount; i += 1) builder.addVertex(i);
   const edgeCount = mesh.halfEdgeCount / 2;
   for (let e = 0; e < edgeCount; e += 1) {
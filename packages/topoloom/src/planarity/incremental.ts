@@ -0,0 +1,168 @@
+import type { VertexId } from '../graph';
+import { planarityLeftRight } from './ts';
+import type { PlanarityEdgeSpec } from './ts';
+
+// Planarity of a growing planar graph under edge insertions. A graph is planar iff its blocks
+// are, and adding edges only merges the blocks along the block-cut tree path between their ends,
+// so a test runs the left-right algorithm on the blocks the new edges end up in rather than on
+// the whole graph. The block-cut forest is rooted at a vertex of every component: vertexUp[w] is
+// the block above w (-1 at a root) and blockUp[b] the cut vertex above b. Blocks merge by union
+// by size, their edge lists small into large, and joining two components reroots the smaller,
+// so keeping m edges costs O(m log m) besides the tests. A trial insertion records how to undo
+// every write and rolls back afterwards.
+export const incrementalPlanarity = (n: number) => {
+  const compParent = Array.from({ length: n }, (_, v) => v);
+  const compSize: number[] = Array(n).fill(1);
+  const vertexUp: number[] = Array(n).fill(-1);
+  const blockParent: number[] = [];
+  const blockUp: number[] = [];
+  const specsOf: PlanarityEdgeSpec[][] = [];
+  const pairs = new Set<number>();
+  const undo: Array<() => void> = [];
+
+  const write = (array: number[], i: number, value: number) => {
+    const old = array[i]!;
+    undo.push(() => {
+      array[i] = old;
+    });
+    array[i] = value;
+  };
+  const findComp = (v: number) => {
+    while (compParent[v] !== v) v = compParent[v]!;
+    return v;
+  };
+  const findBlock = (b: number) => {
+    while (blockParent[b] !== b) b = blockParent[b]!;
+    return b;
+  };
+  const newBlock = (spec: PlanarityEdgeSpec, up: VertexId) => {
+    const b = blockParent.length;
+    blockParent.push(b);
+    blockUp.push(up);
+    specsOf.push([spec]);
+    undo.push(() => {
+      blockParent.pop();
+      blockUp.pop();
+      specsOf.pop();
+    });
+    return b;
+  };
+  const unionBlocks = (a: number, b: number) => {
+    const [large, small] = specsOf[a]!.length >= specsOf[b]!.length ? [a, b] : [b, a];
+    const list = specsOf[large]!;
+    const length = list.length;
+    undo.push(() => {
+      list.length = length;
+    });
+    for (const spec of specsOf[small]!) list.push(spec);
+    write(blockParent, small, large);
+    return large;
+  };
+
+  // Makes w the root of its component by turning the parent links above it around.
+  const reroot = (w: number) => {
+    let below = -1;
+    for (let current = w; ; ) {
+      const up = vertexUp[current] === -1 ? -1 : findBlock(vertexUp[current]!);
+      write(vertexUp, current, below);
+      if (up === -1) return;
+      const next = blockUp[up]!;
+      write(blockUp, up, current);
+      below = up;
+      current = next;
+    }
+  };
+
+  // Blocks on the tree path between u and v and the topmost node of the path, found by climbing
+  // from both ends in turn so the cost stays within the path's length. Vertex w is node 2w and
+  // block b is node 2b + 1.
+  const treePath = (u: VertexId, v: VertexId) => {
+    const parentOf = (node: number) => {
+      if (node % 2 === 1) return 2 * blockUp[(node - 1) / 2]!;
+      const up = vertexUp[node / 2]!;
+      return up === -1 ? -1 : 2 * findBlock(up) + 1;
+    };
+    const sides = [
+      { path: [2 * u], seen: new Set([2 * u]) },
+      { path: [2 * v], seen: new Set([2 * v]) },
+    ];
+    let top = -1;
+    while (top === -1) {
+      for (const [mine, other] of [sides, [sides[1]!, sides[0]!]] as const) {
+        const next = parentOf(mine.path[mine.path.length - 1]!);
+        if (next === -1) continue;
+        mine.path.push(next);
+        mine.seen.add(next);
+        if (other.seen.has(next)) {
+          top = next;
+          break;
+        }
+      }
+    }
+    const blocks = new Set<number>();
+    for (const { path } of sides) {
+      for (const node of path.slice(0, path.indexOf(top) + 1)) {
+        if (node % 2 === 1) blocks.add((node - 1) / 2);
+      }
+    }
+    return { blocks, top };
+  };
+
+  // Inserts the edge and returns the block it lies in, or -1 for loops and parallel edges, which
+  // leave the blocks as they are.
+  const link = (spec: PlanarityEdgeSpec) => {
+    const { u, v } = spec;
+    const key = Math.min(u, v) * n + Math.max(u, v);
+    if (u === v || pairs.has(key)) return -1;
+    pairs.add(key);
+    undo.push(() => pairs.delete(key));
+    const [cu, cv] = [findComp(u), findComp(v)];
+    if (cu !== cv) {
+      const [keep, move] = compSize[cu]! >= compSize[cv]! ? [u, v] : [v, u];
+      const [large, small] = compSize[cu]! >= compSize[cv]! ? [cu, cv] : [cv, cu];
+      reroot(move);
+      const b = newBlock(spec, keep);
+      write(vertexUp, move, b);
+      write(compParent, small, large);
+      write(compSize, large, compSize[large]! + compSize[small]!);
+      return b;
+    }
+    const { blocks, top } = treePath(u, v);
+    const up = top % 2 === 1 ? blockUp[(top - 1) / 2]! : top / 2;
+    const merged = [...blocks].reduce(unionBlocks);
+    write(blockUp, merged, up);
+    const list = specsOf[merged]!;
+    list.push(spec);
+    undo.push(() => {
+      list.length -= 1;
+    });
+    return merged;
+  };
+
+  const rollback = (mark: number) => {
+    while (undo.length > mark) undo.pop()!();
+  };
+
+  return {
+    connected: (u: VertexId, v: VertexId) => findComp(u) === findComp(v),
+    add: (spec: PlanarityEdgeSpec) => {
+      link(spec);
+      undo.length = 0;
+    },
+    // Whether adding every edge of specs keeps the graph planar; the graph is left unchanged.
+    planarWith: (specs: PlanarityEdgeSpec[]) => {
+      const homes = specs.map(link).filter((b) => b !== -1);
+      const roots = new Set(homes.map(findBlock));
+      const local = new Map<VertexId, number>();
+      const trial: PlanarityEdgeSpec[] = [];
+      for (const b of roots) {
+        for (const { id, u, v } of specsOf[b]!) {
+          for (const w of [u, v]) if (!local.has(w)) local.set(w, local.size);
+          trial.push({ id, u: local.get(u)!, v: local.get(v)! });
+        }
+      }
+      rollback(0);
+      return planarityLeftRight(local.size, trial) !== null;
+    },
+  };
+};
@@ -1,12 +1,61 @@
-import type { EdgeId, Graph, VertexId } from '../graph';
-import type { RotationSystem } from '../embedding';
+import { CsrGraph, GraphBuilder, type EdgeId, type ReadonlyGraph, type VertexId } from '../graph';
+import { buildHalfEdgeMesh } from '../embedding';
+import type { FaceId, HalfEdgeId, HalfEdgeMesh, RotationSystem } from '../embedding';
+import { spqrDecomposeAll } from '../decomp';
+import { biconnectedComponents } from '../dfs';
+import type { SPQRForest, SPQRTree } from '../decomp';
 import { allocInt32Ptr, getPlanarityWasm, viewInt32 } from './wasm';
-import { planarityLeftRight, planarityWitness, type PlanarityEdgeSpec } from './ts';
+import {
+  kuratowskiWitness,
+  outerplanarityWitness,
+  planarityLeftRight,
+  planarityWitness,
+  type PlanarityEdgeSpec,
+} from './ts';
+import { assignUpwardAngles, isBimodal, upwardBlockEmbedding } from './upward';
+import { levelPlanarOrders } from './level';
+import { searchTorusRotation } from './torus';
+import { incrementalPlanarity } from './incremental';
 
+// One subdivided edge of the Kuratowski graph, walked from ends[0] to ends[1].
+export type KuratowskiPath = {
+  ends: [VertexId, VertexId];
+  vertices: VertexId[];
+  edges: EdgeId[];
+};
+
+// A Kuratowski subdivision and nothing more: deleting any of its edges leaves a planar graph.
+// K5 lists its paths by branch pair (0,1), (0,2), ..., (3,4); K3,3 puts one side in
+// branchVertices[0..2], the other in [3..5], and lists paths row by row from the first side.
 export type PlanarityWitness = {
   type: 'K5' | 'K3,3';
   vertices: VertexId[];
   edges: EdgeId[];
+  branchVertices: VertexId[];
+  paths: KuratowskiPath[];
+};
+
+export type KuratowskiValidation = { ok: boolean; errors: string[] };
+
+// A K4 or K2,3 subdivision laid out like PlanarityWitness; for K2,3 the degree-3 vertices come
+// first and branchVertices[2..4] are the first inner vertices of the three paths between them.
+export type OuterplanarityWitness = {
+  type: 'K4' | 'K2,3';
+  vertices: VertexId[];
+  edges: EdgeId[];
+  branchVertices: VertexId[];
+  paths: KuratowskiPath[];
+};
+
+// boundary lists every vertex once, in order around the face that holds them all.
+export type OuterplanarityResult =
+  | ({ outerplanar: true; embedding: RotationSystem; boundary: VertexId[] } & PlanarityMeta)
+  | ({ outerplanar: false; witness: OuterplanarityWitness } & PlanarityMeta);
+
+export type KuratowskiSubgraphOptions = PlanarityOptions & {
+  limit?: number;
+  // 'edges' keeps the witnesses edge-disjoint, 'vertices' keeps them vertex-disjoint.
+  distinct?: 'edges' | 'vertices';
 };
 
 export type PlanarityOptions = {
@@ -29,11 +78,11 @@ const EMBEDFLAGS_PLANAR = 1;
 const OK = 1;
 const NONEMBEDDABLE = -1;
 
-const toPlanarityEdges = (edges: ReturnType<Graph['edges']>): PlanarityEdgeSpec[] => {
+const toPlanarityEdges = (edges: ReturnType<ReadonlyGraph['edges']>): PlanarityEdgeSpec[] => {
   return edges.map((edge) => ({ id: edge.id, u: edge.u, v: edge.v }));
 };
 
-export function testPlanarity(graph: Graph, options: PlanarityOptions = {}): PlanarityResult {
+export function testPlanarity(graph: ReadonlyGraph, options: PlanarityOptions = {}): PlanarityResult {
   const n = graph.vertexCount();
   const edges = graph.edges();
   const treatDirected = options.treatDirectedAsUndirected ?? true;
@@ -43,7 +92,6 @@ export function testPlanarity(graph: Graph, options: PlanarityOptions = {}): Pla
   const ignoredSelfLoops: EdgeId[] = [];
   const loopsByVertex: EdgeId[][] = Array.from({ length: n }, () => []);
   const included: typeof edges = [];
-  const edgeMap: EdgeId[] = [];
 
   if (n === 0) {
     return { planar: true, embedding: { order: [] } };
@@ -62,7 +110,6 @@ export function testPlanarity(graph: Graph, options: PlanarityOptions = {}): Pla
       throw new Error('Planarity test requires an undirected graph.');
     }
     included.push(edge);
-    edgeMap.push(edge.id);
   }
 
   if (included.length === 0) {
@@ -187,36 +234,19 @@ export function testPlanarity(graph: Graph, options: PlanarityOptions = {}): Pla
       }
     } else if (embedResult === NONEMBEDDABLE) {
       const edgeCount = wasm.tl_planarity_witness_edge_count();
-      const vertexCount = wasm.tl_planarity_witness_vertex_count();
-      const witnessType = wasm.tl_planarity_witness_type();
-
       const edgePtr = allocInt32Ptr(wasm, edgeCount);
-      const vertexPtr = allocInt32Ptr(wasm, vertexCount);
       const edgeView = viewInt32(wasm, edgePtr, edgeCount);
-      const vertexView = viewInt32(wasm, vertexPtr, vertexCount);
 
       try {
         wasm.tl_planarity_write_witness_edges(edgePtr);
-        wasm.tl_planarity_write_witness_vertices(vertexPtr);
-
-        const edgesOut = Array.from(edgeView)
-          .filter((id) => id >= 0)
-          .map((idx) => edgeMap[idx] ?? -1)
-          .filter((id) => id >= 0) as EdgeId[];
-        const verticesOut = Array.from(vertexView).filter((id) => id >= 0) as VertexId[];
-
-        result = {
-          planar: false,
-          witness: {
-            type: witnessType === 5 ? 'K5' : 'K3,3',
-            vertices: verticesOut,
-            edges: edgesOut,
-          },
-          ...meta,
-        };
+        const specs = Array.from(edgeView)
+          .map((idx) => planarityEdges[idx])
+          .filter((spec): spec is PlanarityEdgeSpec => spec !== undefined);
+        // The native core may hand back a few spare edges; the TS reduction trims them.
+        const witness = kuratowskiWitness(specs) ?? planarityWitness(n, specs);
+        result = { planar: false, witness, ...meta };
       } finally {
         wasm.free(edgePtr);
-        wasm.free(vertexPtr);
       }
     } else {
       throw new Error('Planarity test failed in native core.');
@@ -229,3 +259,645 @@ export function testPlanarity(graph: Graph, options: PlanarityOptions = {}): Pla
 
   return result;
 }
+
+// Branch vertex counts per side; a zero second side means a complete graph.
+const WITNESS_SIDES = { K5: [5, 0], 'K3,3': [3, 3], K4: [4, 0], 'K2,3': [2, 3] } as const;
+
+// Checks that the witness is an exact subdivision of its graph type in graph, path by path.
+export function verifyKuratowskiWitness(
+  graph: ReadonlyGraph,
+  witness: PlanarityWitness | OuterplanarityWitness,
+): KuratowskiValidation {
+  const errors: string[] = [];
+  const branch = witness.branchVertices;
+  const [left, right] = WITNESS_SIDES[witness.type];
+  const branchCount = left + right;
+  const pairs: Array<[VertexId | undefined, VertexId | undefined]> = [];
+  for (let i = 0; i < left; i += 1) {
+    for (let j = right === 0 ? i + 1 : left; j < branchCount; j += 1) {
+      pairs.push([branch[i], branch[j]]);
+    }
+  }
+
+  if (branch.length !== branchCount) {
+    errors.push(
+      `${witness.type} witness needs ${branchCount} branch vertices, got ${branch.length}.`,
+    );
+  }
+  if (new Set(branch).size !== branch.length) {
+    errors.push('Branch vertices must be distinct.');
+  }
+  if (branch.some((v) => !Number.isInteger(v) || v < 0 || v >= graph.vertexCount())) {
+    errors.push('Branch vertices must belong to the graph.');
+  }
+  if (witness.paths.length !== pairs.length) {
+    const count = witness.paths.length;
+    errors.push(`${witness.type} witness needs ${pairs.length} paths, got ${count}.`);
+  }
+
+  const branchSet = new Set(branch);
+  const usedVertices = new Set<VertexId>(branch);
+  const usedEdges = new Set<EdgeId>();
+  witness.paths.forEach((path, index) => {
+    const [a, b] = pairs[index] ?? [];
+    const label = `Path ${index}`;
+    if (path.ends[0] !== a || path.ends[1] !== b) {
+      errors.push(`${label} must join ${a} and ${b}, got ${path.ends[0]} and ${path.ends[1]}.`);
+    }
+    if (
+      path.edges.length === 0 ||
+      path.vertices.length !== path.edges.length + 1 ||
+      path.vertices[0] !== path.ends[0] ||
+      path.vertices[path.vertices.length - 1] !== path.ends[1]
+    ) {
+      errors.push(`${label} vertices must run from ends[0] to ends[1] along its edges.`);
+      return;
+    }
+    path.edges.forEach((edgeId, step) => {
+      if (!Number.isInteger(edgeId) || edgeId < 0 || edgeId >= graph.edgeCount()) {
+        errors.push(`${label} uses unknown edge ${edgeId}.`);
+        return;
+      }
+      if (usedEdges.has(edgeId)) {
+        errors.push(`Edge ${edgeId} appears on more than one path.`);
+      }
+      usedEdges.add(edgeId);
+      const edge = graph.edge(edgeId);
+      const from = path.vertices[step];
+      const to = path.vertices[step + 1];
+      if (!((edge.u === from && edge.v === to) || (edge.u === to && edge.v === from))) {
+        errors.push(`${label} edge ${edgeId} does not join ${from} and ${to}.`);
+      }
+    });
+    for (const v of path.vertices.slice(1, -1)) {
+      if (branchSet.has(v)) {
+        errors.push(`${label} passes through branch vertex ${v}.`);
+      } else if (usedVertices.has(v)) {
+        errors.push(`Vertex ${v} lies on more than one path.`);
+      }
+      usedVertices.add(v);
+    }
+  });
+
+  const sameSet = <T>(list: T[], set: Set<T>) =>
+    list.length === set.size && list.every((item) => set.has(item));
+  if (!sameSet(witness.edges, usedEdges)) {
+    errors.push('Witness edges must be exactly the path edges.');
+  }
+  if (!sameSet(witness.vertices, usedVertices)) {
+    errors.push('Witness vertices must be exactly the path vertices.');
+  }
+
+  return { ok: errors.length === 0, errors };
+}
+
+// Yields witnesses one at a time, each taken from what the earlier witnesses left of the graph.
+export function* kuratowskiSubgraphs(
+  graph: ReadonlyGraph,
+  options: KuratowskiSubgraphOptions = {},
+): Generator<PlanarityWitness, void, undefined> {
+  const limit = options.limit ?? Number.POSITIVE_INFINITY;
+  const distinct = options.distinct ?? 'edges';
+  const n = graph.vertexCount();
+  let remaining = graph.edges();
+
+  for (let found = 0; found < limit; found += 1) {
+    const view = CsrGraph.fromEdges(
+      n,
+      remaining.map((edge) => edge.u),
+      remaining.map((edge) => edge.v),
+      remaining.map((edge) => (edge.directed ? 1 : 0)),
+    );
+    const result = testPlanarity(view, options);
+    if (result.planar) return;
+    const toOriginal = (id: EdgeId) => remaining[id]!.id;
+    const witness: PlanarityWitness = {
+      ...result.witness,
+      edges: result.witness.edges.map(toOriginal),
+      paths: result.witness.paths.map((path) => ({ ...path, edges: path.edges.map(toOriginal) })),
+    };
+    if (distinct === 'vertices') {
+      const used = new Set(witness.vertices);
+      remaining = remaining.filter((edge) => !used.has(edge.u) && !used.has(edge.v));
+    } else {
+      const used = new Set(witness.edges);
+      remaining = remaining.filter((edge) => !used.has(edge.id));
+    }
+    yield witness;
+  }
+}
+
+// Skewness (fewest edge deletions to planarity) is at least the number of disjoint witnesses,
+// and at least the number of distinct vertex pairs beyond Euler's 3n - 6.
+export function skewnessLowerBound(
+  graph: ReadonlyGraph,
+  options: KuratowskiSubgraphOptions = {},
+): number {
+  const witnesses = [...kuratowskiSubgraphs(graph, options)].length;
+  const n = graph.vertexCount();
+  const pairs = new Set(
+    graph
+      .edges()
+      .filter((edge) => edge.u !== edge.v)
+      .map((edge) => (edge.u < edge.v ? edge.u * n + edge.v : edge.v * n + edge.u)),
+  );
+  const euler = n >= 3 ? pairs.size - (3 * n - 6) : 0;
+  return Math.max(witnesses, euler);
+}
+
+// A graph is outerplanar exactly when adding an apex joined to every vertex keeps it planar.
+export function testOuterplanarity(
+  graph: ReadonlyGraph,
+  options: PlanarityOptions = {},
+): OuterplanarityResult {
+  const n = graph.vertexCount();
+  const edges = graph.edges();
+  const m = edges.length;
+  const vertices = graph.vertices();
+  const withApex = CsrGraph.fromEdges(
+    n + 1,
+    [...edges.map((edge) => edge.u), ...vertices],
+    [...edges.map((edge) => edge.v), ...vertices.map(() => n)],
+    [...edges.map((edge) => (edge.directed ? 1 : 0)), ...vertices.map(() => 0)],
+  );
+  const result = testPlanarity(withApex, options);
+  const meta: PlanarityMeta = {};
+  if (result.ignoredSelfLoops) meta.ignoredSelfLoops = result.ignoredSelfLoops;
+  if (result.treatedDirectedAsUndirected) meta.treatedDirectedAsUndirected = true;
+
+  if (result.planar) {
+    const order = result.embedding.order
+      .slice(0, n)
+      .map((list) => list.filter((ref) => ref.edge < m));
+    const boundary = (result.embedding.order[n] ?? []).map((ref) => ref.to);
+    return { outerplanar: true, embedding: { order }, boundary, ...meta };
+  }
+  // Whatever the Kuratowski witness keeps of the original edges is already not outerplanar.
+  const kept = result.witness.edges
+    .filter((id) => id < m)
+    .map((id) => ({ id, u: edges[id]!.u, v: edges[id]!.v }));
+  return { outerplanar: false, witness: outerplanarityWitness(kept), ...meta };
+}
+
+export type PlanarSubgraphStrategy = 'incremental' | 'random' | 'cactus';
+
+export type PlanarSubgraphOptions = {
+  // 'incremental' keeps edges in input order, 'random' keeps the best of several shuffled orders
+  // and 'cactus' starts from a triangular cactus before completing in input order. All of them
+  // insert through the incremental tester, which only retests the blocks an insertion merges.
+  strategy?: PlanarSubgraphStrategy;
+  restarts?: number;
+  seed?: number;
+};
+
+export type PlanarSubgraphResult = {
+  strategy: PlanarSubgraphStrategy;
+  kept: EdgeId[];
+  removed: EdgeId[];
+  planarityTests: number;
+};
+
+const shuffled = <T>(items: T[], seed: number) => {
+  // Mulberry32, so restarts are reproducible from the seed.
+  let state = seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j]!, out[i]!];
+  }
+  return out;
+};
+
+export function maximalPlanarSubgraph(
+  graph: ReadonlyGraph,
+  options: PlanarSubgraphOptions = {},
+): PlanarSubgraphResult {
+  const strategy = options.strategy ?? 'incremental';
+  const n = graph.vertexCount();
+  const edges = graph.edges();
+  const pairKey = (u: VertexId, v: VertexId) => (u < v ? u * n + v : v * n + u);
+  let planarityTests = 0;
+
+  // Insertion in the given order on an incremental tester (incrementalPlanarity). Edges that
+  // join two components, loops and parallel copies can never break planarity; otherwise a
+  // galloping search finds the longest run of edges that still keeps the subgraph planar, so each
+  // rejected edge costs O(log m) tests. A test only runs over the blocks the run's edges merge
+  // into, O(n + m) at worst when the kept subgraph is one block.
+  const complete = (order: EdgeId[], start: EdgeId[]) => {
+    const kept: EdgeId[] = [];
+    const pairs = new Set<number>();
+    const tester = incrementalPlanarity(n);
+    const spec = (id: EdgeId) => ({ id, u: edges[id]!.u, v: edges[id]!.v });
+    const keep = (id: EdgeId) => {
+      const { u, v } = edges[id]!;
+      kept.push(id);
+      pairs.add(pairKey(u, v));
+      tester.add(spec(id));
+    };
+    const planarWith = (run: EdgeId[]) => {
+      planarityTests += 1;
+      return tester.planarWith(run.map(spec));
+    };
+
+    for (const id of start) keep(id);
+    const chosen = new Set(start);
+    const pending = order.filter((id) => !chosen.has(id));
+    const removed: EdgeId[] = [];
+    let i = 0;
+    while (i < pending.length) {
+      const { u, v } = edges[pending[i]!]!;
+      if (u === v || pairs.has(pairKey(u, v)) || !tester.connected(u, v)) {
+        keep(pending[i]!);
+        i += 1;
+        continue;
+      }
+      let good = 0;
+      let bad = -1;
+      for (let length = 1; ; length *= 2) {
+        const size = Math.min(length, pending.length - i);
+        if (!planarWith(pending.slice(i, i + size))) {
+          bad = size;
+          break;
+        }
+        good = size;
+        if (i + size === pending.length) break;
+      }
+      while (bad !== -1 && bad - good > 1) {
+        const middle = (good + bad) >> 1;
+        if (planarWith(pending.slice(i, i + middle))) good = middle;
+        else bad = middle;
+      }
+      for (const id of pending.slice(i, i + good)) keep(id);
+      i += good;
+      if (bad !== -1) {
+        removed.push(pending[i]!);
+        i += 1;
+      }
+    }
+    return { kept, removed };
+  };
+
+  // Triangles whose corners lie in three different components form a triangular cactus.
+  const triangularCactus = () => {
+    const parent = Array.from({ length: n }, (_, v) => v);
+    const find = (v: number): number => {
+      while (parent[v] !== v) {
+        parent[v] = parent[parent[v]!]!;
+        v = parent[v]!;
+      }
+      return v;
+    };
+    const edgeOf = new Map<number, EdgeId>();
+    const neighbours: Array<Set<VertexId>> = Array.from({ length: n }, () => new Set());
+    for (const { id, u, v } of edges) {
+      if (u === v || edgeOf.has(pairKey(u, v))) continue;
+      edgeOf.set(pairKey(u, v), id);
+      neighbours[u]!.add(v);
+      neighbours[v]!.add(u);
+    }
+    const cactus: EdgeId[] = [];
+    for (const id of edgeOf.values()) {
+      const { u, v } = edges[id]!;
+      for (const w of neighbours[u]!) {
+        if (!neighbours[v]!.has(w) || new Set([find(u), find(v), find(w)]).size < 3) continue;
+        cactus.push(id, edgeOf.get(pairKey(v, w))!, edgeOf.get(pairKey(w, u))!);
+        parent[find(u)] = find(w);
+        parent[find(v)] = find(w);
+      }
+    }
+    return cactus;
+  };
+
+  const inputOrder = edges.map((edge) => edge.id);
+  let best = complete(inputOrder, strategy === 'cactus' ? triangularCactus() : []);
+  if (strategy === 'random') {
+    const restarts = options.restarts ?? 8;
+    for (let r = 1; r < restarts; r += 1) {
+      const candidate = complete(shuffled(inputOrder, (options.seed ?? 1) + r), []);
+      if (candidate.removed.length < best.removed.length) best = candidate;
+    }
+  }
+
+  return {
+    strategy,
+    kept: best.kept.slice().sort((a, b) => a - b),
+    removed: best.removed.slice().sort((a, b) => a - b),
+    planarityTests,
+  };
+}
+
+export type UpwardFailure = 'cyclic' | 'not-bimodal' | 'nonplanar' | 'no-upward-embedding';
+
+export type UpwardEmbeddingOptions = {
+  // Face that has to be the outer one; by default every face is tried.
+  outerFace?: FaceId;
+};
+
+// largeAngles names, for every source and sink, the half-edge h whose angle at origin[h] (between
+// prev[h] and h) opens wider than 180 degrees in an upward drawing.
+export type UpwardEmbeddingResult =
+  | { upward: true; outerFace: FaceId; largeAngles: HalfEdgeId[] }
+  | { upward: false; reason: UpwardFailure };
+
+// mesh is built over the undirected copy of the graph with the same edge ids.
+export type UpwardPlanarityResult =
+  | {
+      upward: true;
+      embedding: RotationSystem;
+      mesh: HalfEdgeMesh;
+      outerFace: FaceId;
+      largeAngles: HalfEdgeId[];
+    }
+  | { upward: false; reason: UpwardFailure };
+
+const directedTails = (graph: ReadonlyGraph) =>
+  graph.edges().map((edge) => {
+    if (!edge.directed) throw new Error('Upward planarity requires every edge to be directed.');
+    return edge.u;
+  });
+
+const isAcyclic = (graph: ReadonlyGraph) => {
+  const n = graph.vertexCount();
+  const inDegree: number[] = Array(n).fill(0);
+  const heads: VertexId[][] = Array.from({ length: n }, () => []);
+  for (const edge of graph.edges()) {
+    inDegree[edge.v] = inDegree[edge.v]! + 1;
+    heads[edge.u]!.push(edge.v);
+  }
+  const queue = graph.vertices().filter((v) => inDegree[v] === 0);
+  let seen = 0;
+  while (queue.length > 0) {
+    const v = queue.pop()!;
+    seen += 1;
+    for (const w of heads[v]!) {
+      inDegree[w] = inDegree[w]! - 1;
+      if (inDegree[w] === 0) queue.push(w);
+    }
+  }
+  return seen === n;
+};
+
+// Exact test for one embedding: an upward drawing exists iff the embedding is bimodal and the
+// large angles of the sources and sinks can be spread over the faces (a flow problem).
+export function testUpwardEmbedding(
+  graph: ReadonlyGraph,
+  mesh: HalfEdgeMesh,
+  options: UpwardEmbeddingOptions = {},
+): UpwardEmbeddingResult {
+  const tails = directedTails(graph);
+  const edges = graph.edges();
+  const matches = edges.every((edge) => {
+    const ends = [mesh.origin[2 * edge.id], mesh.origin[2 * edge.id + 1]];
+    return ends.includes(edge.u) && ends.includes(edge.v);
+  });
+  if (mesh.halfEdgeCount !== 2 * edges.length || !matches) {
+    throw new Error('Mesh does not match the graph.');
+  }
+  const reached = new Set<VertexId>(edges.length ? [edges[0]!.u] : []);
+  const stack = [...reached];
+  while (stack.length > 0) {
+    for (const adj of graph.adjacency(stack.pop()!)) {
+      if (reached.has(adj.to)) continue;
+      reached.add(adj.to);
+      stack.push(adj.to);
+    }
+  }
+  const touched = new Set(edges.flatMap((edge) => [edge.u, edge.v]));
+  if (reached.size !== touched.size || mesh.faces.length !== edges.length - touched.size + 2) {
+    throw new Error('Upward embedding test needs a connected planar embedding.');
+  }
+
+  if (!isAcyclic(graph)) return { upward: false, reason: 'cyclic' };
+  if (!isBimodal(mesh, tails)) return { upward: false, reason: 'not-bimodal' };
+  const angles = assignUpwardAngles(mesh, tails, options.outerFace);
+  if (!angles) return { upward: false, reason: 'no-upward-embedding' };
+  return { upward: true, ...angles };
+}
+
+// Single-source digraphs are upward planar exactly when each block is, and a block hangs from its
+// own source. Each block is settled in polynomial time on its SPQR tree (upwardBlockEmbedding),
+// and the embedding it finds is checked with the fixed-embedding test.
+export function testUpwardPlanarity(graph: ReadonlyGraph): UpwardPlanarityResult {
+  const tails = directedTails(graph);
+  const n = graph.vertexCount();
+  const edges = graph.edges();
+  if (!isAcyclic(graph)) return { upward: false, reason: 'cyclic' };
+  const heads = new Set(edges.map((edge) => edge.v));
+  const sources = graph.vertices().filter((v) => !heads.has(v));
+  if (sources.length !== 1 || edges.length === 0) {
+    throw new Error('Upward planarity testing needs a single-source digraph with an edge.');
+  }
+  if (!testPlanarity(graph).planar) return { upward: false, reason: 'nonplanar' };
+
+  const builder = new GraphBuilder();
+  for (const v of graph.vertices()) builder.addVertex(graph.label(v));
+  for (const edge of edges) builder.addEdge(edge.u, edge.v, false);
+  const undirected = builder.build();
+  const other = (edge: EdgeId, v: VertexId) =>
+    edges[edge]!.u === v ? edges[edge]!.v : edges[edge]!.u;
+
+  const embedBlock = (blockEdges: EdgeId[], tree: SPQRTree) => {
+    const vertices = [...new Set(blockEdges.flatMap((e) => [edges[e]!.u, edges[e]!.v]))];
+    const local = new Map(vertices.map((v, i) => [v, i]));
+    const localEdge = new Map(blockEdges.map((e, i) => [e, i]));
+    const k = vertices.length;
+    const us = blockEdges.map((e) => local.get(edges[e]!.u)!);
+    const vs = blockEdges.map((e) => local.get(edges[e]!.v)!);
+    const tryOrder = (order: RotationSystem['order']) => {
+      const mesh = buildHalfEdgeMesh(CsrGraph.fromEdges(k, us, vs), { order });
+      if (mesh.faces.length !== blockEdges.length - k + 2) return null;
+      const angles = assignUpwardAngles(mesh, us);
+      return angles ? { vertices, order, mesh, angles } : null;
+    };
+
+    if (blockEdges.length === 1) return tryOrder([[{ edge: 0, to: 1 }], [{ edge: 0, to: 0 }]]);
+    const source = vertices.find((v) => !vs.includes(local.get(v)!))!;
+    const lists = upwardBlockEmbedding(tree, tails, source);
+    if (!lists) return null;
+    const embedded = tryOrder(
+      vertices.map((v) =>
+        (lists.get(v) ?? []).map((e) => ({ edge: localEdge.get(e)!, to: local.get(other(e, v))! })),
+      ),
+    );
+    if (!embedded) {
+      throw new Error('Upward planarity test built a block embedding that is not upward.');
+    }
+    return embedded;
+  };
+
+  const forest = spqrDecomposeAll(undirected);
+  const blocksBySource = new Map<VertexId, SPQRForest['blocks']>();
+  for (const block of forest.blocks) {
+    const inside = new Set(block.edges.map((e) => edges[e]!.v));
+    const source = block.edges.map((e) => edges[e]!.u).find((v) => !inside.has(v))!;
+    blocksBySource.set(source, [...(blocksBySource.get(source) ?? []), block]);
+  }
+
+  // Blocks are glued at their source, beside an outgoing edge there or else into the large
+  // angle the vertex has as a sink of its parent block.
+  const rings: EdgeId[][] = Array.from({ length: n }, () => []);
+  const largeBefore = new Map<VertexId, EdgeId>();
+  const queue = [sources[0]!];
+  while (queue.length > 0) {
+    const x = queue.shift()!;
+    for (const block of blocksBySource.get(x) ?? []) {
+      const embedded = embedBlock(block.edges, block.tree);
+      if (!embedded) return { upward: false, reason: 'no-upward-embedding' };
+      const { vertices, order, mesh, angles } = embedded;
+      const largeAt = new Map(angles.largeAngles.map((h) => [mesh.origin[h]!, mesh.edge[h]!]));
+      let glued: EdgeId[] = [];
+      vertices.forEach((v, i) => {
+        const ring = order[i]!.map((ref) => block.edges[ref.edge]!);
+        const large = largeAt.get(i);
+        if (v !== x) {
+          rings[v] = ring;
+          if (large !== undefined) largeBefore.set(v, block.edges[large]!);
+          queue.push(v);
+          return;
+        }
+        const start = ring.indexOf(block.edges[large!]!);
+        glued = [...ring.slice(start), ...ring.slice(0, start)];
+      });
+      const ring = rings[x]!;
+      const outgoing = (i: number) => tails[ring[(i + ring.length) % ring.length]!] === x;
+      let at = ring.findIndex((_, i) => outgoing(i) && outgoing(i + 1));
+      if (at < 0) at = ring.findIndex((_, i) => outgoing(i));
+      if (at >= 0) at += 1;
+      else if (ring.length > 0) at = ring.indexOf(largeBefore.get(x)!);
+      ring.splice(Math.max(0, at), 0, ...glued);
+    }
+  }
+
+  const embedding: RotationSystem = {
+    order: rings.map((ring, v) => ring.map((edge) => ({ edge, to: other(edge, v) }))),
+  };
+  const mesh = buildHalfEdgeMesh(undirected, embedding);
+  const angles = assignUpwardAngles(mesh, tails);
+  if (!angles) throw new Error('Upward planarity test could not combine its block embeddings.');
+  return { upward: true, embedding, mesh, ...angles };
+}
+
+// A vertex of the graph, or the point where a longer edge passes a level between its ends.
+export type LevelItem = { vertex: VertexId } | { edge: EdgeId };
+
+// orders lists every level from left to right.
+export type LevelPlanarityResult =
+  | { levelPlanar: true; orders: LevelItem[][] }
+  | { levelPlanar: false };
+
+// Whether the graph can be drawn with every vertex on the horizontal line of its level and the
+// edges as y-monotone curves without crossings. Edges run from their lower to their higher end
+// whatever their direction, and self-loops are ignored.
+export function testLevelPlanarity(graph: ReadonlyGraph, level: number[]): LevelPlanarityResult {
+  const n = graph.vertexCount();
+  for (const v of graph.vertices()) {
+    const l = level[v];
+    if (l === undefined || !Number.isInteger(l) || l < 0) {
+      throw new Error('Level planarity needs a non-negative integer level for every vertex.');
+    }
+  }
+  const levelCount = level.slice(0, n).reduce((best, l) => Math.max(best, l), -1) + 1;
+  const levels: number[][] = Array.from({ length: levelCount }, () => []);
+  const items: LevelItem[] = Array.from({ length: n }, (_, v) => ({ vertex: v }));
+  graph.vertices().forEach((v) => levels[level[v]!]!.push(v));
+  const arcs: Array<[number, number]> = [];
+  for (const edge of graph.edges()) {
+    if (edge.u === edge.v) continue;
+    if (level[edge.u] === level[edge.v]) {
+      throw new Error('Level planarity needs the ends of every edge on different levels.');
+    }
+    const [low, high] = level[edge.u]! < level[edge.v]! ? [edge.u, edge.v] : [edge.v, edge.u];
+    let previous = low;
+    for (let l = level[low]! + 1; l < level[high]!; l += 1) {
+      levels[l]!.push(items.length);
+      arcs.push([previous, items.length]);
+      previous = items.length;
+      items.push({ edge: edge.id });
+    }
+    arcs.push([previous, high]);
+  }
+  const orders = levelPlanarOrders(levels, arcs);
+  if (!orders) return { levelPlanar: false };
+  return { levelPlanar: true, orders: orders.map((nodes) => nodes.map((node) => items[node]!)) };
+}
+
+export type ToroidalityOptions = {
+  // 'exact' backtracks until it has an answer, 'heuristic' only runs the local search, and 'auto'
+  // (default) backtracks through maxNodes branches before it falls back to the local search.
+  method?: 'auto' | 'exact' | 'heuristic';
+  maxNodes?: number;
+  // Edge moves of the local search.
+  maxSteps?: number;
+  seed?: number;
+};
+
+// exact is false when the search gave up, so a rotation of genus one may still exist.
+export type ToroidalityResult =
+  | { toroidal: true; genus: 0 | 1; embedding: RotationSystem }
+  | { toroidal: false; exact: boolean };
+
+// Looks for a rotation system of genus at most one, treating directed edges as undirected. Genus
+// adds up over blocks, so planar blocks keep the embedding testPlanarity finds, two nonplanar
+// blocks rule the torus out, and only a single nonplanar block is searched; the block rotations
+// are then chained at cut vertices, with each self-loop's two ends side by side.
+export function testToroidality(
+  graph: ReadonlyGraph,
+  options: ToroidalityOptions = {},
+): ToroidalityResult {
+  const method = options.method ?? 'auto';
+  const search = {
+    maxNodes: { auto: options.maxNodes ?? 100000, exact: Infinity, heuristic: 0 }[method],
+    maxSteps: options.maxSteps ?? 2000,
+    seed: options.seed ?? 1,
+  };
+  const edges = graph.edges();
+  const other = (edge: EdgeId, v: VertexId) =>
+    edges[edge]!.u === v ? edges[edge]!.v : edges[edge]!.u;
+  const order: EdgeId[][] = Array.from({ length: graph.vertexCount() }, () => []);
+  let nonplanar: EdgeId[] | null = null;
+  for (const block of biconnectedComponents(graph).blocks) {
+    const first = edges[block[0]!]!;
+    if (first.u === first.v) {
+      order[first.u]!.push(first.id, first.id);
+      continue;
+    }
+    const vertices = [...new Set(block.flatMap((e) => [edges[e]!.u, edges[e]!.v]))];
+    const local = new Map(vertices.map((v, i) => [v, i]));
+    const us = block.map((e) => local.get(edges[e]!.u)!);
+    const vs = block.map((e) => local.get(edges[e]!.v)!);
+    const result = testPlanarity(CsrGraph.fromEdges(vertices.length, us, vs));
+    if (result.planar) {
+      vertices.forEach((v, i) =>
+        order[v]!.push(...result.embedding.order[i]!.map((ref) => block[ref.edge]!)),
+      );
+      continue;
+    }
+    if (nonplanar) return { toroidal: false, exact: true };
+    nonplanar = block;
+    const simple = new Set(
+      us.map((u, i) => Math.min(u, vs[i]!) * vertices.length + Math.max(u, vs[i]!)),
+    );
+    // A simple graph on the torus has at most 3V edges.
+    if (simple.size === block.length && block.length > 3 * vertices.length) {
+      return { toroidal: false, exact: true };
+    }
+    const found = searchTorusRotation(
+      vertices.length,
+      us.map((u, i) => [u, vs[i]!]),
+      search,
+    );
+    if (!found.found) return { toroidal: false, exact: found.exact };
+    vertices.forEach((v, i) => order[v]!.push(...found.order[i]!.map((h) => block[h >> 1]!)));
+  }
+  const embedding: RotationSystem = {
+    order: order.map((list, v) => list.map((edge) => ({ edge, to: other(edge, v) }))),
+  };
+  return { toroidal: true, genus: nonplanar ? 1 : 0, embedding };
+}
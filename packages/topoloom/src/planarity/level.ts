@@ -0,0 +1,185 @@
+// Randerath et al.: a proper level graph is level planar iff the equations x(u, w) = x(v, z) over
+// every two arcs uv and wz between the same levels with u != w and v != z have a solution, where
+// x(a, b) says a lies left of b. The equations split the pair variables into classes that only
+// flip together; a search over the flips that propagates transitivity turns them into orders.
+// levels lists the nodes of every level and each arc joins a node to one on the next level.
+export const levelPlanarOrders = (
+  levels: number[][],
+  arcs: Array<[number, number]>,
+): number[][] | null => {
+  const levelOf = new Map<number, number>();
+  const position = new Map<number, number>();
+  const offset: number[] = [];
+  let pairCount = 0;
+  levels.forEach((nodes, i) => {
+    nodes.forEach((node, p) => {
+      levelOf.set(node, i);
+      position.set(node, p);
+    });
+    offset.push(pairCount);
+    pairCount += (nodes.length * (nodes.length - 1)) / 2;
+  });
+
+  // Pair (a, b) of positions a < b on a level of size size.
+  const pairLevel = new Int32Array(pairCount);
+  const pairA = new Int32Array(pairCount);
+  const pairB = new Int32Array(pairCount);
+  const pairOf = (level: number, a: number, b: number) => {
+    const size = levels[level]!.length;
+    return offset[level]! + (a * (2 * size - a - 1)) / 2 + (b - a - 1);
+  };
+  levels.forEach((nodes, level) => {
+    for (let a = 0; a < nodes.length; a += 1) {
+      for (let b = a + 1; b < nodes.length; b += 1) {
+        const p = pairOf(level, a, b);
+        pairLevel[p] = level;
+        pairA[p] = a;
+        pairB[p] = b;
+      }
+    }
+  });
+
+  // Union-find with the parity of every pair against its class representative.
+  const parent = Int32Array.from({ length: pairCount }, (_, p) => p);
+  const flip = new Uint8Array(pairCount);
+  const find = (p: number): [number, number] => {
+    let root = p;
+    let parity = 0;
+    while (parent[root] !== root) {
+      parity ^= flip[root]!;
+      root = parent[root]!;
+    }
+    let q = p;
+    let qParity = parity;
+    while (parent[q] !== root) {
+      const next = parent[q]!;
+      const nextParity = qParity ^ flip[q]!;
+      parent[q] = root;
+      flip[q] = qParity;
+      q = next;
+      qParity = nextParity;
+    }
+    return [root, parity];
+  };
+
+  const byUpperLevel: Array<Array<[number, number]>> = levels.map(() => []);
+  for (const [from, to] of arcs) {
+    const level = levelOf.get(from)!;
+    if (levelOf.get(to) !== level + 1) throw new Error('Level graph arc skips or repeats a level.');
+    byUpperLevel[level]!.push([position.get(from)!, position.get(to)!]);
+  }
+  for (let level = 0; level + 1 < levels.length; level += 1) {
+    const group = byUpperLevel[level]!;
+    for (let i = 0; i < group.length; i += 1) {
+      for (let j = i + 1; j < group.length; j += 1) {
+        const [u, v] = group[i]!;
+        const [w, z] = group[j]!;
+        if (u === w || v === z) continue;
+        const [r1, p1] = find(pairOf(level, Math.min(u, w), Math.max(u, w)));
+        const [r2, p2] = find(pairOf(level + 1, Math.min(v, z), Math.max(v, z)));
+        const difference = p1 ^ p2 ^ (u > w ? 1 : 0) ^ (v > z ? 1 : 0);
+        if (r1 !== r2) {
+          parent[r1] = r2;
+          flip[r1] = difference;
+        } else if (difference !== 0) {
+          return null;
+        }
+      }
+    }
+  }
+
+  const rootOf = new Int32Array(pairCount);
+  const parityOf = new Uint8Array(pairCount);
+  const members = new Map<number, number[]>();
+  for (let p = 0; p < pairCount; p += 1) {
+    const [root, parity] = find(p);
+    rootOf[p] = root;
+    parityOf[p] = parity;
+    if (!members.has(root)) members.set(root, []);
+    members.get(root)!.push(p);
+  }
+  const roots = [...members.keys()];
+  const rank = new Map(roots.map((root, i) => [root, i]));
+
+  // value[root] is -1 while its class is open; x(a, b) follows from it and the pair's parity.
+  const value = new Int8Array(pairCount).fill(-1);
+  const pairOfOrdered = (level: number, a: number, b: number) =>
+    a < b ? pairOf(level, a, b) : pairOf(level, b, a);
+  const valueOf = (level: number, a: number, b: number) => {
+    const p = pairOfOrdered(level, a, b);
+    const v = value[rootOf[p]!]!;
+    return v < 0 ? -1 : v ^ parityOf[p]! ^ (a > b ? 1 : 0);
+  };
+  const trail: number[] = [];
+  const queue: number[] = [];
+  const assign = (root: number, v: number) => {
+    value[root] = v;
+    trail.push(root);
+    queue.push(root);
+  };
+  // Makes x(a, b) equal to want.
+  const force = (level: number, a: number, b: number, want: number) => {
+    const p = pairOfOrdered(level, a, b);
+    assign(rootOf[p]!, want ^ parityOf[p]! ^ (a > b ? 1 : 0));
+  };
+
+  // No three nodes a, b, k of a level may have x(a, b), x(b, k) and x(k, a) all equal.
+  const propagate = () => {
+    while (queue.length > 0) {
+      const root = queue.pop()!;
+      for (const p of members.get(root)!) {
+        const level = pairLevel[p]!;
+        const [a, b] = [pairA[p]!, pairB[p]!];
+        for (let k = 0; k < levels[level]!.length; k += 1) {
+          if (k === a || k === b) continue;
+          const ab = valueOf(level, a, b);
+          const bk = valueOf(level, b, k);
+          const ka = valueOf(level, k, a);
+          if (bk < 0 && ka >= 0 && ka === ab) force(level, b, k, 1 - ab);
+          else if (ka < 0 && bk >= 0 && bk === ab) force(level, k, a, 1 - ab);
+          else if (bk === ab && ka === ab) {
+            queue.length = 0;
+            return false;
+          }
+        }
+      }
+    }
+    return true;
+  };
+
+  let next = 0;
+  const undo = (mark: number) => {
+    while (trail.length > mark) {
+      const root = trail.pop()!;
+      value[root] = -1;
+      next = Math.min(next, rank.get(root)!);
+    }
+  };
+  const decisions: Array<{ mark: number; root: number; value: number; retried: boolean }> = [];
+  for (;;) {
+    if (!propagate()) {
+      let decision = decisions.pop();
+      while (decision?.retried) {
+        undo(decision.mark);
+        decision = decisions.pop();
+      }
+      if (!decision) return null;
+      undo(decision.mark);
+      decisions.push({ ...decision, value: 1 - decision.value, retried: true });
+      assign(decision.root, 1 - decision.value);
+      continue;
+    }
+    while (next < roots.length && value[roots[next]!]! >= 0) next += 1;
+    if (next === roots.length) break;
+    const root = roots[next]!;
+    decisions.push({ mark: trail.length, root, value: 1, retried: false });
+    assign(root, 1);
+  }
+
+  return levels.map((nodes, level) =>
+    nodes
+      .map((_, p) => p)
+      .sort((a, b) => (valueOf(level, a, b) === 1 ? -1 : 1))
+      .map((p) => nodes[p]!),
+  );
+};
@@ -0,0 +1,256 @@
+// Rotation systems of genus at most one for a biconnected block without self-loops. Edges go in
+// one at a time, each with an end already placed: across one face the genus stays, between two
+// faces it grows by one, and it never shrinks, so the search cuts every branch past genus one.
+// Half-edge 2e leaves u and 2e + 1 leaves v for edges[e] = [u, v]; faces follow h -> succ[h ^ 1].
+
+export type TorusSearchOptions = {
+  // Branches the exact search may open before it gives up; Infinity never gives up.
+  maxNodes: number;
+  // Edge moves of the local search.
+  maxSteps: number;
+  seed: number;
+};
+
+type Rotation = {
+  origin: number[];
+  succ: number[];
+  pred: number[];
+  // Some placed half-edge at every vertex, or -1.
+  anchor: number[];
+};
+
+const createRotation = (vertexCount: number, edges: Array<[number, number]>): Rotation => ({
+  origin: edges.flatMap(([u, v]) => [u, v]),
+  succ: Array(2 * edges.length).fill(-1),
+  pred: Array(2 * edges.length).fill(-1),
+  anchor: Array(vertexCount).fill(-1),
+});
+
+// Places h right after a in the rotation at its origin (a = -1 when the origin has no edges).
+const placeAfter = (rotation: Rotation, h: number, a: number) => {
+  if (a < 0) {
+    rotation.succ[h] = h;
+    rotation.pred[h] = h;
+    rotation.anchor[rotation.origin[h]!] = h;
+    return;
+  }
+  const s = rotation.succ[a]!;
+  rotation.succ[a] = h;
+  rotation.pred[h] = a;
+  rotation.succ[h] = s;
+  rotation.pred[s] = h;
+};
+
+const unplace = (rotation: Rotation, h: number) => {
+  const v = rotation.origin[h]!;
+  if (rotation.succ[h] === h) {
+    rotation.anchor[v] = -1;
+  } else {
+    const [p, s] = [rotation.pred[h]!, rotation.succ[h]!];
+    rotation.succ[p] = s;
+    rotation.pred[s] = p;
+    if (rotation.anchor[v] === h) rotation.anchor[v] = s;
+  }
+  rotation.succ[h] = -1;
+  rotation.pred[h] = -1;
+};
+
+// The corners at v, each named by the half-edge it follows; [-1] when v has no edges yet.
+const cornersAt = (rotation: Rotation, v: number) => {
+  const start = rotation.anchor[v]!;
+  if (start < 0) return [-1];
+  const corners: number[] = [];
+  let h = start;
+  do {
+    corners.push(h);
+    h = rotation.succ[h]!;
+  } while (h !== start);
+  return corners;
+};
+
+// Genus change of joining the corners after a and after b: the corner after a lies on the face
+// of succ[a], and the two corners share a face exactly when that face reaches succ[b].
+const genusStep = (rotation: Rotation, a: number, b: number) => {
+  if (a < 0 || b < 0) return 0;
+  const [from, to] = [rotation.succ[a]!, rotation.succ[b]!];
+  let h = from;
+  do {
+    if (h === to) return 0;
+    h = rotation.succ[h ^ 1]!;
+  } while (h !== from);
+  return 1;
+};
+
+const faceCount = (rotation: Rotation) => {
+  const seen: boolean[] = Array(rotation.succ.length).fill(false);
+  let faces = 0;
+  for (let start = 0; start < rotation.succ.length; start += 1) {
+    if (seen[start] || rotation.succ[start]! < 0) continue;
+    faces += 1;
+    let h = start;
+    do {
+      seen[h] = true;
+      h = rotation.succ[h ^ 1]!;
+    } while (h !== start);
+  }
+  return faces;
+};
+
+// Edges in the order vertices are reached breadth-first from one of highest degree, each vertex
+// bringing all its edges back to earlier ones, so cycles close (and branches fail) early.
+const insertionOrder = (vertexCount: number, edges: Array<[number, number]>) => {
+  const incident: number[][] = Array.from({ length: vertexCount }, () => []);
+  edges.forEach(([u, v], e) => {
+    incident[u]!.push(e);
+    incident[v]!.push(e);
+  });
+  const other = (e: number, v: number) => (edges[e]![0] === v ? edges[e]![1] : edges[e]![0]);
+  const root = incident.reduce(
+    (best, list, v) => (list.length > incident[best]!.length ? v : best),
+    0,
+  );
+  const rank: number[] = Array(vertexCount).fill(-1);
+  const queue = [root];
+  rank[root] = 0;
+  for (let i = 0; i < queue.length; i += 1) {
+    for (const e of incident[queue[i]!]!) {
+      const w = other(e, queue[i]!);
+      if (rank[w] !== -1) continue;
+      rank[w] = queue.length;
+      queue.push(w);
+    }
+  }
+  return queue.flatMap((v) => incident[v]!.filter((e) => rank[other(e, v)]! < rank[v]!));
+};
+
+const readRotation = (rotation: Rotation, vertexCount: number) =>
+  Array.from({ length: vertexCount }, (_, v) => cornersAt(rotation, v).filter((h) => h >= 0));
+
+// Backtracks over the corners of every edge, trying those that keep the genus first; null when
+// no rotation of genus at most one exists and 'budget' when maxNodes ran out first.
+const exactSearch = (
+  vertexCount: number,
+  edges: Array<[number, number]>,
+  order: number[],
+  maxNodes: number,
+): number[][] | null | 'budget' => {
+  const rotation = createRotation(vertexCount, edges);
+  // choices[i] are the corner pairs (with their genus step) open to order[i]; tried[i] is the one
+  // in place.
+  const choices: Array<Array<[number, number, number]>> = [];
+  const tried: number[] = [];
+  let nodes = 0;
+  let genus = 0;
+  let i = 0;
+  while (i < order.length) {
+    const e = order[i]!;
+    if (choices.length === i) {
+      nodes += 1;
+      if (nodes > maxNodes) return 'budget';
+      const [u, v] = edges[e]!;
+      const pairs = cornersAt(rotation, u).flatMap((a) =>
+        cornersAt(rotation, v).map((b): [number, number, number] => [
+          a,
+          b,
+          genusStep(rotation, a, b),
+        ]),
+      );
+      choices.push(pairs.filter(([, , step]) => genus + step <= 1).sort((x, y) => x[2] - y[2]));
+      tried.push(-1);
+    } else {
+      genus -= choices[i]![tried[i]!]![2];
+      unplace(rotation, 2 * e + 1);
+      unplace(rotation, 2 * e);
+    }
+    tried[i] = tried[i]! + 1;
+    const choice = choices[i]![tried[i]!];
+    if (!choice) {
+      choices.pop();
+      tried.pop();
+      i -= 1;
+      if (i < 0) return null;
+      continue;
+    }
+    placeAfter(rotation, 2 * e, choice[0]);
+    placeAfter(rotation, 2 * e + 1, choice[1]);
+    genus += choice[2];
+    i += 1;
+  }
+  return readRotation(rotation, vertexCount);
+};
+
+// Greedy insertion into the fewest new handles, then moves that take out one edge and put it
+// back at the corners that give the lowest genus. Gives up after maxSteps moves.
+const localSearch = (
+  vertexCount: number,
+  edges: Array<[number, number]>,
+  order: number[],
+  options: TorusSearchOptions,
+): number[][] | null => {
+  // Mulberry32, so searches are reproducible from the seed.
+  let state = options.seed >>> 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const rotation = createRotation(vertexCount, edges);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)]!;
+  const placeBest = (e: number, score: (a: number, b: number) => number) => {
+    const [u, v] = edges[e]!;
+    let best: Array<[number, number]> = [];
+    let bestScore = Infinity;
+    for (const a of cornersAt(rotation, u)) {
+      for (const b of cornersAt(rotation, v)) {
+        const value = score(a, b);
+        if (value < bestScore) [best, bestScore] = [[], value];
+        if (value === bestScore) best.push([a, b]);
+      }
+    }
+    const [a, b] = pick(best);
+    placeAfter(rotation, 2 * e, a);
+    placeAfter(rotation, 2 * e + 1, b);
+    return bestScore;
+  };
+
+  let genus = 0;
+  for (const e of order) genus += placeBest(e, (a, b) => genusStep(rotation, a, b));
+  const edgeCount = edges.length;
+  const genusNow = () => (2 - vertexCount + edgeCount - faceCount(rotation)) / 2;
+  for (let step = 0; step < options.maxSteps && genus > 1; step += 1) {
+    const e = pick(order);
+    unplace(rotation, 2 * e + 1);
+    unplace(rotation, 2 * e);
+    genus = placeBest(e, (a, b) => {
+      placeAfter(rotation, 2 * e, a);
+      placeAfter(rotation, 2 * e + 1, b);
+      const value = genusNow();
+      unplace(rotation, 2 * e + 1);
+      unplace(rotation, 2 * e);
+      return value;
+    });
+  }
+  return genus <= 1 ? readRotation(rotation, vertexCount) : null;
+};
+
+export type TorusSearchResult =
+  | { found: true; order: number[][] }
+  | { found: false; exact: boolean };
+
+// order[v] lists the half-edges leaving v in rotation order.
+export const searchTorusRotation = (
+  vertexCount: number,
+  edges: Array<[number, number]>,
+  options: TorusSearchOptions,
+): TorusSearchResult => {
+  const order = insertionOrder(vertexCount, edges);
+  if (options.maxNodes > 0) {
+    const exact = exactSearch(vertexCount, edges, order, options.maxNodes);
+    if (exact === null) return { found: false, exact: true };
+    if (exact !== 'budget') return { found: true, order: exact };
+  }
+  const found = localSearch(vertexCount, edges, order, options);
+  return found ? { found: true, order: found } : { found: false, exact: false };
+};
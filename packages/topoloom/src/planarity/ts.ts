@@ -115,7 +115,7 @@ class LRPlanarity {
     const low2Child = this.numAt(this.lowpt2, child, 'lowpt2');
     const low2Parent = this.numAt(this.lowpt2, parent, 'lowpt2');
     if (lowChild < lowParent) {
-      this.lowpt2[parent] = Math.min(lowParent, low2Parent);
+      this.lowpt2[parent] = Math.min(lowParent, low2Child);
       this.lowpt[parent] = lowChild;
     } else if (lowChild > lowParent) {
       this.lowpt2[parent] = Math.min(low2Parent, lowChild);
@@ -445,86 +445,157 @@ class LRPlanarity {
   }
 }
 
-const suppressDegreeTwo = (edges: Array<[VertexId, VertexId]>): Array<[VertexId, VertexId]> => {
-  let changed = true;
-  let current = edges.slice();
-
-  while (changed) {
-    changed = false;
-    const degrees = new Map<VertexId, number>();
-    for (const [u, v] of current) {
-      degrees.set(u, (degrees.get(u) ?? 0) + 1);
-      degrees.set(v, (degrees.get(v) ?? 0) + 1);
+type WitnessPath = { ends: [VertexId, VertexId]; vertices: VertexId[]; edges: EdgeId[] };
+
+const orientPath = (path: WitnessPath, from: VertexId): WitnessPath =>
+  path.ends[0] === from
+    ? path
+    : {
+        ends: [path.ends[1], path.ends[0]],
+        vertices: path.vertices.slice().reverse(),
+        edges: path.edges.slice().reverse(),
+      };
+
+// Branch vertices (degree > 2) and the paths of degree-2 vertices between them, each walked from
+// its smaller end; null if some vertex has degree < 2, a path closes on itself or a cycle is left.
+const traceBranchPaths = (edges: PlanarityEdgeSpec[]) => {
+  const incident = new Map<VertexId, PlanarityEdgeSpec[]>();
+  for (const edge of edges) {
+    if (edge.u === edge.v) return null;
+    for (const v of [edge.u, edge.v]) {
+      const list = incident.get(v) ?? [];
+      list.push(edge);
+      incident.set(v, list);
     }
-    for (const [v, deg] of degrees.entries()) {
-      if (deg !== 2) continue;
-      const incident = current.filter(([u, w]) => u === v || w === v);
-      if (incident.length !== 2) continue;
-      const e1 = incident[0];
-      const e2 = incident[1];
-      if (!e1 || !e2) continue;
-      const a = e1[0] === v ? e1[1] : e1[0];
-      const b = e2[0] === v ? e2[1] : e2[0];
-      current = current.filter((edge) => edge !== e1 && edge !== e2);
-      if (a !== b) current.push([a, b]);
-      changed = true;
-      break;
+  }
+  const degreeOf = (v: VertexId) => incident.get(v)?.length ?? 0;
+  if ([...incident.keys()].some((v) => degreeOf(v) < 2)) return null;
+  const branch = [...incident.keys()].filter((v) => degreeOf(v) > 2).sort((a, b) => a - b);
+
+  const paths: WitnessPath[] = [];
+  let traced = 0;
+  for (const start of branch) {
+    for (const first of incident.get(start) ?? []) {
+      const vertices = [start];
+      const pathEdges: EdgeId[] = [];
+      let edge = first;
+      let at = start;
+      for (;;) {
+        at = edge.u === at ? edge.v : edge.u;
+        vertices.push(at);
+        pathEdges.push(edge.id);
+        const next = incident.get(at) ?? [];
+        if (next.length !== 2) break;
+        edge = next[0] === edge ? next[1]! : next[0]!;
+      }
+      if (at === start) return null;
+      if (at < start) continue;
+      paths.push({ ends: [start, at], vertices, edges: pathEdges });
+      traced += pathEdges.length;
     }
   }
-
-  return current;
+  // Leftover edges lie on cycles of degree-2 vertices that no branch path reaches.
+  if (traced !== edges.length) return null;
+  return { branch, paths, degreeOf };
 };
 
-const classifyWitness = (edges: Array<[VertexId, VertexId]>): 'K5' | 'K3,3' => {
-  const reduced = suppressDegreeTwo(edges).filter(([u, v]) => u !== v);
-  const vertices = Array.from(new Set(reduced.flat()));
-
-  const uniqueEdges = new Set<string>();
-  for (const [u, v] of reduced) uniqueEdges.add(pairKey(u, v));
+const buildWitness = <T extends string>(
+  type: T,
+  branchVertices: VertexId[],
+  paths: WitnessPath[],
+) => {
+  const vertices = branchVertices.slice();
+  for (const path of paths) vertices.push(...path.vertices.slice(1, -1));
+  return { type, vertices, edges: paths.flatMap((path) => path.edges), branchVertices, paths };
+};
 
-  if (vertices.length === 5 && uniqueEdges.size === 10) return 'K5';
+// Splits a Kuratowski subdivision into branch vertices and paths; null for any other edge set.
+export const kuratowskiWitness = (edges: PlanarityEdgeSpec[]) => {
+  const traced = traceBranchPaths(edges);
+  if (!traced) return null;
+  const { branch, degreeOf } = traced;
+  if (branch.length !== 5 && branch.length !== 6) return null;
+  const branchDegree = branch.length === 5 ? 4 : 3;
+  if (branch.some((v) => degreeOf(v) !== branchDegree)) return null;
+  const paths = new Map<string, WitnessPath>();
+  for (const path of traced.paths) {
+    const key = pairKey(path.ends[0], path.ends[1]);
+    if (paths.has(key)) return null;
+    paths.set(key, path);
+  }
 
-  if (vertices.length === 6 && uniqueEdges.size === 9) {
-    const adj = new Map<VertexId, VertexId[]>();
-    for (const v of vertices) adj.set(v, []);
-    for (const [u, v] of reduced) {
-      adj.get(u)?.push(v);
-      adj.get(v)?.push(u);
-    }
-    const color = new Map<VertexId, number>();
-    let ok = true;
-    for (const v of vertices) {
-      if (color.has(v)) continue;
-      color.set(v, 0);
-      const stack = [v];
-      while (stack.length > 0) {
-        const cur = stack.pop();
-        if (cur === undefined) continue;
-        const c = color.get(cur) ?? 0;
-        for (const nb of adj.get(cur) ?? []) {
-          if (!color.has(nb)) {
-            color.set(nb, 1 - c);
-            stack.push(nb);
-          } else if ((color.get(nb) ?? 0) === c) {
-            ok = false;
-            break;
-          }
-        }
-        if (!ok) break;
-      }
-      if (!ok) break;
+  if (branch.length === 5) {
+    const ordered: WitnessPath[] = [];
+    branch.forEach((a, i) => {
+      for (const b of branch.slice(i + 1)) ordered.push(paths.get(pairKey(a, b))!);
+    });
+    return buildWitness('K5', branch, ordered);
+  }
+  const first = branch[0]!;
+  const right = branch.filter((v) => v !== first && paths.has(pairKey(first, v)));
+  const left = branch.filter((v) => !right.includes(v));
+  if (right.length !== 3) return null;
+  const ordered: WitnessPath[] = [];
+  for (const a of left) {
+    for (const b of right) {
+      const path = paths.get(pairKey(a, b));
+      if (!path) return null;
+      ordered.push(orientPath(path, a));
     }
-    if (ok) return 'K3,3';
   }
+  return buildWitness('K3,3', [...left, ...right], ordered);
+};
 
-  return vertices.length <= 5 ? 'K5' : 'K3,3';
+// Splits a K4 or K2,3 subdivision the same way. A K2,3 subdivision is three a-b paths with inner
+// vertices; the first inner vertex of each path stands in for the degree-2 side.
+const outerplanarStructure = (edges: PlanarityEdgeSpec[]) => {
+  const traced = traceBranchPaths(edges);
+  if (!traced) return null;
+  const { branch, paths, degreeOf } = traced;
+  if (branch.some((v) => degreeOf(v) !== 3)) return null;
+  if (branch.length === 4 && paths.length === 6) {
+    const keys = new Set(paths.map((path) => pairKey(path.ends[0], path.ends[1])));
+    if (keys.size !== 6) return null;
+    const ordered: WitnessPath[] = [];
+    branch.forEach((a, i) => {
+      for (const b of branch.slice(i + 1)) {
+        ordered.push(paths.find((path) => path.ends[0] === a && path.ends[1] === b)!);
+      }
+    });
+    return buildWitness('K4', branch, ordered);
+  }
+  if (branch.length === 2 && paths.length === 3) {
+    if (paths.some((path) => path.edges.length < 2)) return null;
+    const [a, b] = branch as [VertexId, VertexId];
+    const theta = paths.slice().sort((p, q) => p.vertices[1]! - q.vertices[1]!);
+    const side = theta.map((path) => path.vertices[1]!);
+    const ordered: WitnessPath[] = theta.map((path) => ({
+      ends: [a, path.vertices[1]!],
+      vertices: path.vertices.slice(0, 2),
+      edges: path.edges.slice(0, 1),
+    }));
+    theta.forEach((path, i) => {
+      const rest: WitnessPath = {
+        ends: [side[i]!, b],
+        vertices: path.vertices.slice(1),
+        edges: path.edges.slice(1),
+      };
+      ordered.push(orientPath(rest, b));
+    });
+    return buildWitness('K2,3', [a, b, ...side], ordered);
+  }
+  return null;
 };
 
 export const planarityLeftRight = (
   n: number,
   edges: PlanarityEdgeSpec[],
 ): RotationSystem | null => {
-  if (n >= 3 && edges.length > 3 * n - 6) return null;
+  // Parallel edges do not count towards the 3n - 6 bound.
+  if (n >= 3 && edges.length > 3 * n - 6) {
+    const pairs = new Set(edges.map((edge) => pairKey(edge.u, edge.v)));
+    if (pairs.size > 3 * n - 6) return null;
+  }
   const tester = new LRPlanarity(n, edges);
   return tester.run();
 };
@@ -542,10 +613,40 @@ export const planarityWitness = (n: number, edges: PlanarityEdgeSpec[]) => {
     }
   }
 
-  const witnessEdges = working.map((edge) => edge.id);
-  const witnessVertices = Array.from(new Set(working.flatMap((edge) => [edge.u, edge.v])));
-  const witnessPairs = working.map((edge) => [edge.u, edge.v] as [VertexId, VertexId]);
-  const type = classifyWitness(witnessPairs);
+  // Edge-minimal nonplanar subgraphs are Kuratowski subdivisions, so only planar input fails here.
+  const witness = kuratowskiWitness(working);
+  if (!witness) {
+    throw new Error('Planarity witness requires a nonplanar graph.');
+  }
+  return witness;
+};
 
-  return { edges: witnessEdges, vertices: witnessVertices, type } as const;
+// Edge-minimal non-outerplanar subgraph, reduced like planarityWitness while an apex joined to
+// every vertex stays in place.
+export const outerplanarityWitness = (edges: PlanarityEdgeSpec[]) => {
+  const index = new Map<VertexId, number>();
+  for (const edge of edges) {
+    for (const v of [edge.u, edge.v]) {
+      if (!index.has(v)) index.set(v, index.size);
+    }
+  }
+  const apex = index.size;
+  const apexEdges = [...index.values()].map((v) => ({ id: -1 - v, u: v, v: apex }));
+  const outerplanar = (list: PlanarityEdgeSpec[]) =>
+    planarityLeftRight(apex + 1, [
+      ...list.map((edge) => ({ id: edge.id, u: index.get(edge.u)!, v: index.get(edge.v)! })),
+      ...apexEdges,
+    ]) !== null;
+
+  let working = edges.slice();
+  for (const edge of edges.slice().sort((a, b) => a.id - b.id)) {
+    const next = working.filter((entry) => entry !== edge);
+    working = outerplanar(next) ? next.concat([edge]) : next;
+  }
+
+  const witness = outerplanarStructure(working);
+  if (!witness) {
+    throw new Error('Outerplanarity witness requires a non-outerplanar graph.');
+  }
+  return witness;
 };
@@ -0,0 +1,570 @@
+import type { EdgeId, VertexId } from '../graph';
+import { buildHalfEdgeMesh, rotationFromAdjacency } from '../embedding';
+import type { FaceId, HalfEdgeId, HalfEdgeMesh, RotationSystem } from '../embedding';
+import { minCostFlow } from '../flow';
+import type { FlowArc } from '../flow';
+import type { SPQRNode, SPQRTree } from '../decomp';
+import { planarityLeftRight } from './ts';
+
+// h runs along its edge when it leaves the edge's tail.
+const runsUp = (mesh: HalfEdgeMesh, tail: VertexId[], h: HalfEdgeId) =>
+  mesh.origin[h] === tail[mesh.edge[h]!];
+
+// Around every vertex the outgoing edges form one contiguous run and the incoming edges another.
+export const isBimodal = (mesh: HalfEdgeMesh, tail: VertexId[]) => {
+  const changes = new Map<VertexId, number>();
+  for (let h = 0; h < mesh.halfEdgeCount; h += 1) {
+    // twin[prev[h]] precedes h in the rotation at origin[h].
+    if (runsUp(mesh, tail, mesh.twin[mesh.prev[h]!]!) === runsUp(mesh, tail, h)) continue;
+    const v = mesh.origin[h]!;
+    changes.set(v, (changes.get(v) ?? 0) + 1);
+  }
+  return [...changes.values()].every((count) => count <= 2);
+};
+
+// Bertolazzi et al.: every source and sink opens one angle wider than 180 degrees, and a face with
+// k source-switches needs k - 1 of them (k + 1 as the outer face). The angle at origin[h] between
+// prev[h] and h is named by h. Faces are tried as the outer face until the flow is feasible.
+export const assignUpwardAngles = (
+  mesh: HalfEdgeMesh,
+  tail: VertexId[],
+  outerFace?: FaceId,
+): { outerFace: FaceId; largeAngles: HalfEdgeId[] } | null => {
+  const faceCount = mesh.faces.length;
+  const vertexCount = mesh.origin.reduce((best, v) => Math.max(best, v), -1) + 1;
+  const outDegree: number[] = Array(vertexCount).fill(0);
+  const inDegree: number[] = Array(vertexCount).fill(0);
+  const minSwitches: number[] = Array(faceCount).fill(0);
+  for (let h = 0; h < mesh.halfEdgeCount; h += 1) {
+    const v = mesh.origin[h]!;
+    const leaving = runsUp(mesh, tail, h);
+    if (leaving) outDegree[v] = outDegree[v]! + 1;
+    else inDegree[v] = inDegree[v]! + 1;
+    const f = mesh.face[h]!;
+    if (leaving && !runsUp(mesh, tail, mesh.prev[h]!)) minSwitches[f] = minSwitches[f]! + 1;
+  }
+
+  const arcs: FlowArc[] = [];
+  const angleArcs = new Map<HalfEdgeId, number>();
+  const supply: number[] = Array(vertexCount + faceCount).fill(0);
+  for (let h = 0; h < mesh.halfEdgeCount; h += 1) {
+    const v = mesh.origin[h]!;
+    if (outDegree[v] !== 0 && inDegree[v] !== 0) continue;
+    supply[v] = 1;
+    angleArcs.set(h, arcs.length);
+    arcs.push({ from: v, to: vertexCount + mesh.face[h]!, upper: 1, cost: 0 });
+  }
+  const available = supply.reduce((sum, value) => sum + value, 0);
+  const needed = minSwitches.reduce((sum, value) => sum + value, 0) - faceCount + 2;
+  if (available !== needed) return null;
+
+  const candidates = outerFace === undefined ? mesh.faces.map((_, f) => f) : [outerFace];
+  for (const outer of candidates) {
+    const demands = supply.slice();
+    minSwitches.forEach((count, f) => {
+      demands[vertexCount + f] = -(count + (f === outer ? 1 : -1));
+    });
+    if (demands.slice(vertexCount).some((value) => value > 0)) continue;
+    const flow = minCostFlow({ nodeCount: demands.length, arcs, demands });
+    if (!flow.feasible) continue;
+    const largeAngles = [...angleArcs.entries()]
+      .filter(([, arc]) => (flow.flowByArc[arc] ?? 0) > 0)
+      .map(([h]) => h);
+    return { outerFace: outer, largeAngles };
+  }
+  return null;
+};
+
+// Replaces every virtual edge by the rotation of the pertinent graph behind it. Pole lists start
+// just after the parent's virtual edge, so a child's list drops in where that edge was.
+const assembleBlock = (tree: SPQRTree, root: number, picks: Map<number, RotationSystem>) => {
+  const expand = (nodeId: number, parentEdge: number): Map<VertexId, EdgeId[]> => {
+    const node = tree.nodes[nodeId]!;
+    const rotation = picks.get(nodeId)!;
+    const children = new Map<number, Map<VertexId, EdgeId[]>>();
+    const lists = new Map<VertexId, EdgeId[]>();
+    rotation.order.forEach((refs, local) => {
+      let ring = refs.map((ref) => ref.edge);
+      const cut = ring.findIndex((edge) => {
+        const kind = node.edgeKind[edge]!;
+        return kind.kind === 'virtual' && kind.treeEdge === parentEdge;
+      });
+      if (cut >= 0) ring = [...ring.slice(cut + 1), ...ring.slice(0, cut)];
+      const vertex = node.vertexMap[local]!;
+      const list: EdgeId[] = [];
+      for (const edge of ring) {
+        const kind = node.edgeKind[edge]!;
+        if (kind.kind === 'real') {
+          list.push(kind.original);
+          continue;
+        }
+        const treeEdge = kind.treeEdge;
+        if (treeEdge === undefined) throw new Error('SPQR virtual edge has no tree edge.');
+        let child = children.get(treeEdge);
+        if (!child) {
+          const link = tree.edges[treeEdge]!;
+          child = expand(link.from === nodeId ? link.to : link.from, treeEdge);
+          children.set(treeEdge, child);
+        }
+        list.push(...(child.get(vertex) ?? []));
+      }
+      lists.set(vertex, list);
+    });
+    for (const child of children.values()) {
+      child.forEach((list, vertex) => {
+        if (!lists.has(vertex)) lists.set(vertex, list);
+      });
+    }
+    return lists;
+  };
+  return expand(root, -1);
+};
+
+type Dir = 'in' | 'out';
+// Directions of the first and last edge an item has at a vertex, in rotation order.
+type Ends = [Dir, Dir];
+
+// How the pertinent graph of an SPQR node meets the rest of its block once the tree hangs from
+// an edge at the block's source: only its poles can be sources. With both, exactly one of its
+// sink-switches on the boundary stays uncovered, on either side after a flip. Otherwise source is
+// the source pole, and a, s and m say whether its edges at the other pole can run in only, in
+// then out (either way round after a flip), or out, in, out.
+type Shape = { source: VertexId | null; a: boolean; s: boolean; m: boolean };
+
+// One embedding of a skeleton. ends holds every item's ends at the vertex where it brings
+// in-edges, unitFace the face that gets the uncovered sink-switch of each two-source item, and
+// unit that face for the node itself (-1 with one source).
+type SkeletonPlan = {
+  rotation: RotationSystem;
+  mesh: HalfEdgeMesh;
+  ends: Map<EdgeId, Ends>;
+  unitFace: Map<EdgeId, FaceId>;
+  unit: FaceId;
+};
+
+// plan takes the node's ends at the pole where it brings in-edges (null with two sources).
+type Planner = { shape: Shape; plan: (target: Ends | null) => SkeletonPlan | null };
+
+const fits = (shape: Shape, [first, last]: Ends) =>
+  first !== last ? shape.s : first === 'in' ? shape.a : shape.m;
+
+// Ends for consecutive items that hold every in-edge at a vertex, so the ends they turn to each
+// other are in-edges; left and right, when set, fix the two outer ends.
+const runEnds = (run: Shape[], left: Dir | null, right: Dir | null): Ends[] | null => {
+  const free = (dir: Dir, fixed: Dir | null) => fixed === null || fixed === dir;
+  if (run.length === 1) {
+    const choices: Ends[] = [
+      ['in', 'in'],
+      ['in', 'out'],
+      ['out', 'in'],
+      ['out', 'out'],
+    ];
+    const ends = choices.find((e) => fits(run[0]!, e) && free(e[0], left) && free(e[1], right));
+    return ends ? [ends] : null;
+  }
+  const dirs: Dir[] = ['in', 'out'];
+  const first = dirs.find((dir) => fits(run[0]!, [dir, 'in']) && free(dir, left));
+  const last = dirs.find((dir) => fits(run[run.length - 1]!, ['in', dir]) && free(dir, right));
+  if (!first || !last || run.slice(1, -1).some((shape) => !shape.a)) return null;
+  return run.map((_, i): Ends => [i === 0 ? first : 'in', i === run.length - 1 ? last : 'in']);
+};
+
+// The ways to place the items around a vertex inside the pertinent graph (null for the items
+// it is a source of). In-edges form one run and every corner between two of them is a
+// sink-switch, except that with in-edges in every item one corner is left out: where the
+// out-edges sit, or where a sink puts its large angle. Corner c follows item c.
+const vertexOptions = (blocks: Array<Shape | null>) => {
+  const m = blocks.length;
+  const start = blocks.findIndex((b, i) => b !== null && blocks[(i + m - 1) % m] === null);
+  if (start >= 0) {
+    const run: number[] = [];
+    for (let i = start; blocks[i % m] !== null; i += 1) run.push(i % m);
+    const ends = runEnds(
+      run.map((i) => blocks[i]!),
+      null,
+      null,
+    );
+    if (!ends || run.length !== blocks.filter((b) => b !== null).length) return null;
+    const all: Array<Ends | null> = blocks.map(() => null);
+    run.forEach((i, k) => {
+      all[i] = ends[k]!;
+    });
+    return { switches: run.slice(0, -1), options: [{ corner: -1, ends: all }] };
+  }
+  if (blocks.some((b) => b === null)) return null;
+  const out = blocks.flatMap((b, i) => (b!.a ? [] : [i]));
+  if (out.length > 2 || out.some((i) => !blocks[i]!.s)) return null;
+  const options = blocks
+    .map((_, c) => c)
+    .filter((c) => out.every((i) => i === c || i === (c + 1) % m))
+    .map((c) => ({
+      corner: c,
+      ends: blocks.map(
+        (_, i): Ends => [
+          out.includes(i) && i === (c + 1) % m ? 'out' : 'in',
+          out.includes(i) && i === c ? 'out' : 'in',
+        ],
+      ),
+    }));
+  return options.length ? { switches: blocks.map((_, c) => c), options } : null;
+};
+
+// The items at a pole from just after the parent edge on: those with in-edges there must be
+// consecutive, and the outer ends of their run are the node's own ends at the pole.
+const poleEnds = (blocks: Array<Shape | null>, target: Ends): Ends[] | null => {
+  const first = blocks.findIndex((b) => b !== null);
+  let last = blocks.length - 1;
+  while (blocks[last] === null) last -= 1;
+  const inner = first > 0 ? null : target[0];
+  const outer = last < blocks.length - 1 ? null : target[1];
+  if ((inner === null && target[0] === 'in') || (outer === null && target[1] === 'in')) return null;
+  return runEnds(blocks.slice(first, last + 1) as Shape[], inner, outer);
+};
+
+// S and R nodes: the skeleton embedding is fixed (up to a flip the parent makes), so only the
+// corners each item turns to its neighbours vary. Faces other than the two beside the parent
+// edge need exactly one uncovered sink-switch; a flow hands out the uncovered sink-switches of
+// two-source items and the corners left out at vertices with in-edges in every item.
+const fixedPlanner = (
+  node: SPQRNode,
+  parent: EdgeId,
+  shapes: Map<EdgeId, Shape>,
+): Planner | null => {
+  const skeleton = node.skeleton;
+  const rotation =
+    node.type === 'R'
+      ? planarityLeftRight(
+          skeleton.vertexCount(),
+          skeleton.edges().map((edge) => ({ id: edge.id, u: edge.u, v: edge.v })),
+        )
+      : rotationFromAdjacency(skeleton);
+  if (!rotation) throw new Error('SPQR tree has a nonplanar rigid skeleton.');
+  const mesh = buildHalfEdgeMesh(skeleton, rotation);
+  const half = (e: EdgeId, w: VertexId) => (skeleton.edge(e).u === w ? 2 * e : 2 * e + 1);
+  const blockAt = (e: EdgeId, w: VertexId) => {
+    const shape = shapes.get(e)!;
+    return shape.source === null || shape.source === node.vertexMap[w] ? null : shape;
+  };
+  const poles = [skeleton.edge(parent).u, skeleton.edge(parent).v];
+  const base: number[] = Array(mesh.faces.length).fill(0);
+  const ends = new Map<EdgeId, Ends>();
+  const removers: Array<{ ring: EdgeId[]; options: Array<{ face: FaceId; ends: Ends[] }> }> = [];
+  let inPole: { w: VertexId; ring: EdgeId[]; blocks: Array<Shape | null> } | null = null;
+  for (const w of skeleton.vertices()) {
+    let ring = rotation.order[w]!.map((ref) => ref.edge);
+    const corner = (c: number) => mesh.face[half(ring[(c + 1) % ring.length]!, w)]!;
+    if (poles.includes(w)) {
+      const cut = ring.indexOf(parent);
+      ring = ring.slice(cut + 1).concat(ring.slice(0, cut));
+      const blocks = ring.map((e) => blockAt(e, w));
+      const run = blocks.flatMap((b, i) => (b === null ? [] : [i]));
+      if (run.length === 0) continue;
+      if (inPole || run[run.length - 1]! - run[0]! !== run.length - 1) return null;
+      for (const c of run.slice(0, -1)) {
+        const f = corner(c);
+        base[f] = base[f]! + 1;
+      }
+      inPole = { w, ring, blocks };
+      continue;
+    }
+    const found = vertexOptions(ring.map((e) => blockAt(e, w)));
+    if (!found) return null;
+    for (const c of found.switches) {
+      const f = corner(c);
+      base[f] = base[f]! + 1;
+    }
+    const options = found.options.map((option) => ({
+      face: option.corner < 0 ? -1 : corner(option.corner),
+      ends: option.ends,
+    }));
+    if (options[0]!.face < 0) {
+      options[0]!.ends.forEach((e, i) => {
+        if (e) ends.set(ring[i]!, e);
+      });
+    } else {
+      removers.push({ ring, options: options as Array<{ face: FaceId; ends: Ends[] }> });
+    }
+  }
+
+  const twoSource = skeleton
+    .edges()
+    .filter((edge) => edge.id !== parent && shapes.get(edge.id)!.source === null)
+    .map((edge) => edge.id);
+  const faceCount = mesh.faces.length;
+  const sides = [mesh.face[2 * parent]!, mesh.face[2 * parent + 1]!];
+  const z = faceCount + twoSource.length + removers.length;
+  const arcs: FlowArc[] = [];
+  const demands: number[] = Array(z + 1).fill(0);
+  base.forEach((count, f) => {
+    if (!sides.includes(f)) demands[f] = count - 1;
+  });
+  twoSource.forEach((e, i) => {
+    demands[faceCount + i] = 1;
+    for (const h of [2 * e, 2 * e + 1]) {
+      arcs.push({ from: faceCount + i, to: mesh.face[h]!, upper: 1, cost: 0 });
+    }
+  });
+  const firstArc: number[] = [];
+  removers.forEach((remover, i) => {
+    demands[faceCount + twoSource.length + i] = -1;
+    firstArc.push(arcs.length);
+    for (const option of remover.options) {
+      arcs.push({ from: option.face, to: faceCount + twoSource.length + i, upper: 1, cost: 0 });
+    }
+  });
+  for (const f of sides) {
+    arcs.push({ from: f, to: z, upper: z, cost: 0 }, { from: z, to: f, upper: z, cost: 0 });
+  }
+  demands[z] = -demands.reduce((sum, value) => sum + value, 0);
+  const flow = minCostFlow({ nodeCount: z + 1, arcs, demands });
+  if (!flow.feasible) return null;
+
+  const uncovered = sides.map((f) => base[f]!);
+  const unitFace = new Map<EdgeId, FaceId>();
+  twoSource.forEach((e, i) => {
+    const face = mesh.face[(flow.flowByArc[2 * i] ?? 0) > 0 ? 2 * e : 2 * e + 1]!;
+    unitFace.set(e, face);
+    const side = sides.indexOf(face);
+    if (side >= 0) uncovered[side] = uncovered[side]! + 1;
+  });
+  removers.forEach((remover, i) => {
+    const option = remover.options.find((_, k) => (flow.flowByArc[firstArc[i]! + k] ?? 0) > 0)!;
+    option.ends.forEach((e, k) => ends.set(remover.ring[k]!, e));
+    const side = sides.indexOf(option.face);
+    if (side >= 0) uncovered[side] = uncovered[side]! - 1;
+  });
+
+  const pole = inPole;
+  const unit = pole ? -1 : uncovered[0]! > 0 ? sides[0]! : sides[1]!;
+  const plan = (target: Ends | null): SkeletonPlan | null => {
+    if (!pole) return { rotation, mesh, ends, unitFace, unit };
+    const run = poleEnds(pole.blocks, target!);
+    if (!run) return null;
+    const all = new Map(ends);
+    const first = pole.blocks.findIndex((b) => b !== null);
+    run.forEach((e, k) => all.set(pole.ring[first + k]!, e));
+    return { rotation, mesh, ends: all, unitFace, unit };
+  };
+  if (!pole) return { shape: { source: null, a: false, s: false, m: false }, plan };
+  const source = node.vertexMap[poles.find((w) => w !== pole.w)!]!;
+  const can = (target: Ends) => plan(target) !== null;
+  const shape: Shape = {
+    source,
+    a: can(['in', 'in']),
+    s: can(['in', 'out']) || can(['out', 'in']),
+    m: can(['out', 'out']),
+  };
+  return shape.a || shape.s || shape.m ? { shape, plan } : null;
+};
+
+// Orders the items that bring in-edges at the pole of a P node so that the ones which cannot sit
+// inside the run (at most two) end up at its ends.
+const orderRun = (
+  items: EdgeId[],
+  shapes: Map<EdgeId, Shape>,
+  left: Dir | null,
+  right: Dir | null,
+): { order: EdgeId[]; ends: Ends[] } | null => {
+  const shape = (e: EdgeId) => shapes.get(e)!;
+  if (items.length === 1) {
+    const ends = runEnds([shape(items[0]!)], left, right);
+    return ends && { order: items, ends };
+  }
+  const inner = items.filter((e) => !shape(e).a);
+  if (inner.length > 2) return null;
+  const ranked = [...inner, ...items.filter((e) => shape(e).a)];
+  const firsts = ranked.filter((e) => runEnds([shape(e)], left, 'in') ?? false).slice(0, 2);
+  const lasts = ranked.filter((e) => runEnds([shape(e)], 'in', right) ?? false).slice(0, 2);
+  for (const first of firsts) {
+    for (const last of lasts) {
+      if (first === last || inner.some((e) => e !== first && e !== last)) continue;
+      const order = [first, ...items.filter((e) => e !== first && e !== last), last];
+      const ends = runEnds(order.map(shape), left, right);
+      if (ends) return { order, ends };
+    }
+  }
+  return null;
+};
+
+// P nodes: the items share both poles, so their cyclic order is free. Two-source items lie left
+// or right of the run of items with in-edges and cover the corner on the run's side, which keeps
+// the faces between them at one uncovered sink-switch each.
+const parallelPlanner = (
+  node: SPQRNode,
+  parent: EdgeId,
+  shapes: Map<EdgeId, Shape>,
+): Planner | null => {
+  const skeleton = node.skeleton;
+  const items = skeleton
+    .edges()
+    .map((edge) => edge.id)
+    .filter((e) => e !== parent);
+  const oneSource = items.filter((e) => shapes.get(e)!.source !== null);
+  const twoSource = items.filter((e) => shapes.get(e)!.source === null);
+  if (new Set(oneSource.map((e) => shapes.get(e)!.source)).size > 1) return null;
+  const source = oneSource.length ? shapes.get(oneSource[0]!)!.source : null;
+  const pole = source !== null && node.vertexMap[0] === source ? 1 : 0;
+  const build = (order: EdgeId[], left: number, run: Ends[]): SkeletonPlan => {
+    const other = 1 - pole;
+    const ring = [parent, ...order];
+    const rotation: RotationSystem = { order: [] };
+    rotation.order[pole] = ring.map((edge) => ({ edge, to: other }));
+    rotation.order[other] = [parent, ...order.slice().reverse()].map((edge) => ({
+      edge,
+      to: pole,
+    }));
+    const mesh = buildHalfEdgeMesh(skeleton, rotation);
+    const face = (e: EdgeId) => mesh.face[skeleton.edge(e).u === pole ? 2 * e : 2 * e + 1]!;
+    const unitFace = new Map<EdgeId, FaceId>();
+    order.forEach((e, i) => {
+      if (shapes.get(e)!.source !== null) return;
+      unitFace.set(e, face(i < left ? ring[(i + 2) % ring.length]! : e));
+    });
+    const ends = new Map<EdgeId, Ends>();
+    run.forEach((e, k) => ends.set(order[left + k]!, e));
+    return { rotation, mesh, ends, unitFace, unit: source === null ? face(parent) : -1 };
+  };
+  if (source === null) {
+    const planned = build(items, items.length, []);
+    return { shape: { source: null, a: false, s: false, m: false }, plan: () => planned };
+  }
+  const t = twoSource.length;
+  const plan = (target: Ends | null): SkeletonPlan | null => {
+    for (const left of new Set([0, Math.min(1, t), t])) {
+      if ((left > 0 && target![0] === 'in') || (left < t && target![1] === 'in')) continue;
+      const run = orderRun(
+        oneSource,
+        shapes,
+        left > 0 ? null : target![0],
+        left < t ? null : target![1],
+      );
+      if (!run) continue;
+      const order = [...twoSource.slice(0, left), ...run.order, ...twoSource.slice(left)];
+      return build(order, left, run.ends);
+    }
+    return null;
+  };
+  const can = (target: Ends) => plan(target) !== null;
+  const shape: Shape = {
+    source,
+    a: can(['in', 'in']),
+    s: can(['in', 'out']) || can(['out', 'in']),
+    m: can(['out', 'out']),
+  };
+  return shape.a || shape.s || shape.m ? { shape, plan } : null;
+};
+
+// Single-source upward planarity of a biconnected block (Bertolazzi, Di Battista, Mannino and
+// Tamassia): the tree hangs from each edge out of the source in turn, shapes are worked out
+// bottom-up and one embedding is picked top-down. Returns edge lists per original vertex, or null
+// when no embedding of the block is upward.
+export const upwardBlockEmbedding = (
+  tree: SPQRTree,
+  tails: VertexId[],
+  source: VertexId,
+): Map<VertexId, EdgeId[]> | null => {
+  const attempt = (root: number, rootEdge: EdgeId) => {
+    const order = [root];
+    const parentEdge = new Map<number, EdgeId>([[root, rootEdge]]);
+    const children = new Map<number, Map<EdgeId, number>>();
+    for (let i = 0; i < order.length; i += 1) {
+      const node = tree.nodes[order[i]!]!;
+      const below = new Map<EdgeId, number>();
+      node.edgeKind.forEach((kind, e) => {
+        if (kind.kind !== 'virtual' || e === parentEdge.get(node.id)) return;
+        const link = tree.edges[kind.treeEdge!]!;
+        const child = tree.nodes[link.from === node.id ? link.to : link.from]!;
+        parentEdge.set(
+          child.id,
+          child.edgeKind.findIndex((k) => k.kind === 'virtual' && k.treeEdge === kind.treeEdge),
+        );
+        below.set(e, child.id);
+        order.push(child.id);
+      });
+      children.set(node.id, below);
+    }
+
+    const planners = new Map<number, Planner>();
+    for (const id of order.slice().reverse()) {
+      const node = tree.nodes[id]!;
+      const shapes = new Map<EdgeId, Shape>();
+      node.edgeKind.forEach((kind, e) => {
+        if (kind.kind === 'real') {
+          shapes.set(e, { source: tails[kind.original]!, a: true, s: false, m: false });
+        } else if (e !== parentEdge.get(id)) {
+          const child = planners.get(children.get(id)!.get(e)!);
+          if (child) shapes.set(e, child.shape);
+        }
+      });
+      const planner = (node.type === 'P' ? parallelPlanner : fixedPlanner)(
+        node,
+        parentEdge.get(id)!,
+        shapes,
+      );
+      if (!planner) return null;
+      planners.set(id, planner);
+    }
+    const top = planners.get(root)!.shape;
+    if (top.source !== null && !top.a && !top.s) return null;
+
+    // A child's flip is relative to its parent's final one. One-source children get the exact
+    // ends their parent planned at their pole; two-source children put their uncovered
+    // sink-switch on the side the parent gave it, told apart at the pole with the lower id.
+    const picks = new Map<number, RotationSystem>();
+    const requests = new Map<number, { ends: Ends | null; before: boolean; flipped: boolean }>();
+    requests.set(root, {
+      ends: top.source === null ? null : top.a ? ['in', 'in'] : ['in', 'out'],
+      before: false,
+      flipped: false,
+    });
+    for (const id of order) {
+      const node = tree.nodes[id]!;
+      const skeleton = node.skeleton;
+      const half = (e: EdgeId, w: VertexId) => (skeleton.edge(e).u === w ? 2 * e : 2 * e + 1);
+      const lowerPole = (e: EdgeId) => {
+        const { u, v } = skeleton.edge(e);
+        return node.vertexMap[u]! < node.vertexMap[v]! ? u : v;
+      };
+      const { plan } = planners.get(id)!;
+      const request = requests.get(id)!;
+      let planned = plan(request.ends);
+      let flip = false;
+      if (!planned && request.ends) {
+        planned = plan([request.ends[1], request.ends[0]]);
+        flip = true;
+      }
+      if (!planned) throw new Error('Upward planarity test lost a skeleton plan it had found.');
+      if (request.ends === null && id !== root) {
+        const e = parentEdge.get(id)!;
+        const w = lowerPole(e);
+        const ring = planned.rotation.order[w]!;
+        const at = ring.findIndex((ref) => ref.edge === e);
+        const next = ring[(at + 1) % ring.length]!.edge;
+        flip = (planned.unit === planned.mesh.face[half(next, w)]) !== request.before;
+      }
+      const flipped = request.flipped !== flip;
+      picks.set(
+        id,
+        flipped
+          ? { order: planned.rotation.order.map((list) => list.slice().reverse()) }
+          : planned.rotation,
+      );
+      children.get(id)!.forEach((child, e) => {
+        const ends = planned.ends.get(e);
+        const before = planned.unitFace.get(e) === planned.mesh.face[half(e, lowerPole(e))];
+        requests.set(child, { ends: ends ?? null, before, flipped });
+      });
+    }
+    return assembleBlock(tree, root, picks);
+  };
+
+  for (const node of tree.nodes) {
+    if (node.type === 'Q') continue;
+    for (const [e, kind] of node.edgeKind.entries()) {
+      if (kind?.kind !== 'real' || tails[kind.original] !== source) continue;
+      const found = attempt(node.id, e);
+      if (found) return found;
+    }
+  }
+  return null;
+};
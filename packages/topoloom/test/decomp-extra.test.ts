@@ -74,6 +74,27 @@ describe('spqr decomposition helpers', () => {
     expect(forest.articulationPoints).toContain(0);
   });
 
+  it('splits graphs with many blocks in linear time', () => {
+    // A chain of 5000 triangles, each sharing a vertex with the next, then a 5000-edge path.
+    const builder = new GraphBuilder();
+    for (let i = 0; i <= 15000; i += 1) builder.addVertex(i);
+    for (let t = 0; t < 5000; t += 1) {
+      builder.addEdge(2 * t, 2 * t + 1, false);
+      builder.addEdge(2 * t + 1, 2 * t + 2, false);
+      builder.addEdge(2 * t + 2, 2 * t, false);
+    }
+    for (let v = 10000; v < 15000; v += 1) builder.addEdge(v, v + 1, false);
+    const forest = spqrDecomposeAll(builder.build());
+    expect(forest.blocks.length).toBe(10000);
+    const last = forest.blocks.find((block) => block.edges.includes(19999))!;
+    expect(last.tree.nodes.map((node) => node.type)).toEqual(['Q']);
+    expect(last.tree.nodes[0]!.vertexMap.slice().sort((a, b) => a - b)).toEqual([14999, 15000]);
+    const triangle = forest.blocks.find((block) => block.edges.includes(4))!;
+    expect(triangle.edges.slice().sort((a, b) => a - b)).toEqual([3, 4, 5]);
+    const cycle = triangle.tree.nodes.find((node) => node.type === 'S')!;
+    expect(cycle.vertexMap).toEqual([2, 3, 4]);
+  });
+
   it('selects the largest block for safe decomposition', () => {
     const builder = new GraphBuilder();
     for (let i = 0; i < 6; i += 1) builder.addVertex(i);
@@ -1,11 +1,47 @@
 import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
 
 import { GraphBuilder } from '../src/graph';
 import { spqrDecompose, flipSkeleton, materializeEmbedding, permuteParallel, validateSPQRTree } from '../src/decomp';
+import { triconnectedComponents } from '../src/decomp/triconnectivity';
 
 const countType = (tree: ReturnType<typeof spqrDecompose>, type: string) =>
   tree.nodes.filter((n) => n.type === type).length;
 
+const buildEarGraph = (cycle: number, ears: Array<[number, number, number]>) => {
+  const builder = new GraphBuilder();
+  let count = 0;
+  for (let i = 0; i < cycle; i += 1) builder.addVertex(count++);
+  for (let i = 0; i < cycle; i += 1) builder.addEdge(i, (i + 1) % cycle, false);
+  for (const [rawA, rawB, internal] of ears) {
+    const a = rawA % count;
+    let b = rawB % count;
+    if (a === b) b = (b + 1) % count;
+    let prev = a;
+    for (let i = 0; i < internal; i += 1) {
+      const next = builder.addVertex(count++);
+      builder.addEdge(prev, next, false);
+      prev = next;
+    }
+    builder.addEdge(prev, b, false);
+  }
+  return builder.build();
+};
+
+const triangulatedGrid = (w: number, h: number) => {
+  const builder = new GraphBuilder();
+  for (let i = 0; i < w * h; i += 1) builder.addVertex(i);
+  for (let y = 0; y < h; y += 1) {
+    for (let x = 0; x < w; x += 1) {
+      const v = y * w + x;
+      if (x + 1 < w) builder.addEdge(v, v + 1, false);
+      if (y + 1 < h) builder.addEdge(v, v + w, false);
+      if (x + 1 < w && y + 1 < h) builder.addEdge(v, v + w + 1, false);
+    }
+  }
+  return builder.build();
+};
+
 describe('spqr', () => {
   it('produces a single Q node for a single edge', () => {
     const builder = new GraphBuilder();
@@ -142,4 +178,69 @@ describe('spqr', () => {
     const tree = spqrDecompose(g);
     expect(tree.edges.length).toBe(tree.nodes.length - 1);
   });
+
+  it('decomposes random biconnected multigraphs into valid trees', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 3, max: 6 }),
+        fc.array(
+          fc.tuple(fc.nat({ max: 40 }), fc.nat({ max: 40 }), fc.integer({ min: 0, max: 2 })),
+          { maxLength: 25 },
+        ),
+        (cycle, ears) => {
+          const g = buildEarGraph(cycle, ears);
+          const tree = spqrDecompose(g);
+          expect(validateSPQRTree(tree).errors).toEqual([]);
+
+          const seen = new Map<number, number>();
+          for (const node of tree.nodes) {
+            if (node.type === 'Q') continue;
+            if (node.type === 'R') expect(node.skeleton.vertexCount()).toBeGreaterThanOrEqual(4);
+            for (const kind of node.edgeKind) {
+              if (kind.kind === 'real') seen.set(kind.original, (seen.get(kind.original) ?? 0) + 1);
+            }
+          }
+          for (const edge of g.edges()) expect(seen.get(edge.id)).toBe(1);
+
+          for (const edge of tree.edges) {
+            if (edge.kind !== 'virtual') continue;
+            const a = tree.nodes[edge.from]!.type;
+            const b = tree.nodes[edge.to]!.type;
+            expect(a === b && (a === 'S' || a === 'P')).toBe(false);
+          }
+        },
+      ),
+      { numRuns: 150 },
+    );
+  });
+
+  it('splits a wheel with a subdivided spoke into R and S nodes', () => {
+    const builder = new GraphBuilder();
+    for (let i = 0; i < 7; i += 1) builder.addVertex(i);
+    for (let i = 1; i <= 5; i += 1) builder.addEdge(i, (i % 5) + 1, false);
+    for (let i = 1; i <= 4; i += 1) builder.addEdge(0, i, false);
+    builder.addEdge(0, 6, false);
+    builder.addEdge(6, 5, false);
+    const tree = spqrDecompose(builder.build());
+    expect(validateSPQRTree(tree).ok).toBe(true);
+    expect(countType(tree, 'R')).toBe(1);
+    expect(countType(tree, 'S')).toBe(1);
+    expect(countType(tree, 'P')).toBe(0);
+  });
+
+  it('handles deep DFS trees on large blocks', () => {
+    const g = triangulatedGrid(120, 120);
+    const tree = spqrDecompose(g);
+    expect(countType(tree, 'R')).toBe(1);
+    expect(countType(tree, 'Q')).toBe(g.edgeCount());
+    expect(tree.edges.length).toBe(tree.nodes.length - 1);
+  });
+
+  it('splits a cycle with more vertices than a call takes arguments', () => {
+    const n = 200000;
+    const edges = Array.from({ length: n }, (_, i) => ({ u: i, v: (i + 1) % n }));
+    const { components } = triconnectedComponents(n, edges);
+    expect(components.map((component) => component.type)).toEqual(['polygon']);
+    expect(components[0]!.edges.length).toBe(n);
+  });
 });
@@ -1,8 +1,16 @@
 import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
 
 import { GraphBuilder } from '../src/graph';
 import { buildHalfEdgeMesh, rotationFromAdjacency } from '../src/embedding';
-import { buildDual, dualShortestPath, routeEdgeFixedEmbedding, routeEdgeOnGraph } from '../src/dual';
+import { testPlanarity } from '../src/planarity';
+import {
+  buildDual,
+  dualShortestPath,
+  routeEdgeFixedEmbedding,
+  routeEdgeOnGraph,
+  routeEdgeVariableEmbedding,
+} from '../src/dual';
 
 describe('dual', () => {
   it('builds dual graph with face adjacency', () => {
@@ -53,4 +61,102 @@ describe('dual', () => {
     expect(route?.crossedPrimalEdges.length).toBeGreaterThanOrEqual(0);
     expect(route?.note).toMatch(/maximal planar/i);
   });
+
+  it('routes over all embeddings through the SPQR tree', () => {
+    // Four a-b paths through u, c, v and d; the embedding below keeps u and v apart.
+    const builder = new GraphBuilder();
+    for (let i = 0; i < 6; i += 1) builder.addVertex(i);
+    const [a, b, u, c, v, d] = [0, 1, 2, 3, 4, 5];
+    for (const mid of [u, c, v, d]) {
+      builder.addEdge(a, mid, false);
+      builder.addEdge(mid, b, false);
+    }
+    const g = builder.build();
+    const around = (center: number) =>
+      [u, c, v, d].map((mid) => g.adjacency(center).find((adj) => adj.to === mid)!);
+    const order = rotationFromAdjacency(g).order.map((list, vertex) =>
+      vertex === a ? around(a) : vertex === b ? around(b).reverse() : list,
+    );
+    const mesh = buildHalfEdgeMesh(g, { order });
+    expect(routeEdgeFixedEmbedding(mesh, u, v)?.crossedPrimalEdges.length).toBe(1);
+    expect(routeEdgeVariableEmbedding(g, u, v).crossedPrimalEdges).toEqual([]);
+
+    // K5 minus an edge is rigid: the missing edge crosses exactly one other.
+    const k5 = new GraphBuilder();
+    for (let i = 0; i < 5; i += 1) k5.addVertex(i);
+    for (let i = 0; i < 5; i += 1) {
+      for (let j = i + 1; j < 5; j += 1) if (i !== 0 || j !== 1) k5.addEdge(i, j, false);
+    }
+    expect(routeEdgeVariableEmbedding(k5.build(), 0, 1).crossedPrimalEdges.length).toBe(1);
+  });
+
+  it('inserts edges along variable routes without extra crossings', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 3, max: 12 }),
+        fc.array(fc.tuple(fc.nat({ max: 11 }), fc.nat({ max: 11 })), { maxLength: 30 }),
+        fc.tuple(fc.nat({ max: 11 }), fc.nat({ max: 11 })),
+        (n, raw, [p, q]) => {
+          const edges: Array<[number, number]> = [];
+          const keys = new Set<string>();
+          for (const [x, y] of raw) {
+            const edge: [number, number] = [x % n, y % n];
+            const key = `${Math.min(...edge)},${Math.max(...edge)}`;
+            if (edge[0] === edge[1] || keys.has(key)) continue;
+            const trial = new GraphBuilder();
+            for (let i = 0; i < n; i += 1) trial.addVertex(i);
+            for (const [s, t] of [...edges, edge]) trial.addEdge(s, t, false);
+            if (!testPlanarity(trial.build()).planar) continue;
+            edges.push(edge);
+            keys.add(key);
+          }
+          const u = p % n;
+          const v = q % n;
+          if (u === v || keys.has(`${Math.min(u, v)},${Math.max(u, v)}`)) return;
+          const builder = new GraphBuilder();
+          for (let i = 0; i < n; i += 1) builder.addVertex(i);
+          for (const [s, t] of edges) builder.addEdge(s, t, false);
+          const g = builder.build();
+          const crossed = routeEdgeVariableEmbedding(g, u, v).crossedPrimalEdges;
+
+          const planarity = testPlanarity(g);
+          if (!planarity.planar) throw new Error('expected planar input');
+          const fixed = routeEdgeFixedEmbedding(buildHalfEdgeMesh(g, planarity.embedding), u, v);
+          expect(crossed.length).toBeLessThanOrEqual(fixed?.crossedPrimalEdges.length ?? 0);
+
+          // Splitting each crossed edge and chaining the dummies from u to v stays planar.
+          const split = new GraphBuilder();
+          for (let i = 0; i < n + crossed.length; i += 1) split.addVertex(i);
+          g.edges().forEach((edge) => {
+            const at = crossed.indexOf(edge.id);
+            if (at === -1) split.addEdge(edge.u, edge.v, false);
+            else {
+              split.addEdge(edge.u, n + at, false);
+              split.addEdge(n + at, edge.v, false);
+            }
+          });
+          const chain = [u, ...crossed.map((_, i) => n + i), v];
+          for (let i = 0; i + 1 < chain.length; i += 1) split.addEdge(chain[i]!, chain[i + 1]!, false);
+          expect(testPlanarity(split.build()).planar).toBe(true);
+        },
+      ),
+      { numRuns: 80 },
+    );
+  });
+
+  it('routes across the cheapest edges by crossing cost', () => {
+    // K5 minus 0-1: the missing edge must cross one side of the triangle 2-3-4.
+    const k5 = new GraphBuilder();
+    for (let i = 0; i < 5; i += 1) k5.addVertex(i);
+    for (let i = 0; i < 5; i += 1) {
+      for (let j = i + 1; j < 5; j += 1) {
+        if (i === 0 && j === 1) continue;
+        k5.addEdge(i, j, false, i === 3 && j === 4 ? {} : { crossingCost: 5 });
+      }
+    }
+    const g = k5.build();
+    const cheap = g.edges().find((edge) => edge.u === 3 && edge.v === 4)!.id;
+    expect(routeEdgeVariableEmbedding(g, 0, 1).crossedPrimalEdges).toEqual([cheap]);
+    expect(routeEdgeOnGraph(g, 0, 1)?.crossedPrimalEdges).toEqual([cheap]);
+  });
 });
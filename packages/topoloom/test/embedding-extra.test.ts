@@ -1,7 +1,18 @@
 import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
 
 import { fromEdgeList } from '../src/graph';
-import { buildHalfEdgeMesh, rotationFromAdjacency, selectOuterFace, validateMesh } from '../src/embedding';
+import {
+  buildHalfEdgeMesh,
+  equivalent,
+  rotationFromAdjacency,
+  rotationFromPositions,
+  selectOuterFace,
+  validateMesh,
+} from '../src/embedding';
+import { randomPlanar } from '../src/generators';
+import { planarStraightLine } from '../src/layout';
+import { testPlanarity } from '../src/planarity';
 
 describe('embedding utilities', () => {
   it('selectOuterFace uses positions to pick the max-area face', () => {
@@ -33,6 +44,82 @@ describe('embedding utilities', () => {
     expect(selectOuterFace(mesh, positions)).toBe(expected);
   });
 
+  it('selectOuterFace picks faces by strategy, preference or a custom score', () => {
+    // A hexagon with chords 0-2 and 0-3: two triangles, a quadrilateral and the hexagon itself.
+    const graph = fromEdgeList([
+      [0, 1],
+      [1, 2],
+      [2, 3],
+      [3, 4],
+      [4, 5],
+      [5, 0],
+      [0, 2],
+      [0, 3],
+    ]);
+    const result = testPlanarity(graph);
+    if (!result.planar) throw new Error('expected planar');
+    const mesh = buildHalfEdgeMesh(graph, result.embedding);
+    const sides = mesh.faces.map((cycle) => cycle.length);
+    const through = (f: number, v: number) => mesh.faces[f]!.some((h) => mesh.origin[h] === v);
+    const triangles = sides.flatMap((n, f) => (n === 3 ? [f] : []));
+
+    expect(selectOuterFace(mesh, { strategy: 'largest' })).toBe(sides.indexOf(6));
+    expect(selectOuterFace(mesh, { strategy: 'smallest' })).toBe(triangles[0]);
+    expect(selectOuterFace(mesh)).toBe(triangles[0]);
+    expect(selectOuterFace(mesh, { strategy: 'medium' })).toBe(sides.indexOf(6));
+    const withFour = [0, 1, 2, 3].filter((f) => through(f, 4));
+    expect(
+      selectOuterFace(mesh, {
+        strategy: (f, m) => Number(m.faces[f]!.some((h) => m.origin[h] === 4)),
+      }),
+    ).toBe(withFour[0]);
+    expect(selectOuterFace(mesh, { strategy: 'smallest', preferVertices: [1, 4] })).toBe(
+      sides.indexOf(6),
+    );
+    expect(selectOuterFace(mesh, { strategy: 'largest', preferEdges: [7] })).toBe(sides.indexOf(4));
+    expect(() => selectOuterFace(mesh, { strategy: 'area' })).toThrow();
+    const positions = new Map([
+      [0, { x: 0, y: 0 }],
+      [1, { x: 1, y: -2 }],
+      [2, { x: 3, y: -2 }],
+      [3, { x: 4, y: 0 }],
+      [4, { x: 3, y: 2 }],
+      [5, { x: 1, y: 2 }],
+    ]);
+    expect(selectOuterFace(mesh, { positions })).toBe(sides.indexOf(6));
+    expect(selectOuterFace(mesh, { positions, preferVertices: [5] })).toBe(sides.indexOf(6));
+    expect(selectOuterFace(mesh, { positions, strategy: 'smallest' })).toBe(triangles[0]);
+  });
+
+  it('selectOuterFace keeps auto off faces far longer than medium aims for', () => {
+    // A 55-cycle fanned from vertex 0, with a 45-edge path from vertex 1 into triangle 0-1-2: the
+    // 55-gon is closest to the target of 40 sides, but auto falls back to a triangle instead.
+    const edges: Array<[number, number]> = [];
+    for (let v = 0; v < 55; v += 1) edges.push([v, (v + 1) % 55]);
+    for (let v = 2; v < 54; v += 1) edges.push([0, v]);
+    for (let v = 55; v < 100; v += 1) edges.push([v === 55 ? 1 : v - 1, v]);
+    const graph = fromEdgeList(edges);
+    const positions = new Map<number, { x: number; y: number }>();
+    for (let v = 0; v < 55; v += 1) {
+      const angle = (2 * Math.PI * v) / 55;
+      positions.set(v, { x: 100 * Math.cos(angle), y: 100 * Math.sin(angle) });
+    }
+    const [a, b, c] = [positions.get(0)!, positions.get(1)!, positions.get(2)!];
+    for (let k = 1; k <= 45; k += 1) {
+      const t = k / 46;
+      positions.set(54 + k, {
+        x: b.x + t * ((a.x + b.x + c.x) / 3 - b.x),
+        y: b.y + t * ((a.y + b.y + c.y) / 3 - b.y),
+      });
+    }
+    const mesh = buildHalfEdgeMesh(graph, rotationFromPositions(graph, positions).rotation);
+    const sides = mesh.faces.map((cycle) => cycle.length);
+    expect([...new Set(sides)].sort((x, y) => x - y)).toEqual([3, 55, 93]);
+
+    expect(selectOuterFace(mesh, { strategy: 'medium' })).toBe(sides.indexOf(55));
+    expect(sides[selectOuterFace(mesh)]).toBe(3);
+  });
+
   it('validateMesh reports twin mismatch errors', () => {
     const graph = fromEdgeList([
       [0, 1],
@@ -49,4 +136,106 @@ describe('embedding utilities', () => {
     expect(report.ok).toBe(false);
     expect(report.errors.some((err) => err.includes('Twin mismatch'))).toBe(true);
   });
+
+  it('reads the embedding of a plane straight-line drawing back from its positions', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 4, max: 30 }), fc.integer({ min: 0, max: 1000 }), (n, seed) => {
+        const graph = randomPlanar(n, { seed, edges: Math.min(3 * n - 6, n + 10) });
+        const result = testPlanarity(graph);
+        if (!result.planar) throw new Error('expected planar input');
+        const layout = planarStraightLine(buildHalfEdgeMesh(graph, result.embedding));
+        const drawn = rotationFromPositions(graph, layout.positions);
+        expect(drawn.plane).toBe(true);
+        expect(drawn.crossings).toEqual([]);
+        expect(equivalent(drawn.rotation, result.embedding)).toBe(true);
+        expect(validateMesh(buildHalfEdgeMesh(graph, drawn.rotation)).ok).toBe(true);
+
+        const mirror = new Map([...layout.positions].map(([v, p]) => [v, { x: -p.x, y: p.y }]));
+        const mirrored = rotationFromPositions(graph, mirror).rotation;
+        expect(equivalent(mirrored, result.embedding)).toBe(true);
+        // Swapping two neighbors of a vertex of degree four or more is no mirror image.
+        const hub = result.embedding.order.findIndex((refs) => refs.length >= 4);
+        if (hub < 0) return;
+        const swapped = {
+          order: result.embedding.order.map((refs, v) =>
+            v === hub ? [refs[1]!, refs[0]!, ...refs.slice(2)] : refs,
+          ),
+        };
+        expect(equivalent(swapped, result.embedding)).toBe(false);
+      }),
+      { numRuns: 40 },
+    );
+  });
+
+  it('reports crossing, overlapping and degenerate edges of a drawing', () => {
+    const square = fromEdgeList([
+      [0, 1],
+      [1, 2],
+      [2, 3],
+      [3, 0],
+      [0, 2],
+      [1, 3],
+    ]);
+    const corners = new Map([
+      [0, { x: 0, y: 0 }],
+      [1, { x: 1, y: 0 }],
+      [2, { x: 1, y: 1 }],
+      [3, { x: 0, y: 1 }],
+    ]);
+    const drawn = rotationFromPositions(square, corners);
+    expect(drawn.plane).toBe(false);
+    expect(drawn.crossings).toEqual([[4, 5]]);
+    expect(drawn.rotation.order[0]!.map((ref) => ref.to)).toEqual([1, 2, 3]);
+
+    const path = fromEdgeList([
+      [0, 1],
+      [0, 2],
+      [3, 4],
+    ]);
+    const collinear = new Map([
+      [0, { x: 0, y: 0 }],
+      [1, { x: 2, y: 0 }],
+      [2, { x: 1, y: 0 }],
+      [3, { x: 5, y: 5 }],
+      [4, { x: 5, y: 5 }],
+    ]);
+    expect(rotationFromPositions(path, collinear).crossings).toEqual([
+      [0, 1],
+      [2, 2],
+    ]);
+    expect(() => rotationFromPositions(path, new Map([[0, { x: 0, y: 0 }]]))).toThrow();
+
+    // Mirroring one component of two keeps the embedding.
+    const twoWheels = fromEdgeList(
+      [0, 4].flatMap(
+        (o): Array<[number, number]> => [
+          [o, o + 1],
+          [o, o + 2],
+          [o, o + 3],
+          [o + 1, o + 2],
+          [o + 2, o + 3],
+          [o + 3, o + 1],
+        ],
+      ),
+    );
+    const wheels = new Map(
+      [0, 4].flatMap(
+        (o) =>
+          [
+            [o, { x: o, y: 0 }],
+            [o + 1, { x: o - 1, y: -1 }],
+            [o + 2, { x: o + 1, y: -1 }],
+            [o + 3, { x: o, y: 1 }],
+          ] as Array<[number, { x: number; y: number }]>,
+      ),
+    );
+    const base = rotationFromPositions(twoWheels, wheels);
+    expect(base.plane).toBe(true);
+    const oneMirrored = new Map(
+      [...wheels].map(([v, p]) => [v, v >= 4 ? { x: 8 - p.x, y: p.y } : p]),
+    );
+    expect(equivalent(rotationFromPositions(twoWheels, oneMirrored).rotation, base.rotation)).toBe(
+      true,
+    );
+  });
 });
@@ -1,7 +1,123 @@
 import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
 
 import { GraphBuilder } from '../src/graph';
-import { buildHalfEdgeMesh, rotationFromAdjacency, validateMesh } from '../src/embedding';
+import {
+  augment,
+  buildHalfEdgeMesh,
+  contractEdge,
+  deleteEdge,
+  flipEdge,
+  genus,
+  insertEdgeInFace,
+  splitEdge,
+  rotationFromAdjacency,
+  validateMesh,
+  type AugmentOptions,
+  type HalfEdgeMesh,
+} from '../src/embedding';
+import { biconnectedComponents } from '../src/dfs';
+import { randomTriangulation, torus } from '../src/generators';
+import { testPlanarity } from '../src/planarity';
+
+const meshFromEdges = (n: number, edges: Array<[number, number]>) => {
+  const builder = new GraphBuilder();
+  for (let i = 0; i < n; i += 1) builder.addVertex(i);
+  for (const [u, v] of edges) builder.addEdge(u, v, false);
+  const g = builder.build();
+  const result = testPlanarity(g);
+  if (!result.planar) throw new Error('expected planar input');
+  return buildHalfEdgeMesh(g, result.embedding);
+};
+
+const graphOfMesh = (n: number, mesh: HalfEdgeMesh, without: number[] = []) => {
+  const builder = new GraphBuilder();
+  for (let i = 0; i < n; i += 1) builder.addVertex(i);
+  for (let h = 0; h < mesh.halfEdgeCount; h += 2) {
+    const [u, v] = [mesh.origin[h]!, mesh.origin[h + 1]!];
+    if (!without.includes(u) && !without.includes(v)) builder.addEdge(u, v, false);
+  }
+  return builder.build();
+};
+
+const isConnected = (n: number, mesh: HalfEdgeMesh, without: number[] = []) => {
+  const g = graphOfMesh(n, mesh, without);
+  const start = [...Array(n).keys()].find((v) => !without.includes(v));
+  if (start === undefined) return true;
+  const seen = new Set([start]);
+  const stack = [start];
+  while (stack.length > 0) {
+    for (const adj of g.adjacency(stack.pop()!)) {
+      if (seen.has(adj.to)) continue;
+      seen.add(adj.to);
+      stack.push(adj.to);
+    }
+  }
+  return seen.size === n - without.length;
+};
+
+// Faces agree with face[], edges keep their half-edge pairs and Euler's formula holds for every
+// component, so the edited mesh is still a plane embedding.
+const expectPlaneMesh = (mesh: HalfEdgeMesh) => {
+  expect(validateMesh(mesh).ok).toBe(true);
+  mesh.faces.forEach((cycle, f) => cycle.forEach((h) => expect(mesh.face[h]).toBe(f)));
+  for (let h = 0; h < mesh.halfEdgeCount; h += 1) {
+    expect(mesh.twin[h]).toBe(h ^ 1);
+    expect(mesh.edge[h]).toBe(h >> 1);
+  }
+  const parent = new Map(mesh.origin.map((v) => [v, v]));
+  const find = (v: number): number => (parent.get(v) === v ? v : find(parent.get(v)!));
+  for (let h = 0; h < mesh.halfEdgeCount; h += 2) {
+    parent.set(find(mesh.origin[h]!), find(mesh.origin[h + 1]!));
+  }
+  const components = new Set(mesh.origin.map(find)).size;
+  expect(parent.size - mesh.halfEdgeCount / 2 + mesh.faces.length).toBe(2 * components);
+};
+
+// The augmented mesh keeps the original edges in their rotation and only adds simple edges.
+const expectAugmented = (n: number, mesh: HalfEdgeMesh, target: AugmentOptions['target']) => {
+  const { mesh: result, dummy } = augment(mesh, { target, vertexCount: n });
+  expect(validateMesh(result).ok).toBe(true);
+  expect(dummy.length).toBe(result.halfEdgeCount / 2);
+  const rotate = (m: HalfEdgeMesh, h: number) => m.next[m.twin[h]!]!;
+  for (let h = 0; h < mesh.halfEdgeCount; h += 1) {
+    expect(result.origin[h]).toBe(mesh.origin[h]);
+    expect(dummy[result.edge[h]!]).toBe(false);
+    let around = rotate(result, h);
+    while (around >= mesh.halfEdgeCount) around = rotate(result, around);
+    expect(around).toBe(rotate(mesh, h));
+  }
+  const pairs = new Set<string>();
+  for (let h = 0; h < result.halfEdgeCount; h += 2) {
+    const [u, v] = [result.origin[h]!, result.origin[h + 1]!].sort((a, b) => a - b);
+    if (h >= mesh.halfEdgeCount) {
+      expect(dummy[result.edge[h]!]).toBe(true);
+      expect(u).not.toBe(v);
+      expect(pairs.has(`${u},${v}`)).toBe(false);
+    }
+    pairs.add(`${u},${v}`);
+  }
+  expect(isConnected(n, result)).toBe(true);
+  if (result.halfEdgeCount > 0) {
+    expect(n - result.halfEdgeCount / 2 + result.faces.length).toBe(2);
+  }
+  if (target === 'biconnected' || target === 'triangulated') {
+    const blocks = biconnectedComponents(graphOfMesh(n, result));
+    expect(blocks.articulationPoints).toEqual([]);
+  }
+  if (target === 'triconnected') {
+    for (let u = 0; u < n && n >= 4; u += 1) {
+      for (let v = u + 1; v < n; v += 1) expect(isConnected(n, result, [u, v])).toBe(true);
+    }
+  }
+  if (target === 'triangulated' && n >= 3) {
+    for (const face of result.faces) {
+      const sides = face.filter((h) => result.origin[h] !== result.origin[h ^ 1]);
+      expect([0, 3]).toContain(sides.length);
+    }
+  }
+  return result;
+};
 
 describe('embedding', () => {
   it('builds half-edge mesh for triangle', () => {
@@ -54,4 +170,237 @@ describe('embedding', () => {
     expect(validation.ok).toBe(true);
     expect(mesh.faces.length).toBeGreaterThanOrEqual(1);
   });
+
+  it('augments embeddings to every connectivity target', () => {
+    const targets: Array<AugmentOptions['target']> = [
+      'connected',
+      'biconnected',
+      'triconnected',
+      'triangulated',
+    ];
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 12 }),
+        fc.integer({ min: 0, max: 1000 }),
+        fc.array(fc.boolean(), { minLength: 30, maxLength: 30 }),
+        (n, seed, keep) => {
+          const all: Array<[number, number]> =
+            n >= 3
+              ? randomTriangulation(n, { seed })
+                  .edges()
+                  .map((e) => [e.u, e.v])
+              : n === 2
+                ? [[0, 1]]
+                : [];
+          const edges = all.filter((_, i) => keep[i % keep.length]);
+          const mesh = meshFromEdges(n, edges);
+          for (const target of targets) expectAugmented(n, mesh, target);
+        },
+      ),
+      { numRuns: 150 },
+    );
+  });
+
+  it('keeps self-loops and vertex degrees low while augmenting', () => {
+    const path = meshFromEdges(
+      8,
+      Array.from({ length: 7 }, (_, i) => [i, i + 1]),
+    );
+    const degrees = (mesh: HalfEdgeMesh) => {
+      const degree = Array(8).fill(0);
+      for (const v of mesh.origin) degree[v] += 1;
+      return degree;
+    };
+    expect(Math.max(...degrees(expectAugmented(8, path, 'biconnected')))).toBe(2);
+    expect(Math.max(...degrees(expectAugmented(8, path, 'triangulated')))).toBeLessThanOrEqual(5);
+
+    const loops = meshFromEdges(4, [
+      [0, 1],
+      [1, 1],
+      [1, 2],
+    ]);
+    const result = expectAugmented(4, loops, 'triangulated');
+    expect(result.halfEdgeCount / 2).toBe(3 * 4 - 6 + 1);
+    expect(() =>
+      augment({ ...loops, twin: loops.twin.map((t) => t ^ 1) }, { target: 'connected' }),
+    ).toThrow();
+  });
+
+  it('augments every component on its own when asked', () => {
+    const apart = meshFromEdges(9, [
+      [0, 1],
+      [1, 2],
+      [2, 3],
+      [4, 5],
+      [5, 6],
+      [6, 7],
+    ]);
+    const { mesh: result } = augment(apart, { target: 'triangulated', perComponent: true });
+    expect(validateMesh(result).ok).toBe(true);
+    for (let h = 0; h < result.halfEdgeCount; h += 1) {
+      expect(result.origin[h]! < 4).toBe(result.origin[h ^ 1]! < 4);
+    }
+    expect(result.faces.every((cycle) => cycle.length === 3)).toBe(true);
+    expect(augment(apart, { target: 'connected', perComponent: true }).mesh.halfEdgeCount).toBe(12);
+  });
+
+  it('edits meshes in place and keeps every face consistent', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 3, max: 10 }),
+        fc.integer({ min: 0, max: 1000 }),
+        fc.array(fc.tuple(fc.integer({ min: 0, max: 4 }), fc.nat(), fc.nat()), {
+          minLength: 1,
+          maxLength: 25,
+        }),
+        (n, seed, steps) => {
+          const edges = randomTriangulation(n, { seed })
+            .edges()
+            .map((e): [number, number] => [e.u, e.v]);
+          const mesh = meshFromEdges(n, edges);
+          let nextVertex = n;
+          for (const [kind, a, b] of steps) {
+            const edgeCount = mesh.halfEdgeCount / 2;
+            if (edgeCount === 0) break;
+            const e = a % edgeCount;
+            const [u, v] = [mesh.origin[2 * e]!, mesh.origin[2 * e + 1]!];
+            if (kind === 0) {
+              const cycle = mesh.faces[a % mesh.faces.length]!;
+              if (cycle.length < 2) continue;
+              const [from, to] = [cycle[b % cycle.length]!, cycle[(b + 1) % cycle.length]!];
+              const faceCount = mesh.faces.length;
+              const h = insertEdgeInFace(mesh, from, to, { validate: true });
+              expect([mesh.origin[h], mesh.origin[h ^ 1]]).toEqual([
+                mesh.origin[from],
+                mesh.origin[to],
+              ]);
+              expect(mesh.faces.length).toBe(faceCount + 1);
+            } else if (kind === 1) {
+              const w = nextVertex;
+              nextVertex += 1;
+              const h = splitEdge(mesh, e, w, { validate: true });
+              expect([mesh.origin[2 * e], mesh.origin[2 * e + 1]]).toEqual([u, w]);
+              expect([mesh.origin[h], mesh.origin[h ^ 1]]).toEqual([w, v]);
+            } else if (kind === 2 || kind === 3) {
+              // Faces away from the edge keep their walks, and their ids unless reported as moved.
+              const away = mesh.faces
+                .map((cycle, f) => ({ f, cycle }))
+                .filter(({ f }) => f !== mesh.face[2 * e] && f !== mesh.face[2 * e + 1]);
+              const contract = kind === 3 && u !== v;
+              const { moved, movedFace } = contract
+                ? contractEdge(mesh, e, { validate: true })
+                : deleteEdge(mesh, e, { validate: true });
+              expect(mesh.halfEdgeCount / 2).toBe(edgeCount - 1);
+              expect(moved === null ? e : moved.from).toBe(edgeCount - 1);
+              if (contract) expect(mesh.origin).not.toContain(v);
+              const rename = (x: number) => (x >> 1 === moved?.from ? 2 * e + (x & 1) : x);
+              for (const { f, cycle } of away) {
+                const id = movedFace?.from === f ? movedFace.to : f;
+                expect(mesh.faces[id]).toEqual(cycle.map(rename));
+              }
+            } else {
+              const [fh, ft] = [mesh.face[2 * e]!, mesh.face[2 * e + 1]!];
+              const [a1, b1] = [
+                mesh.origin[mesh.next[2 * e]! ^ 1],
+                mesh.origin[mesh.next[2 * e + 1]! ^ 1],
+              ];
+              if (
+                fh === ft ||
+                mesh.faces[fh]!.length < 3 ||
+                mesh.faces[ft]!.length < 3 ||
+                a1 === b1
+              ) {
+                expect(() => flipEdge(mesh, e)).toThrow();
+                continue;
+              }
+              flipEdge(mesh, e, { validate: true });
+              expect([mesh.origin[2 * e], mesh.origin[2 * e + 1]]).toEqual([b1, a1]);
+              expect([mesh.face[2 * e], mesh.face[2 * e + 1]]).toEqual([fh, ft]);
+            }
+            expectPlaneMesh(mesh);
+          }
+        },
+      ),
+      { numRuns: 150 },
+    );
+  });
+
+  it('keeps triangulations triangulated under flips', () => {
+    const mesh = meshFromEdges(
+      6,
+      randomTriangulation(6, { seed: 4 })
+        .edges()
+        .map((e) => [e.u, e.v]),
+    );
+    const adjacent = (a: number, b: number) =>
+      mesh.origin.some((x, h) => x === a && mesh.origin[h ^ 1] === b);
+    let flips = 0;
+    for (let e = 0; e < mesh.halfEdgeCount / 2; e += 1) {
+      const [a, b] = [mesh.origin[mesh.next[2 * e]! ^ 1]!, mesh.origin[mesh.next[2 * e + 1]! ^ 1]!];
+      if (adjacent(a, b)) continue;
+      flipEdge(mesh, e, { validate: true });
+      flips += 1;
+      expect([mesh.origin[2 * e], mesh.origin[2 * e + 1]].sort()).toEqual([a, b].sort());
+      for (const cycle of mesh.faces) expect(cycle.length).toBe(3);
+    }
+    expect(flips).toBeGreaterThan(0);
+    expectPlaneMesh(mesh);
+    expect(() => insertEdgeInFace(mesh, 0, 0)).toThrow();
+    const loop = meshFromEdges(2, [
+      [0, 1],
+      [1, 1],
+    ]);
+    expect(() => contractEdge(loop, 1)).toThrow();
+    expect(deleteEdge(loop, 0)).toEqual({ moved: { from: 1, to: 0 }, movedFace: null });
+    expectPlaneMesh(loop);
+  });
+
+  it('reports the face that a removal moves into a freed id', () => {
+    const mesh = meshFromEdges(
+      6,
+      randomTriangulation(6, { seed: 4 })
+        .edges()
+        .map((e) => [e.u, e.v]),
+    );
+    const last = mesh.faces.length - 1;
+    const e = mesh.edge.findIndex((_, h) => mesh.face[h]! < last && mesh.face[h ^ 1]! < last) >> 1;
+    const [fh, ft] = [mesh.face[2 * e]!, mesh.face[2 * e + 1]!];
+    const lastCycle = mesh.faces[last]!.slice();
+    const { moved, movedFace } = deleteEdge(mesh, e, { validate: true });
+    expect(moved).not.toBeNull();
+    expect(movedFace).toEqual({ from: last, to: Math.max(fh, ft) });
+    const rename = (x: number) => (x >> 1 === moved!.from ? 2 * e + (x & 1) : x);
+    expect(mesh.faces[Math.max(fh, ft)]).toEqual(lastCycle.map(rename));
+    expect(mesh.face[mesh.faces[Math.min(fh, ft)]![0]!]).toBe(Math.min(fh, ft));
+    expect(mesh.faces[Math.min(fh, ft)]).toHaveLength(4);
+    expectPlaneMesh(mesh);
+  });
+
+  it('reads the genus of a mesh off Euler characteristic per component', () => {
+    const g = torus(3, 4);
+    const at = (r: number, c: number) => ((r + 3) % 3) * 4 + ((c + 4) % 4);
+    const order = g.vertices().map((v) => {
+      const [r, c] = [Math.floor(v / 4), v % 4];
+      return [at(r, c + 1), at(r + 1, c), at(r, c - 1), at(r - 1, c)].map((to) => ({
+        to,
+        edge: g.adjacency(v).find((adj) => adj.to === to)!.edge,
+      }));
+    });
+    const grid = buildHalfEdgeMesh(g, { order });
+    expect(grid.faces).toHaveLength(12);
+    expect(genus(grid)).toBe(1);
+
+    // Two triangles, a loop and an isolated vertex: every component sits on its own sphere.
+    const apart = meshFromEdges(8, [
+      [0, 1],
+      [1, 2],
+      [2, 0],
+      [3, 4],
+      [4, 5],
+      [5, 3],
+      [6, 6],
+    ]);
+    expect(genus(apart)).toBe(0);
+    expect(genus(meshFromEdges(1, []))).toBe(0);
+  });
 });
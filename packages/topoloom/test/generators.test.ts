@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+
+import type { Graph } from '../src/graph';
+import { biconnectedComponents } from '../src/dfs';
+import { spqrDecompose, validateSPQRTree } from '../src/decomp';
+import { planarityLeftRight } from '../src/planarity/ts';
+import {
+  grid,
+  kuratowskiSubdivision,
+  nearPlanar,
+  randomKTree,
+  randomPlanar,
+  randomTriangulation,
+  seriesParallel,
+  torus,
+} from '../src/generators';
+
+const isPlanar = (graph: Graph, edgeLimit = graph.edgeCount()) =>
+  planarityLeftRight(graph.vertexCount(), graph.edges().slice(0, edgeLimit)) !== null;
+
+const isSimple = (graph: Graph) => {
+  const keys = graph.edges().map((e) => (e.u < e.v ? `${e.u},${e.v}` : `${e.v},${e.u}`));
+  return graph.edges().every((e) => e.u !== e.v) && new Set(keys).size === keys.length;
+};
+
+const isConnected = (graph: Graph) => {
+  const seen = new Set([0]);
+  const queue = [0];
+  while (queue.length > 0) {
+    for (const adj of graph.adjacency(queue.pop()!)) {
+      if (!seen.has(adj.to)) {
+        seen.add(adj.to);
+        queue.push(adj.to);
+      }
+    }
+  }
+  return seen.size === graph.vertexCount();
+};
+
+const segmentsCross = (
+  p: { x: number; y: number },
+  q: { x: number; y: number },
+  r: { x: number; y: number },
+  s: { x: number; y: number },
+) => {
+  const orient = (a: typeof p, b: typeof p, c: typeof p) =>
+    Math.sign((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+  return orient(p, q, r) * orient(p, q, s) < 0 && orient(r, s, p) * orient(r, s, q) < 0;
+};
+
+describe('generators', () => {
+  it('builds grids and tori', () => {
+    const g = grid(3, 4);
+    expect([g.vertexCount(), g.edgeCount()]).toEqual([12, 17]);
+    expect(g.vertexAttributes(5)).toEqual({ x: 1, y: 1 });
+    expect(isPlanar(g)).toBe(true);
+    const t = torus(3, 4);
+    expect([t.vertexCount(), t.edgeCount()]).toEqual([12, 24]);
+    expect(isSimple(t)).toBe(true);
+    expect(isPlanar(t)).toBe(false);
+    expect(() => torus(2, 5)).toThrow(/rows must be an integer >= 3/);
+  });
+
+  it('generates seeded maximal planar triangulations', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 3, max: 40 }), fc.nat(), (n, seed) => {
+        const g = randomTriangulation(n, { seed });
+        expect(g.edgeCount()).toBe(3 * n - 6);
+        expect(isSimple(g)).toBe(true);
+        expect(isPlanar(g)).toBe(true);
+        expect(randomTriangulation(n, { seed }).toJSON()).toEqual(g.toJSON());
+      }),
+      { numRuns: 60 },
+    );
+    const degrees = (g: Graph) => g.vertices().map((v) => g.adjacency(v).length);
+    expect(degrees(randomTriangulation(30, { seed: 1 }))).not.toEqual(
+      degrees(randomTriangulation(30, { seed: 2 })),
+    );
+  });
+
+  it('thins random planar graphs while keeping them connected', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 3, max: 30 }),
+        fc.nat(),
+        fc.constantFrom('flip' as const, 'delaunay' as const),
+        fc.double({ min: 0, max: 1, noNaN: true }),
+        (n, seed, method, fraction) => {
+          const full = randomPlanar(n, { seed, method });
+          const edges = n - 1 + Math.floor(fraction * (full.edgeCount() - n + 1));
+          const g = randomPlanar(n, { seed, method, edges });
+          expect(g.edgeCount()).toBe(edges);
+          expect(isSimple(g) && isConnected(g) && isPlanar(g)).toBe(true);
+          if (method === 'delaunay') {
+            const list = full.edges();
+            const at = (v: number) => full.vertexAttributes(v) as { x: number; y: number };
+            for (const e of list) {
+              for (const f of list) {
+                if (new Set([e.u, e.v, f.u, f.v]).size < 4) continue;
+                expect(segmentsCross(at(e.u), at(e.v), at(f.u), at(f.v))).toBe(false);
+              }
+            }
+          }
+        },
+      ),
+      { numRuns: 60 },
+    );
+    expect(() => randomPlanar(5, { edges: 3 })).toThrow(/Edge count must lie in 4\.\.9/);
+  });
+
+  it('generates series-parallel graphs without rigid SPQR nodes', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 3, max: 30 }), fc.nat(), (n, seed) => {
+        const g = seriesParallel(n, { seed });
+        expect(isSimple(g)).toBe(true);
+        expect(biconnectedComponents(g).articulationPoints).toEqual([]);
+        const tree = spqrDecompose(g);
+        expect(validateSPQRTree(tree).ok).toBe(true);
+        expect(tree.nodes.some((node) => node.type === 'R')).toBe(false);
+      }),
+      { numRuns: 40 },
+    );
+    const closed = seriesParallel(12, { seed: 3 }).edgeCount();
+    expect([closed - 1, closed]).toContain(seriesParallel(12, { seed: 3, closed: false }).edgeCount());
+  });
+
+  it('subdivides Kuratowski graphs and grows k-trees', () => {
+    for (const kind of ['K5', 'K33'] as const) {
+      const g = kuratowskiSubdivision(kind, 7, { seed: 4 });
+      const base = kind === 'K5' ? [5, 10] : [6, 9];
+      expect([g.vertexCount(), g.edgeCount()]).toEqual([base[0]! + 7, base[1]! + 7]);
+      expect(g.vertices().filter((v) => g.adjacency(v).length === 2)).toHaveLength(7);
+      expect(isPlanar(g)).toBe(false);
+      expect(isPlanar(g, g.edgeCount() - 1)).toBe(true);
+    }
+
+    const kTree = randomKTree(20, 3, { seed: 5 });
+    expect(kTree.edgeCount()).toBe(3 * 20 - 6);
+    expect(isSimple(kTree)).toBe(true);
+    expect(isPlanar(randomKTree(25, 2, { seed: 6 }))).toBe(true);
+  });
+
+  it('adds nonplanar extra edges to a triangulation', () => {
+    const g = nearPlanar(15, 4, { seed: 7 });
+    expect(g.edgeCount()).toBe(3 * 15 - 6 + 4);
+    expect(isSimple(g)).toBe(true);
+    expect(isPlanar(g, 3 * 15 - 6)).toBe(true);
+    expect(isPlanar(g, 3 * 15 - 5)).toBe(false);
+    expect(nearPlanar(6, 3, { seed: 1 }).edgeCount()).toBe(15);
+    expect(() => nearPlanar(6, 4)).toThrow(/Only 3 extra edges fit/);
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
 
-import { GraphBuilder, fromAdjList, fromEdgeList, Graph } from '../src/graph';
+import { CsrGraph, GraphBuilder, MutableGraph, fromAdjList, fromEdgeList, Graph } from '../src/graph';
+import { biconnectedComponents } from '../src/dfs';
+import { buildHalfEdgeMesh, rotationFromAdjacency } from '../src/embedding';
+import { testPlanarity } from '../src/planarity';
 
 describe('graph', () => {
   it('builds a graph with stable adjacency order', () => {
@@ -56,4 +60,162 @@ describe('graph', () => {
     const list = g.toEdgeList();
     expect(list[0]?.[2]).toBe(false);
   });
+
+  it('edits a mutable graph with stable ids and provenance', () => {
+    const g = fromEdgeList([
+      ['a', 'b'],
+      ['b', 'c'],
+      ['c', 'd'],
+      ['d', 'a'],
+      ['a', 'c'],
+    ]);
+    const mutable = MutableGraph.from(g);
+    mutable.removeEdge(4);
+    const { vertex, edges } = mutable.subdivideEdge(0);
+    expect(mutable.adjacency(0).map((entry) => entry.edge)).toEqual([edges[0], 3]);
+    expect(mutable.adjacency(vertex).map((entry) => entry.to)).toEqual([0, 1]);
+    expect(edges.map((e) => mutable.edgeOrigin(e))).toEqual([0, 0]);
+
+    expect(mutable.contractEdge(1)).toBe(1);
+    expect(mutable.hasVertex(2)).toBe(false);
+    expect(mutable.edge(2)).toMatchObject({ u: 1, v: 3 });
+    mutable.removeVertex(vertex);
+    expect(() => mutable.edge(edges[0])).toThrow(/not found/);
+
+    const frozen = mutable.freeze();
+    expect(frozen.graph.vertexCount()).toBe(3);
+    expect(frozen.vertexIds).toEqual([0, 1, 3]);
+    expect(frozen.edgeIds).toEqual([2, 3]);
+    expect(frozen.edgeOrigin).toEqual([2, 3]);
+    expect(frozen.graph.toEdgeList()).toEqual([
+      [1, 2, false],
+      [2, 0, false],
+    ]);
+    expect(frozen.graph.vertices().map((v) => frozen.graph.label(v))).toEqual(['a', 'b', 'd']);
+    expect(frozen.graph.neighbors(2)).toEqual([1, 0]);
+
+    const builder = new GraphBuilder();
+    builder.addVertex('a');
+    builder.addVertex('b');
+    builder.addEdge(0, 0, true);
+    builder.addEdge(1, 0, true);
+    const directed = MutableGraph.from(builder.build());
+    directed.setEdgeDirected(0, false);
+    directed.setEdgeDirected(1, false);
+    expect(directed.adjacency(0).map((entry) => entry.dir)).toEqual([
+      'undirected',
+      'undirected',
+      'undirected',
+    ]);
+    directed.setEdgeDirected(0, true);
+    expect(directed.adjacency(0).map((entry) => entry.dir)).toEqual(['out', 'in', 'undirected']);
+    expect(directed.freeze().graph.toEdgeList()).toEqual([
+      [0, 0, true],
+      [1, 0, false],
+    ]);
+  });
+
+  it('keeps embeddings planar through contraction and subdivision', () => {
+    // Wheel with five spokes, embedded by the planarity test.
+    const builder = new GraphBuilder();
+    for (let i = 0; i < 6; i += 1) builder.addVertex(i);
+    for (let i = 1; i <= 5; i += 1) {
+      builder.addEdge(0, i, false);
+      builder.addEdge(i, (i % 5) + 1, false);
+    }
+    const planarity = testPlanarity(builder.build());
+    if (!planarity.planar) throw new Error('expected planar');
+    const embedded = new Graph(
+      planarity.embedding.order.map((_, v) => v),
+      builder.build().edges(),
+      planarity.embedding.order.map((list) => list.map((ref) => ({ ...ref, dir: 'undirected' as const }))),
+    );
+    const mutable = MutableGraph.from(embedded);
+    mutable.subdivideEdge(1);
+    mutable.contractEdge(0);
+    mutable.contractEdge(2);
+    const { graph } = mutable.freeze();
+    const mesh = buildHalfEdgeMesh(graph, {
+      order: graph.vertices().map((v) => [...graph.adjacency(v)]),
+    });
+    // Euler: V - E + F = 2 for the connected result, loops and parallels included.
+    expect(graph.vertexCount() - graph.edgeCount() + mesh.faces.length).toBe(2);
+  });
+
+  it('keeps vertex and edge attributes through JSON and edits', () => {
+    const builder = new GraphBuilder();
+    const a = builder.addVertex('a', { width: 40, height: 20, group: 'left' });
+    const b = builder.addVertex('b');
+    builder.addEdge(a, b, false, { weight: 2.5, crossingCost: 3, sourcePort: 'east' });
+    builder.addEdge(b, a, true);
+    const g = builder.build();
+    expect(g.vertexAttributes(b)).toEqual({});
+
+    const json = g.toJSON();
+    expect(json.vertexAttributes).toEqual([{ width: 40, height: 20, group: 'left' }, {}]);
+    expect(json.edges[1]).toEqual({ u: b, v: a, directed: true });
+    const restored = Graph.fromJSON(JSON.parse(JSON.stringify(json)));
+    expect(restored.vertexAttributes(a)).toEqual({ width: 40, height: 20, group: 'left' });
+    expect(restored.edgeAttributes(0)).toEqual({ weight: 2.5, crossingCost: 3, sourcePort: 'east' });
+    expect(fromEdgeList([['x', 'y']]).toJSON().vertexAttributes).toBeUndefined();
+
+    const mutable = MutableGraph.from(restored);
+    const { edges } = mutable.subdivideEdge(0);
+    expect(edges.map((e) => mutable.edgeAttributes(e).crossingCost)).toEqual([3, 3]);
+    mutable.setVertexAttributes(b, { weight: 7 });
+    const { graph } = mutable.freeze();
+    expect(graph.vertexAttributes(b)).toEqual({ weight: 7 });
+    expect(graph.edgeAttributes(graph.edgeCount() - 1).sourcePort).toBe('east');
+  });
+
+  it('reads CSR graphs like the graphs they were built from', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 10 }),
+        fc.array(fc.tuple(fc.nat({ max: 9 }), fc.nat({ max: 9 }), fc.boolean()), { maxLength: 25 }),
+        (n, raw) => {
+          const builder = new GraphBuilder();
+          for (let i = 0; i < n; i += 1) builder.addVertex(`v${i}`);
+          for (const [u, v, directed] of raw) builder.addEdge(u % n, v % n, directed);
+          const g = builder.build();
+          const edges = g.edges();
+          const csr = CsrGraph.fromEdges(
+            n,
+            edges.map((edge) => edge.u),
+            edges.map((edge) => edge.v),
+            edges.map((edge) => (edge.directed ? 1 : 0)),
+          );
+          for (const view of [csr, CsrGraph.fromGraph(g)]) {
+            expect(view.vertexCount()).toBe(n);
+            expect(view.edges()).toEqual(edges);
+            for (const v of g.vertices()) expect(view.adjacency(v)).toEqual(g.adjacency(v));
+          }
+          expect(CsrGraph.fromGraph(g).label(n - 1)).toBe(`v${n - 1}`);
+          expect(biconnectedComponents(csr, { treatDirectedAsUndirected: true, allowSelfLoops: 'ignore' })).toEqual(
+            biconnectedComponents(g, { treatDirectedAsUndirected: true, allowSelfLoops: 'ignore' }),
+          );
+          const planarity = testPlanarity(csr);
+          expect(planarity.planar).toBe(testPlanarity(g).planar);
+          if (planarity.planar && edges.every((edge) => !edge.directed)) {
+            expect(buildHalfEdgeMesh(csr, rotationFromAdjacency(csr)).faces.length).toBe(
+              buildHalfEdgeMesh(g, rotationFromAdjacency(g)).faces.length,
+            );
+          }
+        },
+      ),
+      { numRuns: 60 },
+    );
+  });
+
+  it('transfers CSR graphs without copying', () => {
+    const csr = CsrGraph.fromEdges(4, [0, 1, 2, 3], [1, 2, 3, 0]);
+    const data = csr.toData();
+    const received = new CsrGraph(structuredClone(data, { transfer: CsrGraph.transferList(data) }));
+    expect(data.targets.byteLength).toBe(0);
+    expect(received.neighbors(0)).toEqual(Int32Array.from([1, 3]));
+    expect(received.degree(2)).toBe(2);
+    expect(testPlanarity(received).planar).toBe(true);
+    expect(() => CsrGraph.fromEdges(2, [0], [2])).toThrow(/Invalid vertex/);
+    expect(() => new CsrGraph({ ...received.toData(), offsets: new Int32Array([0, 1]) })).toThrow(/Invalid CSR/);
+  });
 });
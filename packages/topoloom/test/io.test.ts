@@ -0,0 +1,318 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+
+import { GraphBuilder } from '../src/graph';
+import type { Graph } from '../src/graph';
+import {
+  fromBu4p,
+  fromDIMACS,
+  fromDOT,
+  fromGML,
+  fromGraphML,
+  fromMatrixMarket,
+  fromOsm,
+  fromSnapEdgeList,
+  fromWolframSparseArray,
+  toDIMACS,
+  toDOT,
+  toGML,
+  toGraphML,
+} from '../src/io';
+
+const edgeTriples = (graph: Graph) => graph.edges().map((edge) => [edge.u, edge.v, edge.directed]);
+const labels = (graph: Graph) => graph.vertices().map((v) => graph.label(v));
+
+const randomGraph = (booleans: boolean) =>
+  fc
+    .record({
+      n: fc.integer({ min: 1, max: 7 }),
+      edges: fc.array(
+        fc.record({
+          u: fc.nat(),
+          v: fc.nat(),
+          directed: fc.boolean(),
+          weight: fc.option(fc.integer({ min: -50, max: 50 }), { nil: undefined }),
+          note: fc.option(fc.constantFrom('a<b', 'x & "y"', 'plain', 'two words'), {
+            nil: undefined,
+          }),
+        }),
+        { maxLength: 12 },
+      ),
+      widths: fc.array(
+        fc.option(
+          fc.integer({ min: 0, max: 10000 }).map((width) => width / 100),
+          { nil: undefined },
+        ),
+        { minLength: 7, maxLength: 7 },
+      ),
+      flags: fc.array(fc.option(fc.boolean(), { nil: undefined }), { minLength: 7, maxLength: 7 }),
+    })
+    .map(({ n, edges, widths, flags }) => {
+      const builder = new GraphBuilder();
+      for (let v = 0; v < n; v += 1) {
+        const width = widths[v];
+        const flag = booleans ? flags[v] : undefined;
+        builder.addVertex(`v${v} <${v}>`, {
+          ...(width === undefined ? {} : { width }),
+          ...(flag === undefined ? {} : { flag }),
+        });
+      }
+      for (const edge of edges) {
+        builder.addEdge(edge.u % n, edge.v % n, edge.directed, {
+          ...(edge.weight === undefined ? {} : { weight: edge.weight }),
+          ...(edge.note === undefined ? {} : { note: edge.note }),
+        });
+      }
+      return builder.build();
+    });
+
+describe('graph io', () => {
+  it('round-trips labels, attributes and mixed directions through GraphML, GML and DOT', () => {
+    fc.assert(
+      fc.property(randomGraph(true), (graph) => {
+        expect(fromGraphML(toGraphML(graph)).toJSON()).toEqual(graph.toJSON());
+        expect(fromDOT(toDOT(graph)).toJSON()).toEqual(graph.toJSON());
+      }),
+      { numRuns: 60 },
+    );
+    fc.assert(
+      fc.property(randomGraph(false), (graph) => {
+        expect(fromGML(toGML(graph)).toJSON()).toEqual(graph.toJSON());
+      }),
+      { numRuns: 60 },
+    );
+  });
+
+  it('round-trips null, numeric, repeated and escaped labels through GraphML, GML and DOT', () => {
+    const build = (labelList: Array<string | number | null>) => {
+      const builder = new GraphBuilder();
+      labelList.forEach((label, v) => builder.addVertex(label, { size: v % 2 ? 'wide' : v }));
+      for (let v = 1; v < labelList.length; v += 1) {
+        builder.addEdge(v - 1, v, false, { note: 'a\\"b\\' });
+      }
+      return builder.build();
+    };
+    const cases = [
+      build([null, 7, 'seven', 'C:\\dir\\', '7']),
+      build([7, 'seven', 'x"y\\', '7']),
+      build(['a', 'a', 3]),
+    ];
+    for (const graph of cases) {
+      expect(fromGraphML(toGraphML(graph)).toJSON()).toEqual(graph.toJSON());
+      expect(fromGML(toGML(graph)).toJSON()).toEqual(graph.toJSON());
+      expect(fromDOT(toDOT(graph)).toJSON()).toEqual(graph.toJSON());
+    }
+    expect(toDOT(cases[1]!)).toContain('"x\\"y\\\\"');
+
+    const clash = new GraphBuilder();
+    clash.addVertex('a', { label: 'b' });
+    expect(() => toDOT(clash.build())).toThrow(/clashes with the DOT vertex label/);
+  });
+
+  it('round-trips DIMACS structure and weights', () => {
+    const builder = new GraphBuilder();
+    for (let v = 0; v < 4; v += 1) builder.addVertex(null, v === 2 ? { weight: 5 } : undefined);
+    builder.addEdge(0, 1, false, { weight: 2.5 });
+    builder.addEdge(1, 2, false);
+    builder.addEdge(3, 0, false);
+    const graph = builder.build();
+    const text = toDIMACS(graph);
+    expect(text.split('\n')[0]).toBe('p edge 4 3');
+    const parsed = fromDIMACS(text);
+    expect(edgeTriples(parsed)).toEqual(edgeTriples(graph));
+    expect(labels(parsed)).toEqual([1, 2, 3, 4]);
+    expect(parsed.vertexAttributes(2)).toEqual({ weight: 5 });
+    expect(parsed.edgeAttributes(0)).toEqual({ weight: 2.5 });
+
+    const arcs = fromDIMACS('c shortest paths\np sp 3 2\na 1 2 7\na 2 3 1\n');
+    expect(edgeTriples(arcs)).toEqual([
+      [0, 1, true],
+      [1, 2, true],
+    ]);
+    expect(toDIMACS(arcs)).toBe('p sp 3 2\na 1 2 7\na 2 3 1\n');
+    builder.addEdge(2, 3, true);
+    expect(() => toDIMACS(builder.build())).toThrow(/mix directed and undirected/);
+  });
+
+  it('reads GraphML key defaults, edge defaults, ports and foreign markup', () => {
+    const graph = fromGraphML(`<?xml version="1.0"?>
+<!-- exported elsewhere -->
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:y="http://www.yworks.com/xml/graphml">
+  <key id="w" for="node" attr.name="width" attr.type="int"><default>3</default></key>
+  <key id="c" for="edge" attr.name="crossingCost" attr.type="double"/>
+  <key id="g" for="node" yfiles.type="nodegraphics"/>
+  <graph edgedefault="directed">
+    <edge source="b" target="a"><data key="c">0.5</data></edge>
+    <node id="a"><data key="g"><y:ShapeNode/></data></node>
+    <node id="b"><data key="w">10</data></node>
+    <edge source="a" target="b" directed="false" sourceport="east"/>
+  </graph>
+</graphml>`);
+    expect(labels(graph)).toEqual(['a', 'b']);
+    expect(graph.vertexAttributes(0)).toEqual({ width: 3, g: '' });
+    expect(graph.vertexAttributes(1)).toEqual({ width: 10 });
+    expect(edgeTriples(graph)).toEqual([
+      [1, 0, true],
+      [0, 1, false],
+    ]);
+    expect(graph.edgeAttributes(0)).toEqual({ crossingCost: 0.5 });
+    expect(graph.edgeAttributes(1)).toEqual({ sourcePort: 'east' });
+  });
+
+  it('reads GML with nested blocks and per-edge directions', () => {
+    const graph = fromGML(`# comment
+Creator "somebody"
+graph [
+  directed 1
+  node [ id 7 label "seven" graphics [ x 1.5 y -2 ] weight 2 ]
+  node [ id 9 ]
+  edge [ source 7 target 9 label "e&amp;f" ]
+  edge [ source 9 target 9 directed 0 ]
+]`);
+    expect(labels(graph)).toEqual(['seven', null]);
+    expect(graph.vertexAttributes(0)).toEqual({ weight: 2 });
+    expect(edgeTriples(graph)).toEqual([
+      [0, 1, true],
+      [1, 1, false],
+    ]);
+    expect(graph.edgeAttributes(0)).toEqual({ label: 'e&f' });
+  });
+
+  it('reads DOT subgraphs, chains, defaults, ports and strict graphs', () => {
+    const graph = fromDOT(`/* header */
+strict digraph "G" {
+  rankdir = LR;
+  node [shape=box];
+  a -> b -> c [weight=2];
+  a:out:e -> {b; d [shape="circle"]}
+# preprocessor line
+  subgraph cluster_x { edge [color=red]; e -> a [label="x" + "y"] }
+  b -> c // duplicate in a strict graph
+  c -> a [dir=none, crossingCost=0.25];
+  f [width=4.5, pinned]
+}`);
+    expect(labels(graph)).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(graph.vertexAttributes(3)).toEqual({ shape: 'circle' });
+    expect(graph.vertexAttributes(5)).toEqual({ shape: 'box', width: 4.5, pinned: true });
+    expect(edgeTriples(graph)).toEqual([
+      [0, 1, true],
+      [1, 2, true],
+      [0, 3, true],
+      [4, 0, true],
+      [2, 0, false],
+    ]);
+    expect(graph.edgeAttributes(1)).toEqual({ weight: 2 });
+    expect(graph.edgeAttributes(2)).toEqual({ sourcePort: 'out:e' });
+    expect(graph.edgeAttributes(3)).toEqual({ color: 'red', label: 'xy' });
+    expect(graph.edgeAttributes(4)).toEqual({ crossingCost: 0.25 });
+
+    const numeric = fromDOT('graph { 1 -- 2 -- "x"; 2 -- -3.5 }');
+    expect(labels(numeric)).toEqual([1, 2, 'x', -3.5]);
+  });
+
+  it('reports parse errors with line and column', () => {
+    expect(() =>
+      fromGraphML('<graphml>\n  <graph>\n    <node id="a">\n  </graph>\n</graphml>'),
+    ).toThrow('GraphML parse error at line 4, column 3: Expected </node>, found </graph>.');
+    expect(() =>
+      fromGraphML('<graphml>\n<graph>\n<edge source="a" target="b"/>\n</graph>\n</graphml>'),
+    ).toThrow(/line 3, column 1: Edge source 'a' is not a node/);
+    expect(() => fromGML('graph [\n  node [ id 1 ]\n  edge [ source 1 target ] ]')).toThrow(
+      /GML parse error at line 3, column 26: Expected a value for 'target'/,
+    );
+    expect(() => fromGML('graph [\n  node [ id 1 ]\n  edge [ source 1 target 2 ]\n]')).toThrow(
+      /line 3, column 19: Edge target 2 is not a node/,
+    );
+    expect(() => fromDOT('graph {\n  a -> b\n}')).toThrow(
+      /DOT parse error at line 2, column 5: '->' is not allowed in a graph/,
+    );
+    expect(() => fromDOT('digraph {\n  a -> "b\n}')).toThrow(
+      /line 2, column 8: Unterminated string/,
+    );
+    expect(() => fromDIMACS('p edge 2 1\ne 1 3\n')).toThrow(
+      /DIMACS parse error at line 2, column 5: Vertex 3 is outside 1..2/,
+    );
+    expect(() => fromSnapEdgeList('# FromNodeId ToNodeId\n1 2\n3 x\n')).toThrow(
+      /SNAP parse error at line 3, column 3: Invalid node id 'x'/,
+    );
+    expect(() => fromMatrixMarket('%%MatrixMarket matrix array real general\n2 2\n')).toThrow(
+      /line 1, column 23: Only coordinate matrices/,
+    );
+  });
+
+  it('reads the dataset formats used by the showcase', () => {
+    const snap = fromSnapEdgeList('# roadNet\n10\t20\n20\t10\n20 30\n', { directed: true });
+    expect(labels(snap)).toEqual([10, 20, 30]);
+    expect(edgeTriples(snap)).toEqual([
+      [0, 1, true],
+      [1, 0, true],
+      [1, 2, true],
+    ]);
+
+    const mtx = fromMatrixMarket(
+      '%%MatrixMarket matrix coordinate real symmetric\n% comment\n3 3 4\n1 1 4.0\n2 1 -1.5\n3 2 2\n3 1 1e-3\n',
+    );
+    expect(labels(mtx)).toEqual([1, 2, 3]);
+    expect(edgeTriples(mtx)).toEqual([
+      [1, 0, false],
+      [2, 1, false],
+      [2, 0, false],
+    ]);
+    expect(mtx.edgeAttributes(0)).toEqual({ weight: -1.5 });
+    const pattern = fromMatrixMarket(
+      '%%MatrixMarket matrix coordinate pattern general\n2 3 1\n1 3\n',
+    );
+    expect(edgeTriples(pattern)).toEqual([[0, 2, true]]);
+    expect(pattern.edgeAttributes(0)).toEqual({});
+
+    const bu4p = fromBu4p(`3
+<NODE>
+<EDGE> 1 -- 0
+<EDGE> 2 -- 0
+</NODE>
+1
+<NODE>
+<EDGE> 1 -- 0
+</NODE>
+2
+<NODE>
+<EDGE> 2 -- 0
+</NODE>
+5
+<NODE>
+</NODE>`);
+    expect(labels(bu4p)).toEqual([1, 2, 3, 5]);
+    expect(edgeTriples(bu4p)).toEqual([
+      [0, 2, false],
+      [1, 2, false],
+    ]);
+
+    const wolfram = fromWolframSparseArray(
+      'Graph[SparseArray[Automatic, {3, 3}, 0, {1, {{0, 1, 3, 4}, {{2}, {1}, {3}, {2}}}, Pattern}]]',
+    );
+    expect(labels(wolfram)).toEqual([1, 2, 3]);
+    expect(edgeTriples(wolfram)).toEqual([
+      [0, 1, false],
+      [1, 2, false],
+    ]);
+
+    const osm = fromOsm({
+      elements: [
+        { type: 'node', id: 1, lon: 10, lat: 50 },
+        { type: 'node', id: 2, lon: 10.5, lat: 50 },
+        { type: 'node', id: 3, lon: 11, lat: 50 },
+        { type: 'node', id: 4, lon: 10.5, lat: 51 },
+        { type: 'way', id: 2, nodes: [4, 2], tags: { highway: 'service' } },
+        { type: 'way', id: 1, nodes: [1, 2, 3], tags: { highway: 'residential' } },
+        { type: 'way', id: 3, nodes: [1, 3], tags: { building: 'yes' } },
+      ],
+    });
+    expect(labels(osm)).toEqual([1, 2, 3, 4]);
+    expect(osm.vertexAttributes(3)).toEqual({ x: 10.5, y: 51 });
+    expect(edgeTriples(osm)).toEqual([
+      [0, 1, false],
+      [1, 2, false],
+      [1, 3, false],
+    ]);
+  });
+});
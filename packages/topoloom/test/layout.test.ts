@@ -1,11 +1,295 @@
 import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
 
 import { GraphBuilder } from '../src/graph';
 import { buildHalfEdgeMesh, rotationFromAdjacency } from '../src/embedding';
-import { orthogonalLayout, planarStraightLine, planarizationLayout, segmentsIntersect } from '../src/layout';
+import { testLevelPlanarity, testPlanarity, testUpwardPlanarity } from '../src/planarity';
+import { grid, randomPlanar, randomTriangulation, seriesParallel } from '../src/generators';
+import {
+  orthogonalLayout,
+  outerplanarCircular,
+  planarGridDrawing,
+  planarStraightLine,
+  nodeSizes,
+  planarizationLayout,
+  schnyderDrawing,
+  schnyderWood,
+  layered,
+  segmentsIntersect,
+  upwardPlanarLayout,
+} from '../src/layout';
+
+// Paths join their end vertices, climb strictly when directed, and never cross one another.
+const expectUpwardDrawing = (
+  g: ReturnType<GraphBuilder['build']>,
+  layout: ReturnType<typeof upwardPlanarLayout>,
+) => {
+  const segments: Array<{ edge: number; a: { x: number; y: number }; b: { x: number; y: number } }> = [];
+  for (const path of layout.edges) {
+    const edge = g.edge(path.edge);
+    const points = path.points;
+    expect(points[0]).toEqual(layout.positions.get(edge.u));
+    expect(points[points.length - 1]).toEqual(layout.positions.get(edge.v));
+    for (let i = 0; i + 1 < points.length; i += 1) {
+      if (edge.directed) expect(points[i + 1]!.y).toBeGreaterThan(points[i]!.y);
+      segments.push({ edge: path.edge, a: points[i]!, b: points[i + 1]! });
+    }
+  }
+  for (let i = 0; i < segments.length; i += 1) {
+    for (let j = i + 1; j < segments.length; j += 1) {
+      const [s, t] = [segments[i]!, segments[j]!];
+      if (s.edge === t.edge) continue;
+      if ([s.a, s.b].some((p) => [t.a, t.b].some((q) => sharedEndpoint(p, q)))) continue;
+      expect(segmentsIntersect(s.a, s.b, t.a, t.b)).toBe(false);
+    }
+  }
+  const spots = [...layout.positions.values()].map((p) => `${p.x},${p.y}`);
+  expect(new Set(spots).size).toBe(spots.length);
+  expect(layout.stats.crossings).toBe(0);
+};
 
 const sharedEndpoint = (a: { x: number; y: number }, b: { x: number; y: number }) => a.x === b.x && a.y === b.y;
 
+const triangulatedGridMesh = (side: number) => {
+  const builder = new GraphBuilder();
+  const coords: Array<[number, number]> = [];
+  for (let y = 0; y < side; y += 1) {
+    for (let x = 0; x < side; x += 1) {
+      builder.addVertex(y * side + x);
+      coords.push([x, y]);
+    }
+  }
+  for (let y = 0; y < side; y += 1) {
+    for (let x = 0; x < side; x += 1) {
+      const v = y * side + x;
+      if (x + 1 < side) builder.addEdge(v, v + 1, false);
+      if (y + 1 < side) builder.addEdge(v, v + side, false);
+      if (x + 1 < side && y + 1 < side) builder.addEdge(v, v + side + 1, false);
+    }
+  }
+  const g = builder.build();
+  const angle = (v: number, to: number) =>
+    Math.atan2(coords[to]![1] - coords[v]![1], coords[to]![0] - coords[v]![0]);
+  const order = g.vertices().map((v) =>
+    g
+      .adjacency(v)
+      .map((adj) => ({ edge: adj.edge, to: adj.to }))
+      .sort((a, b) => angle(v, a.to) - angle(v, b.to)),
+  );
+  return buildHalfEdgeMesh(g, { order });
+};
+
+const countStraightCrossings = (layout: { edges: Array<{ points: Array<{ x: number; y: number }> }> }) => {
+  let crossings = 0;
+  for (let i = 0; i < layout.edges.length; i += 1) {
+    for (let j = i + 1; j < layout.edges.length; j += 1) {
+      const [a1, a2] = layout.edges[i]!.points;
+      const [b1, b2] = layout.edges[j]!.points;
+      if (!a1 || !a2 || !b1 || !b2) continue;
+      if (sharedEndpoint(a1, b1) || sharedEndpoint(a1, b2) || sharedEndpoint(a2, b1) || sharedEndpoint(a2, b2)) {
+        continue;
+      }
+      if (segmentsIntersect(a1, a2, b1, b2)) crossings += 1;
+    }
+  }
+  return crossings;
+};
+
+const expectGridDrawing = (
+  layout: ReturnType<typeof planarGridDrawing>,
+  n: number,
+  width = Math.max(1, 2 * n - 4),
+) => {
+  const seen = new Set<string>();
+  for (const p of layout.positions.values()) {
+    expect(Number.isInteger(p.x) && Number.isInteger(p.y)).toBe(true);
+    expect(p.x).toBeGreaterThanOrEqual(0);
+    expect(p.x).toBeLessThanOrEqual(width);
+    expect(p.y).toBeGreaterThanOrEqual(0);
+    expect(p.y).toBeLessThanOrEqual(Math.max(0, n - 2));
+    seen.add(`${p.x},${p.y}`);
+  }
+  expect(seen.size).toBe(layout.positions.size);
+  expect(countStraightCrossings(layout)).toBe(0);
+  expect(layout.stats.crossings).toBe(0);
+};
+
+type Point = { x: number; y: number };
+
+const meshFromEdges = (n: number, edges: Array<[number, number]>) => {
+  const builder = new GraphBuilder();
+  for (let i = 0; i < n; i += 1) builder.addVertex(i);
+  for (const [u, v] of edges) builder.addEdge(u, v, false);
+  const g = builder.build();
+  const result = testPlanarity(g);
+  if (!result.planar) throw new Error('expected planar input');
+  return buildHalfEdgeMesh(g, result.embedding);
+};
+
+// Axis-parallel segments of different edges may only meet at a common endpoint of both polylines.
+const expectOrthogonalDrawing = (layout: ReturnType<typeof orthogonalLayout>) => {
+  const ends = (points: Point[]) => [points[0]!, points[points.length - 1]!];
+  for (const edge of layout.edges) {
+    for (let i = 0; i + 1 < edge.points.length; i += 1) {
+      const p = edge.points[i]!;
+      const q = edge.points[i + 1]!;
+      expect(p.x === q.x || p.y === q.y).toBe(true);
+    }
+  }
+  for (let i = 0; i < layout.edges.length; i += 1) {
+    for (let j = i + 1; j < layout.edges.length; j += 1) {
+      const a = layout.edges[i]!.points;
+      const b = layout.edges[j]!.points;
+      const shared = ends(a).filter((p) => ends(b).some((q) => sharedEndpoint(p, q)));
+      for (let s = 0; s + 1 < a.length; s += 1) {
+        for (let t = 0; t + 1 < b.length; t += 1) {
+          const lo = {
+            x: Math.max(Math.min(a[s]!.x, a[s + 1]!.x), Math.min(b[t]!.x, b[t + 1]!.x)),
+            y: Math.max(Math.min(a[s]!.y, a[s + 1]!.y), Math.min(b[t]!.y, b[t + 1]!.y)),
+          };
+          const hi = {
+            x: Math.min(Math.max(a[s]!.x, a[s + 1]!.x), Math.max(b[t]!.x, b[t + 1]!.x)),
+            y: Math.min(Math.max(a[s]!.y, a[s + 1]!.y), Math.max(b[t]!.y, b[t + 1]!.y)),
+          };
+          if (lo.x > hi.x || lo.y > hi.y) continue;
+          expect(sharedEndpoint(lo, hi) && shared.some((p) => sharedEndpoint(p, lo))).toBe(true);
+        }
+      }
+    }
+  }
+  const seen = new Set([...layout.positions.values()].map((p) => `${p.x},${p.y}`));
+  expect(seen.size).toBe(layout.positions.size);
+  expect(layout.stats.crossings).toBe(0);
+  const length = layout.edges.reduce(
+    (sum, edge) =>
+      sum + edge.points.slice(1).reduce((s, p, i) => s + Math.abs(p.x - edge.points[i]!.x) + Math.abs(p.y - edge.points[i]!.y), 0),
+    0,
+  );
+  expect(layout.stats.edgeLength).toBeCloseTo(length);
+};
+
+// Sized vertices get a box at least that large, clear of other vertices, boxes and edges.
+const expectBoxesClear = (
+  layout: ReturnType<typeof orthogonalLayout>,
+  sizes: Map<number, { width: number; height: number }>,
+  endsOf: (edge: number) => number[],
+) => {
+  const inside = (p: Point, box: { x: number; y: number; width: number; height: number }) =>
+    p.x > box.x && p.x < box.x + box.width && p.y > box.y && p.y < box.y + box.height;
+  sizes.forEach((size, v) => {
+    const box = layout.boxes!.get(v)!;
+    expect(box.width).toBeGreaterThanOrEqual(size.width);
+    expect(box.height).toBeGreaterThanOrEqual(size.height);
+    const corners = [
+      { x: box.x, y: box.y },
+      { x: box.x + box.width, y: box.y },
+      { x: box.x + box.width, y: box.y + box.height },
+      { x: box.x, y: box.y + box.height },
+    ];
+    layout.positions.forEach((p, w) => {
+      if (w !== v) expect(inside(p, box)).toBe(false);
+    });
+    layout.boxes!.forEach((other, w) => {
+      if (w === v) return;
+      const apart =
+        other.x >= box.x + box.width || box.x >= other.x + other.width ||
+        other.y >= box.y + box.height || box.y >= other.y + other.height;
+      expect(apart).toBe(true);
+    });
+    for (const edge of layout.edges) {
+      if (endsOf(edge.edge).includes(v)) continue;
+      for (let i = 0; i + 1 < edge.points.length; i += 1) {
+        const [a, b] = [edge.points[i]!, edge.points[i + 1]!];
+        const hit =
+          inside(a, box) || inside(b, box) || corners.some((p, k) => segmentsIntersect(a, b, p, corners[(k + 1) % 4]!));
+        expect(hit).toBe(false);
+      }
+    }
+  });
+};
+
+const planarGridMeshWithoutDiagonals = () => {
+  const builder = new GraphBuilder();
+  for (let v = 0; v < 16; v += 1) builder.addVertex(v);
+  for (let y = 0; y < 4; y += 1) {
+    for (let x = 0; x < 4; x += 1) {
+      if (x + 1 < 4) builder.addEdge(y * 4 + x, y * 4 + x + 1, false);
+      if (y + 1 < 4) builder.addEdge(y * 4 + x, y * 4 + x + 4, false);
+    }
+  }
+  const g = builder.build();
+  const result = testPlanarity(g);
+  if (!result.planar) throw new Error('expected planar input');
+  return buildHalfEdgeMesh(g, result.embedding);
+};
+
+const stackedTriangulationMesh = (picks: number[]) => {
+  const builder = new GraphBuilder();
+  const faces: Array<[number, number, number]> = [[0, 1, 2]];
+  for (let i = 0; i < 3 + picks.length; i += 1) builder.addVertex(i);
+  builder.addEdge(0, 1, false);
+  builder.addEdge(1, 2, false);
+  builder.addEdge(2, 0, false);
+  picks.forEach((pick, i) => {
+    const v = i + 3;
+    const [a, b, c] = faces.splice(pick % faces.length, 1)[0]!;
+    builder.addEdge(v, a, false);
+    builder.addEdge(v, b, false);
+    builder.addEdge(v, c, false);
+    faces.push([a, b, v], [b, c, v], [c, a, v]);
+  });
+  const g = builder.build();
+  const result = testPlanarity(g);
+  if (!result.planar) throw new Error('expected planar input');
+  return buildHalfEdgeMesh(g, result.embedding);
+};
+
+const expectSchnyderWood = (mesh: ReturnType<typeof buildHalfEdgeMesh>) => {
+  const n = Math.max(...mesh.origin) + 1;
+  const wood = schnyderWood(mesh);
+  const roots = new Set(wood.roots);
+  expect(roots.size).toBe(3);
+  expect(wood.edges).toHaveLength(3 * n - 9);
+  expect(new Set(wood.edges.map((e) => e.edge)).size).toBe(3 * n - 9);
+
+  const labels = new Map<number, string>();
+  for (const { edge, color, source, target } of wood.edges) {
+    const ends = [mesh.origin[2 * edge], mesh.origin[2 * edge + 1]].sort();
+    expect(ends).toEqual([source, target].sort());
+    expect(wood.parent[color][source]).toBe(target);
+    labels.set(2 * edge + (mesh.origin[2 * edge] === source ? 0 : 1), `o${color}`);
+    labels.set(2 * edge + (mesh.origin[2 * edge] === source ? 1 : 0), `i${color}`);
+  }
+
+  for (let v = 0; v < n; v += 1) {
+    for (let color = 0; color < 3; color += 1) {
+      if (roots.has(v)) {
+        expect(wood.parent[color]![v]).toBe(-1);
+        continue;
+      }
+      let cur = v;
+      let steps = 0;
+      while (wood.parent[color]![cur] !== -1 && steps <= n) {
+        cur = wood.parent[color]![cur]!;
+        steps += 1;
+      }
+      expect(cur).toBe(wood.roots[color]);
+    }
+    if (roots.has(v)) continue;
+
+    const start = mesh.origin.indexOf(v);
+    const around: string[] = [];
+    let h = start;
+    do {
+      around.push(labels.get(h) ?? '-');
+      h = mesh.next[mesh.twin[h]!]!;
+    } while (h !== start);
+    const zero = around.indexOf('o0');
+    const sequence = [...around.slice(zero), ...around.slice(0, zero)].join(' ');
+    expect(sequence).toMatch(/^o0( i1)* o2( i0)* o1( i2)*$|^o0( i2)* o1( i0)* o2( i1)*$/);
+  }
+};
+
 describe('layout', () => {
   it('produces planar straight-line layout for triangle', () => {
     const builder = new GraphBuilder();
@@ -56,6 +340,194 @@ describe('layout', () => {
     }
   });
 
+  it('minimises bends for a fixed embedding', () => {
+    const cases: Array<{ n: number; edges: Array<[number, number]>; bends: number }> = [
+      { n: 3, edges: [[0, 1], [1, 2], [2, 0]], bends: 1 },
+      { n: 4, edges: [[0, 1], [1, 2], [2, 3], [3, 0]], bends: 0 },
+      { n: 4, edges: [[0, 1], [0, 2], [0, 3], [1, 2], [1, 3], [2, 3]], bends: 4 },
+      {
+        n: 8,
+        edges: [[0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6], [6, 7], [7, 4], [0, 4], [1, 5], [2, 6], [3, 7]],
+        bends: 4,
+      },
+      { n: 2, edges: [[0, 1], [0, 1], [0, 1]], bends: 4 },
+      { n: 2, edges: [[0, 0], [0, 1]], bends: 3 },
+    ];
+    for (const { n, edges, bends } of cases) {
+      const layout = orthogonalLayout(meshFromEdges(n, edges));
+      expect(layout.stats.bends).toBe(bends);
+      expect(layout.edges.length).toBe(edges.length);
+      expectOrthogonalDrawing(layout);
+    }
+    const grid = orthogonalLayout(planarGridMeshWithoutDiagonals());
+    expect(grid.stats.bends).toBe(0);
+    expectOrthogonalDrawing(grid);
+  });
+
+  it('expands vertices of degree above four into boxes', () => {
+    const layout = orthogonalLayout(meshFromEdges(7, [[0, 1], [0, 2], [0, 3], [0, 4], [0, 5], [0, 6]]));
+    const box = layout.boxes?.get(0);
+    expect(box).toBeDefined();
+    expect(layout.boxes?.size).toBe(1);
+    expect(layout.stats.bends).toBe(0);
+    expectOrthogonalDrawing(layout);
+    for (const edge of layout.edges) {
+      const start = edge.points[0]!;
+      const onBoundary =
+        ((start.x === box!.x || start.x === box!.x + box!.width) && start.y >= box!.y && start.y <= box!.y + box!.height) ||
+        ((start.y === box!.y || start.y === box!.y + box!.height) && start.x >= box!.x && start.x <= box!.x + box!.width);
+      expect(onBoundary).toBe(true);
+    }
+    expect(layout.positions.get(0)).toEqual({ x: box!.x + box!.width / 2, y: box!.y + box!.height / 2 });
+  });
+
+  it('keeps random planar graphs crossing-free in orthogonal layouts', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 2, max: 14 }),
+        fc.array(fc.tuple(fc.nat({ max: 13 }), fc.nat({ max: 13 })), { maxLength: 30 }),
+        (n, raw) => {
+          const kept: Array<[number, number]> = [];
+          for (const [a, b] of raw) {
+            const candidate: [number, number] = [a % n, b % n];
+            const trial = new GraphBuilder();
+            for (let i = 0; i < n; i += 1) trial.addVertex(i);
+            for (const [x, y] of [...kept, candidate]) trial.addEdge(x, y, false);
+            if (testPlanarity(trial.build()).planar) kept.push(candidate);
+          }
+          if (kept.length === 0) return;
+          const layout = orthogonalLayout(meshFromEdges(n, kept));
+          expect(layout.edges.length).toBe(kept.length);
+          expectOrthogonalDrawing(layout);
+        },
+      ),
+      { numRuns: 60 },
+    );
+  });
+
+  it('starts and ends every orthogonal path at its vertices', () => {
+    const at = (layout: ReturnType<typeof orthogonalLayout>, p: Point, v: number) => {
+      const box = layout.boxes?.get(v);
+      if (!box) return sharedEndpoint(p, layout.positions.get(v)!);
+      return p.x >= box.x && p.x <= box.x + box.width && p.y >= box.y && p.y <= box.y + box.height;
+    };
+    for (let seed = 0; seed < 30; seed += 1) {
+      for (const g of [seriesParallel(6, { seed }), randomPlanar(14, { seed, edges: 24 })]) {
+        const result = testPlanarity(g);
+        if (!result.planar) continue;
+        const mesh = buildHalfEdgeMesh(g, result.embedding);
+        for (const mode of ['tamassia', 'kandinsky'] as const) {
+          const layout = orthogonalLayout(mesh, { mode });
+          for (const { edge, points } of layout.edges) {
+            expect(points.length).toBeGreaterThanOrEqual(2);
+            expect(at(layout, points[0]!, mesh.origin[2 * edge]!)).toBe(true);
+            expect(at(layout, points[points.length - 1]!, mesh.origin[2 * edge + 1]!)).toBe(true);
+          }
+        }
+      }
+    }
+  });
+
+  it('draws Kandinsky boxes with several edges on one side', () => {
+    const spokes = [1, 2, 3, 4, 5, 6, 7, 8].map((v) => [0, v] as [number, number]);
+    const star = orthogonalLayout(meshFromEdges(9, spokes), { mode: 'kandinsky' });
+    expect(star.stats.bends).toBe(0);
+    expect(star.boxes?.size).toBe(9);
+    expectOrthogonalDrawing(star);
+    const box = star.boxes!.get(0)!;
+    const sides = new Map<string, number>();
+    for (const edge of star.edges) {
+      const [start, second] = edge.points;
+      const side =
+        start!.x === box.x ? 'w' : start!.x === box.x + box.width ? 'e' : start!.y === box.y ? 's' : 'n';
+      if (side === 'w' || side === 'e') expect(second!.y).toBe(start!.y);
+      else expect(second!.x).toBe(start!.x);
+      const inside =
+        second!.x > box.x && second!.x < box.x + box.width && second!.y > box.y && second!.y < box.y + box.height;
+      expect(inside).toBe(false);
+      sides.set(side, (sides.get(side) ?? 0) + 1);
+    }
+    expect(Math.max(...sides.values())).toBeGreaterThan(1);
+
+    // Zero angles replace the bend a triangle needs in Tamassia's model.
+    const triangle = meshFromEdges(3, [[0, 1], [1, 2], [2, 0]]);
+    expect(orthogonalLayout(triangle, { mode: 'kandinsky' }).stats.bends).toBe(0);
+    expect(orthogonalLayout(triangle).stats.bends).toBe(1);
+  });
+
+  it('keeps random Kandinsky layouts crossing-free with a box per vertex', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 2, max: 12 }),
+        fc.array(fc.tuple(fc.nat({ max: 11 }), fc.nat({ max: 11 })), { maxLength: 28 }),
+        (n, raw) => {
+          const kept: Array<[number, number]> = [];
+          for (const [a, b] of raw) {
+            const candidate: [number, number] = [a % n, b % n];
+            const trial = new GraphBuilder();
+            for (let i = 0; i < n; i += 1) trial.addVertex(i);
+            for (const [x, y] of [...kept, candidate]) trial.addEdge(x, y, false);
+            if (testPlanarity(trial.build()).planar) kept.push(candidate);
+          }
+          if (kept.length === 0) return;
+          const mesh = meshFromEdges(n, kept);
+          const layout = orthogonalLayout(mesh, { mode: 'kandinsky' });
+          expectOrthogonalDrawing(layout);
+          expect(layout.boxes?.size).toBe(new Set(kept.flat()).size);
+          const degree: number[] = Array(n).fill(0);
+          for (const [u, v] of kept) {
+            degree[u]! += 1;
+            degree[v]! += 1;
+          }
+          if (Math.max(...degree) <= 4) {
+            expect(layout.stats.bends).toBeLessThanOrEqual(orthogonalLayout(mesh).stats.bends);
+          }
+        },
+      ),
+      { numRuns: 60 },
+    );
+  });
+
+  it('compacts orthogonal drawings to short edges', () => {
+    const grid = orthogonalLayout(planarGridMeshWithoutDiagonals());
+    expectOrthogonalDrawing(grid);
+    expect(grid.stats.edgeLength).toBe(24 * 20);
+    expect(grid.stats.area).toBe(60 * 60);
+
+    const kandinsky = orthogonalLayout(planarGridMeshWithoutDiagonals(), { mode: 'kandinsky' });
+    expectOrthogonalDrawing(kandinsky);
+    expect(kandinsky.stats.area).toBeLessThanOrEqual(9 * 20 * (9 * 20));
+
+    // Refinement edges of the large inner faces must not stretch the cycle.
+    const cycle = Array.from({ length: 12 }, (_, v) => [v, (v + 1) % 12] as [number, number]);
+    const ring = orthogonalLayout(meshFromEdges(13, [...cycle, [0, 12], [6, 12]]));
+    expectOrthogonalDrawing(ring);
+    expect(ring.stats.edgeLength).toBeLessThanOrEqual(20 * 20);
+    expect(ring.stats.area).toBeLessThanOrEqual(4 * 20 * (4 * 20));
+  });
+
+  it('routes planarized edges through their crossings orthogonally', () => {
+    const builder = new GraphBuilder();
+    for (let i = 0; i < 5; i += 1) builder.addVertex(i);
+    for (let i = 0; i < 5; i += 1) {
+      for (let j = i + 1; j < 5; j += 1) builder.addEdge(i, j, false);
+    }
+    for (const mode of ['orthogonal', 'kandinsky'] as const) {
+      const result = planarizationLayout(builder.build(), { mode });
+      expect(result.layout.edges.length).toBe(10);
+      expect(result.layout.stats.crossings).toBeGreaterThan(0);
+      for (const edge of result.layout.edges) {
+        for (let i = 0; i + 1 < edge.points.length; i += 1) {
+          const p = edge.points[i]!;
+          const q = edge.points[i + 1]!;
+          expect(p.x === q.x || p.y === q.y).toBe(true);
+        }
+      }
+      // Crossings stay points; only the five original vertices become boxes.
+      expect(result.layout.boxes?.size ?? 0).toBe(mode === 'kandinsky' ? 5 : 0);
+    }
+  });
+
   it('planarization keeps a planar base for nonplanar graphs', () => {
     const builder = new GraphBuilder();
     const nodes = Array.from({ length: 6 }, (_, i) => builder.addVertex(i));
@@ -67,4 +539,463 @@ describe('layout', () => {
     expect(result.remainingEdges.length).toBeGreaterThan(0);
     expect(result.baseGraph.edgeCount()).toBeLessThan(g.edgeCount());
   });
+
+  it('inserts planarization edges optimally over all embeddings', () => {
+    const builder = new GraphBuilder();
+    for (let i = 0; i < 6; i += 1) builder.addVertex(i);
+    for (let i = 0; i < 3; i += 1) {
+      for (let j = 3; j < 6; j += 1) builder.addEdge(i, j, false);
+    }
+    const k33 = builder.build();
+    const result = planarizationLayout(k33, { insertion: 'variable', mode: 'orthogonal' });
+    expect(result.layout.stats.crossings).toBe(1);
+    expect(result.layout.edges.length).toBe(9);
+
+    // The returned rotation system is a planar embedding of the base graph.
+    const mesh = buildHalfEdgeMesh(result.baseGraph, result.embedding);
+    expect(6 - result.baseGraph.edgeCount() + mesh.faces.length).toBe(2);
+    const crossed = result.routes[0]!.crossed;
+    expect(crossed.length).toBe(1);
+  });
+
+  it('re-inserts planarization edges while crossings drop', () => {
+    const edges: Array<[number, number]> = [
+      [4, 5], [7, 3], [2, 6], [4, 7], [7, 0], [1, 0], [4, 6], [6, 0],
+      [2, 7], [1, 2], [6, 3], [1, 7], [3, 8], [7, 5], [0, 4], [2, 5],
+    ];
+    const builder = new GraphBuilder();
+    for (let i = 0; i < 9; i += 1) builder.addVertex(i);
+    for (const [u, v] of edges) builder.addEdge(u, v, false);
+    const g = builder.build();
+
+    const plain = planarizationLayout(g);
+    expect(plain.crossingsPerRound).toEqual([plain.layout.stats.crossings]);
+    expect(planarizationLayout(g, { reinsertion: 'inserted', maxRounds: 0 }).crossingsPerRound).toEqual([2]);
+    for (const reinsertion of ['inserted', 'all'] as const) {
+      const result = planarizationLayout(g, { reinsertion, mode: 'orthogonal' });
+      expect(result.crossingsPerRound[0]).toBe(2);
+      expect(result.layout.stats.crossings).toBe(1);
+      expect(result.crossingsPerRound.at(-1)).toBe(1);
+      expect(result.routes.flatMap((route) => route.crossed).length).toBe(1);
+      expect(result.layout.edges.length).toBe(edges.length);
+      for (const edge of result.layout.edges) {
+        for (let i = 0; i + 1 < edge.points.length; i += 1) {
+          const p = edge.points[i]!;
+          const q = edge.points[i + 1]!;
+          expect(p.x === q.x || p.y === q.y).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('solves the Tutte system with conjugate gradient and Gauss-Seidel', () => {
+    const mesh = triangulatedGridMesh(8);
+    const cg = planarStraightLine(mesh, { solver: 'cg', tolerance: 1e-12 });
+    const gs = planarStraightLine(mesh, { solver: 'gauss-seidel', tolerance: 1e-12, maxIterations: 5000 });
+    expect(cg.solver?.method).toBe('cg');
+    expect(cg.solver?.converged).toBe(true);
+    expect(cg.solver?.residual).toBeLessThanOrEqual(1e-12);
+    expect(gs.solver?.method).toBe('gauss-seidel');
+    expect(gs.solver?.converged).toBe(true);
+    for (const [v, p] of cg.positions) {
+      const q = gs.positions.get(v)!;
+      expect(Math.abs(p.x - q.x)).toBeLessThan(1e-6);
+      expect(Math.abs(p.y - q.y)).toBeLessThan(1e-6);
+    }
+    expect(countStraightCrossings(cg)).toBe(0);
+    expect(cg.stats.crossings).toBe(0);
+  });
+
+  it('warm-starts from previous positions and respects iteration limits', () => {
+    const mesh = triangulatedGridMesh(10);
+    const cold = planarStraightLine(mesh);
+    const warm = planarStraightLine(mesh, { initialPositions: cold.positions });
+    expect(warm.solver?.iterations).toBeLessThan(cold.solver?.iterations ?? 0);
+    expect(warm.positions).toEqual(planarStraightLine(mesh, { initialPositions: cold.positions }).positions);
+
+    const capped = planarStraightLine(mesh, { solver: 'gauss-seidel', maxIterations: 2 });
+    expect(capped.solver?.iterations).toBe(2);
+    expect(capped.solver?.converged).toBe(false);
+    expect(capped.solver?.residual).toBeGreaterThan(1e-10);
+  });
+
+  it('lays out larger meshes with the sparse solver', () => {
+    const layout = planarStraightLine(triangulatedGridMesh(35));
+    expect(layout.positions.size).toBe(1225);
+    expect(layout.solver?.converged).toBe(true);
+    for (const p of layout.positions.values()) {
+      expect(Number.isFinite(p.x) && Number.isFinite(p.y)).toBe(true);
+    }
+    expect(planarStraightLine(triangulatedGridMesh(25)).stats.crossings).toBe(0);
+  });
+
+  it('counts straight-line crossings without testing every pair of edges', () => {
+    // About 14k edges: comparing all pairs alone took several seconds.
+    expect(planarStraightLine(triangulatedGridMesh(70)).stats.crossings).toBe(0);
+    const edges = randomTriangulation(40, { seed: 2 }).edges().map((e): [number, number] => [e.u, e.v]);
+    // One solver iteration leaves the drawing far from the Tutte positions, with many crossings.
+    const rough = planarStraightLine(meshFromEdges(40, edges), { maxIterations: 1 });
+    expect(rough.solver?.converged).toBe(false);
+    expect(rough.stats.crossings).toBeGreaterThan(0);
+    expect(rough.stats.crossings).toBe(countStraightCrossings(rough));
+  });
+
+  it('keeps disconnected graphs with isolated vertices crossing-free', () => {
+    // Vertex 1 has no edges and 0, 4 and 7 form a second component beside the tree on the rest.
+    const edges: Array<[number, number]> = [[2, 5], [5, 8], [5, 6], [9, 10], [4, 0], [7, 0], [3, 6], [9, 6]];
+    const layout = planarStraightLine(meshFromEdges(11, edges));
+    expect(layout.positions.size).toBe(11);
+    expect(countStraightCrossings(layout)).toBe(0);
+    expect(layout.stats.crossings).toBe(0);
+  });
+
+  it('places triangulated meshes on the canonical-ordering grid', () => {
+    const mesh = triangulatedGridMesh(7);
+    const layout = planarGridDrawing(mesh);
+    expect(layout.positions.size).toBe(49);
+    expectGridDrawing(layout, 49);
+    expect(layout.stats.bends).toBe(0);
+    expect(layout.stats.area).toBeGreaterThan(0);
+    expect(planarGridDrawing(mesh).positions).toEqual(layout.positions);
+  });
+
+  it('draws sparse, disconnected and multi-edge graphs on the grid', () => {
+    const graphs: Array<{ n: number; edges: Array<[number, number]> }> = [
+      { n: 2, edges: [[0, 1]] },
+      { n: 3, edges: [[0, 1], [1, 2]] },
+      { n: 6, edges: [[0, 1], [0, 2], [0, 3], [0, 4], [0, 5]] },
+      { n: 7, edges: [[0, 1], [1, 2], [2, 0], [3, 4], [4, 5], [5, 6], [6, 3]] },
+      { n: 4, edges: [[0, 1], [0, 1], [1, 2], [2, 3], [3, 0], [0, 2]] },
+      { n: 8, edges: [[0, 1], [1, 2], [2, 3], [3, 0], [4, 5], [5, 6], [6, 7], [7, 4], [0, 4], [1, 5], [2, 6], [3, 7]] },
+    ];
+    for (const { n, edges } of graphs) {
+      const builder = new GraphBuilder();
+      for (let i = 0; i < n; i += 1) builder.addVertex(i);
+      for (const [u, v] of edges) builder.addEdge(u, v, false);
+      const g = builder.build();
+      const result = testPlanarity(g);
+      if (!result.planar) throw new Error('expected planar input');
+      const layout = planarGridDrawing(buildHalfEdgeMesh(g, result.embedding));
+      expect(layout.positions.size).toBe(n);
+      expect(layout.edges.length).toBe(edges.length);
+      expectGridDrawing(layout, n);
+    }
+  });
+
+  it('keeps random planar graphs crossing-free on the grid', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 3, max: 16 }),
+        fc.array(fc.tuple(fc.nat({ max: 15 }), fc.nat({ max: 15 })), { maxLength: 40 }),
+        (n, raw) => {
+          const builder = new GraphBuilder();
+          for (let i = 0; i < n; i += 1) builder.addVertex(i);
+          const kept: Array<[number, number]> = [];
+          for (const [a, b] of raw) {
+            const u = a % n;
+            const v = b % n;
+            if (u === v) continue;
+            const trial = new GraphBuilder();
+            for (let i = 0; i < n; i += 1) trial.addVertex(i);
+            for (const [x, y] of [...kept, [u, v] as [number, number]]) trial.addEdge(x, y, false);
+            if (testPlanarity(trial.build()).planar) kept.push([u, v]);
+          }
+          for (const [u, v] of kept) builder.addEdge(u, v, false);
+          const g = builder.build();
+          if (g.edgeCount() === 0) return;
+          const result = testPlanarity(g);
+          if (!result.planar) return;
+          const mesh = buildHalfEdgeMesh(g, result.embedding);
+          expectGridDrawing(planarGridDrawing(mesh), Math.max(...mesh.origin) + 1);
+        },
+      ),
+      { numRuns: 60 },
+    );
+  });
+
+  it('draws outerplanar graphs on a circle without crossings', () => {
+    fc.assert(
+      fc.property(
+        fc
+          .integer({ min: 3, max: 16 })
+          .chain((n) => fc.shuffledSubarray([...Array(n).keys()], { minLength: n, maxLength: n })),
+        (label) => {
+          // Fan-triangulated polygon with shuffled labels, plus a pendant path.
+          const n = label.length;
+          const builder = new GraphBuilder();
+          for (let i = 0; i < n + 2; i += 1) builder.addVertex(i);
+          for (let i = 0; i < n; i += 1) builder.addEdge(label[i]!, label[(i + 1) % n]!, false);
+          for (let i = 2; i < n - 1; i += 1) builder.addEdge(label[0]!, label[i]!, false);
+          builder.addEdge(label[1]!, n, false);
+          builder.addEdge(n, n + 1, false);
+          const g = builder.build();
+          const layout = outerplanarCircular(g);
+          expect(layout.stats.crossings).toBe(0);
+          expect(layout.positions.size).toBe(n + 2);
+          expect(layout.edges).toHaveLength(g.edgeCount());
+        },
+      ),
+      { numRuns: 40 },
+    );
+
+    const k4 = new GraphBuilder();
+    for (let i = 0; i < 4; i += 1) k4.addVertex(i);
+    for (let i = 0; i < 4; i += 1) for (let j = i + 1; j < 4; j += 1) k4.addEdge(i, j, false);
+    expect(() => outerplanarCircular(k4.build())).toThrow(/not outerplanar \(contains a K4/);
+  });
+
+  it('computes Schnyder woods on maximal planar graphs', () => {
+    const octahedron = new GraphBuilder();
+    for (let v = 0; v < 6; v += 1) octahedron.addVertex(v);
+    for (let u = 0; u < 6; u += 1) {
+      for (let v = u + 1; v < 6; v += 1) {
+        if (u % 2 === 0 && v === u + 1) continue;
+        octahedron.addEdge(u, v, false);
+      }
+    }
+    const embedded = testPlanarity(octahedron.build());
+    if (!embedded.planar) throw new Error('expected planar input');
+    expectSchnyderWood(buildHalfEdgeMesh(octahedron.build(), embedded.embedding));
+    expectSchnyderWood(stackedTriangulationMesh([]));
+    fc.assert(
+      fc.property(fc.array(fc.nat({ max: 200 }), { minLength: 1, maxLength: 40 }), (picks) => {
+        expectSchnyderWood(stackedTriangulationMesh(picks));
+      }),
+      { numRuns: 40 },
+    );
+    expect(() => schnyderWood(planarGridMeshWithoutDiagonals())).toThrow(/maximal planar/);
+  });
+
+  it('draws Schnyder layouts on the (n-2) x (n-2) grid', () => {
+    const mesh = triangulatedGridMesh(7);
+    const layout = schnyderDrawing(mesh);
+    expect(layout.positions.size).toBe(49);
+    expectGridDrawing(layout, 49, 47);
+    expect(schnyderDrawing(mesh).positions).toEqual(layout.positions);
+
+    const stacked = stackedTriangulationMesh([0, 3, 5, 1, 8, 2]);
+    const outer = schnyderWood(stacked).roots.map((v) => schnyderDrawing(stacked).positions.get(v));
+    expect(outer).toEqual([{ x: 0, y: 7 }, { x: 1, y: 0 }, { x: 7, y: 1 }]);
+
+    fc.assert(
+      fc.property(fc.array(fc.nat({ max: 200 }), { maxLength: 30 }), (picks) => {
+        const n = picks.length + 3;
+        expectGridDrawing(schnyderDrawing(stackedTriangulationMesh(picks)), n, Math.max(1, n - 2));
+      }),
+      { numRuns: 40 },
+    );
+
+    const sparse = planarGridMeshWithoutDiagonals();
+    expectGridDrawing(schnyderDrawing(sparse), 16, 14);
+  });
+
+  it('draws upward planar digraphs with every edge climbing', () => {
+    let drawn = 0;
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 3, max: 10 }),
+        fc.array(fc.nat({ max: 3 }), { minLength: 45, maxLength: 45 }),
+        fc.array(fc.nat(), { minLength: 10, maxLength: 10 }),
+        (n, bits, picks) => {
+          // A single-source DAG: every vertex but 0 gets at least one edge from below.
+          const builder = new GraphBuilder();
+          for (let v = 0; v < n; v += 1) builder.addVertex(v);
+          let k = 0;
+          const reached = new Set<number>();
+          for (let j = 1; j < n; j += 1) {
+            for (let i = 0; i < j; i += 1, k += 1) {
+              if (bits[k] !== 0) continue;
+              builder.addEdge(i, j, true);
+              reached.add(j);
+            }
+            if (!reached.has(j)) builder.addEdge(picks[j]! % j, j, true);
+          }
+          const g = builder.build();
+          if (!testUpwardPlanarity(g).upward) return;
+          drawn += 1;
+          expectUpwardDrawing(g, upwardPlanarLayout(g));
+        },
+      ),
+      { numRuns: 80 },
+    );
+    expect(drawn).toBeGreaterThan(40);
+
+    const cyclic = new GraphBuilder();
+    for (let v = 0; v < 3; v += 1) cyclic.addVertex(v);
+    cyclic.addEdge(0, 1, true);
+    cyclic.addEdge(1, 2, true);
+    cyclic.addEdge(2, 0, true);
+    expect(() => upwardPlanarLayout(cyclic.build())).toThrow(/cyclic/);
+  });
+
+  it('orients undirected graphs from s to t before drawing them upward', () => {
+    for (let seed = 0; seed < 8; seed += 1) {
+      const g = randomTriangulation(5 + seed * 2, { seed });
+      expectUpwardDrawing(g, upwardPlanarLayout(g));
+    }
+    const g = grid(4, 5);
+    const layout = upwardPlanarLayout(g, { source: 0, sink: 19 });
+    expectUpwardDrawing(g, layout);
+    expect(layout.positions.get(0)!.y).toBeLessThan(layout.positions.get(19)!.y);
+  });
+
+  it('draws layered digraphs with bends at the layers long edges pass', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 12 }),
+        fc.array(fc.tuple(fc.nat(), fc.nat(), fc.boolean()), { maxLength: 24 }),
+        fc.constantFrom('longest-path' as const, 'network-simplex' as const),
+        fc.constantFrom('median' as const, 'barycenter' as const),
+        (n, pairs, layering, crossingMinimization) => {
+          const builder = new GraphBuilder();
+          for (let v = 0; v < n; v += 1) builder.addVertex(v);
+          for (const [a, b, directed] of pairs) builder.addEdge(a % n, b % n, directed);
+          const g = builder.build();
+          const layout = layered(g, { layering, crossingMinimization });
+          const { layer, reversed } = layout.layering!;
+          let measured = 0;
+          const segments: Array<{ edge: number; a: { x: number; y: number }; b: { x: number; y: number } }> = [];
+          for (const path of layout.edges) {
+            const edge = g.edge(path.edge);
+            const points = path.points;
+            expect(points[0]).toEqual(layout.positions.get(edge.u));
+            expect(points[points.length - 1]).toEqual(layout.positions.get(edge.v));
+            if (edge.u === edge.v) continue;
+            // Edges climb unless they were turned around to break a cycle.
+            const climbs = layer[edge.v]! > layer[edge.u]!;
+            if (edge.directed) expect(climbs).toBe(!reversed.includes(edge.id));
+            for (let i = 0; i + 1 < points.length; i += 1) {
+              expect(points[i + 1]!.y > points[i]!.y).toBe(climbs);
+              segments.push({ edge: path.edge, a: points[i]!, b: points[i + 1]! });
+            }
+          }
+          segments.forEach((s, i) =>
+            segments.slice(i + 1).forEach((t) => {
+              if (s.edge === t.edge) return;
+              if ([s.a, s.b].some((p) => [t.a, t.b].some((q) => sharedEndpoint(p, q)))) return;
+              if (segmentsIntersect(s.a, s.b, t.a, t.b)) measured += 1;
+            }),
+          );
+          expect(measured).toBe(layout.stats.crossings);
+          if (testLevelPlanarity(g, layer).levelPlanar) expect(measured).toBe(0);
+          const spots = [...layout.positions.values()].map((p) => `${p.x},${p.y}`);
+          expect(new Set(spots).size).toBe(n);
+        },
+      ),
+      { numRuns: 150 },
+    );
+
+    const cycle = new GraphBuilder();
+    for (let v = 0; v < 3; v += 1) cycle.addVertex(v);
+    cycle.addEdge(0, 1, true);
+    cycle.addEdge(1, 2, true);
+    cycle.addEdge(2, 0, true);
+    cycle.addEdge(1, 1, true);
+    const drawn = layered(cycle.build());
+    expect(drawn.layering!.reversed).toHaveLength(1);
+    expect(drawn.edges[3]!.points).toHaveLength(5);
+    expect(drawn.stats.crossings).toBe(0);
+  });
+
+  it('keeps layered edges short and uses crossing-free orders when the layering has one', () => {
+    // A long edge 9 -> 3 that the sweeps leave crossing the path 5 -> 11 -> 7.
+    const builder = new GraphBuilder();
+    for (let v = 0; v < 12; v += 1) builder.addVertex(v);
+    const edges = [[5, 4], [2, 1], [0, 4], [11, 7], [4, 3], [9, 3], [9, 5], [0, 6], [5, 11], [10, 8]];
+    for (const [u, v] of edges) builder.addEdge(u!, v!, true);
+    const g = builder.build();
+    expect(layered(g, { levelPlanarity: false }).stats.crossings).toBe(1);
+    const layout = layered(g);
+    expect(layout.stats.crossings).toBe(0);
+    const long = layout.edges.find((path) => path.edge === 5)!;
+    expect(long.points.length).toBeGreaterThan(2);
+
+    // Network simplex never spans more layers in total than longest-path layering.
+    for (let seed = 0; seed < 10; seed += 1) {
+      const dag = new GraphBuilder();
+      for (let v = 0; v < 10; v += 1) dag.addVertex(v);
+      for (let k = 0; k < 16; k += 1) {
+        const [u, v] = [(seed * 7 + k * 13) % 10, (seed * 3 + k * 5 + 1) % 10];
+        if (u < v) dag.addEdge(u, v, true, { weight: 1 + (k % 3) });
+      }
+      const d = dag.build();
+      const span = (layer: number[]) =>
+        d.edges().reduce((sum, e) => sum + (d.edgeAttributes(e.id).weight ?? 1) * (layer[e.v]! - layer[e.u]!), 0);
+      const simplex = layered(d).layering!.layer;
+      expect(d.edges().every((e) => simplex[e.v]! > simplex[e.u]!)).toBe(true);
+      expect(span(simplex)).toBeLessThanOrEqual(span(layered(d, { layering: 'longest-path' }).layering!.layer));
+    }
+    expect(layered(new GraphBuilder().build()).positions.size).toBe(0);
+  });
+
+  it('makes room for vertex sizes', () => {
+    const builder = new GraphBuilder();
+    for (let v = 0; v < 6; v += 1) builder.addVertex(v, v % 2 === 0 ? { width: 60, height: 30 } : {});
+    const edges: Array<[number, number]> = [[0, 1], [1, 2], [2, 3], [3, 4], [4, 5], [5, 0], [0, 3], [1, 4], [2, 5]];
+    for (const [u, v] of edges) builder.addEdge(u, v, false);
+    const g = builder.build();
+    const sizes = nodeSizes(g);
+    expect([...sizes.keys()]).toEqual([0, 2, 4]);
+    const endsOf = (edge: number) => [g.edge(edge).u, g.edge(edge).v];
+
+    // K3,3 goes through planarization, which reads the sizes from the attributes.
+    expect(testPlanarity(g).planar).toBe(false);
+    const drawn = planarizationLayout(g, { mode: 'orthogonal' });
+    expectBoxesClear(drawn.layout, sizes, endsOf);
+    expect(drawn.layout.stats.crossings).toBe(1);
+
+    const mesh = meshFromEdges(6, edges.filter(([u, v]) => !(u === 1 && v === 4)));
+    const planarEndsOf = (edge: number) => [mesh.origin[2 * edge]!, mesh.origin[2 * edge + 1]!];
+    for (const mode of ['tamassia', 'kandinsky'] as const) {
+      const layout = orthogonalLayout(mesh, { mode, nodeSizes: sizes });
+      expectBoxesClear(layout, sizes, planarEndsOf);
+      expectOrthogonalDrawing(layout);
+    }
+    const straight = planarStraightLine(mesh, { nodeSizes: sizes });
+    expectBoxesClear(straight, sizes, planarEndsOf);
+    expect(countStraightCrossings(straight)).toBe(0);
+    const grid = planarGridDrawing(mesh);
+    expect(planarGridDrawing(mesh, { nodeSizes: sizes }).stats.edgeLength).toBeGreaterThan(grid.stats.edgeLength);
+  });
+
+  it('draws the requested outer face around every other vertex', () => {
+    // A hexagon with chords 0-2 and 0-3; each face in turn goes outside.
+    const mesh = meshFromEdges(6, [
+      [0, 1],
+      [1, 2],
+      [2, 3],
+      [3, 4],
+      [4, 5],
+      [5, 0],
+      [0, 2],
+      [0, 3],
+    ]);
+    const inside = (p: { x: number; y: number }, polygon: Array<{ x: number; y: number }>) =>
+      polygon.reduce((odd, a, i) => {
+        const b = polygon[(i + 1) % polygon.length]!;
+        if (a.y > p.y === b.y > p.y) return odd;
+        return p.x < a.x + ((p.y - a.y) * (b.x - a.x)) / (b.y - a.y) ? !odd : odd;
+      }, false);
+
+    mesh.faces.forEach((cycle, outerFace) => {
+      for (const layout of [
+        planarStraightLine(mesh, { outerFace }),
+        orthogonalLayout(mesh, { outerFace }),
+      ]) {
+        const polygon = cycle.flatMap((h) => {
+          const points = layout.edges.find((path) => path.edge === h >> 1)!.points;
+          return (h & 1 ? points.slice().reverse() : points).slice(0, -1);
+        });
+        const onFace = new Set(cycle.map((h) => mesh.origin[h]!));
+        for (let v = 0; v < 6; v += 1) {
+          if (!onFace.has(v)) expect(inside(layout.positions.get(v)!, polygon)).toBe(true);
+        }
+      }
+    });
+
+    for (const outerFace of [-1, 1.5, mesh.faces.length, Number.NaN]) {
+      expect(() => planarStraightLine(mesh, { outerFace })).toThrow(/is not a face of the mesh/);
+      expect(() => orthogonalLayout(mesh, { outerFace })).toThrow(/is not a face of the mesh/);
+    }
+  });
 });
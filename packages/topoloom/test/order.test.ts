@@ -3,6 +3,7 @@ import { describe, expect, it } from 'vitest';
 import { GraphBuilder } from '../src/graph';
 import { stNumbering, bipolarOrientation } from '../src/order';
 import { buildHalfEdgeMesh, rotationFromAdjacency } from '../src/embedding';
+import { randomTriangulation } from '../src/generators';
 
 describe('order', () => {
   it('computes st-numbering with st property', () => {
@@ -23,6 +24,23 @@ describe('order', () => {
     expect(bNum).toBeLessThan(numbering.numberOf[c] ?? Number.MAX_SAFE_INTEGER);
   });
 
+  it('st-numbers triangulations for every choice of the edge st', () => {
+    for (let seed = 0; seed < 6; seed += 1) {
+      const g = randomTriangulation(5 + seed, { seed });
+      for (const edge of g.edges()) {
+        const { order, numberOf } = stNumbering(g, edge.u, edge.v);
+        expect(order[0]).toBe(edge.u);
+        expect(order[order.length - 1]).toBe(edge.v);
+        for (const v of g.vertices()) {
+          if (v === edge.u || v === edge.v) continue;
+          const around = g.adjacency(v).map((a) => numberOf[a.to]!);
+          expect(Math.min(...around)).toBeLessThan(numberOf[v]!);
+          expect(Math.max(...around)).toBeGreaterThan(numberOf[v]!);
+        }
+      }
+    }
+  });
+
   it('sanitizes directed edges and self-loops by default', () => {
     const builder = new GraphBuilder();
     const a = builder.addVertex('a');
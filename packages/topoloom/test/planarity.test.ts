@@ -1,9 +1,27 @@
 import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
 
 import { GraphBuilder } from '../src/graph';
-import { testPlanarity } from '../src/planarity';
-import { planarityWitness } from '../src/planarity/ts';
-import { buildHalfEdgeMesh, validateMesh } from '../src/embedding';
+import type { Graph } from '../src/graph';
+import {
+  kuratowskiSubgraphs,
+  maximalPlanarSubgraph,
+  skewnessLowerBound,
+  testLevelPlanarity,
+  testOuterplanarity,
+  testPlanarity,
+  testToroidality,
+  testUpwardEmbedding,
+  testUpwardPlanarity,
+  verifyKuratowskiWitness,
+} from '../src/planarity';
+import { incrementalPlanarity } from '../src/planarity/incremental';
+import { planarityLeftRight, planarityWitness } from '../src/planarity/ts';
+import type { PlanarityEdgeSpec } from '../src/planarity/ts';
+import { buildHalfEdgeMesh, genus, validateMesh } from '../src/embedding';
+import type { RotationSystem } from '../src/embedding';
+import type { LevelItem, ToroidalityOptions } from '../src/planarity';
+import { kuratowskiSubdivision, nearPlanar, randomPlanar, torus } from '../src/generators';
 
 const edgeListToGraph = (edges: Array<[number, number]>): GraphBuilder => {
   const builder = new GraphBuilder();
@@ -13,6 +31,37 @@ const edgeListToGraph = (edges: Array<[number, number]>): GraphBuilder => {
   return builder;
 };
 
+const digraph = (n: number, edges: Array<[number, number]>) => {
+  const builder = new GraphBuilder();
+  for (let i = 0; i < n; i += 1) builder.addVertex(i);
+  for (const [u, v] of edges) builder.addEdge(u, v, true);
+  return builder.build();
+};
+
+// Whether any planar rotation system of the (small) digraph passes the fixed-embedding test.
+const upwardByBruteForce = (g: Graph) => {
+  const plain = edgeListToGraph(g.edges().map((e) => [e.u, e.v])).build();
+  const rings = plain.vertices().map((v) => plain.adjacency(v).map((a) => ({ edge: a.edge, to: a.to })));
+  const order: RotationSystem['order'] = [];
+  const search = (v: number): boolean => {
+    if (v === rings.length) {
+      const mesh = buildHalfEdgeMesh(plain, { order });
+      if (mesh.faces.length !== g.edgeCount() - g.vertexCount() + 2) return false;
+      return testUpwardEmbedding(g, mesh).upward;
+    }
+    const [first, ...rest] = rings[v]!;
+    const permute = (head: typeof rest, left: typeof rest): boolean => {
+      if (left.length === 0) {
+        order[v] = first ? [first, ...head] : [];
+        return search(v + 1);
+      }
+      return left.some((ref, i) => permute([...head, ref], left.filter((_, j) => j !== i)));
+    };
+    return permute([], rest);
+  };
+  return search(0);
+};
+
 const gridGraph = (rows: number, cols: number) => {
   const edges: Array<[number, number]> = [];
   const id = (r: number, c: number) => r * cols + c;
@@ -25,6 +74,31 @@ const gridGraph = (rows: number, cols: number) => {
   return edgeListToGraph(edges).build();
 };
 
+const subgraphOf = (graph: Graph, edges: number[]) => {
+  const builder = new GraphBuilder();
+  for (let i = 0; i < graph.vertexCount(); i += 1) builder.addVertex(i);
+  for (const id of edges) builder.addEdge(graph.edge(id).u, graph.edge(id).v, false);
+  return builder.build();
+};
+
+// A random subset of a randomly triangulated polygon on 0..n-1.
+const outerplanarEdges = (n: number, choices: number[]) => {
+  let next = 0;
+  const pick = (bound: number) => (choices[next++ % choices.length] ?? 0) % bound;
+  const edges: Array<[number, number]> = [[0, n - 1]];
+  for (let v = 0; v + 1 < n; v += 1) edges.push([v, v + 1]);
+  const split = (i: number, j: number) => {
+    if (j - i < 2) return;
+    const k = i + 1 + pick(j - i - 1);
+    if (k - i > 1) edges.push([i, k]);
+    if (j - k > 1) edges.push([k, j]);
+    split(i, k);
+    split(k, j);
+  };
+  split(0, n - 1);
+  return edges.filter(() => pick(4) !== 0);
+};
+
 describe('planarity', () => {
   it('detects planar graphs', () => {
     const builder = new GraphBuilder();
@@ -111,6 +185,13 @@ describe('planarity', () => {
     builder.addEdge(a, b, false);
     const g = builder.build();
     expect(testPlanarity(g).planar).toBe(true);
+    // Parallel edges may push the edge count past 3n - 6 without breaking planarity.
+    const doubled = edgeListToGraph([[0, 1], [1, 2], [2, 0], [0, 1], [1, 2], [2, 0]]).build();
+    const doubledResult = testPlanarity(doubled, { backend: 'ts' });
+    expect(doubledResult.planar).toBe(true);
+    if (doubledResult.planar) {
+      expect(validateMesh(buildHalfEdgeMesh(doubled, doubledResult.embedding)).ok).toBe(true);
+    }
 
     const loopBuilder = new GraphBuilder();
     const x = loopBuilder.addVertex('x');
@@ -201,26 +282,572 @@ describe('planarity', () => {
     expect(witness.edges.length).toBe(9);
   });
 
-  it('classifies non-bipartite 6-vertex 9-edge witnesses as K3,3 fallback', () => {
-    const builder = new GraphBuilder();
-    for (let i = 0; i < 6; i += 1) builder.addVertex(i);
-    const left = [0, 1, 2];
-    const right = [3, 4, 5];
-    for (const u of left) {
-      for (const v of right) {
-        if ((u === 2 && v === 5) || (u === 1 && v === 4)) continue;
-        builder.addEdge(u, v, false);
+  it('refuses to extract a witness from a planar graph', () => {
+    const g = gridGraph(3, 3);
+    expect(() =>
+      planarityWitness(
+        g.vertexCount(),
+        g.edges().map((edge) => ({ id: edge.id, u: edge.u, v: edge.v })),
+      ),
+    ).toThrow(/requires a nonplanar graph/);
+  });
+
+  it('returns branch vertices and ordered paths for each witness', () => {
+    for (const backend of ['ts', 'wasm'] as const) {
+      for (const kind of ['K5', 'K33'] as const) {
+        const g = kuratowskiSubdivision(kind, 6, { seed: 11 });
+        const result = testPlanarity(g, { backend });
+        if (result.planar) throw new Error('expected a witness');
+        const { witness } = result;
+        expect(witness.type).toBe(kind === 'K5' ? 'K5' : 'K3,3');
+        expect(witness.paths).toHaveLength(kind === 'K5' ? 10 : 9);
+        expect(witness.edges.slice().sort((a, b) => a - b)).toEqual(g.edges().map((e) => e.id));
+        expect(witness.paths.reduce((acc, path) => acc + path.edges.length, 0)).toBe(g.edgeCount());
+        for (const v of witness.branchVertices) expect(g.adjacency(v).length).toBeGreaterThan(2);
+        expect(verifyKuratowskiWitness(g, witness)).toEqual({ ok: true, errors: [] });
       }
     }
-    // Add same-side edges to break bipartiteness while keeping 9 edges
-    // and avoid degree-2 suppression.
-    builder.addEdge(1, 2, false);
-    builder.addEdge(4, 5, false);
-    const g = builder.build();
-    const witness = planarityWitness(
-      g.vertexCount(),
-      g.edges().map((edge) => ({ id: edge.id, u: edge.u, v: edge.v })),
+  });
+
+  it('extracts verifiable witnesses from near-planar graphs', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 6, max: 14 }),
+        fc.integer({ min: 1, max: 3 }),
+        fc.nat(),
+        (n, extra, seed) => {
+          const g = nearPlanar(n, extra, { seed });
+          const result = testPlanarity(g, { backend: 'ts' });
+          if (result.planar) throw new Error('expected a witness');
+          expect(verifyKuratowskiWitness(g, result.witness).ok).toBe(true);
+          for (const id of result.witness.edges) {
+            const rest = result.witness.edges.filter((other) => other !== id);
+            expect(testPlanarity(subgraphOf(g, rest)).planar).toBe(true);
+          }
+        },
+      ),
+      { numRuns: 25 },
+    );
+  });
+
+  it('reports broken witnesses', () => {
+    const g = kuratowskiSubdivision('K33', 2, { seed: 3 });
+    const result = testPlanarity(g);
+    if (result.planar) throw new Error('expected a witness');
+    const { witness } = result;
+    const swapped = {
+      ...witness,
+      paths: [witness.paths[1]!, witness.paths[0]!, ...witness.paths.slice(2)],
+    };
+    expect(verifyKuratowskiWitness(g, swapped).errors[0]).toMatch(/^Path 0 must join/);
+    const shortened = {
+      ...witness,
+      paths: witness.paths.slice(1),
+      edges: witness.paths.slice(1).flatMap((p) => p.edges),
+    };
+    expect(verifyKuratowskiWitness(g, shortened).errors).toContain(
+      'K3,3 witness needs 9 paths, got 8.',
+    );
+    const relabelled = { ...witness, type: 'K5' as const };
+    expect(verifyKuratowskiWitness(g, relabelled).ok).toBe(false);
+    const long = witness.paths.find((path) => path.edges.length > 1)!;
+    const rerouted = {
+      ...witness,
+      paths: witness.paths.map((path) =>
+        path === long
+          ? { ...path, vertices: [path.ends[0], path.ends[1]], edges: [path.edges[0]!] }
+          : path,
+      ),
+    };
+    expect(verifyKuratowskiWitness(g, rerouted).ok).toBe(false);
+  });
+
+  it('enumerates disjoint Kuratowski subgraphs one at a time', () => {
+    const k5: Array<[number, number]> = [];
+    for (let i = 0; i < 5; i += 1) for (let j = i + 1; j < 5; j += 1) k5.push([i, j]);
+    const shifted = k5.map(([u, v]) => [u + 5, v + 5] as [number, number]);
+    const twoK5 = edgeListToGraph([...k5, ...shifted]).build();
+    const found = [...kuratowskiSubgraphs(twoK5, { distinct: 'vertices' })];
+    expect(found.map((w) => w.type)).toEqual(['K5', 'K5']);
+    expect(found.map((w) => w.branchVertices).sort((a, b) => a[0]! - b[0]!)).toEqual([
+      [0, 1, 2, 3, 4],
+      [5, 6, 7, 8, 9],
+    ]);
+    expect(kuratowskiSubgraphs(twoK5, { limit: 1 }).next().value?.type).toBe('K5');
+    expect([...kuratowskiSubgraphs(twoK5, { limit: 1 })]).toHaveLength(1);
+    expect([...kuratowskiSubgraphs(gridGraph(3, 3))]).toEqual([]);
+    expect(skewnessLowerBound(twoK5)).toBe(2);
+
+    const k6: Array<[number, number]> = [];
+    for (let i = 0; i < 6; i += 1) for (let j = i + 1; j < 6; j += 1) k6.push([i, j]);
+    expect(skewnessLowerBound(edgeListToGraph(k6).build())).toBe(3);
+  });
+
+  it('keeps enumerated witnesses disjoint and below the skewness', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 6, max: 12 }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.nat(),
+        fc.constantFrom('edges' as const, 'vertices' as const),
+        (n, extra, seed, distinct) => {
+          const g = nearPlanar(n, Math.min(extra, 3), { seed });
+          const witnesses = [...kuratowskiSubgraphs(g, { distinct })];
+          expect(witnesses.length).toBeGreaterThan(0);
+          const usedEdges = new Set<number>();
+          const usedVertices = new Set<number>();
+          for (const witness of witnesses) {
+            expect(verifyKuratowskiWitness(g, witness).ok).toBe(true);
+            for (const id of witness.edges) {
+              expect(usedEdges.has(id)).toBe(false);
+              usedEdges.add(id);
+            }
+            if (distinct === 'vertices') {
+              for (const v of witness.vertices) expect(usedVertices.has(v)).toBe(false);
+              for (const v of witness.vertices) usedVertices.add(v);
+            }
+          }
+          const bound = skewnessLowerBound(g, { distinct });
+          expect(bound).toBeGreaterThanOrEqual(witnesses.length);
+          expect(bound).toBeLessThanOrEqual(maximalPlanarSubgraph(g).removed.length);
+        },
+      ),
+      { numRuns: 25 },
+    );
+  });
+
+  it('tests outerplanarity and returns K4 or K2,3 witnesses', () => {
+    const k4 = edgeListToGraph([[0, 1], [0, 2], [0, 3], [1, 2], [1, 3], [2, 3]]).build();
+    const k23 = edgeListToGraph([[0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4]]).build();
+    for (const [g, type] of [[k4, 'K4'], [k23, 'K2,3']] as const) {
+      const result = testOuterplanarity(g);
+      expect(result.outerplanar).toBe(false);
+      if (result.outerplanar) continue;
+      expect(result.witness.type).toBe(type);
+      expect(verifyKuratowskiWitness(g, result.witness)).toEqual({ ok: true, errors: [] });
+    }
+    const k23Result = testOuterplanarity(k23);
+    if (!k23Result.outerplanar) {
+      expect(k23Result.witness.branchVertices).toEqual([0, 1, 2, 3, 4]);
+    }
+    // Wheels are planar but never outerplanar.
+    const rim: Array<[number, number]> = [[0, 1], [1, 2], [2, 3], [3, 0]];
+    const wheel = edgeListToGraph([...rim, [4, 0], [4, 1], [4, 2], [4, 3]]).build();
+    expect(testPlanarity(wheel).planar).toBe(true);
+    const wheelResult = testOuterplanarity(wheel, { backend: 'wasm' });
+    if (wheelResult.outerplanar) throw new Error('expected a witness');
+    expect(verifyKuratowskiWitness(wheel, wheelResult.witness).ok).toBe(true);
+
+    const chord = edgeListToGraph([[0, 1], [1, 2], [2, 3], [3, 0], [0, 2], [2, 2]]).build();
+    const result = testOuterplanarity(chord);
+    expect(result.outerplanar).toBe(true);
+    expect(result.ignoredSelfLoops).toEqual([5]);
+    if (result.outerplanar) {
+      expect(result.boundary.slice().sort()).toEqual([0, 1, 2, 3]);
+      expect(validateMesh(buildHalfEdgeMesh(chord, result.embedding)).ok).toBe(true);
+    }
+    expect(testOuterplanarity(new GraphBuilder().build())).toMatchObject({ boundary: [] });
+  });
+
+  it('agrees with random outerplanar graphs and their extensions', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 3, max: 14 }),
+        fc.array(fc.nat(), { minLength: 1, maxLength: 40 }),
+        fc.array(fc.tuple(fc.nat({ max: 13 }), fc.nat({ max: 13 })), { maxLength: 3 }),
+        (n, choices, extra) => {
+          const edges = outerplanarEdges(n, choices);
+          const base = testOuterplanarity(edgeListToGraph([...edges, [n - 1, n - 1]]).build());
+          expect(base.outerplanar).toBe(true);
+          if (base.outerplanar) expect(new Set(base.boundary).size).toBe(n);
+
+          const more = [...edges, ...extra.map(([u, v]) => [u % n, v % n] as [number, number])];
+          const g = edgeListToGraph(more).build();
+          const result = testOuterplanarity(g);
+          if (result.outerplanar) return;
+          expect(verifyKuratowskiWitness(g, result.witness).ok).toBe(true);
+          for (const id of result.witness.edges) {
+            const rest = result.witness.edges.filter((other) => other !== id);
+            expect(testOuterplanarity(subgraphOf(g, rest)).outerplanar).toBe(true);
+          }
+        },
+      ),
+      { numRuns: 40 },
+    );
+  });
+
+  it('returns planar rotation systems when lowpt2 comes from a child edge', () => {
+    const edges: Array<[number, number]> = [
+      [15, 7], [15, 18], [16, 6], [18, 17], [5, 8], [0, 7], [7, 16], [17, 8], [20, 1], [3, 26],
+      [24, 5], [18, 0], [14, 20], [1, 15], [12, 14], [6, 24], [12, 3], [7, 5], [6, 26],
+    ];
+    const g = edgeListToGraph(edges).build();
+    const result = testPlanarity(g, { backend: 'ts' });
+    expect(result.planar).toBe(true);
+    if (!result.planar) return;
+    const mesh = buildHalfEdgeMesh(g, result.embedding);
+    const used = new Set(edges.flat());
+    // Connected, so Euler's formula must hold for the embedding.
+    expect(used.size - edges.length + mesh.faces.length).toBe(2);
+  });
+
+  it('extracts maximal planar subgraphs with each strategy', () => {
+    const k5: Array<[number, number]> = [];
+    for (let i = 0; i < 5; i += 1) for (let j = i + 1; j < 5; j += 1) k5.push([i, j]);
+    const k33: Array<[number, number]> = [];
+    for (let i = 0; i < 3; i += 1) for (let j = 3; j < 6; j += 1) k33.push([i, j]);
+    for (const edges of [k5, k33, [...k5, [4, 4], [0, 1]] as Array<[number, number]>]) {
+      const g = edgeListToGraph(edges).build();
+      for (const strategy of ['incremental', 'random', 'cactus'] as const) {
+        const result = maximalPlanarSubgraph(g, { strategy });
+        expect(result.strategy).toBe(strategy);
+        expect(result.removed.length).toBe(1);
+        expect([...result.kept, ...result.removed].sort((a, b) => a - b)).toEqual(g.edges().map((e) => e.id));
+      }
+    }
+    // Planar inputs keep everything after a handful of tests.
+    const grid = maximalPlanarSubgraph(gridGraph(12, 12));
+    expect(grid.removed).toEqual([]);
+    expect(grid.planarityTests).toBeLessThan(12);
+  });
+
+  it('keeps random planar subgraphs maximal', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 5, max: 11 }),
+        fc.array(fc.tuple(fc.nat({ max: 10 }), fc.nat({ max: 10 })), { minLength: 10, maxLength: 40 }),
+        (n, raw) => {
+          const builder = new GraphBuilder();
+          for (let i = 0; i < n; i += 1) builder.addVertex(i);
+          const pairs = new Set<number>();
+          for (const [a, b] of raw) {
+            const [u, v] = [Math.min(a % n, b % n), Math.max(a % n, b % n)];
+            if (u === v || pairs.has(u * n + v)) continue;
+            pairs.add(u * n + v);
+            builder.addEdge(u, v, false);
+          }
+          const g = builder.build();
+          const inOrder = maximalPlanarSubgraph(g);
+          for (const strategy of ['incremental', 'random', 'cactus'] as const) {
+            const result = maximalPlanarSubgraph(g, { strategy, seed: n });
+            expect(testPlanarity(subgraphOf(g, result.kept)).planar).toBe(true);
+            for (const id of result.removed) {
+              expect(testPlanarity(subgraphOf(g, [...result.kept, id])).planar).toBe(false);
+            }
+            if (strategy === 'random') expect(result.removed.length).toBeLessThanOrEqual(inOrder.removed.length);
+          }
+        },
+      ),
+      { numRuns: 40 },
+    );
+  });
+
+  it('agrees with the left-right test while inserting edges incrementally', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 5, max: 12 }),
+        fc.array(fc.tuple(fc.nat({ max: 11 }), fc.nat({ max: 11 })), { minLength: 5, maxLength: 45 }),
+        fc.integer({ min: 1, max: 4 }),
+        (n, raw, batch) => {
+          const tester = incrementalPlanarity(n);
+          // The left-right test expects loops to be stripped, as testPlanarity does.
+          const planarWith = (specs: PlanarityEdgeSpec[]) => planarityLeftRight(n, specs.filter((e) => e.u !== e.v)) !== null;
+          const kept: PlanarityEdgeSpec[] = [];
+          const specs = raw.map(([a, b], id) => ({ id, u: a % n, v: b % n }));
+          for (let i = 0; i < specs.length; i += batch) {
+            const run = specs.slice(i, i + batch);
+            const planar = planarWith([...kept, ...run]);
+            expect(tester.planarWith(run)).toBe(planar);
+            for (const spec of planar ? run : run.slice(0, 1)) {
+              if (!planarWith([...kept, spec])) continue;
+              kept.push(spec);
+              tester.add(spec);
+            }
+            for (const spec of kept) expect(tester.connected(spec.u, spec.v)).toBe(true);
+          }
+        },
+      ),
+      { numRuns: 60 },
+    );
+  });
+
+  it('tests upward planarity of a fixed embedding', () => {
+    // Diamond 0 -> {1, 2} -> 3 with the chord 1 -> 2, drawn with 0 at the bottom and 3 on top.
+    const g = digraph(4, [[0, 1], [0, 2], [1, 3], [2, 3], [1, 2]]);
+    const plain = edgeListToGraph(g.edges().map((e) => [e.u, e.v])).build();
+    const order: RotationSystem['order'] = [
+      [{ edge: 1, to: 2 }, { edge: 0, to: 1 }],
+      [{ edge: 4, to: 2 }, { edge: 2, to: 3 }, { edge: 0, to: 0 }],
+      [{ edge: 3, to: 3 }, { edge: 4, to: 1 }, { edge: 1, to: 0 }],
+      [{ edge: 2, to: 1 }, { edge: 3, to: 2 }],
+    ];
+    const mesh = buildHalfEdgeMesh(plain, { order });
+    const result = testUpwardEmbedding(g, mesh);
+    expect(result.upward).toBe(true);
+    if (!result.upward) return;
+    // One large angle at the source and one at the sink, both in the only face holding both.
+    expect(result.largeAngles.map((h) => mesh.origin[h]).sort()).toEqual([0, 3]);
+    expect(result.largeAngles.every((h) => mesh.face[h] === result.outerFace)).toBe(true);
+    expect(mesh.faces[result.outerFace]).toHaveLength(4);
+    // The triangle 0 1 2 misses the sink, so it cannot be the outer face.
+    const triangleFace = mesh.face[0]!;
+    expect(testUpwardEmbedding(g, mesh, { outerFace: triangleFace })).toEqual({
+      upward: false,
+      reason: 'no-upward-embedding',
+    });
+
+    // Around 0 the edges go out, in, out, in: not bimodal.
+    const star = digraph(5, [[0, 1], [2, 0], [0, 3], [4, 0]]);
+    const starPlain = edgeListToGraph(star.edges().map((e) => [e.u, e.v])).build();
+    const ring = (graph: Graph) => (v: number) =>
+      graph.adjacency(v).map((a) => ({ edge: a.edge, to: a.to }));
+    const starMesh = buildHalfEdgeMesh(starPlain, { order: starPlain.vertices().map(ring(starPlain)) });
+    expect(testUpwardEmbedding(star, starMesh)).toEqual({ upward: false, reason: 'not-bimodal' });
+
+    const cycle = digraph(3, [[0, 1], [1, 2], [2, 0]]);
+    const triangle = edgeListToGraph([[0, 1], [1, 2], [2, 0]]).build();
+    const cycleMesh = buildHalfEdgeMesh(triangle, { order: triangle.vertices().map(ring(triangle)) });
+    expect(testUpwardEmbedding(cycle, cycleMesh)).toEqual({ upward: false, reason: 'cyclic' });
+    expect(() => testUpwardEmbedding(triangle, cycleMesh)).toThrow(/every edge to be directed/);
+    expect(() => testUpwardEmbedding(g, cycleMesh)).toThrow(/does not match/);
+  });
+
+  it('decides upward planarity of single-source digraphs', () => {
+    // Transitive tournament on five vertices minus 3 -> 4: planar, but not upward planar.
+    const tournament: Array<[number, number]> = [];
+    for (let u = 0; u < 5; u += 1) for (let v = u + 1; v < 5; v += 1) tournament.push([u, v]);
+    const notUpward = digraph(5, tournament.filter(([u, v]) => !(u === 3 && v === 4)));
+    expect(testPlanarity(notUpward).planar).toBe(true);
+    expect(testUpwardPlanarity(notUpward)).toEqual({ upward: false, reason: 'no-upward-embedding' });
+    expect(testUpwardPlanarity(digraph(5, tournament))).toEqual({ upward: false, reason: 'nonplanar' });
+    expect(testUpwardPlanarity(digraph(3, [[0, 1], [1, 2], [2, 1]]))).toMatchObject({ reason: 'cyclic' });
+    expect(() => testUpwardPlanarity(digraph(3, [[0, 2], [1, 2]]))).toThrow(/single-source/);
+
+    // Two sinks fed by the same pair of vertices nest inside each other; adding one vertex above
+    // both sinks gives K3,3, so upward planarity is not the planarity of that augmentation.
+    const nested = digraph(5, [[0, 1], [0, 2], [1, 3], [2, 3], [1, 4], [2, 4]]);
+    const result = testUpwardPlanarity(nested);
+    expect(result.upward).toBe(true);
+    if (result.upward) {
+      expect(testUpwardEmbedding(nested, result.mesh, { outerFace: result.outerFace }).upward).toBe(true);
+    }
+
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 4, max: 7 }),
+        fc.array(fc.boolean(), { minLength: 21, maxLength: 21 }),
+        fc.array(fc.nat(), { minLength: 7, maxLength: 7 }),
+        (n, bits, parents) => {
+          const edges: Array<[number, number]> = [];
+          for (let v = 1; v < n; v += 1) {
+            for (let u = 0; u < v; u += 1) if (bits[(v * (v - 1)) / 2 + u]) edges.push([u, v]);
+            if (!edges.some(([, w]) => w === v)) edges.push([parents[v]! % v, v]);
+          }
+          const g = digraph(n, edges);
+          // Keep the brute force to a few thousand rotation systems.
+          const factorial = (k: number): number => (k <= 1 ? 1 : k * factorial(k - 1));
+          const rotations = g.vertices().reduce((acc, v) => acc * factorial(g.adjacency(v).length - 1), 1);
+          if (rotations > 3000) return;
+          const result = testUpwardPlanarity(g);
+          expect(result.upward).toBe(upwardByBruteForce(g));
+          if (result.upward) {
+            expect(testUpwardEmbedding(g, result.mesh, { outerFace: result.outerFace }).upward).toBe(true);
+          }
+        },
+      ),
+      { numRuns: 60 },
+    );
+  });
+
+  it('settles single-source digraphs with many block embeddings', () => {
+    // Breadth-first orientations of random planar graphs whose blocks have thousands of
+    // embeddings; seed 16 gives an upward planar digraph and seed 18 does not.
+    const breadthFirst = (seed: number) => {
+      const g = randomPlanar(46, { seed, edges: 61 });
+      const rank: number[] = Array(46).fill(-1);
+      const queue = [0];
+      rank[0] = 0;
+      for (let i = 0; i < queue.length; i += 1) {
+        for (const adj of g.adjacency(queue[i]!)) {
+          if (rank[adj.to] !== -1) continue;
+          rank[adj.to] = queue.length;
+          queue.push(adj.to);
+        }
+      }
+      return digraph(
+        46,
+        g.edges().map((e): [number, number] => (rank[e.u]! < rank[e.v]! ? [e.u, e.v] : [e.v, e.u])),
+      );
+    };
+    const upward = breadthFirst(16);
+    const result = testUpwardPlanarity(upward);
+    expect(result.upward).toBe(true);
+    if (result.upward) {
+      expect(testUpwardEmbedding(upward, result.mesh, { outerFace: result.outerFace }).upward).toBe(true);
+    }
+    expect(testUpwardPlanarity(breadthFirst(18))).toEqual({ upward: false, reason: 'no-upward-embedding' });
+  });
+
+  it('finds crossing-free level orders exactly when some exist', () => {
+    const permutations = (items: number[]): number[][] =>
+      items.length <= 1
+        ? [items]
+        : items.flatMap((x, i) => permutations(items.filter((_, j) => j !== i)).map((p) => [x, ...p]));
+    // Both ends of every segment between neighboring levels, with long edges split per level.
+    const segmentsOf = (g: Graph, level: number[]) => {
+      const key = (item: LevelItem, l: number) => ('vertex' in item ? `v${item.vertex}` : `e${item.edge}:${l}`);
+      const segments: Array<{ level: number; low: string; high: string }> = [];
+      for (const edge of g.edges()) {
+        const [low, high] = level[edge.u]! < level[edge.v]! ? [edge.u, edge.v] : [edge.v, edge.u];
+        for (let l = level[low]!; l < level[high]!; l += 1) {
+          segments.push({
+            level: l,
+            low: l === level[low] ? `v${low}` : key({ edge: edge.id }, l),
+            high: l + 1 === level[high] ? `v${high}` : key({ edge: edge.id }, l + 1),
+          });
+        }
+      }
+      const crossings = (orders: string[][]) => {
+        const at = new Map(orders.flatMap((row) => row.map((name, i) => [name, i] as const)));
+        let count = 0;
+        segments.forEach((a, i) =>
+          segments.slice(i + 1).forEach((b) => {
+            if (a.level !== b.level || a.low === b.low || a.high === b.high) return;
+            if ((at.get(a.low)! - at.get(b.low)!) * (at.get(a.high)! - at.get(b.high)!) < 0) count += 1;
+          }),
+        );
+        return count;
+      };
+      return { key, crossings };
+    };
+
+    // K2,2 across two levels always crosses; moving one vertex up a level frees it.
+    const k22 = edgeListToGraph([[0, 2], [0, 3], [1, 2], [1, 3]]).build();
+    expect(testLevelPlanarity(k22, [0, 0, 1, 1])).toEqual({ levelPlanar: false });
+    const lifted = testLevelPlanarity(k22, [0, 0, 1, 2]);
+    expect(lifted.levelPlanar).toBe(true);
+    if (lifted.levelPlanar) {
+      expect(lifted.orders[1]).toHaveLength(3);
+      expect(lifted.orders[1]!.filter((item) => 'edge' in item)).toHaveLength(2);
+    }
+    expect(() => testLevelPlanarity(k22, [0, 0, 1, 0])).toThrow(/different levels/);
+    expect(() => testLevelPlanarity(k22, [0, 0, 1])).toThrow(/integer level/);
+
+    let negatives = 0;
+    fc.assert(
+      fc.property(
+        fc.array(fc.nat({ max: 2 }), { minLength: 2, maxLength: 8 }),
+        fc.array(fc.tuple(fc.nat(), fc.nat()), { minLength: 4, maxLength: 14 }),
+        (level, pairs) => {
+          const n = level.length;
+          const edges = pairs
+            .map(([a, b]): [number, number] => [a % n, b % n])
+            .filter(([u, v]) => level[u] !== level[v]);
+          const g = digraph(n, edges);
+          const result = testLevelPlanarity(g, level);
+          const { key, crossings } = segmentsOf(g, level);
+          if (result.levelPlanar) {
+            const orders = result.orders.map((row, l) => row.map((item) => key(item, l)));
+            expect(crossings(orders)).toBe(0);
+            return;
+          }
+          negatives += 1;
+          // Brute force over every order of every level, dummies included.
+          const rows: string[][] = Array.from({ length: Math.max(...level) + 1 }, () => []);
+          level.forEach((l, v) => rows[l]!.push(`v${v}`));
+          for (const edge of g.edges()) {
+            const [a, b] = [level[edge.u]!, level[edge.v]!].sort((x, y) => x - y);
+            for (let l = a! + 1; l < b!; l += 1) rows[l]!.push(key({ edge: edge.id }, l));
+          }
+          const choices = rows.map((row) => permutations(row.map((_, i) => i)));
+          if (choices.reduce((acc, c) => acc * c.length, 1) > 3000) return;
+          const search = (l: number, chosen: string[][]): boolean =>
+            l === rows.length
+              ? crossings(chosen) === 0
+              : choices[l]!.some((p) => search(l + 1, [...chosen, p.map((i) => rows[l]![i]!)]));
+          expect(search(0, [])).toBe(false);
+        },
+      ),
+      { numRuns: 200, seed: 7 },
+    );
+    expect(negatives).toBeGreaterThan(10);
+  });
+
+  it('finds toroidal embeddings and rules out graphs beyond the torus', () => {
+    const complete = (n: number) =>
+      edgeListToGraph(
+        Array.from({ length: n }, (_, u) =>
+          Array.from({ length: n - u - 1 }, (_, i): [number, number] => [u, u + i + 1]),
+        ).flat(),
+      ).build();
+    const bipartite = (a: number, b: number) =>
+      edgeListToGraph(
+        Array.from({ length: a * b }, (_, i): [number, number] => [i % a, a + Math.floor(i / a)]),
+      ).build();
+    const genusOf = (g: Graph, options: ToroidalityOptions = {}) => {
+      const result = testToroidality(g, options);
+      if (!result.toroidal) return result;
+      expect(genus(buildHalfEdgeMesh(g, result.embedding))).toBe(result.genus);
+      return result.genus;
+    };
+
+    for (const g of [complete(5), bipartite(3, 3), complete(7), bipartite(4, 4), torus(3, 4)]) {
+      expect(genusOf(g)).toBe(1);
+      expect(genusOf(g, { method: 'exact' })).toBe(1);
+    }
+    expect(genusOf(complete(6), { method: 'heuristic', seed: 3 })).toBe(1);
+    expect(genusOf(gridGraph(3, 3))).toBe(0);
+    expect(genusOf(complete(8))).toEqual({ toroidal: false, exact: true });
+    expect(genusOf(bipartite(4, 5), { method: 'exact' })).toEqual({ toroidal: false, exact: true });
+    expect(genusOf(bipartite(3, 7), { maxNodes: 100, maxSteps: 50 })).toEqual({
+      toroidal: false,
+      exact: false,
+    });
+
+    // K5 and K3,3 glued at a vertex, and the two apart: genus adds up over blocks.
+    const k5: Array<[number, number]> = complete(5)
+      .edges()
+      .map((e) => [e.u, e.v]);
+    const k33 = (at: number): Array<[number, number]> =>
+      bipartite(3, 3)
+        .edges()
+        .map((e) => [e.u + at, e.v + at]);
+    expect(genusOf(edgeListToGraph([...k5, ...k33(4)]).build())).toEqual({
+      toroidal: false,
+      exact: true,
+    });
+    expect(genusOf(edgeListToGraph([...k5, ...k33(5)]).build())).toEqual({
+      toroidal: false,
+      exact: true,
+    });
+    // One nonplanar block with planar blocks, a bridge and self-loops hanging off it.
+    const mixed = edgeListToGraph([...k5, [4, 5], [5, 6], [6, 7], [7, 5], [6, 6], [0, 0]]).build();
+    expect(genusOf(mixed)).toBe(1);
+  });
+
+  it('agrees between exact and heuristic toroidal searches on small graphs', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 5, max: 8 }),
+        fc.array(fc.tuple(fc.nat(), fc.nat()), { minLength: 8, maxLength: 20 }),
+        (n, pairs) => {
+          const g = edgeListToGraph(
+            pairs.map(([a, b]): [number, number] => [a % n, b % n]).concat([[n - 1, n - 1]]),
+          ).build();
+          const exact = testToroidality(g, { method: 'exact' });
+          const heuristic = testToroidality(g, { method: 'heuristic' });
+          expect(exact.toroidal && exact.genus === 0).toBe(testPlanarity(g).planar);
+          if (heuristic.toroidal) expect(exact.toroidal).toBe(true);
+          for (const result of [exact, heuristic]) {
+            if (result.toroidal) {
+              expect(genus(buildHalfEdgeMesh(g, result.embedding))).toBe(result.genus);
+            } else {
+              expect(result.exact || result === heuristic).toBe(true);
+            }
+          }
+        },
+      ),
+      { numRuns: 60, seed: 11 },
     );
-    expect(witness.type).toBe('K3,3');
   });
 });
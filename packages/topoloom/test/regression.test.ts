@@ -4,6 +4,7 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 
 import { Graph } from '../src/graph';
+import { buildHalfEdgeMesh } from '../src/embedding';
 import { testPlanarity } from '../src/planarity';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -27,4 +28,14 @@ describe('regression corpus', () => {
     expect(testPlanarity(k5).planar).toBe(false);
     expect(testPlanarity(k33).planar).toBe(false);
   });
+
+  it('embeds a planar graph whose lowpt2 comes from a child edge', () => {
+    // The left-right test used to keep the parent's lowpt2 when a child lowered its lowpt, and
+    // rejected this graph as nonplanar.
+    const graph = loadGraph('lowpt2-child.json');
+    const result = testPlanarity(graph, { backend: 'ts' });
+    if (!result.planar) throw new Error('expected planar');
+    const mesh = buildHalfEdgeMesh(graph, result.embedding);
+    expect(graph.vertexCount() - graph.edgeCount() + mesh.faces.length).toBe(2);
+  });
 });
@@ -12,6 +12,8 @@ export default defineConfig({
     'src/order/index.ts',
     'src/flow/index.ts',
     'src/layout/index.ts',
+    'src/io/index.ts',
+    'src/generators/index.ts',
   ],
   format: ['esm'],
   dts: true,